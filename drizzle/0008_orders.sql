@@ -0,0 +1,39 @@
+-- Migration: Add orders and order_items tables
+-- Created: 2026-10-18
+-- Purpose: Record every cart checkout on our side, not only in Stripe
+
+CREATE TABLE IF NOT EXISTS "orders" (
+	"id" text PRIMARY KEY NOT NULL,
+	"cart_id" text,
+	"status" text DEFAULT 'pending' NOT NULL,
+	"stripe_session_id" text,
+	"stripe_payment_intent_id" text,
+	"customer_email" text,
+	"customer_name" text,
+	"shipping_address" json,
+	"subtotal" numeric(10, 2) NOT NULL,
+	"total" numeric(10, 2) NOT NULL,
+	"currency" text DEFAULT 'usd' NOT NULL,
+	"paid_at" timestamp,
+	"created_at" timestamp DEFAULT now(),
+	"updated_at" timestamp DEFAULT now(),
+	CONSTRAINT "orders_stripe_session_id_unique" UNIQUE("stripe_session_id")
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "order_items" (
+	"id" text PRIMARY KEY NOT NULL,
+	"order_id" text NOT NULL,
+	"product_id" text NOT NULL,
+	"product_name" text NOT NULL,
+	"size" text,
+	"quantity" integer DEFAULT 1 NOT NULL,
+	"unit_price" numeric(10, 2) NOT NULL,
+	"line_total" numeric(10, 2) NOT NULL,
+	"created_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+ALTER TABLE "order_items" ADD CONSTRAINT "order_items_order_id_orders_id_fk" FOREIGN KEY ("order_id") REFERENCES "public"."orders"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "order_items" ADD CONSTRAINT "order_items_product_id_products_id_fk" FOREIGN KEY ("product_id") REFERENCES "public"."products"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "orders_status_idx" ON "orders" USING btree ("status");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "orders_created_at_idx" ON "orders" USING btree ("created_at");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "order_items_order_idx" ON "order_items" USING btree ("order_id");
@@ -0,0 +1,20 @@
+-- Migration: Add stock_reservations table
+-- Created: 2026-10-18
+-- Purpose: Hold stock for cart items for a few minutes so two buyers can't check out the same piece
+
+CREATE TABLE IF NOT EXISTS "stock_reservations" (
+	"id" text PRIMARY KEY NOT NULL,
+	"cart_id" text NOT NULL,
+	"product_id" text NOT NULL,
+	"size" text,
+	"quantity" integer NOT NULL,
+	"expires_at" timestamp NOT NULL,
+	"created_at" timestamp DEFAULT now(),
+	"updated_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+ALTER TABLE "stock_reservations" ADD CONSTRAINT "stock_reservations_cart_id_carts_id_fk" FOREIGN KEY ("cart_id") REFERENCES "public"."carts"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "stock_reservations" ADD CONSTRAINT "stock_reservations_product_id_products_id_fk" FOREIGN KEY ("product_id") REFERENCES "public"."products"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "stock_reservations_product_idx" ON "stock_reservations" USING btree ("product_id","size");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "stock_reservations_cart_idx" ON "stock_reservations" USING btree ("cart_id");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "stock_reservations_expires_at_idx" ON "stock_reservations" USING btree ("expires_at");
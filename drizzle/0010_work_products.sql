@@ -0,0 +1,7 @@
+-- Migration: Link works to shop products
+-- Created: 2026-10-18
+-- Purpose: Let a work be bought from its detail page, and mark it sold when the product sells out
+
+ALTER TABLE "works" ADD COLUMN IF NOT EXISTS "product_id" text;--> statement-breakpoint
+ALTER TABLE "works" ADD COLUMN IF NOT EXISTS "sold" boolean DEFAULT false;--> statement-breakpoint
+ALTER TABLE "works" ADD CONSTRAINT "works_product_id_products_id_fk" FOREIGN KEY ("product_id") REFERENCES "public"."products"("id") ON DELETE set null ON UPDATE no action;
@@ -0,0 +1,30 @@
+-- Migration: Add promotions (discount codes and time-boxed sales)
+-- Created: 2026-10-18
+-- Purpose: Percentage/fixed discounts scoped to a product, a category or the whole cart
+
+CREATE TABLE IF NOT EXISTS "promotions" (
+	"id" text PRIMARY KEY NOT NULL,
+	"code" text,
+	"description" text,
+	"discount_type" text NOT NULL,
+	"amount" numeric(10, 2) NOT NULL,
+	"product_id" text,
+	"category_id" text,
+	"usage_limit" integer,
+	"times_redeemed" integer DEFAULT 0 NOT NULL,
+	"starts_at" timestamp,
+	"ends_at" timestamp,
+	"active" boolean DEFAULT true NOT NULL,
+	"created_at" timestamp DEFAULT now(),
+	"updated_at" timestamp DEFAULT now(),
+	"deleted_at" timestamp,
+	CONSTRAINT "promotions_code_unique" UNIQUE("code")
+);
+--> statement-breakpoint
+ALTER TABLE "promotions" ADD CONSTRAINT "promotions_product_id_products_id_fk" FOREIGN KEY ("product_id") REFERENCES "public"."products"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "promotions" ADD CONSTRAINT "promotions_category_id_categories_id_fk" FOREIGN KEY ("category_id") REFERENCES "public"."categories"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "carts" ADD COLUMN IF NOT EXISTS "promotion_code" text;--> statement-breakpoint
+ALTER TABLE "orders" ADD COLUMN IF NOT EXISTS "promotion_id" text;--> statement-breakpoint
+ALTER TABLE "orders" ADD COLUMN IF NOT EXISTS "promotion_code" text;--> statement-breakpoint
+ALTER TABLE "orders" ADD COLUMN IF NOT EXISTS "discount_total" numeric(10, 2) DEFAULT '0' NOT NULL;--> statement-breakpoint
+ALTER TABLE "orders" ADD CONSTRAINT "orders_promotion_id_promotions_id_fk" FOREIGN KEY ("promotion_id") REFERENCES "public"."promotions"("id") ON DELETE set null ON UPDATE no action;
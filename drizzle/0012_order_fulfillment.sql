@@ -0,0 +1,13 @@
+-- Migration: Track shipping and refunds on orders
+-- Created: 2026-10-18
+-- Purpose: Tracking number and ship date for fulfilled orders, running refund total for partial refunds
+
+ALTER TABLE "orders" ADD COLUMN IF NOT EXISTS "tracking_number" text;
+--> statement-breakpoint
+ALTER TABLE "orders" ADD COLUMN IF NOT EXISTS "tracking_carrier" text;
+--> statement-breakpoint
+ALTER TABLE "orders" ADD COLUMN IF NOT EXISTS "shipped_at" timestamp;
+--> statement-breakpoint
+ALTER TABLE "orders" ADD COLUMN IF NOT EXISTS "refunded_total" numeric(10, 2) DEFAULT '0' NOT NULL;
+--> statement-breakpoint
+ALTER TABLE "orders" ADD COLUMN IF NOT EXISTS "refunded_at" timestamp;
@@ -0,0 +1,23 @@
+-- Migration: Add mail outbox
+-- Created: 2026-10-18
+-- Purpose: Queue transactional email (password reset, order notices) so failed sends are retried
+
+CREATE TABLE IF NOT EXISTS "mail_outbox" (
+	"id" text PRIMARY KEY NOT NULL,
+	"template" text NOT NULL,
+	"to_address" text NOT NULL,
+	"subject" text NOT NULL,
+	"html" text NOT NULL,
+	"text" text NOT NULL,
+	"status" text DEFAULT 'pending' NOT NULL,
+	"attempts" integer DEFAULT 0 NOT NULL,
+	"next_attempt_at" timestamp DEFAULT now(),
+	"last_error" text,
+	"transport" text,
+	"provider_message_id" text,
+	"sent_at" timestamp,
+	"created_at" timestamp DEFAULT now(),
+	"updated_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "mail_outbox_due_idx" ON "mail_outbox" USING btree ("status","next_attempt_at");
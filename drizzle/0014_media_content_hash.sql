@@ -0,0 +1,7 @@
+-- Migration: Add media content hash
+-- Created: 2026-10-18
+-- Purpose: Detect re-uploads of a file that is already in the media library
+
+ALTER TABLE "media" ADD COLUMN IF NOT EXISTS "content_hash" text;
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "media_content_hash_idx" ON "media" USING btree ("content_hash");
@@ -0,0 +1,28 @@
+-- Migration: Add media processing jobs
+-- Created: 2026-10-18
+-- Purpose: Process uploaded images and videos in a background worker instead of inside the upload request
+
+ALTER TABLE "media" ADD COLUMN IF NOT EXISTS "status" text DEFAULT 'ready' NOT NULL;
+--> statement-breakpoint
+ALTER TABLE "media" ADD COLUMN IF NOT EXISTS "original_path" text;
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "media_jobs" (
+	"id" text PRIMARY KEY NOT NULL,
+	"media_id" text NOT NULL,
+	"type" text DEFAULT 'process' NOT NULL,
+	"status" text DEFAULT 'pending' NOT NULL,
+	"progress" integer DEFAULT 0 NOT NULL,
+	"attempts" integer DEFAULT 0 NOT NULL,
+	"next_attempt_at" timestamp DEFAULT now(),
+	"last_error" text,
+	"started_at" timestamp,
+	"completed_at" timestamp,
+	"created_at" timestamp DEFAULT now(),
+	"updated_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+ALTER TABLE "media_jobs" ADD CONSTRAINT "media_jobs_media_id_media_id_fk" FOREIGN KEY ("media_id") REFERENCES "public"."media"("id") ON DELETE cascade ON UPDATE no action;
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "media_jobs_due_idx" ON "media_jobs" USING btree ("status","next_attempt_at");
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "media_jobs_media_idx" ON "media_jobs" USING btree ("media_id");
@@ -0,0 +1,9 @@
+-- Migration: Add media focal points and named crops
+-- Created: 2026-10-18
+-- Purpose: Let admins mark the subject of an image and save square, 3:4 and 16:9 crops of it
+
+ALTER TABLE "media" ADD COLUMN IF NOT EXISTS "focal_x" real;
+--> statement-breakpoint
+ALTER TABLE "media" ADD COLUMN IF NOT EXISTS "focal_y" real;
+--> statement-breakpoint
+ALTER TABLE "media" ADD COLUMN IF NOT EXISTS "crops" json;
@@ -0,0 +1,7 @@
+-- Migration: Add HLS playlists and poster frames to media
+-- Created: 2026-10-18
+-- Purpose: Stream processed videos with adaptive bitrate and show a poster while they load
+
+ALTER TABLE "media" ADD COLUMN IF NOT EXISTS "hls_url" text;
+--> statement-breakpoint
+ALTER TABLE "media" ADD COLUMN IF NOT EXISTS "poster_url" text;
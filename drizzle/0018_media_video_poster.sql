@@ -0,0 +1,9 @@
+-- Migration: Add poster timestamp, duration and thumbnail sprite to media
+-- Created: 2026-10-18
+-- Purpose: Give videos a chosen poster frame, placeholders and a scrubbing strip
+
+ALTER TABLE "media" ADD COLUMN IF NOT EXISTS "poster_time" real;
+--> statement-breakpoint
+ALTER TABLE "media" ADD COLUMN IF NOT EXISTS "duration" real;
+--> statement-breakpoint
+ALTER TABLE "media" ADD COLUMN IF NOT EXISTS "sprite" json;
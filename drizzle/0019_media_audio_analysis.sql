@@ -0,0 +1,7 @@
+-- Migration: Add waveform peaks and loudness to media
+-- Created: 2026-10-18
+-- Purpose: Draw a waveform scrubber and normalize volume between tracks in the player
+
+ALTER TABLE "media" ADD COLUMN IF NOT EXISTS "waveform" json;
+--> statement-breakpoint
+ALTER TABLE "media" ADD COLUMN IF NOT EXISTS "loudness" real;
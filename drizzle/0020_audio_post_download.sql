@@ -0,0 +1,5 @@
+-- Migration: Add allow_download to audio posts
+-- Created: 2026-10-18
+-- Purpose: Let a post offer its lossless master for download while the player streams AAC/Opus
+
+ALTER TABLE "audio_posts" ADD COLUMN IF NOT EXISTS "allow_download" boolean DEFAULT false NOT NULL;
@@ -0,0 +1,27 @@
+-- Migration: Add tracklists to audio posts
+-- Created: 2026-10-18
+-- Purpose: Publish EPs and mixtapes as one release with ordered tracks; each existing post becomes a one-track release.
+-- audio_posts.audio_file stays (mirroring track 1) until the backfill is verified; a later migration drops it.
+
+CREATE TABLE IF NOT EXISTS "audio_post_tracks" (
+	"id" text PRIMARY KEY NOT NULL,
+	"audio_post_id" text NOT NULL,
+	"track_number" integer NOT NULL,
+	"title" text NOT NULL,
+	"artist" text,
+	"audio_file" text NOT NULL,
+	"duration" integer,
+	"created_at" timestamp DEFAULT now(),
+	"updated_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+ALTER TABLE "audio_post_tracks" ADD CONSTRAINT "audio_post_tracks_audio_post_id_audio_posts_id_fk" FOREIGN KEY ("audio_post_id") REFERENCES "public"."audio_posts"("id") ON DELETE cascade ON UPDATE no action;
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "audio_post_tracks_post_idx" ON "audio_post_tracks" USING btree ("audio_post_id","track_number");
+--> statement-breakpoint
+INSERT INTO "audio_post_tracks" ("id", "audio_post_id", "track_number", "title", "audio_file", "duration")
+SELECT p."id" || '-1', p."id", 1, p."title", p."audio_file", round(m."duration")::integer
+FROM "audio_posts" p
+LEFT JOIN "media" m ON m."url" = p."audio_file" OR m."variants"->'master'->>'url' = p."audio_file"
+WHERE p."audio_file" IS NOT NULL
+ON CONFLICT ("id") DO NOTHING;
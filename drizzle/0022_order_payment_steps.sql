@@ -0,0 +1,16 @@
+-- Migration: Record each step of completing a paid order
+-- Created: 2026-10-18
+-- Purpose: A retried checkout webhook finishes what a failed delivery left undone (stock, promotion, cart) without repeating what it did
+
+ALTER TABLE "orders" ADD COLUMN IF NOT EXISTS "promotion_redeemed_at" timestamp;
+--> statement-breakpoint
+ALTER TABLE "orders" ADD COLUMN IF NOT EXISTS "fulfilled_at" timestamp;
+--> statement-breakpoint
+ALTER TABLE "order_items" ADD COLUMN IF NOT EXISTS "stock_decremented_at" timestamp;
+--> statement-breakpoint
+UPDATE "orders" SET "fulfilled_at" = COALESCE("paid_at", "updated_at"), "promotion_redeemed_at" = CASE WHEN "promotion_id" IS NULL THEN NULL ELSE COALESCE("paid_at", "updated_at") END
+WHERE "status" IN ('paid', 'shipped', 'refunded') AND "fulfilled_at" IS NULL;
+--> statement-breakpoint
+UPDATE "order_items" SET "stock_decremented_at" = o."fulfilled_at"
+FROM "orders" o
+WHERE o."id" = "order_items"."order_id" AND o."fulfilled_at" IS NOT NULL AND "order_items"."stock_decremented_at" IS NULL;
@@ -0,0 +1,5 @@
+-- Migration: Add a dedupe key to the mail outbox
+-- Created: 2026-10-18
+-- Purpose: A refund seen by both the admin route and the charge.refunded webhook queues one email, not two
+
+ALTER TABLE "mail_outbox" ADD COLUMN IF NOT EXISTS "dedupe_key" text CONSTRAINT "mail_outbox_dedupe_key_unique" UNIQUE;
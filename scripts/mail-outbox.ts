@@ -0,0 +1,32 @@
+#!/usr/bin/env tsx
+/**
+ * Send mail waiting in the outbox
+ *
+ * Delivers new messages and retries failed ones whose backoff has passed, using the
+ * same transport as the site (MAIL_TRANSPORT). Run it from cron to make sure retries
+ * happen even when the site is quiet.
+ *
+ * Usage:
+ *   npm run mail:outbox
+ *   npm run mail:outbox -- --requeue-failed   # give messages that ran out of attempts another go
+ */
+
+import 'dotenv/config';
+import { processOutbox, requeueFailedMail } from '../src/lib/mail';
+
+const requeue = process.argv.includes('--requeue-failed');
+
+async function main() {
+  if (requeue) {
+    const count = await requeueFailedMail();
+    console.log(`Requeued ${count} failed message${count !== 1 ? 's' : ''}`);
+  }
+
+  const result = await processOutbox(100);
+  console.log(`Outbox: ${result.sent} sent, ${result.retrying} will be retried, ${result.failed} failed for good`);
+}
+
+main().catch((error) => {
+  console.error('Outbox run failed:', error);
+  process.exit(1);
+});
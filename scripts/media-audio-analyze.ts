@@ -0,0 +1,27 @@
+#!/usr/bin/env tsx
+/**
+ * Queue waveform and loudness analysis for library audio uploaded before
+ * uploads were analyzed
+ *
+ * Only queues jobs: run the media worker (`npm run media:worker`) to measure
+ * them. Safe to re-run: audio that already has a waveform is skipped.
+ *
+ * Usage:
+ *   npm run media:audio-analyze
+ *   npm run media:audio-analyze -- --dry-run   # list what would be queued
+ */
+
+import 'dotenv/config';
+import { backfillAudioAnalysis } from '../src/lib/media-jobs';
+
+const dryRun = process.argv.includes('--dry-run');
+
+async function main() {
+  const result = await backfillAudioAnalysis({ dryRun });
+  console.log(`Audio analysis backfill${dryRun ? ' (dry run)' : ''}: ${result.queued} queued, ${result.skipped} already analyzed`);
+}
+
+main().catch((error) => {
+  console.error('Audio analysis backfill failed:', error);
+  process.exit(1);
+});
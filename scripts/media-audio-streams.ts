@@ -0,0 +1,28 @@
+#!/usr/bin/env tsx
+/**
+ * Queue streaming transcodes (AAC/Opus) for lossless library audio uploaded
+ * before lossless uploads were transcoded
+ *
+ * Only queues jobs: run the media worker (`npm run media:worker`) to encode
+ * them. Each file is kept as the master and keeps playing until its streams are
+ * ready. Safe to re-run: audio that already has streams is skipped.
+ *
+ * Usage:
+ *   npm run media:audio-streams
+ *   npm run media:audio-streams -- --dry-run   # list what would be queued
+ */
+
+import 'dotenv/config';
+import { backfillAudioStreams } from '../src/lib/media-jobs';
+
+const dryRun = process.argv.includes('--dry-run');
+
+async function main() {
+  const result = await backfillAudioStreams({ dryRun });
+  console.log(`Audio stream backfill${dryRun ? ' (dry run)' : ''}: ${result.queued} queued, ${result.skipped} skipped`);
+}
+
+main().catch((error) => {
+  console.error('Audio stream backfill failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,29 @@
+#!/usr/bin/env tsx
+/**
+ * Add AVIF copies to library images processed before AVIF was enabled
+ *
+ * Each image's AVIFs are encoded from its stored original, or from its largest
+ * WebP when there is no original, and uploaded next to the existing WebP files.
+ * Originals and WebP variants are left as they are; works pick up the new
+ * variants too. Safe to re-run: images that already have AVIF are skipped.
+ *
+ * Usage:
+ *   npm run media:avif
+ *   npm run media:avif -- --dry-run   # list what would be updated
+ */
+
+import 'dotenv/config';
+import { backfillAvifVariants } from '../src/lib/media-jobs';
+
+const dryRun = process.argv.includes('--dry-run');
+
+async function main() {
+  const result = await backfillAvifVariants({ dryRun });
+  console.log(`AVIF backfill${dryRun ? ' (dry run)' : ''}: ${result.updated} updated, ${result.skipped} skipped, ${result.failed} failed`);
+  if (result.failed > 0) process.exit(1);
+}
+
+main().catch((error) => {
+  console.error('AVIF backfill failed:', error);
+  process.exit(1);
+});
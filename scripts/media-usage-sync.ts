@@ -0,0 +1,24 @@
+#!/usr/bin/env tsx
+/**
+ * Recount every library item's `refCount` from where it is actually used
+ * (works, products, posts, audio posts and the homepage video)
+ *
+ * Counters are kept in step on save, so this is only needed for rows changed
+ * outside the admin (imports, manual fixes). Safe to re-run.
+ *
+ * Usage:
+ *   npm run media:usage-sync
+ */
+
+import 'dotenv/config';
+import { syncRefCounts } from '../src/lib/media-usage';
+
+async function main() {
+  const fixed = await syncRefCounts();
+  console.log(`Media usage sync: ${fixed} reference count${fixed === 1 ? '' : 's'} corrected`);
+}
+
+main().catch((error) => {
+  console.error('Media usage sync failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,53 @@
+#!/usr/bin/env tsx
+/**
+ * Media worker - process queued image and video uploads
+ *
+ * Uploads only store the original and queue a job (see src/lib/media-jobs.ts).
+ * This worker generates the web variants with Sharp/FFmpeg, uploads them to Bunny
+ * and marks the media ready. Run it wherever FFmpeg is installed; it polls for
+ * new jobs until stopped.
+ *
+ * Usage:
+ *   npm run media:worker
+ *   npm run media:worker -- --once   # run what is due now, then exit (for cron)
+ */
+
+import 'dotenv/config';
+import { processMediaJobs } from '../src/lib/media-jobs';
+
+const once = process.argv.includes('--once');
+const POLL_INTERVAL_MS = Number(process.env.MEDIA_WORKER_POLL_MS) || 5000;
+
+let stopping = false;
+for (const signal of ['SIGINT', 'SIGTERM'] as const) {
+  process.on(signal, () => {
+    if (stopping) process.exit(1);
+    stopping = true;
+    console.log('Stopping after the current job (press Ctrl+C again to quit now)');
+  });
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+async function main() {
+  console.log(once ? 'Processing due media jobs' : `Media worker started, polling every ${POLL_INTERVAL_MS / 1000}s`);
+
+  while (!stopping) {
+    // One job at a time: video encodes use all the CPU they can get
+    const result = await processMediaJobs(1);
+    const ran = result.done + result.retrying + result.failed;
+    if (ran > 0) {
+      console.log(`Media jobs: ${result.done} done, ${result.retrying} will be retried, ${result.failed} failed for good`);
+      continue;
+    }
+    if (once) break;
+    await sleep(POLL_INTERVAL_MS);
+  }
+}
+
+main().catch((error) => {
+  console.error('Media worker failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,52 @@
+#!/usr/bin/env tsx
+/**
+ * Replay stored Stripe webhook events against the database
+ *
+ * Runs fixtures through the same handler as /api/webhooks/stripe, minus the
+ * signature check. Fixtures use the placeholder "ORDER_ID"; pass --order to
+ * point them at a real pending order.
+ *
+ * Usage:
+ *   npm run stripe:replay -- scripts/fixtures/stripe/checkout.session.completed.json --order <orderId>
+ *   npm run stripe:replay -- scripts/fixtures/stripe/*.json --order <orderId> --twice
+ *
+ * --twice replays every event a second time to check the handlers are idempotent.
+ */
+
+import 'dotenv/config';
+import { readFileSync } from 'node:fs';
+import type Stripe from 'stripe';
+import { handleStripeEvent } from '../src/lib/stripe-webhooks';
+
+const args = process.argv.slice(2);
+const orderFlag = args.indexOf('--order');
+const orderId = orderFlag >= 0 ? args[orderFlag + 1] : undefined;
+const twice = args.includes('--twice');
+const files = args.filter((arg, i) => !arg.startsWith('--') && (orderFlag < 0 || i !== orderFlag + 1));
+
+if (files.length === 0) {
+  console.error('Usage: tsx scripts/replay-stripe-events.ts <fixture.json...> [--order <orderId>] [--twice]');
+  process.exit(1);
+}
+
+function loadEvent(file: string): Stripe.Event {
+  let raw = readFileSync(file, 'utf8');
+  if (orderId) raw = raw.replaceAll('ORDER_ID', orderId);
+  return JSON.parse(raw) as Stripe.Event;
+}
+
+async function main() {
+  for (const file of files) {
+    const event = loadEvent(file);
+    const runs = twice ? 2 : 1;
+    for (let run = 1; run <= runs; run++) {
+      const result = await handleStripeEvent(event);
+      console.log(`${event.type} [run ${run}] → ${result.handled ? 'handled' : 'skipped'}: ${result.message}`);
+    }
+  }
+}
+
+main().catch((error) => {
+  console.error('Replay failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,175 @@
+#!/usr/bin/env tsx
+/**
+ * Exercise the admin order actions against stripe-mock
+ *
+ * Creates a throwaway paid order, then runs a partial refund, a shipment and a
+ * full refund through the admin API routes, with Stripe calls going to a local
+ * stripe-mock (https://github.com/stripe/stripe-mock). After each step the
+ * order is read back and checked. The full refund's charge.refunded webhook is
+ * then replayed to check the buyer still gets one refund email per refund.
+ * Mail goes to an in-memory transport; the order and its mail are deleted at
+ * the end unless --keep is passed.
+ *
+ * Usage:
+ *   docker run --rm -p 12111:12111 stripe/stripe-mock
+ *   STRIPE_API_HOST=localhost STRIPE_API_PORT=12111 STRIPE_API_PROTOCOL=http npm run stripe:mock
+ *   npm run stripe:mock -- --keep   # leave the order behind to look at in the admin
+ */
+
+import 'dotenv/config';
+import type { APIContext, APIRoute } from 'astro';
+import type Stripe from 'stripe';
+import { eq, and } from 'drizzle-orm';
+import type { MailMessage } from '../src/lib/mail';
+
+const keep = process.argv.includes('--keep');
+
+if (!process.env.STRIPE_API_HOST) {
+  console.error('Set STRIPE_API_HOST (and STRIPE_API_PORT, STRIPE_API_PROTOCOL) to a running stripe-mock');
+  process.exit(1);
+}
+// stripe-mock accepts any test key
+process.env.STRIPE_SECRET_KEY ||= 'sk_test_stripe_mock';
+
+const ORDER_TOTAL = 6000; // cents
+const PARTIAL_REFUND = 1500;
+
+let failures = 0;
+
+function check(label: string, ok: boolean, detail?: unknown) {
+  console.log(`${ok ? '✓' : '✗'} ${label}${ok || detail === undefined ? '' : ` (got ${JSON.stringify(detail)})`}`);
+  if (!ok) failures++;
+}
+
+async function main() {
+  // Loaded after the env checks: stripe.ts reads the key and host when imported
+  const { db } = await import('../src/lib/db');
+  const { orders, mailOutbox } = await import('../src/lib/db/schema');
+  const { nanoid } = await import('../src/lib/nanoid');
+  const { generateCsrfToken } = await import('../src/lib/csrf');
+  const { getOrderWithItems } = await import('../src/lib/orders');
+  const { handleStripeEvent } = await import('../src/lib/stripe-webhooks');
+  const { setMailTransport } = await import('../src/lib/mail');
+  const { POST: refundRoute } = await import('../src/pages/api/admin/orders/refund');
+  const { POST: shipRoute } = await import('../src/pages/api/admin/orders/ship');
+
+  const sent: MailMessage[] = [];
+  setMailTransport({
+    name: 'stripe-mock',
+    async send(message) {
+      sent.push(message);
+      return {};
+    },
+  });
+
+  const csrf = generateCsrfToken();
+  async function callRoute(route: APIRoute, body: Record<string, unknown>) {
+    const request = new Request('http://localhost/api/admin/orders', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'X-CSRF-Token': csrf.token,
+        cookie: csrf.cookie.split(';')[0],
+      },
+      body: JSON.stringify(body),
+    });
+    const locals = { auth: () => ({ userId: 'stripe-mock' }) };
+    const response = await route({ request, locals } as unknown as APIContext);
+    return { status: response.status, body: await response.json() };
+  }
+
+  const orderId = nanoid();
+  const paymentIntentId = `pi_mock_${orderId}`;
+  const customerEmail = `stripe-mock+${orderId}@example.com`;
+  const total = (ORDER_TOTAL / 100).toFixed(2);
+  await db.insert(orders).values({
+    id: orderId,
+    status: 'paid',
+    customerEmail,
+    subtotal: total,
+    total,
+    stripePaymentIntentId: paymentIntentId,
+    paidAt: new Date(),
+    fulfilledAt: new Date(),
+  });
+  console.log(`Order ${orderId}: $${total} paid`);
+
+  const refundEmails = () => sent.filter((message) => message.to === customerEmail && /refund/i.test(message.subject));
+
+  try {
+    // Partial refund
+    const partial = await callRoute(refundRoute, { id: orderId, amount: (PARTIAL_REFUND / 100).toFixed(2) });
+    check('partial refund accepted', partial.status === 200, partial.body);
+    let order = await getOrderWithItems(orderId);
+    check('order still paid after a partial refund', order?.status === 'paid', order?.status);
+    check('partial refund recorded', order?.refundedTotal === (PARTIAL_REFUND / 100).toFixed(2), order?.refundedTotal);
+    check('one refund email', refundEmails().length === 1, refundEmails().length);
+
+    // Ship
+    const shipped = await callRoute(shipRoute, { id: orderId, trackingNumber: 'MOCK123', trackingCarrier: 'USPS' });
+    check('ship accepted', shipped.status === 200, shipped.body);
+    order = await getOrderWithItems(orderId);
+    check('order shipped', order?.status === 'shipped', order?.status);
+    check('tracking recorded', order?.trackingNumber === 'MOCK123' && order.trackingCarrier === 'USPS',
+      [order?.trackingNumber, order?.trackingCarrier]);
+    check('partial refund kept after shipping', order?.refundedTotal === (PARTIAL_REFUND / 100).toFixed(2), order?.refundedTotal);
+
+    // Full refund of what's left
+    const full = await callRoute(refundRoute, { id: orderId });
+    check('full refund accepted', full.status === 200, full.body);
+    order = await getOrderWithItems(orderId);
+    check('order refunded', order?.status === 'refunded', order?.status);
+    check('refunded total covers the order', order?.refundedTotal === total, order?.refundedTotal);
+    check('two refund emails', refundEmails().length === 2, refundEmails().length);
+
+    const again = await callRoute(refundRoute, { id: orderId });
+    check('refunded order cannot be refunded again', again.status === 409, again.status);
+
+    // Stripe's webhook for the full refund arrives after the route already recorded it
+    const event = {
+      id: `evt_mock_${orderId}`,
+      object: 'event',
+      type: 'charge.refunded',
+      data: {
+        object: {
+          id: `ch_mock_${orderId}`,
+          object: 'charge',
+          amount: ORDER_TOTAL,
+          amount_refunded: ORDER_TOTAL,
+          refunded: true,
+          payment_intent: paymentIntentId,
+          metadata: { orderId },
+        },
+      },
+    } as unknown as Stripe.Event;
+    await handleStripeEvent(event);
+    order = await getOrderWithItems(orderId);
+    check('webhook leaves the refunded order alone', order?.status === 'refunded' && order.refundedTotal === total,
+      [order?.status, order?.refundedTotal]);
+    check('webhook sends no second refund email', refundEmails().length === 2, refundEmails().length);
+
+    const queued = await db
+      .select({ id: mailOutbox.id })
+      .from(mailOutbox)
+      .where(and(eq(mailOutbox.toAddress, customerEmail), eq(mailOutbox.template, 'order_refunded')));
+    check('two refund emails in the outbox', queued.length === 2, queued.length);
+  } finally {
+    if (keep) {
+      console.log(`Kept order ${orderId}`);
+    } else {
+      await db.delete(mailOutbox).where(eq(mailOutbox.toAddress, customerEmail));
+      await db.delete(orders).where(eq(orders.id, orderId));
+    }
+  }
+
+  if (failures > 0) {
+    console.error(`${failures} check${failures !== 1 ? 's' : ''} failed`);
+    process.exit(1);
+  }
+  console.log('All checks passed');
+}
+
+main().catch((error) => {
+  console.error('stripe-mock run failed:', error);
+  process.exit(1);
+});
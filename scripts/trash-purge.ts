@@ -0,0 +1,27 @@
+#!/usr/bin/env tsx
+/**
+ * Permanently delete trashed items older than the retention period
+ *
+ * Removes media, works, posts, products and audio posts deleted more than
+ * TRASH_RETENTION_DAYS (default 30) days ago, with the CDN files only they
+ * used. Run it from cron; the Trash page also purges expired items when opened.
+ *
+ * Usage:
+ *   npm run trash:purge
+ */
+
+import 'dotenv/config';
+import { purgeExpiredTrash, TRASH_RETENTION_DAYS } from '../src/lib/trash';
+
+async function main() {
+  const result = await purgeExpiredTrash();
+  console.log(`Trash purge (older than ${TRASH_RETENTION_DAYS} days): ${result.purged} deleted, ${result.failed.length} kept`);
+  for (const failure of result.failed) {
+    console.log(`  ${failure.kind} ${failure.id}: ${failure.error}`);
+  }
+}
+
+main().catch((error) => {
+  console.error('Trash purge failed:', error);
+  process.exit(1);
+});
@@ -1,4 +1,4 @@
-import { playTrack, togglePlay, useAudio, addToQueue, type Track } from '@lib/audioStore';
+import { playTrack, togglePlay, useAudio, addToQueue, playNext, type Track } from '@lib/audioStore';
 
 // ============================================================================
 // PLAY BUTTON COMPONENT
@@ -85,7 +85,7 @@ export function PlayButton({
 // ============================================================================
 
 interface AddToQueueButtonProps {
-  track: Track;
+  track: Track | Track[]; // A list queues a whole release
   className?: string;
 }
 
@@ -93,13 +93,14 @@ export function AddToQueueButton({ track, className = '' }: AddToQueueButtonProp
   const handleClick = () => {
     addToQueue(track);
   };
+  const label = Array.isArray(track) && track.length > 1 ? `Add ${track.length} tracks to queue` : 'Add to queue';
 
   return (
     <button
       onClick={handleClick}
       className={`inline-flex items-center justify-center h-10 w-10 border border-black text-black hover:bg-black hover:text-white transition-colors ${className}`}
-      aria-label="Add to queue"
-      title="Add to queue"
+      aria-label={label}
+      title={label}
     >
       <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
         <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4"/>
@@ -108,6 +109,35 @@ export function AddToQueueButton({ track, className = '' }: AddToQueueButtonProp
   );
 }
 
+// ============================================================================
+// PLAY NEXT BUTTON
+// ============================================================================
+
+interface PlayNextButtonProps {
+  track: Track | Track[];
+  className?: string;
+}
+
+export function PlayNextButton({ track, className = '' }: PlayNextButtonProps) {
+  const handleClick = () => {
+    playNext(track);
+  };
+  const label = Array.isArray(track) && track.length > 1 ? `Play ${track.length} tracks next` : 'Play next';
+
+  return (
+    <button
+      onClick={handleClick}
+      className={`inline-flex items-center justify-center h-10 w-10 border border-black text-black hover:bg-black hover:text-white transition-colors ${className}`}
+      aria-label={label}
+      title={label}
+    >
+      <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 6h10M4 12h10M4 18h6m6-3l4 3-4 3v-6z"/>
+      </svg>
+    </button>
+  );
+}
+
 // ============================================================================
 // TRACK ROW COMPONENT (for lists)
 // ============================================================================
@@ -159,6 +189,7 @@ export function TrackRow({
           variant="minimal" 
           size="sm"
         />
+        {showAddToQueue && <PlayNextButton track={track} />}
         {showAddToQueue && <AddToQueueButton track={track} />}
       </div>
     </div>
@@ -1,6 +1,6 @@
 import { useState, useEffect } from 'react';
-import { PlayButton, AddToQueueButton } from '@components/AudioControls';
-import type { Track, Release } from '@lib/audioStore';
+import { PlayButton, PlayNextButton, AddToQueueButton } from '@components/AudioControls';
+import { useAudio, type Track, type Release } from '@lib/audioStore';
 
 export const DEFAULT_COLS_DESKTOP = 5;
 export const DEFAULT_COLS_MOBILE = 2;
@@ -18,6 +18,7 @@ function getDefaultCols(isMobile: boolean): number {
 export function AudioGrid({ releases }: AudioGridProps) {
   const [cols, setCols] = useState(() => DEFAULT_COLS_DESKTOP);
   const [isMobile, setIsMobile] = useState(false);
+  const { audio } = useAudio();
 
   useEffect(() => {
     console.log('[AudioGrid] Mounted with releases:', releases.length);
@@ -62,6 +63,14 @@ export function AudioGrid({ releases }: AudioGridProps) {
     <div className={`grid ${gridColsClass} gap-4`}>
       {releases.map((release, index) => {
         console.log(`[AudioGrid] Rendering release ${index}:`, release.title, 'tracks:', release.tracks.length);
+        const tracks: Track[] = release.tracks.map((t) => ({
+          ...t,
+          coverArt: release.coverArt ?? undefined,
+          youtubeLink: release.youtubeLink,
+          soundcloudLink: release.soundcloudLink,
+        }));
+        // While one of its tracks is loaded the play button pauses/resumes it
+        const playTarget = tracks.find((t) => t.id === audio.currentTrack?.id) ?? tracks[0];
         return (
           <div
             key={release.id}
@@ -88,31 +97,22 @@ export function AudioGrid({ releases }: AudioGridProps) {
               {release.tracks.length > 0 && (
                 <>
                   <PlayButton
-                    track={{
-                      ...release.tracks[0],
-                      coverArt: release.coverArt ?? undefined,
-                      youtubeLink: release.youtubeLink,
-                      soundcloudLink: release.soundcloudLink,
-                    }}
-                    queue={release.tracks.map((t) => ({
-                      ...t,
-                      coverArt: release.coverArt ?? undefined,
-                      youtubeLink: release.youtubeLink,
-                      soundcloudLink: release.soundcloudLink,
-                    }))}
+                    track={playTarget}
+                    queue={tracks}
                     variant="overlay"
                     size="lg"
                     className={`transition-opacity bg-transparent! border! border-white! text-white! hover:bg-white! hover:text-black! ${
                       effectiveCols === 1 ? 'opacity-100' : 'opacity-0 group-hover:opacity-100'
                     }`}
                   />
+                  <PlayNextButton
+                    track={tracks}
+                    className={`transition-opacity h-12! w-12! border-white! text-white! hover:bg-white! hover:text-black! ${
+                      effectiveCols === 1 ? 'opacity-100' : 'opacity-0 group-hover:opacity-100'
+                    }`}
+                  />
                   <AddToQueueButton
-                    track={{
-                      ...release.tracks[0],
-                      coverArt: release.coverArt ?? undefined,
-                      youtubeLink: release.youtubeLink,
-                      soundcloudLink: release.soundcloudLink,
-                    }}
+                    track={tracks}
                     className={`transition-opacity h-12! w-12! border-white! text-white! hover:bg-white! hover:text-black! ${
                       effectiveCols === 1 ? 'opacity-100' : 'opacity-0 group-hover:opacity-100'
                     }`}
@@ -169,6 +169,17 @@ export function AudioGrid({ releases }: AudioGridProps) {
                 </a>
               )}
               
+              {/* Track count for multi-track releases */}
+              {release.tracks.length > 1 && (
+                <span
+                  className={`absolute top-2 left-2 text-[10px] uppercase tracking-wide text-white bg-black/60 px-2 py-0.5 transition-opacity ${
+                    effectiveCols === 1 ? 'opacity-100' : 'opacity-0 group-hover:opacity-100'
+                  }`}
+                >
+                  {release.tracks.length} tracks
+                </span>
+              )}
+
               {/* Show "No audio" if no tracks AND no external links */}
               {release.tracks.length === 0 && !release.youtubeLink && !release.soundcloudLink && (
                 <div className="text-white text-xs bg-black/50 px-3 py-1 rounded-full">
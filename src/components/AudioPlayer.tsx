@@ -1,11 +1,14 @@
 import { useAudioEngine, formatTime, formatDuration } from '@lib/audioUtils';
-import { useAudio } from '@lib/audioStore';
+import { useAudio, MAX_CROSSFADE } from '@lib/audioStore';
+import { AudioWaveform } from './AudioWaveform';
 import { useState, useRef, useEffect } from 'react';
 
 // ============================================================================
 // PERSISTENT AUDIO PLAYER
 // ============================================================================
 
+const CROSSFADE_OPTIONS = [0, 2, 4, 6, 8, MAX_CROSSFADE];
+
 export function AudioPlayer() {
   const { 
     audio, 
@@ -17,7 +20,13 @@ export function AudioPlayer() {
     prevTrack,
     setVolume,
     toggleMute,
+    toggleNormalize,
+    toggleShuffle,
+    cycleRepeat,
+    toggleGapless,
+    setCrossfade,
     toggleExpanded,
+    moveInQueue,
     removeFromQueue,
   } = useAudio();
   
@@ -27,6 +36,19 @@ export function AudioPlayer() {
   const [isManualOverlay, setIsManualOverlay] = useState(false);
   const progressRef = useRef<HTMLDivElement>(null);
 
+  // Queue reordering: drag state, and the handle to refocus after a keyboard move
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+  const [dropIndex, setDropIndex] = useState<number | null>(null);
+  const [focusIndex, setFocusIndex] = useState<number | null>(null);
+  const [announcement, setAnnouncement] = useState('');
+  const handleRefs = useRef<(HTMLButtonElement | null)[]>([]);
+
+  useEffect(() => {
+    if (focusIndex === null) return;
+    handleRefs.current[focusIndex]?.focus();
+    setFocusIndex(null);
+  }, [focusIndex]);
+
   // Debug logging
   useEffect(() => {
     console.log('[AudioPlayer] playerVisible:', playerVisible, 'currentTrack:', audio.currentTrack?.title);
@@ -73,6 +95,34 @@ export function AudioPlayer() {
     handleProgressClick(e);
   };
 
+  const moveTrack = (from: number, to: number) => {
+    if (from === to || to < 0 || to >= audio.queue.length) return false;
+    const title = audio.queue[from]?.title;
+    moveInQueue(from, to);
+    setAnnouncement(`${title} moved to position ${to + 1} of ${audio.queue.length}`);
+    return true;
+  };
+
+  // Arrow keys move the focused track one place, Home/End to either end
+  const handleReorderKey = (e: React.KeyboardEvent<HTMLButtonElement>, index: number) => {
+    const targets: Record<string, number> = {
+      ArrowUp: index - 1,
+      ArrowDown: index + 1,
+      Home: 0,
+      End: audio.queue.length - 1,
+    };
+    if (!(e.key in targets)) return;
+    e.preventDefault();
+    if (moveTrack(index, targets[e.key])) setFocusIndex(targets[e.key]);
+  };
+
+  const handleDragEnd = () => {
+    setDragIndex(null);
+    setDropIndex(null);
+  };
+
+  const repeatLabel = { off: 'Repeat: Off', all: 'Repeat: All', one: 'Repeat: One' }[audio.repeat];
+
   return (
     <>
       {/* Mobile: close (X) in header opposite hamburger - same slot size (w-16 h-16), z above header */}
@@ -155,6 +205,15 @@ export function AudioPlayer() {
                 SOUNDCLOUD
               </a>
             )}
+            {audio.currentTrack?.downloadUrl && (
+              <a
+                href={audio.currentTrack.downloadUrl}
+                download
+                className="text-sm font-medium tracking-wide text-black hover:text-gray-600 transition-colors"
+              >
+                DOWNLOAD
+              </a>
+            )}
           </div>
         </div>
       </div>
@@ -209,6 +268,18 @@ export function AudioPlayer() {
 
           {/* Controls */}
           <div className="flex items-center justify-center gap-2 sm:gap-4 flex-1">
+            <button
+              onClick={toggleShuffle}
+              className={`hidden sm:block p-2 transition-colors ${audio.shuffle ? 'text-black' : 'text-gray-400 hover:text-black'}`}
+              aria-label="Shuffle"
+              aria-pressed={audio.shuffle}
+              title={audio.shuffle ? 'Shuffle: On' : 'Shuffle: Off'}
+            >
+              <svg className="w-4 h-4" fill="currentColor" viewBox="0 0 24 24">
+                <path d="M10.59 9.17L5.41 4 4 5.41l5.17 5.17 1.42-1.41zM14.5 4l2.04 2.04L4 18.59 5.41 20 17.96 7.46 20 9.5V4h-5.5zm.33 9.41l-1.41 1.41 3.13 3.13L14.5 20H20v-5.5l-2.04 2.04-3.13-3.13z"/>
+              </svg>
+            </button>
+
             <button 
               onClick={prevTrack}
               disabled={!hasPrev}
@@ -246,6 +317,23 @@ export function AudioPlayer() {
                 <path d="M6 18l8.5-6L6 6v12zM16 6v12h2V6h-2z"/>
               </svg>
             </button>
+
+            <button
+              onClick={cycleRepeat}
+              className={`hidden sm:block p-2 transition-colors ${audio.repeat !== 'off' ? 'text-black' : 'text-gray-400 hover:text-black'}`}
+              aria-label={repeatLabel}
+              title={repeatLabel}
+            >
+              {audio.repeat === 'one' ? (
+                <svg className="w-4 h-4" fill="currentColor" viewBox="0 0 24 24">
+                  <path d="M7 7h10v3l4-4-4-4v3H5v6h2V7zm10 10H7v-3l-4 4 4 4v-3h12v-6h-2v4zm-4-2V9h-1l-2 1v1h1.5v4H13z"/>
+                </svg>
+              ) : (
+                <svg className="w-4 h-4" fill="currentColor" viewBox="0 0 24 24">
+                  <path d="M7 7h10v3l4-4-4-4v3H5v6h2V7zm10 10H7v-3l-4 4 4 4v-3h12v-6h-2v4z"/>
+                </svg>
+              )}
+            </button>
           </div>
 
           {/* Progress + Volume (Desktop) */}
@@ -254,17 +342,37 @@ export function AudioPlayer() {
               {formatTime(audio.progress)}
             </span>
             
-            <div 
-              ref={progressRef}
-              className="flex-1 h-1 bg-gray-300 cursor-pointer relative group"
-              onClick={handleProgressClick}
-              onMouseDown={handleProgressMouseDown}
-            >
+            {audio.currentTrack?.waveform?.length ? (
+              <div
+                ref={progressRef}
+                className="flex-1 h-8 cursor-pointer hover:opacity-80 transition-opacity"
+                onClick={handleProgressClick}
+                onMouseDown={handleProgressMouseDown}
+                role="slider"
+                aria-label="Seek"
+                aria-valuemin={0}
+                aria-valuemax={Math.round(audio.duration || 0)}
+                aria-valuenow={Math.round(audio.progress)}
+              >
+                <AudioWaveform
+                  peaks={audio.currentTrack.waveform}
+                  progress={progressPercent / 100}
+                  className="w-full h-full"
+                />
+              </div>
+            ) : (
               <div 
-                className="absolute h-full bg-black group-hover:bg-gray-700"
-                style={{ width: `${progressPercent}%` }}
-              />
-            </div>
+                ref={progressRef}
+                className="flex-1 h-1 bg-gray-300 cursor-pointer relative group"
+                onClick={handleProgressClick}
+                onMouseDown={handleProgressMouseDown}
+              >
+                <div 
+                  className="absolute h-full bg-black group-hover:bg-gray-700"
+                  style={{ width: `${progressPercent}%` }}
+                />
+              </div>
+            )}
             
             <span className="text-[10px] text-gray-600 w-10">
               {formatDuration(audio.duration)}
@@ -321,7 +429,57 @@ export function AudioPlayer() {
       {audio.isExpanded && (
         <div className="fixed bottom-16 left-0 right-0 h-48 bg-gray-100 border-t border-black z-40 overflow-auto">
           <div className="p-4">
-            <h3 className="text-xs font-medium text-gray-600 uppercase mb-3">Queue</h3>
+            <div className="flex items-center justify-between mb-3">
+              <h3 className="text-xs font-medium text-gray-600 uppercase">Queue</h3>
+              <div className="flex items-center gap-4">
+                {/* Mobile has no room for these in the bar */}
+                <button
+                  onClick={toggleShuffle}
+                  className="sm:hidden text-[10px] text-gray-600 hover:text-black uppercase transition-colors"
+                  aria-pressed={audio.shuffle}
+                >
+                  Shuffle: {audio.shuffle ? 'On' : 'Off'}
+                </button>
+                <button
+                  onClick={cycleRepeat}
+                  className="sm:hidden text-[10px] text-gray-600 hover:text-black uppercase transition-colors"
+                >
+                  {repeatLabel}
+                </button>
+                <button
+                  onClick={toggleGapless}
+                  className="text-[10px] text-gray-600 hover:text-black uppercase transition-colors"
+                  aria-pressed={audio.gapless}
+                  title="Buffer the next track and start it without a gap"
+                >
+                  Gapless: {audio.gapless ? 'On' : 'Off'}
+                </button>
+                {audio.gapless && (
+                  <label className="flex items-center gap-1 text-[10px] text-gray-600 uppercase">
+                    Crossfade
+                    <select
+                      value={audio.crossfade}
+                      onChange={(e) => setCrossfade(Number(e.target.value))}
+                      className="bg-transparent text-[10px] uppercase hover:text-black cursor-pointer"
+                    >
+                      {CROSSFADE_OPTIONS.map((seconds) => (
+                        <option key={seconds} value={seconds}>{seconds === 0 ? 'Off' : `${seconds}s`}</option>
+                      ))}
+                    </select>
+                  </label>
+                )}
+                <button
+                  onClick={toggleNormalize}
+                  className="text-[10px] text-gray-600 hover:text-black uppercase transition-colors"
+                  aria-pressed={audio.normalize}
+                  title="Even out loudness between tracks"
+                >
+                  Normalize volume: {audio.normalize ? 'On' : 'Off'}
+                </button>
+              </div>
+            </div>
+            <p className="sr-only" aria-live="polite">{announcement}</p>
+            <p id="queue-reorder-help" className="sr-only">Use the up and down arrow keys to move this track, Home or End to move it to the start or end.</p>
             {audio.queue.length === 0 ? (
               <p className="text-sm text-gray-500">No tracks in queue</p>
             ) : (
@@ -329,12 +487,46 @@ export function AudioPlayer() {
                 {audio.queue.map((track, index) => (
                   <li 
                     key={`${track.id}-${index}`}
-                    className={`flex items-center gap-3 p-2 text-sm group ${
+                    draggable
+                    onDragStart={(e) => {
+                      e.dataTransfer.effectAllowed = 'move';
+                      e.dataTransfer.setData('text/plain', String(index)); // Firefox won't drag without data
+                      setDragIndex(index);
+                    }}
+                    onDragOver={(e) => {
+                      if (dragIndex === null) return;
+                      e.preventDefault();
+                      e.dataTransfer.dropEffect = 'move';
+                      if (dropIndex !== index) setDropIndex(index);
+                    }}
+                    onDrop={(e) => {
+                      e.preventDefault();
+                      if (dragIndex !== null) moveTrack(dragIndex, index);
+                      handleDragEnd();
+                    }}
+                    onDragEnd={handleDragEnd}
+                    className={`flex items-center gap-3 p-2 text-sm group border-y-2 ${
+                      dropIndex === index && dragIndex !== null && dragIndex !== index
+                        ? dragIndex < index ? 'border-t-transparent border-b-black' : 'border-t-black border-b-transparent'
+                        : 'border-transparent'
+                    } ${dragIndex === index ? 'opacity-50' : ''} ${
                       index === audio.currentIndex 
                         ? 'bg-gray-200 text-black' 
                         : 'text-gray-600 hover:bg-gray-200/50'
                     }`}
                   >
+                    <button
+                      ref={(node) => { handleRefs.current[index] = node; }}
+                      onKeyDown={(e) => handleReorderKey(e, index)}
+                      className="p-1 -ml-1 text-gray-400 hover:text-black cursor-grab active:cursor-grabbing flex-shrink-0"
+                      aria-label={`Reorder ${track.title}, position ${index + 1} of ${audio.queue.length}`}
+                      aria-describedby="queue-reorder-help"
+                      title="Drag, or use the arrow keys, to reorder"
+                    >
+                      <svg className="w-4 h-4" fill="currentColor" viewBox="0 0 24 24">
+                        <path d="M9 5a1.5 1.5 0 110 3 1.5 1.5 0 010-3zm6 0a1.5 1.5 0 110 3 1.5 1.5 0 010-3zm-6 5.5a1.5 1.5 0 110 3 1.5 1.5 0 010-3zm6 0a1.5 1.5 0 110 3 1.5 1.5 0 010-3zM9 16a1.5 1.5 0 110 3 1.5 1.5 0 010-3zm6 0a1.5 1.5 0 110 3 1.5 1.5 0 010-3z"/>
+                      </svg>
+                    </button>
                     <span className="text-xs text-gray-500 w-6 flex-shrink-0">{index + 1}</span>
                     <div className="w-10 h-10 flex-shrink-0 bg-gray-200 overflow-hidden">
                       {track.coverArt ? (
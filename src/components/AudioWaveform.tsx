@@ -0,0 +1,43 @@
+// ============================================================================
+// WAVEFORM SCRUBBER
+// ============================================================================
+
+interface AudioWaveformProps {
+  peaks: number[]; // 0-1, as measured on upload
+  progress: number; // 0-1 of the track played
+  className?: string;
+}
+
+// Bars never shrink below this, so silent passages stay visible and clickable
+const MIN_BAR = 0.06;
+
+/**
+ * Waveform bars, played part in black. Stretches to its container; seeking is
+ * handled by the parent, which owns the click position.
+ */
+export function AudioWaveform({ peaks, progress, className = '' }: AudioWaveformProps) {
+  const played = progress * peaks.length;
+
+  return (
+    <svg
+      className={className}
+      viewBox={`0 0 ${peaks.length} 1`}
+      preserveAspectRatio="none"
+      aria-hidden="true"
+    >
+      {peaks.map((peak, index) => {
+        const height = Math.max(peak, MIN_BAR);
+        return (
+          <rect
+            key={index}
+            x={index + 0.15}
+            y={(1 - height) / 2}
+            width={0.7}
+            height={height}
+            className={index < played ? 'fill-black' : 'fill-gray-300'}
+          />
+        );
+      })}
+    </svg>
+  );
+}
@@ -11,13 +11,21 @@ export interface WorkGridItem {
   title?: string;
   year?: number;
   forSale?: boolean;
+  /** Linked shop product has sold out */
+  sold?: boolean;
   image: {
     src: string;
     alt: string;
     width?: number;
     height?: number;
-    variants?: { sm?: { url: string; width: number }; md?: { url: string; width: number }; lg?: { url: string; width: number } };
+    variants?: {
+      sm?: { url: string; width: number; avif?: { url: string } };
+      md?: { url: string; width: number; avif?: { url: string } };
+      lg?: { url: string; width: number; avif?: { url: string } };
+      srcset?: { webp: string; avif?: string };
+    };
     dominantColor?: string;
+    focalPoint?: { x: number; y: number } | null;
   } | null;
   /** When set (e.g. for digital grid with no detail pages), used instead of /works/{slug} */
   href?: string;
@@ -222,6 +230,7 @@ export function WorksGrid({
                 width={work.image.width}
                 height={work.image.height}
                 dominantColor={work.image.dominantColor}
+                focalPoint={work.image.focalPoint}
                 className="w-full block group-hover:scale-105 transition-transform duration-500"
                 sizes="(max-width: 640px) 100vw, (max-width: 1024px) 50vw, 33vw"
                 priority={false}
@@ -248,7 +257,11 @@ export function WorksGrid({
               {work.year}
             </time>
           )}
-          {work.forSale && (
+          {work.sold ? (
+            <span className="inline-block mt-2 text-xs px-2 py-1 bg-gray-100 text-gray-600 rounded">
+              Sold
+            </span>
+          ) : work.forSale && (
             <span className="inline-block mt-2 text-xs px-2 py-1 bg-green-100 text-green-700 rounded">
               For Sale
             </span>
@@ -0,0 +1,43 @@
+/**
+ * BlurhashCanvas Component
+ *
+ * Paints a blurhash placeholder that fills its positioned parent, for tiles
+ * whose real thumbnail (e.g. a video poster) is still loading or missing.
+ */
+
+import { useEffect, useRef } from 'react';
+import { decode } from 'blurhash';
+
+interface BlurhashCanvasProps {
+  hash: string;
+}
+
+const SIZE = 32;
+
+export default function BlurhashCanvas({ hash }: BlurhashCanvasProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    const ctx = canvasRef.current?.getContext('2d');
+    if (!ctx) return;
+    try {
+      const imageData = ctx.createImageData(SIZE, SIZE);
+      imageData.data.set(decode(hash, SIZE, SIZE));
+      ctx.putImageData(imageData, 0, 0);
+    } catch {
+      // Invalid hash: leave the parent's background showing
+    }
+  }, [hash]);
+
+  return <canvas ref={canvasRef} width={SIZE} height={SIZE} style={styles.canvas} aria-hidden="true" />;
+}
+
+const styles: Record<string, React.CSSProperties> = {
+  canvas: {
+    position: 'absolute',
+    top: 0,
+    left: 0,
+    width: '100%',
+    height: '100%',
+  },
+};
@@ -49,6 +49,10 @@ export interface UploadedFile {
   width?: number;
   height?: number;
   blurhash?: string | null;
+  /** The file was already in the library, so the existing item was returned */
+  duplicate?: boolean;
+  /** Processing status: 'pending' until the media worker has made the variants */
+  status?: string;
 }
 
 interface FilePondUploaderProps {
@@ -148,7 +152,7 @@ export function FilePondUploader({
     (
       fieldName: string,
       file: File,
-      metadata: Record<string, unknown>,
+      fileMetadata: Record<string, unknown>,
       load: (p: string | { [key: string]: unknown }) => void,
       error: (errorText: string) => void,
       progress: (progressPercent: boolean | number, progressByte: number, totalBytes: number) => void,
@@ -157,8 +161,8 @@ export function FilePondUploader({
       const formData = new FormData();
       formData.append(fieldName, file);
       
-      // Add custom metadata
-      Object.entries(metadata).forEach(([key, value]) => {
+      // Add custom metadata (the metadata prop, then anything FilePond set on the file)
+      Object.entries({ ...metadata, ...fileMetadata }).forEach(([key, value]) => {
         if (value !== undefined && value !== null) {
           formData.append(key, String(value));
         }
@@ -193,6 +197,8 @@ export function FilePondUploader({
                 width: data.media.width,
                 height: data.media.height,
                 blurhash: data.media.blurhash,
+                duplicate: data.duplicate === true,
+                status: data.media.status,
               };
               
               setUploadedFiles(prev => [...prev, uploadedFile]);
@@ -233,7 +239,7 @@ export function FilePondUploader({
         },
       };
     },
-    [onFileComplete]
+    [onFileComplete, metadata]
   );
 
   // Handle when all files are processed
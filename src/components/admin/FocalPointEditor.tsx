@@ -0,0 +1,265 @@
+/**
+ * FocalPointEditor Component
+ *
+ * Modal for setting an image's focal point and choosing which named crops
+ * (square, 3:4, 16:9) to save. Click the image to place the focal point; the
+ * previews show how each crop will frame it. Crops are generated by the media
+ * worker after saving.
+ */
+
+import { useState } from 'react';
+import type { Media } from '@lib/db/schema';
+import { CROP_PRESETS, focalObjectPosition, type CropName, type FocalPoint } from '@lib/media-srcset';
+
+interface FocalPointEditorProps {
+  item: Media;
+  onClose: () => void;
+  onSaved: (item: Media) => void;
+}
+
+const CROP_NAMES = Object.keys(CROP_PRESETS) as CropName[];
+
+// Get CSRF token from cookie (decodeURIComponent needed as cookie values are URL-encoded)
+const getCsrfToken = () => {
+  const match = document.cookie.match(/csrf_token=([^;]+)/);
+  return match ? decodeURIComponent(match[1]) : '';
+};
+
+export default function FocalPointEditor({ item, onClose, onSaved }: FocalPointEditorProps) {
+  const [focalPoint, setFocalPoint] = useState<FocalPoint | null>(
+    item.focalX != null && item.focalY != null ? { x: item.focalX, y: item.focalY } : null
+  );
+  const [crops, setCrops] = useState<Set<CropName>>(new Set(Object.keys(item.crops ?? {}) as CropName[]));
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const previewUrl = item.variants?.md?.url || item.variants?.lg?.url || item.variants?.sm?.url || item.url;
+  const position = focalObjectPosition(focalPoint);
+
+  const handleImageClick = (e: React.MouseEvent<HTMLDivElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    const clamp = (n: number) => Math.round(Math.min(Math.max(n, 0), 1) * 1000) / 1000;
+    setFocalPoint({
+      x: clamp((e.clientX - rect.left) / rect.width),
+      y: clamp((e.clientY - rect.top) / rect.height),
+    });
+  };
+
+  const toggleCrop = (name: CropName) => {
+    setCrops((prev) => {
+      const next = new Set(prev);
+      if (next.has(name)) next.delete(name);
+      else next.add(name);
+      return next;
+    });
+  };
+
+  // Generated, waiting for the worker, or not saved
+  const getCropStatus = (name: CropName) => {
+    const saved = item.crops?.[name];
+    if (!saved) return null;
+    return saved.variants ? 'Generated' : 'Generating...';
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    setError(null);
+    try {
+      const response = await fetch('/api/admin/media/focus', {
+        method: 'POST',
+        credentials: 'include',
+        headers: {
+          'Content-Type': 'application/json',
+          'X-CSRF-Token': getCsrfToken(),
+        },
+        body: JSON.stringify({ mediaId: item.id, focalPoint, crops: CROP_NAMES.filter((name) => crops.has(name)) }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        setError(data.error || 'Save failed');
+        return;
+      }
+      onSaved(data.media);
+    } catch {
+      setError('Save failed');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div style={styles.overlay}>
+      <div style={styles.modal}>
+        <h3 style={styles.title}>Focal Point &amp; Crops</h3>
+        <p style={styles.hint}>Click the part of the image that must stay in frame when it is cropped.</p>
+
+        <div style={styles.imageWrap} onClick={handleImageClick}>
+          <img src={previewUrl} alt={item.altText || item.filename} style={styles.image} />
+          <span
+            style={{
+              ...styles.marker,
+              left: `${(focalPoint?.x ?? 0.5) * 100}%`,
+              top: `${(focalPoint?.y ?? 0.5) * 100}%`,
+              opacity: focalPoint ? 1 : 0.4,
+            }}
+          />
+        </div>
+
+        <div style={styles.crops}>
+          {CROP_NAMES.map((name) => (
+            <label key={name} style={styles.crop}>
+              <span style={{ ...styles.cropPreview, aspectRatio: String(CROP_PRESETS[name].ratio) }}>
+                <img src={previewUrl} alt="" style={{ ...styles.cropImage, objectPosition: position }} />
+              </span>
+              <span style={styles.cropLabel}>
+                <input type="checkbox" checked={crops.has(name)} onChange={() => toggleCrop(name)} />
+                {CROP_PRESETS[name].label}
+              </span>
+              {getCropStatus(name) && <span style={styles.cropStatus}>{getCropStatus(name)}</span>}
+            </label>
+          ))}
+        </div>
+
+        {error && <p style={styles.error}>{error}</p>}
+
+        <div style={styles.actions}>
+          <button onClick={() => setFocalPoint(null)} style={styles.secondary} disabled={saving || !focalPoint}>
+            Reset to centre
+          </button>
+          <span style={{ flex: 1 }} />
+          <button onClick={onClose} style={styles.secondary} disabled={saving}>
+            Cancel
+          </button>
+          <button
+            onClick={handleSave}
+            style={{ ...styles.primary, opacity: saving ? 0.7 : 1, cursor: saving ? 'not-allowed' : 'pointer' }}
+            disabled={saving}
+          >
+            {saving ? 'Saving...' : 'Save'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+// Styles using CSS variables for theming
+const styles: Record<string, React.CSSProperties> = {
+  overlay: {
+    position: 'fixed',
+    top: 0,
+    left: 0,
+    right: 0,
+    bottom: 0,
+    background: 'rgba(0,0,0,0.8)',
+    display: 'flex',
+    alignItems: 'center',
+    justifyContent: 'center',
+    zIndex: 1000,
+  },
+  modal: {
+    background: 'var(--admin-bg-card)',
+    borderRadius: '8px',
+    padding: '24px',
+    maxWidth: '640px',
+    width: '90%',
+    maxHeight: '90vh',
+    overflowY: 'auto',
+  },
+  title: {
+    margin: '0 0 8px 0',
+    fontSize: '18px',
+    color: 'var(--admin-text-primary)',
+  },
+  hint: {
+    margin: '0 0 16px 0',
+    fontSize: '13px',
+    color: 'var(--admin-text-muted)',
+  },
+  imageWrap: {
+    position: 'relative',
+    cursor: 'crosshair',
+    lineHeight: 0,
+    background: 'var(--admin-bg-tertiary)',
+  },
+  image: {
+    width: '100%',
+    maxHeight: '50vh',
+    objectFit: 'contain',
+    userSelect: 'none',
+  },
+  marker: {
+    position: 'absolute',
+    width: '20px',
+    height: '20px',
+    marginLeft: '-10px',
+    marginTop: '-10px',
+    borderRadius: '50%',
+    border: '2px solid #fff',
+    boxShadow: '0 0 0 2px rgba(0,0,0,0.6)',
+    pointerEvents: 'none',
+  },
+  crops: {
+    display: 'flex',
+    gap: '16px',
+    marginTop: '16px',
+    alignItems: 'flex-end',
+  },
+  crop: {
+    display: 'flex',
+    flexDirection: 'column',
+    gap: '6px',
+    cursor: 'pointer',
+  },
+  cropPreview: {
+    display: 'block',
+    height: '80px',
+    overflow: 'hidden',
+    background: 'var(--admin-bg-tertiary)',
+  },
+  cropImage: {
+    width: '100%',
+    height: '100%',
+    objectFit: 'cover',
+  },
+  cropLabel: {
+    display: 'flex',
+    alignItems: 'center',
+    gap: '6px',
+    fontSize: '13px',
+    color: 'var(--admin-text-primary)',
+  },
+  cropStatus: {
+    fontSize: '11px',
+    color: 'var(--admin-text-muted)',
+  },
+  error: {
+    marginTop: '12px',
+    fontSize: '13px',
+    color: 'var(--admin-accent-danger)',
+  },
+  actions: {
+    display: 'flex',
+    gap: '12px',
+    marginTop: '20px',
+    alignItems: 'center',
+  },
+  secondary: {
+    padding: '10px 16px',
+    background: 'none',
+    border: '1px solid var(--admin-border-secondary)',
+    borderRadius: '6px',
+    color: 'var(--admin-text-primary)',
+    cursor: 'pointer',
+    fontSize: '14px',
+  },
+  primary: {
+    padding: '10px 16px',
+    background: 'var(--admin-accent-primary)',
+    border: 'none',
+    borderRadius: '6px',
+    color: '#fff',
+    cursor: 'pointer',
+    fontSize: '14px',
+  },
+};
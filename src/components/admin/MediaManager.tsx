@@ -4,24 +4,51 @@
  * Full media library management for the /admin/uploads page.
  * Features:
  * - Grid view of all media
- * - Upload new files (via FilePond)
- * - Delete items (with ref count warning)
+ * - Upload new files (via FilePond), reusing identical files already in the library
+ * - Delete items to the trash (refused while in use unless forced, which removes those references)
  * - Search/filter
- * - Show reference counts
+ * - Show where each item is used
+ * - Show processing progress for uploads waiting on the media worker
+ * - Set an image's focal point and named crops
+ * - Choose a video's poster frame
  */
 
 import { useState, useCallback, useEffect } from 'react';
 import type { Media } from '@lib/db/schema';
+import type { MediaUsage, MediaUsageKind } from '@lib/media-usage';
 import { FilePondUploader, useFilePondUpload, type UploadedFile } from './FilePondUploader';
+import FocalPointEditor from './FocalPointEditor';
+import PosterFramePicker from './PosterFramePicker';
+import BlurhashCanvas from './BlurhashCanvas';
 
 interface MediaManagerProps {
   initialMedia?: Media[];
+  initialUsage?: Record<string, MediaUsage[]>;
 }
 
 type ViewMode = 'grid' | 'list';
 
-export default function MediaManager({ initialMedia = [] }: MediaManagerProps) {
+interface JobStatus {
+  status: string;
+  progress: number;
+  attempts: number;
+  lastError: string | null;
+}
+
+// How often to check on uploads that are still processing
+const PROCESSING_POLL_MS = 3000;
+
+const USAGE_LABELS: Record<MediaUsageKind, string> = {
+  work: 'Work',
+  product: 'Product',
+  post: 'Post',
+  'audio-post': 'Audio post',
+  'homepage-video': 'Homepage',
+};
+
+export default function MediaManager({ initialMedia = [], initialUsage = {} }: MediaManagerProps) {
   const [media, setMedia] = useState<Media[]>(initialMedia);
+  const [usage, setUsage] = useState<Record<string, MediaUsage[]>>(initialUsage);
   const [loading, setLoading] = useState(false);
   const [search, setSearch] = useState('');
   const [typeFilter, setTypeFilter] = useState<string>('all');
@@ -34,7 +61,12 @@ export default function MediaManager({ initialMedia = [] }: MediaManagerProps) {
     handleUploadComplete,
   } = useFilePondUpload();
   const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [jobs, setJobs] = useState<Record<string, JobStatus>>({});
+  const [allowDuplicates, setAllowDuplicates] = useState(false);
   const [deleteConfirm, setDeleteConfirm] = useState<Media | null>(null);
+  const [focusItem, setFocusItem] = useState<Media | null>(null);
+  const [posterItem, setPosterItem] = useState<Media | null>(null);
   const [deleting, setDeleting] = useState(false);
   const [bulkDeleteConfirm, setBulkDeleteConfirm] = useState(false);
   const [bulkDeleting, setBulkDeleting] = useState(false);
@@ -68,6 +100,7 @@ export default function MediaManager({ initialMedia = [] }: MediaManagerProps) {
         } else {
           setMedia((prev) => [...prev, ...(data.media || [])]);
         }
+        setUsage((prev) => ({ ...prev, ...(data.usage || {}) }));
         setTotal(data.pagination?.total || 0);
         setHasMore(data.pagination?.hasMore || false);
         if (reset) setOffset(limit);
@@ -96,12 +129,111 @@ export default function MediaManager({ initialMedia = [] }: MediaManagerProps) {
     return () => clearTimeout(timer);
   }, [search, typeFilter]);
 
+  // Poll processing status while any item is queued or processing
+  const processingIds = media
+    .filter((m) => m.status === 'pending' || m.status === 'processing')
+    .slice(0, 100)
+    .map((m) => m.id)
+    .join(',');
+
+  useEffect(() => {
+    if (!processingIds) return;
+    const timer = setInterval(async () => {
+      try {
+        const response = await fetch(`/api/admin/media/jobs?ids=${processingIds}`, { credentials: 'include' });
+        if (!response.ok) return;
+        const data: { items: { media: Media; job: JobStatus | null }[] } = await response.json();
+        const updated = new Map(data.items.map((item) => [item.media.id, item.media]));
+        setMedia((prev) => prev.map((m) => updated.get(m.id) ?? m));
+        setJobs((prev) => {
+          const next = { ...prev };
+          for (const item of data.items) {
+            if (item.job) next[item.media.id] = item.job;
+          }
+          return next;
+        });
+      } catch {
+        // Try again on the next tick
+      }
+    }, PROCESSING_POLL_MS);
+    return () => clearInterval(timer);
+  }, [processingIds]);
+
+  // Retry processing that failed for good
+  const handleRetryProcessing = async (mediaItem: Media) => {
+    try {
+      const response = await fetch('/api/admin/media/jobs', {
+        method: 'POST',
+        credentials: 'include',
+        headers: {
+          'Content-Type': 'application/json',
+          'X-CSRF-Token': getCsrfToken(),
+        },
+        body: JSON.stringify({ mediaId: mediaItem.id }),
+      });
+      if (response.ok) {
+        setMedia((prev) => prev.map((m) => (m.id === mediaItem.id ? { ...m, status: 'pending' } : m)));
+        setJobs((prev) => ({ ...prev, [mediaItem.id]: { status: 'pending', progress: 0, attempts: 0, lastError: null } }));
+      } else {
+        const data = await response.json();
+        setError(data.error || 'Retry failed');
+      }
+    } catch {
+      setError('Retry failed');
+    }
+  };
+
+  // Focal point saved: crops that need generating are queued for the worker
+  const handleFocusSaved = (updated: Media) => {
+    setMedia((prev) => prev.map((m) => (m.id === updated.id ? updated : m)));
+    setFocusItem(null);
+    if (Object.values(updated.crops ?? {}).some((crop) => !crop.variants)) {
+      setNotice('Focal point saved. The media worker is generating the new crops.');
+    }
+  };
+
+  // Focal point and crops can be set once an image is processed
+  const canSetFocus = (mediaItem: Media) => mediaItem.mediaType === 'image' && mediaItem.status === 'ready';
+
+  const handlePosterSaved = (updated: Media) => {
+    setMedia((prev) => prev.map((m) => (m.id === updated.id ? updated : m)));
+    setPosterItem(null);
+    setNotice('Poster frame saved. The media worker is cutting the new frame.');
+  };
+
+  // The poster frame is cut from the processed video
+  const canSetPoster = (mediaItem: Media) => mediaItem.mediaType === 'video' && mediaItem.status === 'ready';
+
+  // Processing status label, or null once the item is ready
+  const getProcessingLabel = (mediaItem: Media) => {
+    const job = jobs[mediaItem.id];
+    switch (mediaItem.status) {
+      case 'pending':
+        return job && job.attempts > 0 ? `Retrying (attempt ${job.attempts + 1})` : 'Queued for processing';
+      case 'processing':
+        return `Processing ${job?.progress ?? 0}%`;
+      case 'error':
+        return 'Processing failed';
+      default:
+        return null;
+    }
+  };
+
   // Handle FilePond upload complete
   const handlePondUploadComplete = (uploadedFiles: UploadedFile[]) => {
     handleUploadComplete(uploadedFiles);
     
-    // Convert to Media format and add to list
-    const uploadedMedia: Media[] = uploadedFiles.map(f => ({
+    // Files already in the library come back as the existing item
+    const duplicates = uploadedFiles.filter((f) => f.duplicate);
+    if (duplicates.length > 0) {
+      const names = duplicates.map((f) => `"${f.name}"`).join(', ');
+      setNotice(`Already in the library, so the existing ${duplicates.length === 1 ? 'file was' : 'files were'} used: ${names}`);
+    }
+
+    // Convert to Media format and add to list (skipping items already shown)
+    const shownIds = new Set(media.map((m) => m.id));
+    const newFiles = uploadedFiles.filter((f) => !shownIds.has(f.id));
+    const uploadedMedia: Media[] = newFiles.map(f => ({
       id: f.id,
       filename: f.name,
       originalName: f.name,
@@ -112,6 +244,7 @@ export default function MediaManager({ initialMedia = [] }: MediaManagerProps) {
       width: f.width || null,
       height: f.height || null,
       blurhash: f.blurhash || null,
+      status: f.status || 'ready',
       refCount: 0,
       createdAt: new Date(),
       updatedAt: new Date(),
@@ -146,8 +279,9 @@ export default function MediaManager({ initialMedia = [] }: MediaManagerProps) {
         setDeleteConfirm(null);
         setTotal((prev) => prev - 1);
       } else if (response.status === 409) {
-        // Media is in use, show confirmation
+        // Media is in use, show where before confirming
         const data = await response.json();
+        setUsage((prev) => ({ ...prev, [mediaItem.id]: data.usage || [] }));
         setDeleteConfirm({ ...mediaItem, refCount: data.refCount });
       } else {
         const data = await response.json();
@@ -204,6 +338,8 @@ export default function MediaManager({ initialMedia = [] }: MediaManagerProps) {
       const result = await response.json();
       const deletedCount = result.results?.deleted?.length || 0;
       const inUseCount = result.results?.inUse?.length || 0;
+      const inUse: { id: string; usage: MediaUsage[] }[] = result.results?.inUse || [];
+      setUsage((prev) => ({ ...prev, ...Object.fromEntries(inUse.map((item) => [item.id, item.usage])) }));
 
       // Update state - remove deleted items
       const deletedIds = new Set(result.results?.deleted || []);
@@ -249,12 +385,37 @@ export default function MediaManager({ initialMedia = [] }: MediaManagerProps) {
       return "data:image/svg+xml,%3Csvg xmlns='http://www.w3.org/2000/svg' viewBox='0 0 24 24' fill='%239b59b6'%3E%3Cpath d='M12 3v10.55c-.59-.34-1.27-.55-2-.55-2.21 0-4 1.79-4 4s1.79 4 4 4 4-1.79 4-4V7h4V3h-6z'/%3E%3C/svg%3E";
     }
     if (mediaItem.mediaType === 'video') {
+      if (mediaItem.posterUrl) return mediaItem.posterUrl;
       // Red video icon
       return "data:image/svg+xml,%3Csvg xmlns='http://www.w3.org/2000/svg' viewBox='0 0 24 24' fill='%23e74c3c'%3E%3Cpath d='M17 10.5V7c0-.55-.45-1-1-1H4c-.55 0-1 .45-1 1v10c0 .55.45 1 1 1h12c.55 0 1-.45 1-1v-3.5l4 4v-11l-4 4z'/%3E%3C/svg%3E";
     }
     return "data:image/svg+xml,%3Csvg xmlns='http://www.w3.org/2000/svg' viewBox='0 0 24 24' fill='%23666'%3E%3Cpath d='M14 2H6c-1.1 0-1.99.9-1.99 2L4 20c0 1.1.89 2 1.99 2H18c1.1 0 2-.9 2-2V8l-6-6zm2 16H8v-2h8v2zm0-4H8v-2h8v2zm-3-5V3.5L18.5 9H13z'/%3E%3C/svg%3E";
   };
 
+  // Images and video posters fill the tile; other types show an icon
+  const hasPicture = (mediaItem: Media) =>
+    mediaItem.mediaType === 'image' || (mediaItem.mediaType === 'video' && !!mediaItem.posterUrl);
+
+  // Where an item is used, as links to the places to edit
+  const renderUsage = (mediaItem: Media, style: React.CSSProperties) => {
+    const places = usage[mediaItem.id];
+    if (!places || places.length === 0) return null;
+    return (
+      <div style={style}>
+        Used in{' '}
+        {places.map((place, index) => (
+          <span key={`${place.kind}:${place.id}`}>
+            {index > 0 && ', '}
+            <a href={place.href} style={styles.usageLink}>
+              {place.title}
+            </a>
+            {' '}({USAGE_LABELS[place.kind]}{place.trashed ? ', in trash' : ''})
+          </span>
+        ))}
+      </div>
+    );
+  };
+
   // Format file size
   const formatSize = (bytes: number) => {
     if (bytes < 1024) return `${bytes} B`;
@@ -364,15 +525,37 @@ export default function MediaManager({ initialMedia = [] }: MediaManagerProps) {
         </div>
       )}
 
+      {/* Duplicate upload notice */}
+      {notice && (
+        <div style={styles.notice}>
+          {notice}
+          <button onClick={() => setNotice(null)} style={styles.noticeClose}>
+            &times;
+          </button>
+        </div>
+      )}
+
       {/* FilePond Upload Area */}
       <div style={styles.filepondContainer}>
         <FilePondUploader
           allowMultiple={true}
           maxFiles={50}
           onUploadComplete={handlePondUploadComplete}
+          metadata={{ allowDuplicate: allowDuplicates }}
           variant="dropzone"
           labelIdle='Drag & drop files or <span class="filepond--label-action">Browse</span>'
         />
+        <label style={styles.checkboxLabel}>
+          <input
+            type="checkbox"
+            checked={allowDuplicates}
+            onChange={(e) => setAllowDuplicates(e.target.checked)}
+            style={styles.checkbox}
+          />
+          <span style={styles.selectAllText}>
+            Upload a new copy even if the file is already in the library
+          </span>
+        </label>
       </div>
 
       {/* Media Grid */}
@@ -394,11 +577,12 @@ export default function MediaManager({ initialMedia = [] }: MediaManagerProps) {
                 ...(selectedIds.has(item.id) ? styles.gridItemSelected : {}),
               }}
             >
-              <div style={styles.thumbnailContainer}>
+              <div style={{ ...styles.thumbnailContainer, ...(item.dominantColor ? { background: item.dominantColor } : {}) }}>
+                {item.mediaType === 'video' && item.blurhash && <BlurhashCanvas hash={item.blurhash} />}
                 <img
                   src={getThumbnail(item)}
                   alt={item.altText || item.filename}
-                  style={item.mediaType === 'image' ? styles.thumbnail : styles.thumbnailIcon}
+                  style={hasPicture(item) ? styles.thumbnail : styles.thumbnailIcon}
                   loading="lazy"
                 />
                 <span
@@ -417,6 +601,20 @@ export default function MediaManager({ initialMedia = [] }: MediaManagerProps) {
                 {item.refCount > 0 && (
                   <span style={styles.refBadge}>{item.refCount}</span>
                 )}
+                {getProcessingLabel(item) && (
+                  <span
+                    style={{
+                      ...styles.processingBadge,
+                      ...(item.status === 'error' ? styles.processingBadgeError : {}),
+                    }}
+                    title={jobs[item.id]?.lastError || undefined}
+                  >
+                    {item.status === 'processing' && (
+                      <span style={{ ...styles.processingBar, width: `${jobs[item.id]?.progress ?? 0}%` }} />
+                    )}
+                    <span style={styles.processingText}>{getProcessingLabel(item)}</span>
+                  </span>
+                )}
                 <label style={styles.gridItemCheckbox}>
                   <input
                     type="checkbox"
@@ -436,6 +634,22 @@ export default function MediaManager({ initialMedia = [] }: MediaManagerProps) {
                     <span style={styles.originalName}> (was {item.originalName.replace(/\.[^.]+$/, '')})</span>
                   )}
                 </div>
+                {renderUsage(item, styles.usage)}
+                {item.status === 'error' && (
+                  <button onClick={() => handleRetryProcessing(item)} style={styles.retryButton}>
+                    Retry processing
+                  </button>
+                )}
+                {canSetFocus(item) && (
+                  <button onClick={() => setFocusItem(item)} style={styles.focusButton}>
+                    {item.focalX != null ? 'Edit focal point' : 'Set focal point'}
+                  </button>
+                )}
+                {canSetPoster(item) && (
+                  <button onClick={() => setPosterItem(item)} style={styles.focusButton}>
+                    Choose poster frame
+                  </button>
+                )}
               </div>
               <button
                 onClick={() => handleDelete(item)}
@@ -465,11 +679,12 @@ export default function MediaManager({ initialMedia = [] }: MediaManagerProps) {
                   style={styles.checkboxInput}
                 />
               </label>
-              <div style={styles.listThumbnail}>
+              <div style={{ ...styles.listThumbnail, ...(item.dominantColor ? { background: item.dominantColor } : {}) }}>
+                {item.mediaType === 'video' && item.blurhash && <BlurhashCanvas hash={item.blurhash} />}
                 <img
                   src={getThumbnail(item)}
                   alt={item.altText || item.filename}
-                  style={item.mediaType === 'image' ? styles.listThumbnailImg : styles.listThumbnailIcon}
+                  style={hasPicture(item) ? styles.listThumbnailImg : styles.listThumbnailIcon}
                   loading="lazy"
                 />
               </div>
@@ -480,12 +695,35 @@ export default function MediaManager({ initialMedia = [] }: MediaManagerProps) {
                   {item.width && item.height && ` • ${item.width}x${item.height}`}
                   {' • '}
                   {formatDate(item.createdAt)}
-                  {item.refCount > 0 && ` • Used ${item.refCount} time${item.refCount === 1 ? '' : 's'}`}
+                  {getProcessingLabel(item) && (
+                    <span
+                      style={item.status === 'error' ? styles.processingErrorText : undefined}
+                      title={jobs[item.id]?.lastError || undefined}
+                    >
+                      {' • '}{getProcessingLabel(item)}
+                    </span>
+                  )}
                   {item.mediaType === 'image' && item.originalName !== item.filename && (
                     <span style={styles.originalName}> • Converted from {item.originalName.replace(/\.[^.]+$/, '')}</span>
                   )}
                 </div>
+                {renderUsage(item, styles.usage)}
               </div>
+              {item.status === 'error' && (
+                <button onClick={() => handleRetryProcessing(item)} style={styles.retryButton}>
+                  Retry processing
+                </button>
+              )}
+              {canSetFocus(item) && (
+                <button onClick={() => setFocusItem(item)} style={styles.focusButton}>
+                  {item.focalX != null ? 'Edit focal point' : 'Set focal point'}
+                </button>
+              )}
+              {canSetPoster(item) && (
+                <button onClick={() => setPosterItem(item)} style={styles.focusButton}>
+                  Choose poster frame
+                </button>
+              )}
               <button
                 onClick={() => handleDelete(item)}
                 style={styles.listDeleteButton}
@@ -514,17 +752,28 @@ export default function MediaManager({ initialMedia = [] }: MediaManagerProps) {
       )}
       </div>
 
+      {/* Focal point and crops */}
+      {focusItem && (
+        <FocalPointEditor item={focusItem} onClose={() => setFocusItem(null)} onSaved={handleFocusSaved} />
+      )}
+
+      {/* Video poster frame */}
+      {posterItem && (
+        <PosterFramePicker item={posterItem} onClose={() => setPosterItem(null)} onSaved={handlePosterSaved} />
+      )}
+
       {/* Delete confirmation modal */}
       {deleteConfirm && (
         <div style={styles.modalOverlay}>
           <div style={styles.modal}>
             <h3 style={styles.modalTitle}>Media In Use</h3>
             <p>
-              This media is referenced by {deleteConfirm.refCount} item
-              {deleteConfirm.refCount === 1 ? '' : 's'}. Deleting it may break
-              those items.
+              This media is used in {deleteConfirm.refCount} place
+              {deleteConfirm.refCount === 1 ? '' : 's'}. Deleting it removes it
+              from all of them.
             </p>
             <p style={styles.modalFileName}>{deleteConfirm.filename}</p>
+            {renderUsage(deleteConfirm, styles.modalUsage)}
             <div style={styles.modalActions}>
               <button
                 onClick={() => setDeleteConfirm(null)}
@@ -548,7 +797,7 @@ export default function MediaManager({ initialMedia = [] }: MediaManagerProps) {
                     Deleting...
                   </span>
                 ) : (
-                  'Delete Anyway'
+                  'Delete and Remove Everywhere'
                 )}
               </button>
             </div>
@@ -562,12 +811,13 @@ export default function MediaManager({ initialMedia = [] }: MediaManagerProps) {
           <div style={styles.modal}>
             <h3 style={styles.modalTitle}>Delete Selected Items</h3>
             <p>
-              Are you sure you want to delete {selectedIds.size} selected item
-              {selectedIds.size === 1 ? '' : 's'}? This action cannot be undone.
+              Move {selectedIds.size} selected item
+              {selectedIds.size === 1 ? '' : 's'} to the trash? They can be restored
+              from the Trash page until they are purged.
             </p>
             <p style={styles.modalWarning}>
               Items that are currently in use will not be deleted unless you choose
-              "Force Delete All".
+              "Force Delete All", which also removes them from everywhere they are used.
             </p>
             <div style={styles.modalActions}>
               <button
@@ -763,6 +1013,74 @@ const styles: Record<string, React.CSSProperties> = {
     fontSize: '18px',
     cursor: 'pointer',
   },
+  processingBadge: {
+    position: 'absolute',
+    left: 0,
+    right: 0,
+    bottom: 0,
+    padding: '6px 8px',
+    background: 'rgba(0, 0, 0, 0.7)',
+    color: '#fff',
+    fontSize: '11px',
+    overflow: 'hidden',
+  },
+  processingBadgeError: {
+    background: 'rgba(239, 68, 68, 0.85)',
+  },
+  processingBar: {
+    position: 'absolute',
+    left: 0,
+    top: 0,
+    bottom: 0,
+    background: 'var(--admin-accent-primary)',
+    opacity: 0.6,
+    transition: 'width 0.3s ease',
+  },
+  processingText: {
+    position: 'relative',
+  },
+  processingErrorText: {
+    color: 'var(--admin-accent-danger)',
+  },
+  retryButton: {
+    marginTop: '6px',
+    padding: '4px 8px',
+    background: 'var(--admin-bg-card)',
+    border: '1px solid var(--admin-border-secondary)',
+    borderRadius: '4px',
+    color: 'var(--admin-text-secondary)',
+    cursor: 'pointer',
+    fontSize: '12px',
+  },
+  focusButton: {
+    marginTop: '6px',
+    marginRight: '6px',
+    padding: '4px 8px',
+    background: 'var(--admin-bg-card)',
+    border: '1px solid var(--admin-border-secondary)',
+    borderRadius: '4px',
+    color: 'var(--admin-text-secondary)',
+    cursor: 'pointer',
+    fontSize: '12px',
+  },
+  notice: {
+    background: 'var(--admin-bg-tertiary)',
+    border: '1px solid var(--admin-border-secondary)',
+    color: 'var(--admin-text-secondary)',
+    padding: '12px 16px',
+    marginBottom: '20px',
+    borderRadius: '6px',
+    display: 'flex',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  noticeClose: {
+    background: 'none',
+    border: 'none',
+    color: 'var(--admin-text-secondary)',
+    fontSize: '18px',
+    cursor: 'pointer',
+  },
   empty: {
     textAlign: 'center',
     padding: '60px 20px',
@@ -804,6 +1122,7 @@ const styles: Record<string, React.CSSProperties> = {
     background: 'var(--admin-bg-tertiary)',
   },
   thumbnail: {
+    position: 'relative', // above the blurhash placeholder
     width: '100%',
     height: '100%',
     objectFit: 'cover',
@@ -893,6 +1212,7 @@ const styles: Record<string, React.CSSProperties> = {
     justifyContent: 'center',
   },
   listThumbnail: {
+    position: 'relative',
     width: '60px',
     height: '60px',
     borderRadius: '4px',
@@ -901,6 +1221,7 @@ const styles: Record<string, React.CSSProperties> = {
     flexShrink: 0,
   },
   listThumbnailImg: {
+    position: 'relative', // above the blurhash placeholder
     width: '100%',
     height: '100%',
     objectFit: 'cover',
@@ -993,6 +1314,20 @@ const styles: Record<string, React.CSSProperties> = {
     fontSize: '18px',
     color: 'var(--admin-text-primary)',
   },
+  usage: {
+    fontSize: '11px',
+    color: 'var(--admin-text-muted)',
+    marginTop: '4px',
+  },
+  modalUsage: {
+    fontSize: '13px',
+    color: 'var(--admin-text-muted)',
+    marginTop: '12px',
+  },
+  usageLink: {
+    color: 'var(--admin-accent-primary)',
+    textDecoration: 'none',
+  },
   modalFileName: {
     background: 'var(--admin-bg-tertiary)',
     padding: '8px 12px',
@@ -11,6 +11,7 @@
 import { useState, useCallback, useEffect } from 'react';
 import type { Media } from '@lib/db/schema';
 import { FilePondUploader, type UploadedFile } from './FilePondUploader';
+import BlurhashCanvas from './BlurhashCanvas';
 
 interface MediaSelectorProps {
   mediaType?: 'image' | 'audio' | 'video' | 'all';
@@ -98,7 +99,9 @@ export default function MediaSelector({
       // Refresh gallery and show success
       fetchMedia();
       setError(null);
-      setSuccess(`"${file.name}" uploaded successfully. Click it to select.`);
+      setSuccess(file.duplicate
+        ? `"${file.name}" is already in the library. Click it to select.`
+        : `"${file.name}" uploaded successfully. Click it to select.`);
       setActiveTab('gallery');
     }
   };
@@ -134,6 +137,9 @@ export default function MediaSelector({
       // Use smallest available variant for thumbnails
       return mediaItem.variants?.sm?.url || mediaItem.variants?.md?.url || mediaItem.url;
     }
+    if (mediaItem.mediaType === 'video' && mediaItem.posterUrl) {
+      return mediaItem.posterUrl;
+    }
     // Placeholder icons for audio/video with better visual distinction
     if (mediaItem.mediaType === 'audio') {
       return "data:image/svg+xml,%3Csvg xmlns='http://www.w3.org/2000/svg' viewBox='0 0 24 24' fill='%239b59b6'%3E%3Cpath d='M12 3v10.55c-.59-.34-1.27-.55-2-.55-2.21 0-4 1.79-4 4s1.79 4 4 4 4-1.79 4-4V7h4V3h-6z'/%3E%3C/svg%3E";
@@ -234,11 +240,12 @@ export default function MediaSelector({
                     ...(selectedId === item.id ? styles.mediaItemSelected : {}),
                   }}
                 >
-                  <div style={styles.thumbnailContainer}>
+                  <div style={{ ...styles.thumbnailContainer, ...(item.dominantColor ? { background: item.dominantColor } : {}) }}>
+                    {item.mediaType === 'video' && item.blurhash && <BlurhashCanvas hash={item.blurhash} />}
                     <img
                       src={getThumbnail(item)}
                       alt={item.altText || item.filename}
-                      style={item.mediaType === 'image' ? styles.thumbnail : styles.thumbnailIcon}
+                      style={item.mediaType === 'image' || item.posterUrl ? styles.thumbnail : styles.thumbnailIcon}
                     />
                     <span style={styles.typeBadge}>
                       {getMediaTypeLabel(item.mediaType)}
@@ -385,6 +392,7 @@ const styles: Record<string, React.CSSProperties> = {
     background: '#1a1a1a',
   },
   thumbnail: {
+    position: 'relative', // above the blurhash placeholder
     width: '100%',
     height: '100%',
     objectFit: 'cover',
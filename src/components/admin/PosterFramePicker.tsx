@@ -0,0 +1,242 @@
+/**
+ * PosterFramePicker Component
+ *
+ * Modal for choosing a video's poster frame. Scrub with the player or jump
+ * with the thumbnail strip, then save the current time; the media worker cuts
+ * the new poster (and its blurhash) after saving.
+ */
+
+import { useRef, useState } from 'react';
+import type { Media } from '@lib/db/schema';
+
+interface PosterFramePickerProps {
+  item: Media;
+  onClose: () => void;
+  onSaved: (item: Media) => void;
+}
+
+// Thumbnail strip tile width; the height follows the sprite's aspect ratio
+const TILE_WIDTH = 80;
+
+// Get CSRF token from cookie (decodeURIComponent needed as cookie values are URL-encoded)
+const getCsrfToken = () => {
+  const match = document.cookie.match(/csrf_token=([^;]+)/);
+  return match ? decodeURIComponent(match[1]) : '';
+};
+
+const formatTime = (seconds: number) => {
+  const m = Math.floor(seconds / 60);
+  const s = (seconds % 60).toFixed(1).padStart(4, '0');
+  return `${m}:${s}`;
+};
+
+export default function PosterFramePicker({ item, onClose, onSaved }: PosterFramePickerProps) {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const [time, setTime] = useState(item.posterTime ?? 0);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const sprite = item.sprite;
+  const tileHeight = sprite ? Math.round((TILE_WIDTH * sprite.frameHeight) / sprite.frameWidth) : 0;
+
+  const seek = (seconds: number) => {
+    if (videoRef.current) videoRef.current.currentTime = seconds;
+    setTime(seconds);
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    setError(null);
+    try {
+      const response = await fetch('/api/admin/media/poster', {
+        method: 'POST',
+        credentials: 'include',
+        headers: {
+          'Content-Type': 'application/json',
+          'X-CSRF-Token': getCsrfToken(),
+        },
+        body: JSON.stringify({ mediaId: item.id, time: Math.round(time * 100) / 100 }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        setError(data.error || 'Save failed');
+        return;
+      }
+      onSaved(data.media);
+    } catch {
+      setError('Save failed');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div style={styles.overlay}>
+      <div style={styles.modal}>
+        <h3 style={styles.title}>Poster Frame</h3>
+        <p style={styles.hint}>Pause on the frame to show while the video loads, or pick one from the strip.</p>
+
+        <video
+          ref={videoRef}
+          src={item.url}
+          poster={item.posterUrl ?? undefined}
+          controls
+          muted
+          playsInline
+          preload="metadata"
+          style={styles.video}
+          onLoadedMetadata={(e) => {
+            if (item.posterTime) e.currentTarget.currentTime = item.posterTime;
+          }}
+          onTimeUpdate={(e) => setTime(e.currentTarget.currentTime)}
+          onSeeked={(e) => setTime(e.currentTarget.currentTime)}
+        />
+
+        {sprite && (
+          <div style={styles.strip}>
+            {Array.from({ length: sprite.count }, (_, index) => {
+              const at = index * sprite.interval;
+              const active = time >= at && time < at + sprite.interval;
+              return (
+                <button
+                  key={index}
+                  type="button"
+                  title={formatTime(at)}
+                  onClick={() => seek(at)}
+                  style={{
+                    ...styles.tile,
+                    width: `${TILE_WIDTH}px`,
+                    height: `${tileHeight}px`,
+                    backgroundImage: `url(${sprite.url})`,
+                    backgroundSize: `${TILE_WIDTH * sprite.count}px ${tileHeight}px`,
+                    backgroundPosition: `-${index * TILE_WIDTH}px 0`,
+                    ...(active ? styles.tileActive : {}),
+                  }}
+                />
+              );
+            })}
+          </div>
+        )}
+
+        <div style={styles.current}>
+          <span>Frame at {formatTime(time)}</span>
+          {item.posterTime != null && <span style={styles.muted}>Current poster: {formatTime(item.posterTime)}</span>}
+        </div>
+
+        {error && <p style={styles.error}>{error}</p>}
+
+        <div style={styles.actions}>
+          <span style={{ flex: 1 }} />
+          <button onClick={onClose} style={styles.secondary} disabled={saving}>
+            Cancel
+          </button>
+          <button
+            onClick={handleSave}
+            style={{ ...styles.primary, opacity: saving ? 0.7 : 1, cursor: saving ? 'not-allowed' : 'pointer' }}
+            disabled={saving}
+          >
+            {saving ? 'Saving...' : 'Use this frame'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+// Styles using CSS variables for theming
+const styles: Record<string, React.CSSProperties> = {
+  overlay: {
+    position: 'fixed',
+    top: 0,
+    left: 0,
+    right: 0,
+    bottom: 0,
+    background: 'rgba(0,0,0,0.8)',
+    display: 'flex',
+    alignItems: 'center',
+    justifyContent: 'center',
+    zIndex: 1000,
+  },
+  modal: {
+    background: 'var(--admin-bg-card)',
+    borderRadius: '8px',
+    padding: '24px',
+    maxWidth: '720px',
+    width: '90%',
+    maxHeight: '90vh',
+    overflowY: 'auto',
+  },
+  title: {
+    margin: '0 0 8px 0',
+    fontSize: '18px',
+    color: 'var(--admin-text-primary)',
+  },
+  hint: {
+    margin: '0 0 16px 0',
+    fontSize: '13px',
+    color: 'var(--admin-text-muted)',
+  },
+  video: {
+    width: '100%',
+    maxHeight: '50vh',
+    background: '#000',
+    display: 'block',
+  },
+  strip: {
+    display: 'flex',
+    gap: '2px',
+    marginTop: '12px',
+    overflowX: 'auto',
+    paddingBottom: '4px',
+  },
+  tile: {
+    flexShrink: 0,
+    padding: 0,
+    border: '2px solid transparent',
+    borderRadius: '2px',
+    backgroundRepeat: 'no-repeat',
+    cursor: 'pointer',
+  },
+  tileActive: {
+    borderColor: 'var(--admin-accent-primary)',
+  },
+  current: {
+    display: 'flex',
+    justifyContent: 'space-between',
+    marginTop: '12px',
+    fontSize: '13px',
+    color: 'var(--admin-text-primary)',
+  },
+  muted: {
+    color: 'var(--admin-text-muted)',
+  },
+  error: {
+    marginTop: '12px',
+    fontSize: '13px',
+    color: 'var(--admin-accent-danger)',
+  },
+  actions: {
+    display: 'flex',
+    gap: '12px',
+    marginTop: '20px',
+    alignItems: 'center',
+  },
+  secondary: {
+    padding: '10px 16px',
+    background: 'none',
+    border: '1px solid var(--admin-border-secondary)',
+    borderRadius: '6px',
+    color: 'var(--admin-text-primary)',
+    cursor: 'pointer',
+    fontSize: '14px',
+  },
+  primary: {
+    padding: '10px 16px',
+    background: 'var(--admin-accent-primary)',
+    border: 'none',
+    borderRadius: '6px',
+    color: '#fff',
+    cursor: 'pointer',
+    fontSize: '14px',
+  },
+};
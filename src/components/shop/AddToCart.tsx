@@ -0,0 +1,97 @@
+import { useState } from 'react';
+import { addItemToCart, cartStore, setCartTrayOpen } from '@lib/cartStore';
+
+interface AddToCartProps {
+  productId: string;
+  sizes?: Array<{ size: string; quantity: number }>;
+  soldOut?: boolean;
+}
+
+/**
+ * Size picker + add-to-cart button for the product page.
+ * Sizes with no stock are shown but disabled; server-side reservation errors
+ * ("Only 1 left", "Reserved by another buyer") are shown under the button.
+ */
+export function AddToCart({ productId, sizes, soldOut = false }: AddToCartProps) {
+  const hasSizes = !!sizes && sizes.length > 0;
+  const inStockSizes = sizes?.filter((s) => s.quantity > 0) ?? [];
+  const [selectedSize, setSelectedSize] = useState<string | null>(
+    inStockSizes.length === 1 ? inStockSizes[0].size : null
+  );
+  const [adding, setAdding] = useState(false);
+  const [added, setAdded] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const unavailable = soldOut || (hasSizes && inStockSizes.length === 0);
+
+  const handleAdd = async () => {
+    if (hasSizes && !selectedSize) {
+      setError('Please choose a size');
+      return;
+    }
+    setAdding(true);
+    setAdded(false);
+    setError(null);
+    const key = await addItemToCart(productId, 1, selectedSize ?? undefined);
+    setAdding(false);
+    if (key) {
+      setAdded(true);
+      setCartTrayOpen(true);
+    } else {
+      setError(cartStore.get().error || 'Failed to add to cart');
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      {hasSizes && (
+        <div>
+          <p className="text-xs uppercase tracking-wider text-gray-500 mb-2">Size</p>
+          <div className="flex flex-wrap gap-2">
+            {sizes!.map(({ size, quantity }) => {
+              const available = quantity > 0;
+              const selected = selectedSize === size;
+              return (
+                <button
+                  key={size}
+                  type="button"
+                  disabled={!available}
+                  onClick={() => {
+                    setSelectedSize(size);
+                    setError(null);
+                  }}
+                  className={`min-w-12 px-3 py-2 border text-sm transition-colors ${
+                    selected
+                      ? 'border-black bg-black text-white'
+                      : available
+                        ? 'border-gray-300 text-gray-900 hover:border-black'
+                        : 'border-gray-200 text-gray-300 line-through cursor-not-allowed'
+                  }`}
+                  title={available ? `${quantity} available` : 'Sold out'}
+                >
+                  {size}
+                </button>
+              );
+            })}
+          </div>
+        </div>
+      )}
+
+      <button
+        type="button"
+        onClick={handleAdd}
+        disabled={unavailable || adding}
+        className="w-full px-8 py-4 bg-black text-white rounded-full hover:bg-gray-800 transition-all duration-300 disabled:bg-gray-300 disabled:cursor-not-allowed"
+      >
+        {unavailable ? 'Sold out' : adding ? 'Adding…' : 'Add to cart'}
+      </button>
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+      {added && !error && (
+        <p className="text-sm text-gray-600">
+          Added to cart. <a href="/cart" className="underline hover:text-black">View cart</a>
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,237 @@
+import { useEffect, useState, type FormEvent } from 'react';
+import { useStore } from '@nanostores/react';
+import {
+  cartStore,
+  fetchCartFromServer,
+  updateCartItemQuantity,
+  removeCartItem,
+  checkoutCart,
+  applyPromotionCode,
+  removePromotionCode,
+} from '@lib/cartStore';
+import { parseCartKey } from '@lib/cart-key';
+import type { Cart, CartItem } from '@lib/types';
+
+/** "12.00 USD" (or a number) → "$12.00" */
+export function formatCartPrice(amount?: string | number): string {
+  const value = typeof amount === 'number' ? amount : parseFloat(amount ?? '') || 0;
+  return `$${value.toFixed(2)}`;
+}
+
+interface CartLinesProps {
+  compact?: boolean; // tray layout: smaller thumbnails
+  onNavigate?: () => void; // called when a link inside the cart is followed
+  refresh?: boolean; // reload the cart from the server on mount
+}
+
+function CartLine({ item, compact, onNavigate }: { item: CartItem; compact: boolean; onNavigate?: () => void }) {
+  const product = item.product.node;
+  const { size } = parseCartKey(item.key);
+  const sizeStock = size ? product.sizes?.find((s) => s.size === size)?.quantity : undefined;
+  const maxQuantity = sizeStock ?? product.stockQuantity;
+  const unitPrice = item.quantity > 0 ? (parseFloat(item.total ?? '') || 0) / item.quantity : 0;
+  const thumb = compact ? 'w-16 h-16' : 'w-24 h-24';
+
+  return (
+    <li className="flex gap-4 py-4">
+      <a href={`/shop/product/${product.slug}`} onClick={onNavigate} className={`${thumb} shrink-0 bg-gray-100 overflow-hidden`}>
+        {product.image && (
+          <img
+            src={product.image.sourceUrl}
+            alt={product.image.altText || product.name}
+            loading="lazy"
+            decoding="async"
+            className="w-full h-full object-cover"
+          />
+        )}
+      </a>
+
+      <div className="flex-1 min-w-0 flex flex-col gap-1">
+        <div className="flex justify-between gap-4">
+          <a href={`/shop/product/${product.slug}`} onClick={onNavigate} className="font-medium text-gray-900 truncate hover:text-gray-600">
+            {product.name}
+          </a>
+          <span className="text-gray-900 shrink-0">{formatCartPrice(item.total)}</span>
+        </div>
+        {size && <p className="text-gray-500">Size {size}</p>}
+        {item.quantity > 1 && (
+          <p className="text-gray-500">{formatCartPrice(unitPrice)} each</p>
+        )}
+
+        <div className="mt-auto flex items-center gap-4">
+          <div className="flex items-center border border-gray-300">
+            <button
+              type="button"
+              onClick={() => updateCartItemQuantity(item.key, item.quantity - 1)}
+              className="w-8 h-8 hover:bg-gray-100 transition-colors"
+              aria-label={`Decrease quantity of ${product.name}`}
+            >
+              −
+            </button>
+            <span className="w-8 text-center" aria-live="polite">{item.quantity}</span>
+            <button
+              type="button"
+              onClick={() => updateCartItemQuantity(item.key, item.quantity + 1)}
+              disabled={maxQuantity !== undefined && item.quantity >= maxQuantity}
+              className="w-8 h-8 hover:bg-gray-100 transition-colors disabled:text-gray-300 disabled:hover:bg-transparent"
+              aria-label={`Increase quantity of ${product.name}`}
+            >
+              +
+            </button>
+          </div>
+          <button
+            type="button"
+            onClick={() => removeCartItem(item.key)}
+            className="text-gray-500 underline hover:text-gray-900 transition-colors"
+          >
+            Remove
+          </button>
+        </div>
+      </div>
+    </li>
+  );
+}
+
+/**
+ * Promotion code entry, or the code in use with a way to remove it.
+ * A code that stopped working since it was entered is shown with its reason.
+ */
+function PromotionCode({ cart, disabled }: { cart: Cart; disabled: boolean }) {
+  const [code, setCode] = useState('');
+  const [codeError, setCodeError] = useState<string | null>(null);
+
+  const handleApply = async (event: FormEvent) => {
+    event.preventDefault();
+    if (!code.trim()) return;
+    const failed = await applyPromotionCode(code);
+    setCodeError(failed);
+    if (!failed) setCode('');
+  };
+
+  if (cart.promotionCode) {
+    return (
+      <div className="flex justify-between gap-4 text-gray-500">
+        <span className={cart.promotionError ? 'text-red-600' : undefined}>
+          {cart.promotionError ? `${cart.promotionCode}: ${cart.promotionError}` : `Code ${cart.promotionCode} applied`}
+        </span>
+        <button
+          type="button"
+          onClick={() => removePromotionCode()}
+          disabled={disabled}
+          className="underline hover:text-gray-900 transition-colors shrink-0"
+        >
+          Remove
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <form onSubmit={handleApply} className="space-y-2">
+      <div className="flex gap-2">
+        <input
+          type="text"
+          value={code}
+          onChange={(e) => setCode(e.target.value)}
+          placeholder="Promotion code"
+          aria-label="Promotion code"
+          maxLength={50}
+          className="flex-1 min-w-0 px-4 py-2 border border-gray-300 uppercase placeholder:normal-case focus:outline-none focus:border-gray-900"
+        />
+        <button
+          type="submit"
+          disabled={disabled || !code.trim()}
+          className="px-4 py-2 border border-gray-900 hover:bg-gray-900 hover:text-white transition-colors disabled:border-gray-300 disabled:text-gray-300 disabled:hover:bg-transparent"
+        >
+          Apply
+        </button>
+      </div>
+      {codeError && <p className="text-red-600">{codeError}</p>}
+    </form>
+  );
+}
+
+/**
+ * Line items, promotion, totals and checkout button for the current cart.
+ * Shared by the cart page and the header tray.
+ */
+export function CartLines({ compact = false, onNavigate, refresh = false }: CartLinesProps) {
+  const { cart, isLoading, error } = useStore(cartStore);
+  const [checkingOut, setCheckingOut] = useState(false);
+  const items = cart?.contents?.nodes ?? [];
+  const discount = parseFloat(cart?.discountTotal ?? '') || 0;
+
+  useEffect(() => {
+    if (refresh) fetchCartFromServer();
+  }, [refresh]);
+
+  const handleCheckout = async () => {
+    setCheckingOut(true);
+    const failed = await checkoutCart();
+    // On success the browser is already navigating to Stripe
+    if (failed) setCheckingOut(false);
+  };
+
+  if (!cart && isLoading) {
+    return <p className="text-gray-500 py-10 text-center">Loading…</p>;
+  }
+
+  if (items.length === 0) {
+    return (
+      <div className="text-center py-20">
+        <p className="text-gray-500 mb-8">Your cart is empty</p>
+        <a
+          href="/shop"
+          onClick={onNavigate}
+          className="inline-block px-8 py-4 bg-black text-white rounded-full hover:bg-gray-800 transition-all duration-300"
+        >
+          Continue Shopping
+        </a>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex flex-col">
+      <ul className="divide-y divide-gray-200">
+        {items.map((item) => (
+          <CartLine key={item.key} item={item} compact={compact} onNavigate={onNavigate} />
+        ))}
+      </ul>
+
+      <div className="border-t border-gray-200 pt-4 mt-2 space-y-4">
+        {cart && <PromotionCode cart={cart} disabled={checkingOut || isLoading} />}
+
+        {discount > 0 && (
+          <div className="space-y-1 text-gray-500">
+            <div className="flex justify-between">
+              <span>Subtotal</span>
+              <span>{formatCartPrice(cart?.subtotal)}</span>
+            </div>
+            <div className="flex justify-between">
+              <span>{cart?.appliedPromotion?.label ?? 'Discount'}</span>
+              <span>−{formatCartPrice(discount)}</span>
+            </div>
+          </div>
+        )}
+
+        <div className="flex justify-between font-medium text-gray-900">
+          <span>Total</span>
+          <span>{formatCartPrice(cart?.total)}</span>
+        </div>
+        <p className="text-gray-500">Shipping is calculated at checkout.</p>
+
+        {error && <p className="text-red-600">{error}</p>}
+
+        <button
+          type="button"
+          onClick={handleCheckout}
+          disabled={checkingOut || isLoading}
+          className="w-full px-8 py-4 bg-black text-white rounded-full hover:bg-gray-800 transition-all duration-300 disabled:bg-gray-300 disabled:cursor-not-allowed"
+        >
+          {checkingOut ? 'Redirecting…' : 'Checkout'}
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,93 @@
+import { useEffect, useState } from 'react';
+import { createPortal } from 'react-dom';
+import { useStore } from '@nanostores/react';
+import { cartStore, cartTrayOpenStore, setCartTrayOpen, fetchCartFromServer } from '@lib/cartStore';
+import { CartLines } from './CartLines';
+
+interface CartTrayProps {
+  className?: string; // classes for the header toggle, to match the surrounding nav
+}
+
+function CartTrayPanel({ open, onClose }: { open: boolean; onClose: () => void }) {
+  return (
+    <>
+      {/* Backdrop */}
+      <div
+        onClick={onClose}
+        className={`fixed inset-0 z-[80] bg-white/60 transition-opacity duration-300 ${open ? 'opacity-100 pointer-events-auto' : 'opacity-0 pointer-events-none'}`}
+        aria-hidden="true"
+      />
+
+      {/* Tray - slides in from the right */}
+      <aside
+        id="cart-tray"
+        role="dialog"
+        aria-label="Cart"
+        aria-hidden={!open}
+        className={`fixed right-0 top-0 z-[85] w-full max-w-md h-screen bg-white text-black text-[13px] uppercase shadow-xl flex flex-col transform transition-transform duration-300 ease-out ${open ? 'translate-x-0' : 'translate-x-full'}`}
+      >
+        <div className="flex items-center justify-between px-6 py-6 border-b border-gray-200">
+          <a href="/cart" onClick={onClose} className="font-bold tracking-tight hover:text-gray-600">
+            Cart
+          </a>
+          <button
+            type="button"
+            onClick={onClose}
+            className="w-8 h-8 flex items-center justify-center hover:text-gray-600"
+            aria-label="Close cart"
+          >
+            ✕
+          </button>
+        </div>
+        <div className="flex-1 overflow-y-auto px-6 pb-6" data-lenis-prevent>
+          <CartLines compact onNavigate={onClose} />
+        </div>
+      </aside>
+    </>
+  );
+}
+
+/**
+ * Header cart toggle with item count, and the slide-out cart tray it opens.
+ * The tray also opens from anywhere via setCartTrayOpen(true) (e.g. after add to cart).
+ * It is portalled to <body> so it still shows when the header nav is hidden on mobile.
+ */
+export function CartTray({ className = '' }: CartTrayProps) {
+  const open = useStore(cartTrayOpenStore);
+  const { cart } = useStore(cartStore);
+  const count = cart?.itemCount ?? 0;
+  const [mounted, setMounted] = useState(false);
+
+  useEffect(() => {
+    setMounted(true);
+    const { cart, isLoading } = cartStore.get();
+    if (!cart && !isLoading) fetchCartFromServer();
+  }, []);
+
+  useEffect(() => {
+    if (!open) return;
+    const onKey = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') setCartTrayOpen(false);
+    };
+    window.addEventListener('keydown', onKey);
+    return () => window.removeEventListener('keydown', onKey);
+  }, [open]);
+
+  const close = () => setCartTrayOpen(false);
+
+  return (
+    <>
+      <button
+        type="button"
+        onClick={() => setCartTrayOpen(!open)}
+        className={className}
+        aria-expanded={open}
+        aria-controls="cart-tray"
+      >
+        Cart{count > 0 && ` (${count})`}
+      </button>
+
+      {mounted && createPortal(<CartTrayPanel open={open} onClose={close} />, document.body)}
+    </>
+  );
+}
@@ -1,8 +1,19 @@
 import { useState, useEffect, useRef } from 'react';
+import {
+  CROP_PRESETS,
+  focalObjectPosition,
+  getSrcset,
+  sizeVariants,
+  type CropName,
+  type FocalPoint,
+  type MediaCrops,
+  type SrcsetDescriptor,
+} from '@lib/media-srcset';
 
 interface ImageVariant {
   url: string;
   width: number;
+  avif?: { url: string };
 }
 
 interface LightningImgProps {
@@ -14,10 +25,15 @@ interface LightningImgProps {
   priority?: boolean;
   sizes?: string;
   dominantColor?: string;
-  /** When provided (e.g. from collaborations), use these URLs for srcset instead of query params */
-  variants?: { sm?: ImageVariant; md?: ImageVariant; lg?: ImageVariant };
+  /** When provided (e.g. from collaborations), use these URLs for srcset instead of query params; AVIF copies render a <picture> */
+  variants?: { sm?: ImageVariant; md?: ImageVariant; lg?: ImageVariant; srcset?: SrcsetDescriptor };
   /** Use image's natural aspect ratio (no crop); when true, container grows to image height */
   naturalAspect?: boolean;
+  /** Subject of the image (media focal point), kept in frame when the image is cropped to fit */
+  focalPoint?: FocalPoint | null;
+  /** Show this named crop: its own variants once generated, else the image cut to its ratio around the focal point */
+  crop?: CropName;
+  crops?: MediaCrops | null;
 }
 
 /**
@@ -34,6 +50,9 @@ export function LightningImg({
   dominantColor = '#f0f0f0',
   variants,
   naturalAspect = false,
+  focalPoint,
+  crop,
+  crops,
 }: LightningImgProps) {
   const [loaded, setLoaded] = useState(false);
   const [error, setError] = useState(false);
@@ -48,17 +67,27 @@ export function LightningImg({
 
   const isWordPress = src.includes('sheskin.org/wp-content');
 
+  const cropData = crop ? crops?.[crop] : undefined;
+  const cropSizes = sizeVariants(cropData?.variants);
+
   // Determine optimized source and srcset
-  const { optimizedSrc, srcset } = (() => {
+  const { optimizedSrc, srcset, avifSrcset } = (() => {
+    // Generated crop: its variants replace the full image's
+    if (cropData && cropSizes.length > 0) {
+      const cropVariants = { ...cropData.variants, srcset: cropData.srcset };
+      return {
+        optimizedSrc: cropData.variants?.md?.url || cropSizes[cropSizes.length - 1].url,
+        srcset: getSrcset(cropVariants, 'webp') || undefined,
+        avifSrcset: getSrcset(cropVariants, 'avif') || undefined,
+      };
+    }
+
     // Pre-built variants (e.g. collaborations): use exact URLs, no query params
     if (variants && (variants.sm?.url || variants.md?.url || variants.lg?.url)) {
-      const parts: string[] = [];
-      if (variants.sm?.url) parts.push(`${variants.sm.url} ${variants.sm.width}w`);
-      if (variants.md?.url) parts.push(`${variants.md.url} ${variants.md.width}w`);
-      if (variants.lg?.url) parts.push(`${variants.lg.url} ${variants.lg.width}w`);
       return {
         optimizedSrc: variants.md?.url || variants.lg?.url || variants.sm?.url || src,
-        srcset: parts.length > 0 ? parts.join(', ') : undefined,
+        srcset: getSrcset(variants, 'webp') || undefined,
+        avifSrcset: getSrcset(variants, 'avif') || undefined,
       };
     }
 
@@ -67,25 +96,49 @@ export function LightningImg({
       const srcset = widths
         .map(w => `${src}?width=${w}&quality=85&format=webp ${w}w`)
         .join(', ');
-      return { optimizedSrc: src, srcset };
+      return { optimizedSrc: src, srcset, avifSrcset: undefined };
     }
 
     if (isWordPress) {
       const cleanSrc = src.replace(/-\d+x\d+(?=\.[a-z]+$)/, '');
-      return { optimizedSrc: cleanSrc, srcset: undefined };
+      return { optimizedSrc: cleanSrc, srcset: undefined, avifSrcset: undefined };
     }
 
-    return { optimizedSrc: src, srcset: undefined };
+    return { optimizedSrc: src, srcset: undefined, avifSrcset: undefined };
   })();
 
-  const useNaturalAspect = naturalAspect || (!width && !height);
+  const useNaturalAspect = !crop && (naturalAspect || (!width && !height));
+  const aspectRatio = crop
+    ? String(CROP_PRESETS[crop].ratio)
+    : width && height ? `${width}/${height}` : 'auto';
+
+  const image = (
+    <img
+      ref={imgRef}
+      src={optimizedSrc}
+      alt={alt}
+      width={width}
+      height={height}
+      srcSet={srcset}
+      sizes={sizes}
+      loading={priority ? 'eager' : 'lazy'}
+      decoding={priority ? 'sync' : 'async'}
+      fetchpriority={priority ? 'high' : 'auto'}
+      onLoad={() => setLoaded(true)}
+      onError={() => setError(true)}
+      style={useNaturalAspect ? undefined : { objectPosition: focalObjectPosition(focalPoint) }}
+      className={`w-full transition-opacity duration-300 ${
+        useNaturalAspect ? 'h-auto object-contain' : 'h-full object-cover'
+      } ${loaded ? 'opacity-100' : 'opacity-0'}`}
+    />
+  );
 
   return (
     <div
       className={`relative overflow-hidden ${className}`}
       style={{
         backgroundColor: dominantColor,
-        aspectRatio: useNaturalAspect ? 'auto' : width && height ? `${width}/${height}` : 'auto',
+        aspectRatio: useNaturalAspect ? 'auto' : aspectRatio,
         // Reserve space when natural aspect and no dimensions (e.g. collaborations) so box is visible before image loads
         ...(useNaturalAspect && !width && !height ? { minHeight: 200 } : {}),
       }}
@@ -112,26 +165,15 @@ export function LightningImg({
         </div>
       )}
 
-      {/* Actual image */}
-      {!error && (
-        <img
-          ref={imgRef}
-          src={optimizedSrc}
-          alt={alt}
-          width={width}
-          height={height}
-          srcSet={srcset}
-          sizes={sizes}
-          loading={priority ? 'eager' : 'lazy'}
-          decoding={priority ? 'sync' : 'async'}
-          fetchpriority={priority ? 'high' : 'auto'}
-          onLoad={() => setLoaded(true)}
-          onError={() => setError(true)}
-          className={`w-full transition-opacity duration-300 ${
-            useNaturalAspect ? 'h-auto object-contain' : 'h-full object-cover'
-          } ${loaded ? 'opacity-100' : 'opacity-0'}`}
-        />
+      {/* Actual image: AVIF where supported, WebP otherwise */}
+      {!error && avifSrcset && (
+        <picture className="contents">
+          <source type="image/avif" srcSet={avifSrcset} sizes={sizes} />
+          <source type="image/webp" srcSet={srcset} sizes={sizes} />
+          {image}
+        </picture>
       )}
+      {!error && !avifSrcset && image}
 
       <style>{`
         @keyframes shimmer {
@@ -1,19 +1,28 @@
 /**
  * Audio Admin Page Client-Side Logic
  *
- * Handles audio post management: create, edit, delete, and media selection
+ * Handles audio post management: create, edit, delete, media selection and
+ * the tracklist editor
  */
 
+interface AudioPostTrack {
+  id?: string;
+  title: string;
+  artist?: string | null; // Falls back to the post's artist
+  audioFile: string;
+  duration?: number | null;
+}
+
 interface AudioPost {
   id: string;
   title: string;
   artist: string;
-  audioFile?: string;
-  audioMediaId?: string; // Reference to media library
+  tracks?: AudioPostTrack[]; // In play order
   artwork?: string;
   artworkMediaId?: string; // Reference to media library
   youtubeLink?: string;
   soundcloudLink?: string;
+  allowDownload?: boolean; // Offer the uploaded master for download
 }
 
 interface MediaItem {
@@ -31,6 +40,7 @@ interface MediaItem {
 
 let audioPosts: AudioPost[] = [];
 let editingPostId: string | null = null;
+let formTracks: AudioPostTrack[] = [];
 
 function getCsrfToken(): string {
   const csrfMatch = document.cookie.match(/csrf_token=([^;]+)/);
@@ -53,6 +63,151 @@ function showFeedback(
   setTimeout(() => feedback.classList.add('hidden'), 3000);
 }
 
+/**
+ * Turn an API error response into a readable message
+ */
+async function readError(res: Response, fallback: string): Promise<string> {
+  const data = await res.json().catch(() => ({}));
+  // Validation failures carry zod's flattened { formErrors, fieldErrors }
+  const fieldErrors: Record<string, string[]> = data.details?.fieldErrors ?? {};
+  const messages = [
+    ...(data.details?.formErrors ?? []),
+    ...Object.entries(fieldErrors).map(([field, errors]) => `${field}: ${errors.join(', ')}`),
+  ];
+  if (messages.length > 0) {
+    return `${data.error || fallback}: ${messages.join('; ')}`;
+  }
+  return data.details ? `${data.error || fallback}: ${data.details}` : data.error || fallback;
+}
+
+function formatDuration(seconds: number): string {
+  const minutes = Math.floor(seconds / 60);
+  return `${minutes}:${String(Math.round(seconds % 60)).padStart(2, '0')}`;
+}
+
+function fileNameOf(url: string): string {
+  const name = url.split('/').pop() || url;
+  try {
+    return decodeURIComponent(name);
+  } catch {
+    return name;
+  }
+}
+
+const trackInputClass = 'w-full min-w-0 px-2 py-1 bg-[var(--admin-bg-card)] border border-[var(--admin-border-secondary)] rounded text-sm text-[var(--admin-text-primary)] placeholder-[var(--admin-text-muted)] focus:outline-none focus:ring-2 focus:ring-[var(--admin-accent-primary)] focus:border-transparent';
+const trackButtonClass = 'p-1 text-xs text-[var(--admin-text-tertiary)] hover:text-[var(--admin-text-primary)] disabled:opacity-30 disabled:hover:text-[var(--admin-text-tertiary)]';
+
+function trackButton(label: string, text: string, onClick: () => void, disabled = false): HTMLButtonElement {
+  const button = document.createElement('button');
+  button.type = 'button';
+  button.className = trackButtonClass;
+  button.textContent = text;
+  button.setAttribute('aria-label', label);
+  button.disabled = disabled;
+  button.addEventListener('click', onClick);
+  return button;
+}
+
+function moveTrack(from: number, to: number): void {
+  if (to < 0 || to >= formTracks.length) return;
+  const [track] = formTracks.splice(from, 1);
+  formTracks.splice(to, 0, track);
+  renderTracks();
+}
+
+/**
+ * Render the tracklist editor from formTracks, numbered in play order
+ */
+export function renderTracks(): void {
+  const list = document.getElementById('track-list');
+  const empty = document.getElementById('track-empty');
+  if (!list) return;
+
+  empty?.classList.toggle('hidden', formTracks.length > 0);
+  const artist = (document.getElementById('artist') as HTMLInputElement | null)?.value || 'she_skin';
+
+  // Clear and rebuild using safe DOM methods (prevents XSS)
+  list.innerHTML = '';
+
+  formTracks.forEach((track, index) => {
+    const row = document.createElement('li');
+    row.className = 'flex items-start gap-2 p-2 bg-[var(--admin-bg-card)] rounded-md border border-[var(--admin-border-secondary)]';
+
+    const number = document.createElement('span');
+    number.className = 'w-5 pt-1.5 text-xs text-right text-[var(--admin-text-muted)] tabular-nums shrink-0';
+    number.textContent = String(index + 1);
+    row.appendChild(number);
+
+    const fields = document.createElement('div');
+    fields.className = 'flex-1 min-w-0 space-y-1';
+
+    const titleInput = document.createElement('input');
+    titleInput.type = 'text';
+    titleInput.required = true;
+    titleInput.className = trackInputClass;
+    titleInput.placeholder = 'Track title';
+    titleInput.value = track.title;
+    titleInput.setAttribute('aria-label', `Track ${index + 1} title`);
+    titleInput.addEventListener('input', () => {
+      track.title = titleInput.value;
+    });
+    fields.appendChild(titleInput);
+
+    const artistInput = document.createElement('input');
+    artistInput.type = 'text';
+    artistInput.className = trackInputClass;
+    artistInput.placeholder = artist;
+    artistInput.value = track.artist || '';
+    artistInput.setAttribute('aria-label', `Track ${index + 1} artist`);
+    artistInput.addEventListener('input', () => {
+      track.artist = artistInput.value || null;
+    });
+    fields.appendChild(artistInput);
+
+    const file = document.createElement('p');
+    file.className = 'text-xs text-[var(--admin-text-muted)] truncate';
+    file.textContent = track.duration
+      ? `${fileNameOf(track.audioFile)} · ${formatDuration(track.duration)}`
+      : fileNameOf(track.audioFile);
+    file.title = track.audioFile;
+    fields.appendChild(file);
+
+    row.appendChild(fields);
+
+    const actions = document.createElement('div');
+    actions.className = 'flex flex-col items-center shrink-0';
+    actions.appendChild(trackButton(`Move track ${index + 1} up`, '▲', () => moveTrack(index, index - 1), index === 0));
+    actions.appendChild(trackButton(`Move track ${index + 1} down`, '▼', () => moveTrack(index, index + 1), index === formTracks.length - 1));
+    const remove = trackButton(`Remove track ${index + 1}`, 'Remove', () => {
+      formTracks.splice(index, 1);
+      renderTracks();
+    });
+    remove.className = 'p-1 text-xs text-[var(--admin-accent-danger)] hover:opacity-80';
+    actions.appendChild(remove);
+    row.appendChild(actions);
+
+    list.appendChild(row);
+  });
+}
+
+/**
+ * Append a media library audio file to the tracklist, titled after the file
+ */
+export function addTrack(media: MediaItem): void {
+  if (!media?.url) return;
+  formTracks.push({
+    title: (media.originalName || media.filename || 'Untitled').replace(/\.[^.]+$/, ''),
+    artist: null,
+    audioFile: media.url,
+  });
+  renderTracks();
+}
+
+function resetTracks(): void {
+  formTracks = [];
+  renderTracks();
+}
+
 /**
  * Render posts list with proper thumbnails
  */
@@ -118,8 +273,9 @@ export function renderPosts(
     // Source badges
     const badgesDiv = document.createElement('div');
     badgesDiv.className = 'flex items-center gap-2 mt-1 text-xs text-gray-500';
-    if (post.audioFile) {
-      badgesDiv.innerHTML += '<span class="text-blue-400">● Audio</span>';
+    const trackCount = post.tracks?.length ?? 0;
+    if (trackCount > 0) {
+      badgesDiv.innerHTML += `<span class="text-blue-400">● ${trackCount} track${trackCount !== 1 ? 's' : ''}</span>`;
     }
     if (post.youtubeLink) {
       badgesDiv.innerHTML += '<span class="text-red-400">● YouTube</span>';
@@ -228,14 +384,14 @@ export async function editPost(
   elements.postIdInput.value = id;
   (document.getElementById('title') as HTMLInputElement).value = post.title;
   (document.getElementById('artist') as HTMLInputElement).value = post.artist || 'she_skin';
-  (document.getElementById('audio-file') as HTMLInputElement).value =
-    post.audioFile || '';
   (document.getElementById('artwork') as HTMLInputElement).value =
     post.artwork || '';
   (document.getElementById('youtube-link') as HTMLInputElement).value =
     post.youtubeLink || '';
   (document.getElementById('soundcloud-link') as HTMLInputElement).value =
     post.soundcloudLink || '';
+  (document.getElementById('allow-download') as HTMLInputElement).checked =
+    !!post.allowDownload;
 
   // Show artwork preview
   if (post.artwork) {
@@ -252,18 +408,9 @@ export async function editPost(
     preview?.classList.remove('hidden');
   }
 
-  // Show audio file preview with proper filename
-  if (post.audioFile) {
-    const nameEl = document.getElementById('audio-file-name');
-    const preview = document.getElementById('audio-preview');
-    
-    // Try to find the media item to get the original filename
-    const audioMedia = await fetchMediaByUrl(post.audioFile);
-    if (nameEl) {
-      nameEl.textContent = audioMedia?.originalName || audioMedia?.filename || 'Audio file';
-    }
-    preview?.classList.remove('hidden');
-  }
+  // Copy the tracklist so edits stay local until saved
+  formTracks = (post.tracks || []).map((track) => ({ ...track }));
+  renderTracks();
 
   elements.formTitle.textContent = 'Edit Audio Post';
   elements.saveBtn.textContent = 'Update Post';
@@ -283,7 +430,7 @@ export function cancelEdit(
   elements.form.reset();
   elements.postIdInput.value = '';
   document.getElementById('artwork-preview')?.classList.add('hidden');
-  document.getElementById('audio-preview')?.classList.add('hidden');
+  resetTracks();
   elements.formTitle.textContent = 'New Audio Post';
   elements.saveBtn.textContent = 'Save Post';
   elements.cancelBtn.classList.add('hidden');
@@ -334,9 +481,12 @@ export async function savePost(
     id: postId || undefined,
     title: (document.getElementById('title') as HTMLInputElement).value,
     artist: (document.getElementById('artist') as HTMLInputElement).value || 'she_skin',
-    audioFile:
-      (document.getElementById('audio-file') as HTMLInputElement).value ||
-      undefined,
+    tracks: formTracks.map((track) => ({
+      title: track.title.trim(),
+      artist: track.artist?.trim() || null,
+      audioFile: track.audioFile,
+      duration: track.duration ?? null,
+    })),
     artwork:
       (document.getElementById('artwork') as HTMLInputElement).value ||
       undefined,
@@ -346,6 +496,7 @@ export async function savePost(
     soundcloudLink:
       (document.getElementById('soundcloud-link') as HTMLInputElement).value ||
       undefined,
+    allowDownload: (document.getElementById('allow-download') as HTMLInputElement).checked,
   };
 
   saveBtn.disabled = true;
@@ -362,7 +513,7 @@ export async function savePost(
       body: JSON.stringify(data),
     });
 
-    if (!res.ok) throw new Error('Save failed');
+    if (!res.ok) throw new Error(await readError(res, 'Failed to save post'));
 
     const savedPost: AudioPost = await res.json();
     onSuccess(savedPost);
@@ -376,13 +527,53 @@ export async function savePost(
     elements.cancelBtn.classList.add('hidden');
     (document.getElementById('audio-post-form') as HTMLFormElement).reset();
     document.getElementById('artwork-preview')?.classList.add('hidden');
-    document.getElementById('audio-preview')?.classList.add('hidden');
+    resetTracks();
 
     showFeedback(feedback, isEditing ? 'Post updated' : 'Post created', 'success');
-  } catch {
+  } catch (err) {
     saveBtn.disabled = false;
     saveBtn.textContent = isEditing ? 'Update Post' : 'Save Post';
-    showFeedback(feedback, 'Failed to save post', 'error');
+    showFeedback(feedback, err instanceof Error ? err.message : 'Failed to save post', 'error');
+  }
+}
+
+/**
+ * Save the podcast feed's channel metadata from the settings form
+ */
+export async function savePodcastSettings(
+  form: HTMLFormElement,
+  feedback: HTMLElement | null,
+  saveBtn: HTMLButtonElement
+): Promise<void> {
+  const value = (name: string) => (form.elements.namedItem(name) as HTMLInputElement).value.trim();
+  const data = {
+    title: value('title'),
+    description: value('description'),
+    author: value('author'),
+    email: value('email'),
+    language: value('language'),
+    category: value('category'),
+    explicit: (form.elements.namedItem('explicit') as HTMLInputElement).checked,
+    artwork: value('artwork') || null,
+  };
+
+  saveBtn.disabled = true;
+  try {
+    const res = await fetch('/api/admin/podcast-settings', {
+      method: 'PUT',
+      headers: {
+        'Content-Type': 'application/json',
+        'X-CSRF-Token': getCsrfToken(),
+      },
+      credentials: 'include',
+      body: JSON.stringify(data),
+    });
+    if (!res.ok) throw new Error(await readError(res, 'Failed to save feed settings'));
+    showFeedback(feedback, 'Feed settings saved', 'success');
+  } catch (err) {
+    showFeedback(feedback, err instanceof Error ? err.message : 'Failed to save feed settings', 'error');
+  } finally {
+    saveBtn.disabled = false;
   }
 }
 
@@ -0,0 +1,227 @@
+/**
+ * Duplicate Media Admin Page Client-Side Logic
+ *
+ * Lists groups of library items that are copies of the same file and merges
+ * each group into the item the admin chooses to keep
+ */
+
+interface DuplicateMedia {
+  id: string;
+  originalName: string;
+  filename: string;
+  mediaType: string;
+  url: string;
+  variants: { sm?: { url: string }; md?: { url: string } } | null;
+  fileSize: number;
+  width: number | null;
+  height: number | null;
+  refCount: number;
+  createdAt: string | null;
+}
+
+interface DuplicateGroup {
+  key: string;
+  match: 'content' | 'fingerprint';
+  media: DuplicateMedia[];
+}
+
+const MATCH_LABELS: Record<DuplicateGroup['match'], string> = {
+  content: 'Identical files',
+  fingerprint: 'Likely copies (same type, size and dimensions)',
+};
+
+const primaryButtonClass = 'bg-[var(--admin-accent-primary)] hover:opacity-90 text-white px-3 py-2 rounded-md text-sm font-medium transition-colors disabled:opacity-50';
+
+let groups: DuplicateGroup[] = [];
+
+function getCsrfToken(): string {
+  const csrfMatch = document.cookie.match(/csrf_token=([^;]+)/);
+  return csrfMatch ? decodeURIComponent(csrfMatch[1]) : '';
+}
+
+function showFeedback(message: string, type: 'success' | 'error'): void {
+  const feedback = document.getElementById('duplicates-feedback');
+  if (!feedback) return;
+  feedback.textContent = message;
+  feedback.className = `p-3 rounded-md text-sm ${type === 'success' ? 'bg-[var(--admin-accent-success)]/20 text-[var(--admin-accent-success)] border border-[var(--admin-accent-success)]' : 'bg-[var(--admin-accent-danger)]/20 text-[var(--admin-accent-danger)] border border-[var(--admin-accent-danger)]'}`;
+  feedback.classList.remove('hidden');
+  setTimeout(() => feedback.classList.add('hidden'), 4000);
+}
+
+/**
+ * Turn an API error response into a readable message
+ */
+async function readError(res: Response, fallback: string): Promise<string> {
+  const data = await res.json().catch(() => ({}));
+  // Validation failures carry zod's flattened { formErrors, fieldErrors }
+  const fieldErrors: Record<string, string[]> = data.details?.fieldErrors ?? {};
+  const messages = [
+    ...(data.details?.formErrors ?? []),
+    ...Object.entries(fieldErrors).map(([field, errors]) => `${field}: ${errors.join(', ')}`),
+  ];
+  if (messages.length > 0) {
+    return `${data.error || fallback}: ${messages.join('; ')}`;
+  }
+  return data.details ? `${data.error || fallback}: ${data.details}` : data.error || fallback;
+}
+
+function formatSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / 1024 / 1024).toFixed(2)} MB`;
+}
+
+function formatDate(iso: string | null): string {
+  if (!iso) return '';
+  return new Date(iso).toLocaleDateString(undefined, { dateStyle: 'medium' });
+}
+
+function el<K extends keyof HTMLElementTagNameMap>(tag: K, className: string, text?: string): HTMLElementTagNameMap[K] {
+  const node = document.createElement(tag);
+  node.className = className;
+  if (text !== undefined) node.textContent = text;
+  return node;
+}
+
+function renderMediaRow(item: DuplicateMedia, groupKey: string, checked: boolean): HTMLElement {
+  const row = el('label', 'flex items-center gap-3 p-2 rounded-md hover:bg-[var(--admin-bg-hover)] cursor-pointer');
+
+  const radio = el('input', 'shrink-0');
+  radio.type = 'radio';
+  radio.name = `keep-${groupKey}`;
+  radio.value = item.id;
+  radio.checked = checked;
+  row.appendChild(radio);
+
+  if (item.mediaType === 'image') {
+    const thumb = el('img', 'w-12 h-12 object-cover rounded bg-[var(--admin-bg-card)] shrink-0');
+    thumb.src = item.variants?.sm?.url || item.variants?.md?.url || item.url;
+    thumb.alt = '';
+    thumb.loading = 'lazy';
+    row.appendChild(thumb);
+  } else {
+    row.appendChild(el('span', 'w-12 h-12 flex items-center justify-center rounded bg-[var(--admin-bg-card)] text-xs text-[var(--admin-text-muted)] shrink-0', item.mediaType));
+  }
+
+  const info = el('div', 'min-w-0 flex-1 text-sm');
+  info.appendChild(el('p', 'text-[var(--admin-text-primary)] truncate', item.originalName));
+  const details = [
+    formatSize(item.fileSize),
+    item.width && item.height ? `${item.width}×${item.height}` : '',
+    `uploaded ${formatDate(item.createdAt)}`,
+  ].filter(Boolean).join(' · ');
+  info.appendChild(el('p', 'text-xs text-[var(--admin-text-muted)]', details));
+  row.appendChild(info);
+
+  row.appendChild(el('span', 'text-xs text-[var(--admin-text-tertiary)] shrink-0',
+    item.refCount > 0 ? `used ${item.refCount}×` : 'unused'));
+
+  return row;
+}
+
+function renderGroup(group: DuplicateGroup): HTMLElement {
+  const card = el('form', 'merge-form p-5 bg-[var(--admin-bg-tertiary)] rounded-xl border border-[var(--admin-border-primary)] space-y-3');
+  card.dataset.key = group.key;
+
+  const header = el('div', 'flex flex-wrap items-center gap-3');
+  header.appendChild(el('h2', 'text-sm font-medium text-[var(--admin-text-primary)]', `${group.media.length} copies`));
+  header.appendChild(el('span', 'text-xs text-[var(--admin-text-muted)]', MATCH_LABELS[group.match]));
+  card.appendChild(header);
+
+  card.appendChild(el('p', 'text-xs uppercase tracking-wide text-[var(--admin-text-muted)]', 'Keep'));
+  const list = el('div', 'space-y-1');
+  group.media.forEach((item, i) => list.appendChild(renderMediaRow(item, group.key, i === 0)));
+  card.appendChild(list);
+
+  const submit = el('button', primaryButtonClass, 'Merge into selected');
+  submit.type = 'submit';
+  card.appendChild(submit);
+
+  return card;
+}
+
+function renderGroups(): void {
+  const list = document.getElementById('duplicates-list');
+  const emptyState = document.getElementById('duplicates-empty');
+  if (!list || !emptyState) return;
+
+  emptyState.classList.toggle('hidden', groups.length > 0);
+
+  // Clear and rebuild using safe DOM methods (prevents XSS)
+  list.innerHTML = '';
+  for (const group of groups) list.appendChild(renderGroup(group));
+}
+
+async function loadGroups(): Promise<void> {
+  try {
+    const res = await fetch('/api/admin/media/duplicates', { credentials: 'include' });
+    if (!res.ok) throw new Error(await readError(res, `HTTP ${res.status}`));
+    const data = await res.json();
+    groups = data.groups || [];
+    renderGroups();
+  } catch (err) {
+    const message = err instanceof Error ? err.message : 'Failed to load';
+    showFeedback(`Failed to load duplicates: ${message}`, 'error');
+    console.error('[media-duplicates-admin] loadGroups error:', err);
+  }
+}
+
+async function mergeGroup(form: HTMLFormElement): Promise<void> {
+  const group = groups.find((g) => g.key === form.dataset.key);
+  if (!group) return;
+
+  const keepId = form.querySelector<HTMLInputElement>('input[type="radio"]:checked')?.value;
+  const keep = group.media.find((m) => m.id === keepId);
+  if (!keep) return;
+  const duplicateIds = group.media.filter((m) => m.id !== keep.id).map((m) => m.id);
+
+  if (!confirm(`Keep "${keep.originalName}" and delete ${duplicateIds.length} other cop${duplicateIds.length === 1 ? 'y' : 'ies'}? Anything using them will use the kept file.`)) return;
+
+  const submit = form.querySelector<HTMLButtonElement>('button[type="submit"]');
+  if (submit) submit.disabled = true;
+
+  try {
+    const res = await fetch('/api/admin/media/duplicates', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'X-CSRF-Token': getCsrfToken(),
+      },
+      credentials: 'include',
+      body: JSON.stringify({ keepId: keep.id, duplicateIds }),
+    });
+    if (!res.ok) throw new Error(await readError(res, 'Failed to merge duplicates'));
+    const data = await res.json();
+    await loadGroups();
+    showFeedback(data.message || 'Duplicates merged', 'success');
+  } catch (err) {
+    showFeedback(err instanceof Error ? err.message : 'Failed to merge duplicates', 'error');
+    if (submit) submit.disabled = false;
+  }
+}
+
+export function initMediaDuplicatesAdmin() {
+  // Check if we're on the duplicate media page
+  const list = document.getElementById('duplicates-list');
+  if (!list || list.dataset.initialized) return;
+  list.dataset.initialized = 'true';
+
+  groups = (window as any).__INITIAL_DUPLICATE_GROUPS__ || [];
+  renderGroups();
+
+  list.addEventListener('submit', (e) => {
+    const form = e.target as HTMLFormElement;
+    e.preventDefault();
+    if (form.classList.contains('merge-form')) mergeGroup(form);
+  });
+}
+
+// Initialize on DOM ready
+if (document.readyState === 'loading') {
+  document.addEventListener('DOMContentLoaded', initMediaDuplicatesAdmin);
+} else {
+  initMediaDuplicatesAdmin();
+}
+
+// Re-initialize after Astro view transitions
+document.addEventListener('astro:page-load', initMediaDuplicatesAdmin);
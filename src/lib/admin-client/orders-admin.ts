@@ -0,0 +1,400 @@
+/**
+ * Orders Admin Page Client-Side Logic
+ *
+ * Lists orders by status and handles fulfillment: marking orders shipped
+ * with a tracking number and issuing full or partial refunds
+ */
+
+interface OrderItem {
+  id: string;
+  productName: string;
+  size: string | null;
+  quantity: number;
+  unitPrice: string;
+  lineTotal: string;
+}
+
+interface Order {
+  id: string;
+  status: string;
+  customerEmail: string | null;
+  customerName: string | null;
+  shippingAddress: {
+    line1?: string | null;
+    line2?: string | null;
+    city?: string | null;
+    state?: string | null;
+    postalCode?: string | null;
+    country?: string | null;
+  } | null;
+  subtotal: string;
+  discountTotal: string;
+  total: string;
+  promotionCode: string | null;
+  trackingNumber: string | null;
+  trackingCarrier: string | null;
+  shippedAt: string | null;
+  refundedTotal: string;
+  paidAt: string | null;
+  createdAt: string | null;
+  items: OrderItem[];
+}
+
+const STATUS_CLASSES: Record<string, string> = {
+  pending: 'bg-[var(--admin-bg-hover)] text-[var(--admin-text-secondary)]',
+  paid: 'bg-[var(--admin-accent-primary)]/20 text-[var(--admin-accent-primary)]',
+  shipped: 'bg-[var(--admin-accent-success)]/20 text-[var(--admin-accent-success)]',
+  refunded: 'bg-[var(--admin-accent-danger)]/20 text-[var(--admin-accent-danger)]',
+  abandoned: 'bg-[var(--admin-bg-hover)] text-[var(--admin-text-muted)]',
+};
+
+const inputClass = 'px-3 py-2 bg-[var(--admin-bg-card)] border border-[var(--admin-border-secondary)] rounded-md text-sm text-[var(--admin-text-primary)] placeholder-[var(--admin-text-muted)] focus:outline-none focus:ring-2 focus:ring-[var(--admin-accent-primary)] focus:border-transparent';
+const primaryButtonClass = 'bg-[var(--admin-accent-primary)] hover:opacity-90 text-white px-3 py-2 rounded-md text-sm font-medium transition-colors disabled:opacity-50';
+const secondaryButtonClass = 'px-3 py-2 bg-[var(--admin-bg-card)] border border-[var(--admin-border-secondary)] rounded-md text-sm font-medium text-[var(--admin-text-secondary)] hover:bg-[var(--admin-bg-hover)] hover:text-[var(--admin-text-primary)] transition-colors';
+
+let orders: Order[] = [];
+let statusFilter = '';
+
+function getCsrfToken(): string {
+  const csrfMatch = document.cookie.match(/csrf_token=([^;]+)/);
+  return csrfMatch ? decodeURIComponent(csrfMatch[1]) : '';
+}
+
+function showFeedback(message: string, type: 'success' | 'error'): void {
+  const feedback = document.getElementById('order-feedback');
+  if (!feedback) return;
+  feedback.textContent = message;
+  feedback.className = `p-3 rounded-md text-sm ${type === 'success' ? 'bg-[var(--admin-accent-success)]/20 text-[var(--admin-accent-success)] border border-[var(--admin-accent-success)]' : 'bg-[var(--admin-accent-danger)]/20 text-[var(--admin-accent-danger)] border border-[var(--admin-accent-danger)]'}`;
+  feedback.classList.remove('hidden');
+  setTimeout(() => feedback.classList.add('hidden'), 4000);
+}
+
+/**
+ * Turn an API error response into a readable message
+ */
+async function readError(res: Response, fallback: string): Promise<string> {
+  const data = await res.json().catch(() => ({}));
+  // Validation failures carry zod's flattened { formErrors, fieldErrors }
+  const fieldErrors: Record<string, string[]> = data.details?.fieldErrors ?? {};
+  const messages = [
+    ...(data.details?.formErrors ?? []),
+    ...Object.entries(fieldErrors).map(([field, errors]) => `${field}: ${errors.join(', ')}`),
+  ];
+  if (messages.length > 0) {
+    return `${data.error || fallback}: ${messages.join('; ')}`;
+  }
+  // Stripe errors come back in details
+  return data.details ? `${data.error || fallback}: ${data.details}` : data.error || fallback;
+}
+
+function formatPrice(amount: string | null): string {
+  return `$${(parseFloat(amount ?? '') || 0).toFixed(2)}`;
+}
+
+function formatDate(iso: string | null): string {
+  if (!iso) return '';
+  return new Date(iso).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' });
+}
+
+function remainingRefundable(order: Order): number {
+  return Math.max((parseFloat(order.total) || 0) - (parseFloat(order.refundedTotal) || 0), 0);
+}
+
+function el<K extends keyof HTMLElementTagNameMap>(tag: K, className: string, text?: string): HTMLElementTagNameMap[K] {
+  const node = document.createElement(tag);
+  node.className = className;
+  if (text !== undefined) node.textContent = text;
+  return node;
+}
+
+function addressLines(order: Order): string[] {
+  const a = order.shippingAddress;
+  if (!a) return [];
+  const cityLine = [a.city, a.state, a.postalCode].filter(Boolean).join(', ');
+  return [a.line1, a.line2, cityLine, a.country].filter((line): line is string => !!line);
+}
+
+function renderShipForm(order: Order): HTMLFormElement {
+  const form = el('form', 'ship-form hidden flex flex-wrap gap-2 items-end');
+  form.dataset.id = order.id;
+
+  const tracking = el('input', `${inputClass} flex-1 min-w-[12rem]`);
+  tracking.name = 'trackingNumber';
+  tracking.required = true;
+  tracking.maxLength = 100;
+  tracking.placeholder = 'Tracking number';
+  tracking.value = order.trackingNumber ?? '';
+  form.appendChild(tracking);
+
+  const carrier = el('input', `${inputClass} w-32`);
+  carrier.name = 'trackingCarrier';
+  carrier.maxLength = 50;
+  carrier.placeholder = 'Carrier';
+  carrier.value = order.trackingCarrier ?? '';
+  form.appendChild(carrier);
+
+  const submit = el('button', primaryButtonClass, order.status === 'shipped' ? 'Update tracking' : 'Mark shipped');
+  submit.type = 'submit';
+  form.appendChild(submit);
+
+  return form;
+}
+
+function renderRefundForm(order: Order): HTMLFormElement {
+  const form = el('form', 'refund-form hidden flex flex-wrap gap-2 items-end');
+  form.dataset.id = order.id;
+  const remaining = remainingRefundable(order);
+
+  const amount = el('input', `${inputClass} w-32`);
+  amount.name = 'amount';
+  amount.inputMode = 'decimal';
+  amount.placeholder = remaining.toFixed(2);
+  amount.title = 'Leave blank to refund the full remaining amount';
+  form.appendChild(amount);
+
+  const reason = el('select', inputClass);
+  reason.name = 'reason';
+  for (const [value, label] of [
+    ['', 'No reason'],
+    ['requested_by_customer', 'Requested by customer'],
+    ['duplicate', 'Duplicate'],
+    ['fraudulent', 'Fraudulent'],
+  ]) {
+    const option = document.createElement('option');
+    option.value = value;
+    option.textContent = label;
+    reason.appendChild(option);
+  }
+  form.appendChild(reason);
+
+  const submit = el('button', 'bg-[var(--admin-accent-danger)] hover:opacity-90 text-white px-3 py-2 rounded-md text-sm font-medium transition-colors disabled:opacity-50', 'Refund');
+  submit.type = 'submit';
+  form.appendChild(submit);
+
+  const hint = el('p', 'w-full text-xs text-[var(--admin-text-muted)]', `Up to ${formatPrice(remaining.toFixed(2))}. Leave the amount blank for a full refund.`);
+  form.appendChild(hint);
+
+  return form;
+}
+
+function renderOrder(order: Order): HTMLElement {
+  const card = el('div', 'p-5 bg-[var(--admin-bg-tertiary)] rounded-xl border border-[var(--admin-border-primary)] space-y-4');
+  card.dataset.id = order.id;
+
+  // Header: number, date, status, total
+  const header = el('div', 'flex flex-wrap items-center gap-3');
+  header.appendChild(el('h2', 'text-sm font-medium text-[var(--admin-text-primary)] font-mono', `#${order.id}`));
+  header.appendChild(el('span', `text-xs px-2 py-0.5 rounded-full ${STATUS_CLASSES[order.status] ?? STATUS_CLASSES.pending}`, order.status));
+  header.appendChild(el('span', 'text-xs text-[var(--admin-text-muted)]', formatDate(order.paidAt || order.createdAt)));
+  header.appendChild(el('span', 'ml-auto text-sm font-medium text-[var(--admin-text-primary)]', formatPrice(order.total)));
+  card.appendChild(header);
+
+  const columns = el('div', 'grid grid-cols-1 md:grid-cols-2 gap-4');
+
+  // Buyer and shipping
+  const buyer = el('div', 'text-sm space-y-0.5');
+  buyer.appendChild(el('p', 'text-xs uppercase tracking-wide text-[var(--admin-text-muted)] mb-1', 'Ship to'));
+  buyer.appendChild(el('p', 'text-[var(--admin-text-primary)]', order.customerName || 'Unknown buyer'));
+  if (order.customerEmail) {
+    const email = el('a', 'text-[var(--admin-accent-primary)] hover:opacity-80', order.customerEmail);
+    email.href = `mailto:${order.customerEmail}`;
+    buyer.appendChild(email);
+  }
+  const lines = addressLines(order);
+  if (lines.length === 0) {
+    buyer.appendChild(el('p', 'text-[var(--admin-text-muted)]', 'No shipping address'));
+  }
+  for (const line of lines) {
+    buyer.appendChild(el('p', 'text-[var(--admin-text-secondary)]', line));
+  }
+  if (order.trackingNumber) {
+    const tracking = [order.trackingCarrier, order.trackingNumber].filter(Boolean).join(' ');
+    buyer.appendChild(el('p', 'pt-2 text-[var(--admin-text-secondary)]', `Tracking: ${tracking}`));
+    if (order.shippedAt) buyer.appendChild(el('p', 'text-xs text-[var(--admin-text-muted)]', `Shipped ${formatDate(order.shippedAt)}`));
+  }
+  columns.appendChild(buyer);
+
+  // Items and totals
+  const items = el('div', 'text-sm');
+  items.appendChild(el('p', 'text-xs uppercase tracking-wide text-[var(--admin-text-muted)] mb-1', 'Items'));
+  const list = el('ul', 'space-y-1');
+  for (const item of order.items) {
+    const row = el('li', 'flex justify-between gap-4');
+    const label = `${item.quantity} × ${item.productName}${item.size ? ` (size ${item.size})` : ''}`;
+    row.appendChild(el('span', 'text-[var(--admin-text-secondary)]', label));
+    row.appendChild(el('span', 'text-[var(--admin-text-primary)] shrink-0', formatPrice(item.lineTotal)));
+    list.appendChild(row);
+  }
+  items.appendChild(list);
+
+  const totals = el('div', 'mt-2 pt-2 border-t border-[var(--admin-border-primary)] space-y-0.5 text-xs text-[var(--admin-text-muted)]');
+  if (parseFloat(order.discountTotal) > 0) {
+    totals.appendChild(el('p', '', `Subtotal ${formatPrice(order.subtotal)}`));
+    totals.appendChild(el('p', '', `Discount${order.promotionCode ? ` (${order.promotionCode})` : ''} −${formatPrice(order.discountTotal)}`));
+  }
+  if (parseFloat(order.refundedTotal) > 0) {
+    totals.appendChild(el('p', 'text-[var(--admin-accent-danger)]', `Refunded ${formatPrice(order.refundedTotal)}`));
+  }
+  if (totals.childElementCount > 0) items.appendChild(totals);
+  columns.appendChild(items);
+
+  card.appendChild(columns);
+
+  // Actions (paid and shipped orders only)
+  if (order.status === 'paid' || order.status === 'shipped') {
+    const actions = el('div', 'flex flex-wrap gap-2');
+    const shipBtn = el('button', `toggle-ship ${secondaryButtonClass}`, order.status === 'shipped' ? 'Edit tracking' : 'Mark shipped');
+    shipBtn.type = 'button';
+    actions.appendChild(shipBtn);
+    if (remainingRefundable(order) > 0) {
+      const refundBtn = el('button', `toggle-refund ${secondaryButtonClass}`, 'Refund');
+      refundBtn.type = 'button';
+      actions.appendChild(refundBtn);
+    }
+    card.appendChild(actions);
+    card.appendChild(renderShipForm(order));
+    card.appendChild(renderRefundForm(order));
+  }
+
+  return card;
+}
+
+function renderOrders(): void {
+  const list = document.getElementById('orders-list');
+  const emptyState = document.getElementById('orders-empty');
+  const count = document.getElementById('order-count');
+  if (!list || !emptyState || !count) return;
+
+  count.textContent = `${orders.length} order${orders.length !== 1 ? 's' : ''}`;
+  emptyState.classList.toggle('hidden', orders.length > 0);
+
+  // Clear and rebuild using safe DOM methods (prevents XSS)
+  list.innerHTML = '';
+  for (const order of orders) list.appendChild(renderOrder(order));
+
+  document.querySelectorAll<HTMLButtonElement>('#order-filters button').forEach((btn) => {
+    const active = (btn.dataset.status ?? '') === statusFilter;
+    btn.classList.toggle('bg-[var(--admin-bg-hover)]', active);
+    btn.classList.toggle('text-[var(--admin-text-primary)]', active);
+    btn.setAttribute('aria-selected', String(active));
+  });
+}
+
+async function loadOrders(): Promise<void> {
+  try {
+    const query = statusFilter ? `?status=${encodeURIComponent(statusFilter)}` : '';
+    const res = await fetch(`/api/admin/orders${query}`, { credentials: 'include' });
+    if (!res.ok) throw new Error(await readError(res, `HTTP ${res.status}`));
+    const data = await res.json();
+    orders = data.orders || [];
+    renderOrders();
+  } catch (err) {
+    const message = err instanceof Error ? err.message : 'Failed to load';
+    showFeedback(`Failed to load orders: ${message}`, 'error');
+    console.error('[orders-admin] loadOrders error:', err);
+  }
+}
+
+async function postAction(path: string, data: Record<string, unknown>, fallback: string): Promise<void> {
+  const res = await fetch(path, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'X-CSRF-Token': getCsrfToken(),
+    },
+    credentials: 'include',
+    body: JSON.stringify(data),
+  });
+  if (!res.ok) throw new Error(await readError(res, fallback));
+}
+
+async function shipOrder(form: HTMLFormElement): Promise<void> {
+  const id = form.dataset.id!;
+  const fields = new FormData(form);
+  const submit = form.querySelector<HTMLButtonElement>('button[type="submit"]');
+  if (submit) submit.disabled = true;
+
+  try {
+    await postAction('/api/admin/orders/ship', {
+      id,
+      trackingNumber: String(fields.get('trackingNumber') ?? '').trim(),
+      trackingCarrier: String(fields.get('trackingCarrier') ?? '').trim() || undefined,
+    }, 'Failed to mark order shipped');
+    await loadOrders();
+    showFeedback(`Order #${id} marked shipped`, 'success');
+  } catch (err) {
+    showFeedback(err instanceof Error ? err.message : 'Failed to mark order shipped', 'error');
+    if (submit) submit.disabled = false;
+  }
+}
+
+async function refundOrder(form: HTMLFormElement): Promise<void> {
+  const id = form.dataset.id!;
+  const order = orders.find((o) => o.id === id);
+  const fields = new FormData(form);
+  const amount = String(fields.get('amount') ?? '').trim().replace(/^\$/, '');
+  const reason = String(fields.get('reason') ?? '');
+  const shown = amount ? formatPrice(amount) : formatPrice(order ? remainingRefundable(order).toFixed(2) : null);
+
+  if (!confirm(`Refund ${shown} for order #${id}? This can't be undone.`)) return;
+
+  const submit = form.querySelector<HTMLButtonElement>('button[type="submit"]');
+  if (submit) submit.disabled = true;
+
+  try {
+    await postAction('/api/admin/orders/refund', {
+      id,
+      amount: amount || undefined,
+      reason: reason || undefined,
+    }, 'Failed to refund order');
+    await loadOrders();
+    showFeedback(`Refunded ${shown} for order #${id}`, 'success');
+  } catch (err) {
+    showFeedback(err instanceof Error ? err.message : 'Failed to refund order', 'error');
+    if (submit) submit.disabled = false;
+  }
+}
+
+export function initOrdersAdmin() {
+  // Check if we're on the orders admin page
+  const list = document.getElementById('orders-list');
+  if (!list || list.dataset.initialized) return;
+  list.dataset.initialized = 'true';
+
+  orders = (window as any).__INITIAL_ORDERS__ || [];
+  statusFilter = '';
+  renderOrders();
+
+  document.getElementById('order-filters')?.addEventListener('click', (e) => {
+    const btn = (e.target as HTMLElement).closest('button') as HTMLButtonElement | null;
+    if (!btn) return;
+    statusFilter = btn.dataset.status ?? '';
+    loadOrders();
+  });
+
+  // Show/hide the ship and refund forms using event delegation
+  list.addEventListener('click', (e) => {
+    const target = e.target as HTMLElement;
+    const card = target.closest('[data-id]') as HTMLElement | null;
+    if (!card) return;
+    if (target.closest('.toggle-ship')) card.querySelector('.ship-form')?.classList.toggle('hidden');
+    else if (target.closest('.toggle-refund')) card.querySelector('.refund-form')?.classList.toggle('hidden');
+  });
+
+  list.addEventListener('submit', (e) => {
+    const form = e.target as HTMLFormElement;
+    e.preventDefault();
+    if (form.classList.contains('ship-form')) shipOrder(form);
+    else if (form.classList.contains('refund-form')) refundOrder(form);
+  });
+}
+
+// Initialize on DOM ready
+if (document.readyState === 'loading') {
+  document.addEventListener('DOMContentLoaded', initOrdersAdmin);
+} else {
+  initOrdersAdmin();
+}
+
+// Re-initialize after Astro view transitions
+document.addEventListener('astro:page-load', initOrdersAdmin);
@@ -0,0 +1,709 @@
+/**
+ * Products Admin Page Client-Side Logic
+ *
+ * Handles product and category management: create, edit, delete,
+ * size-level inventory and the image gallery (via MediaSelector)
+ */
+
+interface ProductImage {
+  mediaId?: string | null;
+  imageUrl: string;
+  altText?: string | null;
+}
+
+interface AdminProduct {
+  id: string;
+  name: string;
+  slug: string;
+  shortDescription: string | null;
+  description: string | null;
+  price: string;
+  regularPrice: string | null;
+  salePrice: string | null;
+  onSale: boolean | null;
+  stockStatus: string | null;
+  stockQuantity: number | null;
+  measurements: string | null;
+  materials: string | null;
+  features: string | null;
+  details: string | null;
+  images: ProductImage[];
+  sizes: { size: string; quantity: number | null }[];
+  categoryIds: string[];
+}
+
+interface Category {
+  id: string;
+  name: string;
+  slug: string;
+  description: string | null;
+  imageUrl: string | null;
+  imageAlt: string | null;
+  sortOrder: number | null;
+}
+
+interface SelectedMedia {
+  id: string;
+  url: string;
+  altText?: string | null;
+  variants?: {
+    sm?: { url: string };
+    md?: { url: string };
+    lg?: { url: string };
+  };
+}
+
+type ImageTarget = 'product' | 'category';
+
+let products: AdminProduct[] = [];
+let categories: Category[] = [];
+let galleryImages: ProductImage[] = [];
+let editingProductId: string | null = null;
+let imageTarget: ImageTarget = 'product';
+
+function getCsrfToken(): string {
+  const csrfMatch = document.cookie.match(/csrf_token=([^;]+)/);
+  return csrfMatch ? decodeURIComponent(csrfMatch[1]) : '';
+}
+
+function showFeedback(
+  feedback: HTMLElement | null,
+  message: string,
+  type: 'success' | 'error'
+): void {
+  if (!feedback) return;
+  feedback.textContent = message;
+  feedback.className = `mt-4 p-3 rounded-md text-sm ${type === 'success' ? 'bg-[var(--admin-accent-success)]/20 text-[var(--admin-accent-success)] border border-[var(--admin-accent-success)]' : 'bg-[var(--admin-accent-danger)]/20 text-[var(--admin-accent-danger)] border border-[var(--admin-accent-danger)]'}`;
+  feedback.classList.remove('hidden');
+  setTimeout(() => feedback.classList.add('hidden'), 3000);
+}
+
+/**
+ * Turn an API error response into a readable message
+ */
+async function readError(res: Response, fallback: string): Promise<string> {
+  const data = await res.json().catch(() => ({}));
+  // Validation failures carry zod's flattened { formErrors, fieldErrors }
+  const fieldErrors: Record<string, string[]> = data.details?.fieldErrors ?? {};
+  const messages = [
+    ...(data.details?.formErrors ?? []),
+    ...Object.entries(fieldErrors).map(([field, errors]) => `${field}: ${errors.join(', ')}`),
+  ];
+  if (messages.length > 0) {
+    return `${data.error || fallback}: ${messages.join('; ')}`;
+  }
+  return data.error || fallback;
+}
+
+function slugify(text: string): string {
+  return text
+    .toLowerCase()
+    .trim()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 100);
+}
+
+function inputValue(id: string): string {
+  return (document.getElementById(id) as HTMLInputElement | HTMLTextAreaElement | null)?.value.trim() ?? '';
+}
+
+function setInputValue(id: string, value: string | number | null | undefined): void {
+  const el = document.getElementById(id) as HTMLInputElement | HTMLTextAreaElement | null;
+  if (el) el.value = value === null || value === undefined ? '' : String(value);
+}
+
+function formatPrice(amount: string | null): string {
+  return `$${(parseFloat(amount ?? '') || 0).toFixed(2)}`;
+}
+
+function stockLabel(product: AdminProduct): string {
+  if (product.sizes.length > 0) {
+    return product.sizes.map((s) => `${s.size}: ${s.quantity ?? 0}`).join(' · ');
+  }
+  if (product.stockQuantity !== null) return `${product.stockQuantity} in stock`;
+  return product.stockStatus === 'OUT_OF_STOCK' ? 'Out of stock' : 'Stock not tracked';
+}
+
+// ============================================================
+// Sizes
+// ============================================================
+
+function addSizeRow(size = '', quantity = 0): void {
+  const rows = document.getElementById('size-rows');
+  if (!rows) return;
+
+  const row = document.createElement('div');
+  row.className = 'size-row flex items-center gap-2';
+
+  const sizeInput = document.createElement('input');
+  sizeInput.type = 'text';
+  sizeInput.className = 'size-name flex-1 px-3 py-2 bg-[var(--admin-bg-card)] border border-[var(--admin-border-secondary)] rounded-md text-sm text-[var(--admin-text-primary)]';
+  sizeInput.placeholder = 'Size (e.g. M)';
+  sizeInput.maxLength = 50;
+  sizeInput.value = size;
+
+  const quantityInput = document.createElement('input');
+  quantityInput.type = 'number';
+  quantityInput.min = '0';
+  quantityInput.step = '1';
+  quantityInput.className = 'size-quantity w-24 px-3 py-2 bg-[var(--admin-bg-card)] border border-[var(--admin-border-secondary)] rounded-md text-sm text-[var(--admin-text-primary)]';
+  quantityInput.value = String(quantity);
+
+  const removeBtn = document.createElement('button');
+  removeBtn.type = 'button';
+  removeBtn.className = 'text-xs text-[var(--admin-accent-danger)] hover:opacity-80';
+  removeBtn.textContent = 'Remove';
+  removeBtn.addEventListener('click', () => row.remove());
+
+  row.append(sizeInput, quantityInput, removeBtn);
+  rows.appendChild(row);
+}
+
+function readSizes(): { size: string; quantity: number }[] {
+  return Array.from(document.querySelectorAll('#size-rows .size-row'))
+    .map((row) => ({
+      size: (row.querySelector('.size-name') as HTMLInputElement).value.trim(),
+      quantity: parseInt((row.querySelector('.size-quantity') as HTMLInputElement).value, 10) || 0,
+    }))
+    .filter((s) => s.size);
+}
+
+// ============================================================
+// Image gallery
+// ============================================================
+
+function renderGallery(): void {
+  const container = document.getElementById('product-images');
+  if (!container) return;
+  container.innerHTML = '';
+
+  galleryImages.forEach((image, index) => {
+    const tile = document.createElement('div');
+    tile.className = 'relative group aspect-square bg-[var(--admin-bg-card)] rounded-md overflow-hidden border border-[var(--admin-border-secondary)]';
+
+    const img = document.createElement('img');
+    img.src = image.imageUrl;
+    img.alt = image.altText || '';
+    img.className = 'w-full h-full object-cover';
+    tile.appendChild(img);
+
+    if (index === 0) {
+      const badge = document.createElement('span');
+      badge.className = 'absolute top-1 left-1 px-1.5 py-0.5 text-[10px] rounded bg-black/70 text-white';
+      badge.textContent = 'Main';
+      tile.appendChild(badge);
+    }
+
+    const actions = document.createElement('div');
+    actions.className = 'absolute inset-x-0 bottom-0 flex justify-between p-1 bg-black/60 opacity-0 group-hover:opacity-100 transition-opacity';
+
+    const makeButton = (label: string, title: string, onClick: () => void, disabled = false) => {
+      const btn = document.createElement('button');
+      btn.type = 'button';
+      btn.className = 'px-1.5 text-xs text-white hover:opacity-80 disabled:opacity-30';
+      btn.textContent = label;
+      btn.title = title;
+      btn.disabled = disabled;
+      btn.addEventListener('click', onClick);
+      return btn;
+    };
+
+    actions.append(
+      makeButton('←', 'Move earlier', () => moveImage(index, -1), index === 0),
+      makeButton('✕', 'Remove image', () => {
+        galleryImages.splice(index, 1);
+        renderGallery();
+      }),
+      makeButton('→', 'Move later', () => moveImage(index, 1), index === galleryImages.length - 1)
+    );
+    tile.appendChild(actions);
+    container.appendChild(tile);
+  });
+}
+
+function moveImage(index: number, offset: number): void {
+  const target = index + offset;
+  if (target < 0 || target >= galleryImages.length) return;
+  [galleryImages[index], galleryImages[target]] = [galleryImages[target], galleryImages[index]];
+  renderGallery();
+}
+
+function openImageModal(target: ImageTarget): void {
+  imageTarget = target;
+  document.getElementById('product-image-modal')?.classList.remove('hidden');
+}
+
+function closeImageModal(): void {
+  document.getElementById('product-image-modal')?.classList.add('hidden');
+}
+
+/**
+ * Global handler for MediaSelector — adds to the product gallery or sets the
+ * category image, depending on which button opened the modal
+ */
+function handleProductImageSelect(media: SelectedMedia): void {
+  const url = media?.variants?.lg?.url || media?.url;
+  if (!url) return;
+
+  if (imageTarget === 'category') {
+    setCategoryImage(url);
+  } else if (!galleryImages.some((img) => img.mediaId === media.id)) {
+    galleryImages.push({ mediaId: media.id, imageUrl: url, altText: media.altText ?? null });
+    renderGallery();
+  }
+  closeImageModal();
+}
+
+// ============================================================
+// Products
+// ============================================================
+
+function renderProducts(list: AdminProduct[]): void {
+  const productsList = document.getElementById('products-list');
+  const emptyState = document.getElementById('products-empty');
+  const count = document.getElementById('product-count');
+  if (!productsList || !emptyState || !count) return;
+
+  count.textContent = `${list.length} product${list.length !== 1 ? 's' : ''}`;
+  emptyState.classList.toggle('hidden', list.length > 0);
+  productsList.classList.toggle('hidden', list.length === 0);
+
+  // Clear and rebuild using safe DOM methods (prevents XSS)
+  productsList.innerHTML = '';
+
+  for (const product of list) {
+    const row = document.createElement('div');
+    row.className = 'flex items-center gap-4 p-4 bg-[var(--admin-bg-card)] rounded-lg border border-[var(--admin-border-primary)] hover:border-[var(--admin-border-hover)] transition-all group';
+    row.setAttribute('data-id', product.id);
+
+    const mainImage = product.images[0];
+    if (mainImage) {
+      const img = document.createElement('img');
+      img.src = mainImage.imageUrl;
+      img.alt = '';
+      img.loading = 'lazy';
+      img.className = 'w-16 h-16 object-cover rounded-md shrink-0 bg-[var(--admin-bg-hover)]';
+      row.appendChild(img);
+    } else {
+      const placeholder = document.createElement('div');
+      placeholder.className = 'w-16 h-16 bg-[var(--admin-bg-hover)] rounded-md shrink-0';
+      row.appendChild(placeholder);
+    }
+
+    const info = document.createElement('div');
+    info.className = 'flex-1 min-w-0';
+
+    const title = document.createElement('h3');
+    title.className = 'text-sm font-medium text-[var(--admin-text-primary)] truncate';
+    title.textContent = product.name;
+    info.appendChild(title);
+
+    const price = document.createElement('p');
+    price.className = 'text-xs text-[var(--admin-text-secondary)] mt-1';
+    price.textContent = product.onSale && product.salePrice
+      ? `${formatPrice(product.salePrice)} (sale, was ${formatPrice(product.regularPrice)})`
+      : formatPrice(product.regularPrice || product.price);
+    info.appendChild(price);
+
+    const stock = document.createElement('p');
+    stock.className = `text-xs mt-0.5 truncate ${product.stockStatus === 'OUT_OF_STOCK' ? 'text-[var(--admin-accent-danger)]' : 'text-[var(--admin-text-muted)]'}`;
+    stock.textContent = stockLabel(product);
+    info.appendChild(stock);
+
+    row.appendChild(info);
+
+    const actions = document.createElement('div');
+    actions.className = 'flex gap-2 opacity-0 group-hover:opacity-100 transition-opacity';
+
+    const editBtn = document.createElement('button');
+    editBtn.type = 'button';
+    editBtn.className = 'edit-btn p-2 text-xs text-[var(--admin-text-tertiary)] hover:text-[var(--admin-text-primary)]';
+    editBtn.setAttribute('data-id', product.id);
+    editBtn.textContent = 'Edit';
+    actions.appendChild(editBtn);
+
+    const deleteBtn = document.createElement('button');
+    deleteBtn.type = 'button';
+    deleteBtn.className = 'delete-btn p-2 text-xs text-[var(--admin-text-tertiary)] hover:text-[var(--admin-accent-danger)]';
+    deleteBtn.setAttribute('data-id', product.id);
+    deleteBtn.textContent = 'Delete';
+    actions.appendChild(deleteBtn);
+
+    row.appendChild(actions);
+    productsList.appendChild(row);
+  }
+}
+
+function filterProducts(query: string): AdminProduct[] {
+  if (!query.trim()) return products;
+  const lowerQuery = query.toLowerCase();
+  return products.filter((p) =>
+    p.name.toLowerCase().includes(lowerQuery) ||
+    p.slug.toLowerCase().includes(lowerQuery)
+  );
+}
+
+function refreshProductList(): void {
+  const query = (document.getElementById('search-products') as HTMLInputElement | null)?.value || '';
+  renderProducts(filterProducts(query));
+}
+
+async function loadProducts(): Promise<void> {
+  try {
+    const res = await fetch('/api/admin/products', { credentials: 'include' });
+    if (!res.ok) throw new Error(await readError(res, `HTTP ${res.status}`));
+    const data = await res.json();
+    products = data.products || [];
+    refreshProductList();
+  } catch (err) {
+    const message = err instanceof Error ? err.message : 'Failed to load';
+    showFeedback(document.getElementById('product-feedback'), `Failed to load products: ${message}`, 'error');
+    console.error('[products-admin] loadProducts error:', err);
+  }
+}
+
+function resetProductForm(): void {
+  editingProductId = null;
+  (document.getElementById('product-form') as HTMLFormElement | null)?.reset();
+  setInputValue('product-id', '');
+  delete (document.getElementById('product-slug') as HTMLInputElement | null)?.dataset.edited;
+  document.getElementById('size-rows')!.innerHTML = '';
+  galleryImages = [];
+  renderGallery();
+  document.getElementById('product-form-title')!.textContent = 'New Product';
+  document.getElementById('product-save-btn')!.textContent = 'Save Product';
+  document.getElementById('product-cancel-btn')?.classList.add('hidden');
+}
+
+function editProduct(id: string): void {
+  const product = products.find((p) => p.id === id);
+  if (!product) return;
+
+  resetProductForm();
+  editingProductId = id;
+  setInputValue('product-id', id);
+  setInputValue('product-name', product.name);
+  setInputValue('product-slug', product.slug);
+  (document.getElementById('product-slug') as HTMLInputElement).dataset.edited = 'true';
+  setInputValue('product-short-description', product.shortDescription);
+  setInputValue('product-description', product.description);
+  setInputValue('product-regular-price', product.regularPrice || product.price);
+  setInputValue('product-sale-price', product.salePrice);
+  (document.getElementById('product-on-sale') as HTMLInputElement).checked = !!product.onSale;
+  setInputValue('product-stock-status', product.stockStatus || 'IN_STOCK');
+  setInputValue('product-stock-quantity', product.stockQuantity);
+  setInputValue('product-measurements', product.measurements);
+  setInputValue('product-materials', product.materials);
+  setInputValue('product-features', product.features);
+  setInputValue('product-details', product.details);
+
+  for (const s of product.sizes) addSizeRow(s.size, s.quantity ?? 0);
+
+  document.querySelectorAll<HTMLInputElement>('#product-categories input[name="categoryIds"]').forEach((box) => {
+    box.checked = product.categoryIds.includes(box.value);
+  });
+
+  galleryImages = product.images.map((img) => ({
+    mediaId: img.mediaId,
+    imageUrl: img.imageUrl,
+    altText: img.altText,
+  }));
+  renderGallery();
+
+  document.getElementById('product-form-title')!.textContent = 'Edit Product';
+  document.getElementById('product-save-btn')!.textContent = 'Update Product';
+  document.getElementById('product-cancel-btn')?.classList.remove('hidden');
+  document.getElementById('product-form')?.scrollIntoView({ behavior: 'smooth' });
+}
+
+async function saveProduct(): Promise<void> {
+  const feedback = document.getElementById('product-feedback');
+  const saveBtn = document.getElementById('product-save-btn') as HTMLButtonElement;
+  const isEditing = !!editingProductId;
+  const stockQuantity = inputValue('product-stock-quantity');
+
+  const data = {
+    id: editingProductId || undefined,
+    name: inputValue('product-name'),
+    slug: inputValue('product-slug'),
+    shortDescription: inputValue('product-short-description') || undefined,
+    description: inputValue('product-description') || undefined,
+    regularPrice: inputValue('product-regular-price').replace(/^\$/, ''),
+    salePrice: inputValue('product-sale-price').replace(/^\$/, '') || undefined,
+    onSale: (document.getElementById('product-on-sale') as HTMLInputElement).checked,
+    stockStatus: inputValue('product-stock-status'),
+    stockQuantity: stockQuantity === '' ? null : parseInt(stockQuantity, 10),
+    measurements: inputValue('product-measurements') || undefined,
+    materials: inputValue('product-materials') || undefined,
+    features: inputValue('product-features') || undefined,
+    details: inputValue('product-details') || undefined,
+    sizes: readSizes(),
+    categoryIds: Array.from(
+      document.querySelectorAll<HTMLInputElement>('#product-categories input[name="categoryIds"]:checked')
+    ).map((box) => box.value),
+    images: galleryImages.map((img) => ({
+      mediaId: img.mediaId || undefined,
+      imageUrl: img.imageUrl,
+      altText: img.altText || undefined,
+    })),
+  };
+
+  saveBtn.disabled = true;
+  saveBtn.textContent = isEditing ? 'Updating...' : 'Saving...';
+
+  try {
+    const res = await fetch('/api/admin/products', {
+      method: isEditing ? 'PUT' : 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'X-CSRF-Token': getCsrfToken(),
+      },
+      credentials: 'include',
+      body: JSON.stringify(data),
+    });
+
+    if (!res.ok) throw new Error(await readError(res, 'Save failed'));
+
+    resetProductForm();
+    await loadProducts();
+    showFeedback(feedback, isEditing ? 'Product updated' : 'Product created', 'success');
+  } catch (err) {
+    saveBtn.textContent = isEditing ? 'Update Product' : 'Save Product';
+    showFeedback(feedback, err instanceof Error ? err.message : 'Failed to save product', 'error');
+  } finally {
+    saveBtn.disabled = false;
+  }
+}
+
+async function deleteProduct(id: string): Promise<void> {
+  const product = products.find((p) => p.id === id);
+  if (!confirm(`Delete "${product?.name ?? 'this product'}"? It will be removed from the shop.`)) return;
+
+  const feedback = document.getElementById('product-feedback');
+  try {
+    const res = await fetch(`/api/admin/products?id=${encodeURIComponent(id)}`, {
+      method: 'DELETE',
+      credentials: 'include',
+      headers: { 'X-CSRF-Token': getCsrfToken() },
+    });
+    if (!res.ok) throw new Error(await readError(res, 'Delete failed'));
+
+    products = products.filter((p) => p.id !== id);
+    if (editingProductId === id) resetProductForm();
+    refreshProductList();
+    showFeedback(feedback, 'Product deleted', 'success');
+  } catch (err) {
+    showFeedback(feedback, err instanceof Error ? err.message : 'Failed to delete product', 'error');
+  }
+}
+
+// ============================================================
+// Categories
+// ============================================================
+
+function setCategoryImage(url: string | null): void {
+  setInputValue('category-image-url', url);
+  const preview = document.getElementById('category-image-preview');
+  const img = document.getElementById('category-image-preview-img') as HTMLImageElement | null;
+  if (url && img) {
+    img.src = url;
+    preview?.classList.remove('hidden');
+  } else {
+    preview?.classList.add('hidden');
+  }
+}
+
+function renderCategories(): void {
+  const list = document.getElementById('categories-list');
+  if (!list) return;
+  list.innerHTML = '';
+
+  if (categories.length === 0) {
+    const empty = document.createElement('p');
+    empty.className = 'text-sm text-[var(--admin-text-muted)]';
+    empty.textContent = 'No categories yet';
+    list.appendChild(empty);
+    return;
+  }
+
+  for (const category of categories) {
+    const productCount = products.filter((p) => p.categoryIds.includes(category.id)).length;
+
+    const row = document.createElement('div');
+    row.className = 'flex items-center gap-3 p-3 bg-[var(--admin-bg-card)] rounded-lg border border-[var(--admin-border-primary)] group';
+
+    const info = document.createElement('div');
+    info.className = 'flex-1 min-w-0';
+    const name = document.createElement('p');
+    name.className = 'text-sm font-medium text-[var(--admin-text-primary)] truncate';
+    name.textContent = category.name;
+    const meta = document.createElement('p');
+    meta.className = 'text-xs text-[var(--admin-text-muted)]';
+    meta.textContent = `/shop/${category.slug} · ${productCount} product${productCount !== 1 ? 's' : ''}`;
+    info.append(name, meta);
+    row.appendChild(info);
+
+    const editBtn = document.createElement('button');
+    editBtn.type = 'button';
+    editBtn.className = 'text-xs text-[var(--admin-text-tertiary)] hover:text-[var(--admin-text-primary)]';
+    editBtn.textContent = 'Edit';
+    editBtn.addEventListener('click', () => editCategory(category));
+
+    const deleteBtn = document.createElement('button');
+    deleteBtn.type = 'button';
+    deleteBtn.className = 'text-xs text-[var(--admin-text-tertiary)] hover:text-[var(--admin-accent-danger)]';
+    deleteBtn.textContent = 'Delete';
+    deleteBtn.addEventListener('click', () => deleteCategory(category));
+
+    row.append(editBtn, deleteBtn);
+    list.appendChild(row);
+  }
+}
+
+function resetCategoryForm(): void {
+  (document.getElementById('category-form') as HTMLFormElement | null)?.reset();
+  setInputValue('category-id', '');
+  delete (document.getElementById('category-slug') as HTMLInputElement | null)?.dataset.edited;
+  setCategoryImage(null);
+  document.getElementById('category-save-btn')!.textContent = 'Save Category';
+  document.getElementById('category-cancel-btn')?.classList.add('hidden');
+}
+
+function editCategory(category: Category): void {
+  setInputValue('category-id', category.id);
+  setInputValue('category-name', category.name);
+  setInputValue('category-slug', category.slug);
+  (document.getElementById('category-slug') as HTMLInputElement).dataset.edited = 'true';
+  setInputValue('category-description', category.description);
+  setInputValue('category-sort-order', category.sortOrder ?? 0);
+  setCategoryImage(category.imageUrl);
+  document.getElementById('category-save-btn')!.textContent = 'Update Category';
+  document.getElementById('category-cancel-btn')?.classList.remove('hidden');
+}
+
+async function saveCategory(): Promise<void> {
+  const feedback = document.getElementById('category-feedback');
+  const id = inputValue('category-id');
+
+  const data = {
+    id: id || undefined,
+    name: inputValue('category-name'),
+    slug: inputValue('category-slug'),
+    description: inputValue('category-description') || undefined,
+    imageUrl: inputValue('category-image-url') || undefined,
+    sortOrder: parseInt(inputValue('category-sort-order'), 10) || 0,
+  };
+
+  try {
+    const res = await fetch('/api/admin/categories', {
+      method: id ? 'PUT' : 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'X-CSRF-Token': getCsrfToken(),
+      },
+      credentials: 'include',
+      body: JSON.stringify(data),
+    });
+    if (!res.ok) throw new Error(await readError(res, 'Save failed'));
+
+    // The product form's category checkboxes are server-rendered
+    window.location.reload();
+  } catch (err) {
+    showFeedback(feedback, err instanceof Error ? err.message : 'Failed to save category', 'error');
+  }
+}
+
+async function deleteCategory(category: Category): Promise<void> {
+  if (!confirm(`Delete the "${category.name}" category? Its products stay in the shop.`)) return;
+
+  try {
+    const res = await fetch(`/api/admin/categories?id=${encodeURIComponent(category.id)}`, {
+      method: 'DELETE',
+      credentials: 'include',
+      headers: { 'X-CSRF-Token': getCsrfToken() },
+    });
+    if (!res.ok) throw new Error(await readError(res, 'Delete failed'));
+    window.location.reload();
+  } catch (err) {
+    showFeedback(document.getElementById('category-feedback'), err instanceof Error ? err.message : 'Failed to delete category', 'error');
+  }
+}
+
+// ============================================================
+// Init
+// ============================================================
+
+/**
+ * Fill the slug from the name until the slug is edited by hand
+ */
+function bindSlug(nameId: string, slugId: string): void {
+  const nameInput = document.getElementById(nameId) as HTMLInputElement | null;
+  const slugInput = document.getElementById(slugId) as HTMLInputElement | null;
+  nameInput?.addEventListener('input', () => {
+    if (slugInput && !slugInput.dataset.edited) slugInput.value = slugify(nameInput.value);
+  });
+  slugInput?.addEventListener('input', () => {
+    slugInput.dataset.edited = 'true';
+  });
+}
+
+export function initProductsAdmin() {
+  // Check if we're on the products admin page
+  const form = document.getElementById('product-form') as HTMLFormElement | null;
+  if (!form || form.dataset.initialized) return;
+  form.dataset.initialized = 'true';
+
+  (window as unknown as Record<string, unknown>).handleProductImageSelect = handleProductImageSelect;
+
+  products = (window as any).__INITIAL_PRODUCTS__ || [];
+  categories = (window as any).__INITIAL_CATEGORIES__ || [];
+  galleryImages = [];
+  editingProductId = null;
+  refreshProductList();
+  renderCategories();
+  renderGallery();
+
+  bindSlug('product-name', 'product-slug');
+  bindSlug('category-name', 'category-slug');
+
+  document.getElementById('add-size-btn')?.addEventListener('click', () => addSizeRow());
+  document.getElementById('add-image-btn')?.addEventListener('click', () => openImageModal('product'));
+  document.getElementById('category-image-btn')?.addEventListener('click', () => openImageModal('category'));
+  document.getElementById('remove-category-image')?.addEventListener('click', () => setCategoryImage(null));
+  document.getElementById('close-product-image-modal')?.addEventListener('click', closeImageModal);
+  document.getElementById('product-image-modal-backdrop')?.addEventListener('click', closeImageModal);
+
+  document.getElementById('search-products')?.addEventListener('input', refreshProductList);
+
+  // Edit/Delete handlers using event delegation
+  document.getElementById('products-list')?.addEventListener('click', (e) => {
+    const target = e.target as HTMLElement;
+    const editBtn = target.closest('.edit-btn') as HTMLElement | null;
+    const deleteBtn = target.closest('.delete-btn') as HTMLElement | null;
+    if (editBtn?.dataset.id) editProduct(editBtn.dataset.id);
+    else if (deleteBtn?.dataset.id) deleteProduct(deleteBtn.dataset.id);
+  });
+
+  form.addEventListener('submit', (e) => {
+    e.preventDefault();
+    saveProduct();
+  });
+  document.getElementById('product-cancel-btn')?.addEventListener('click', resetProductForm);
+
+  document.getElementById('category-form')?.addEventListener('submit', (e) => {
+    e.preventDefault();
+    saveCategory();
+  });
+  document.getElementById('category-cancel-btn')?.addEventListener('click', resetCategoryForm);
+}
+
+// Initialize on DOM ready
+if (document.readyState === 'loading') {
+  document.addEventListener('DOMContentLoaded', initProductsAdmin);
+} else {
+  initProductsAdmin();
+}
+
+// Re-initialize after Astro view transitions
+document.addEventListener('astro:page-load', initProductsAdmin);
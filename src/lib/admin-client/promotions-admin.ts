@@ -0,0 +1,377 @@
+/**
+ * Promotions Admin Page Client-Side Logic
+ *
+ * Handles discount codes and sales: create, edit, delete and
+ * switching a promotion on or off from the list
+ */
+
+interface Promotion {
+  id: string;
+  code: string | null;
+  description: string | null;
+  discountType: 'percentage' | 'fixed';
+  amount: string;
+  productId: string | null;
+  categoryId: string | null;
+  usageLimit: number | null;
+  timesRedeemed: number;
+  startsAt: string | null;
+  endsAt: string | null;
+  active: boolean;
+}
+
+interface ScopeOption {
+  id: string;
+  name: string;
+}
+
+let promotions: Promotion[] = [];
+let productNames = new Map<string, string>();
+let categoryNames = new Map<string, string>();
+let editingPromotionId: string | null = null;
+
+function getCsrfToken(): string {
+  const csrfMatch = document.cookie.match(/csrf_token=([^;]+)/);
+  return csrfMatch ? decodeURIComponent(csrfMatch[1]) : '';
+}
+
+function showFeedback(
+  feedback: HTMLElement | null,
+  message: string,
+  type: 'success' | 'error'
+): void {
+  if (!feedback) return;
+  feedback.textContent = message;
+  feedback.className = `mt-4 p-3 rounded-md text-sm ${type === 'success' ? 'bg-[var(--admin-accent-success)]/20 text-[var(--admin-accent-success)] border border-[var(--admin-accent-success)]' : 'bg-[var(--admin-accent-danger)]/20 text-[var(--admin-accent-danger)] border border-[var(--admin-accent-danger)]'}`;
+  feedback.classList.remove('hidden');
+  setTimeout(() => feedback.classList.add('hidden'), 3000);
+}
+
+/**
+ * Turn an API error response into a readable message
+ */
+async function readError(res: Response, fallback: string): Promise<string> {
+  const data = await res.json().catch(() => ({}));
+  // Validation failures carry zod's flattened { formErrors, fieldErrors }
+  const fieldErrors: Record<string, string[]> = data.details?.fieldErrors ?? {};
+  const messages = [
+    ...(data.details?.formErrors ?? []),
+    ...Object.entries(fieldErrors).map(([field, errors]) => `${field}: ${errors.join(', ')}`),
+  ];
+  if (messages.length > 0) {
+    return `${data.error || fallback}: ${messages.join('; ')}`;
+  }
+  return data.error || fallback;
+}
+
+function inputValue(id: string): string {
+  return (document.getElementById(id) as HTMLInputElement | HTMLSelectElement | null)?.value.trim() ?? '';
+}
+
+function setInputValue(id: string, value: string | number | null | undefined): void {
+  const el = document.getElementById(id) as HTMLInputElement | HTMLSelectElement | null;
+  if (el) el.value = value === null || value === undefined ? '' : String(value);
+}
+
+/** ISO date → value for a datetime-local input (in the browser's time zone) */
+function toLocalInput(iso: string | null): string {
+  if (!iso) return '';
+  const date = new Date(iso);
+  const offset = date.getTimezoneOffset() * 60000;
+  return new Date(date.getTime() - offset).toISOString().slice(0, 16);
+}
+
+/** datetime-local input value → ISO date, or null when empty */
+function fromLocalInput(value: string): string | null {
+  return value ? new Date(value).toISOString() : null;
+}
+
+function formatDate(iso: string): string {
+  return new Date(iso).toLocaleDateString(undefined, { month: 'short', day: 'numeric', year: 'numeric' });
+}
+
+function discountLabel(promotion: Promotion): string {
+  const amount = parseFloat(promotion.amount) || 0;
+  return promotion.discountType === 'percentage'
+    ? `${amount}% off`
+    : `$${amount.toFixed(2)} off`;
+}
+
+function scopeLabel(promotion: Promotion): string {
+  if (promotion.productId) return productNames.get(promotion.productId) ?? 'Deleted product';
+  if (promotion.categoryId) return categoryNames.get(promotion.categoryId) ?? 'Deleted category';
+  return 'Whole cart';
+}
+
+function datesLabel(promotion: Promotion): string {
+  if (promotion.startsAt && promotion.endsAt) return `${formatDate(promotion.startsAt)} – ${formatDate(promotion.endsAt)}`;
+  if (promotion.startsAt) return `From ${formatDate(promotion.startsAt)}`;
+  if (promotion.endsAt) return `Until ${formatDate(promotion.endsAt)}`;
+  return 'No end date';
+}
+
+/** Whether a promotion can be used right now, ignoring the cart */
+function statusLabel(promotion: Promotion): { text: string; live: boolean } {
+  const now = Date.now();
+  if (!promotion.active) return { text: 'Off', live: false };
+  if (promotion.startsAt && new Date(promotion.startsAt).getTime() > now) return { text: 'Scheduled', live: false };
+  if (promotion.endsAt && new Date(promotion.endsAt).getTime() <= now) return { text: 'Expired', live: false };
+  if (promotion.usageLimit !== null && promotion.timesRedeemed >= promotion.usageLimit) return { text: 'Used up', live: false };
+  return { text: 'Live', live: true };
+}
+
+function renderPromotions(): void {
+  const list = document.getElementById('promotions-list');
+  const emptyState = document.getElementById('promotions-empty');
+  const count = document.getElementById('promotion-count');
+  if (!list || !emptyState || !count) return;
+
+  count.textContent = `${promotions.length} promotion${promotions.length !== 1 ? 's' : ''}`;
+  emptyState.classList.toggle('hidden', promotions.length > 0);
+  list.classList.toggle('hidden', promotions.length === 0);
+
+  // Clear and rebuild using safe DOM methods (prevents XSS)
+  list.innerHTML = '';
+
+  for (const promotion of promotions) {
+    const row = document.createElement('div');
+    row.className = 'flex items-center gap-4 p-4 bg-[var(--admin-bg-card)] rounded-lg border border-[var(--admin-border-primary)] hover:border-[var(--admin-border-hover)] transition-all group';
+    row.setAttribute('data-id', promotion.id);
+
+    const info = document.createElement('div');
+    info.className = 'flex-1 min-w-0';
+
+    const header = document.createElement('div');
+    header.className = 'flex items-center gap-2';
+
+    const title = document.createElement('h3');
+    title.className = 'text-sm font-medium text-[var(--admin-text-primary)] truncate';
+    title.textContent = promotion.code ?? 'Sale (no code)';
+    header.appendChild(title);
+
+    const status = statusLabel(promotion);
+    const badge = document.createElement('span');
+    badge.className = `text-xs px-2 py-0.5 rounded-full ${status.live ? 'bg-[var(--admin-accent-success)]/20 text-[var(--admin-accent-success)]' : 'bg-[var(--admin-bg-hover)] text-[var(--admin-text-muted)]'}`;
+    badge.textContent = status.text;
+    header.appendChild(badge);
+
+    info.appendChild(header);
+
+    const discount = document.createElement('p');
+    discount.className = 'text-xs text-[var(--admin-text-secondary)] mt-1 truncate';
+    discount.textContent = `${discountLabel(promotion)} · ${scopeLabel(promotion)}`;
+    info.appendChild(discount);
+
+    const meta = document.createElement('p');
+    meta.className = 'text-xs text-[var(--admin-text-muted)] mt-0.5 truncate';
+    const usage = promotion.usageLimit !== null
+      ? `${promotion.timesRedeemed}/${promotion.usageLimit} used`
+      : `${promotion.timesRedeemed} used`;
+    meta.textContent = `${datesLabel(promotion)} · ${usage}`;
+    info.appendChild(meta);
+
+    row.appendChild(info);
+
+    const actions = document.createElement('div');
+    actions.className = 'flex gap-2 opacity-0 group-hover:opacity-100 transition-opacity';
+
+    const toggleBtn = document.createElement('button');
+    toggleBtn.type = 'button';
+    toggleBtn.className = 'toggle-btn p-2 text-xs text-[var(--admin-text-tertiary)] hover:text-[var(--admin-text-primary)]';
+    toggleBtn.setAttribute('data-id', promotion.id);
+    toggleBtn.textContent = promotion.active ? 'Turn off' : 'Turn on';
+    actions.appendChild(toggleBtn);
+
+    const editBtn = document.createElement('button');
+    editBtn.type = 'button';
+    editBtn.className = 'edit-btn p-2 text-xs text-[var(--admin-text-tertiary)] hover:text-[var(--admin-text-primary)]';
+    editBtn.setAttribute('data-id', promotion.id);
+    editBtn.textContent = 'Edit';
+    actions.appendChild(editBtn);
+
+    const deleteBtn = document.createElement('button');
+    deleteBtn.type = 'button';
+    deleteBtn.className = 'delete-btn p-2 text-xs text-[var(--admin-text-tertiary)] hover:text-[var(--admin-accent-danger)]';
+    deleteBtn.setAttribute('data-id', promotion.id);
+    deleteBtn.textContent = 'Delete';
+    actions.appendChild(deleteBtn);
+
+    row.appendChild(actions);
+    list.appendChild(row);
+  }
+}
+
+async function loadPromotions(): Promise<void> {
+  try {
+    const res = await fetch('/api/admin/promotions', { credentials: 'include' });
+    if (!res.ok) throw new Error(await readError(res, `HTTP ${res.status}`));
+    const data = await res.json();
+    promotions = data.promotions || [];
+    renderPromotions();
+  } catch (err) {
+    const message = err instanceof Error ? err.message : 'Failed to load';
+    showFeedback(document.getElementById('promotion-feedback'), `Failed to load promotions: ${message}`, 'error');
+    console.error('[promotions-admin] loadPromotions error:', err);
+  }
+}
+
+function resetPromotionForm(): void {
+  editingPromotionId = null;
+  (document.getElementById('promotion-form') as HTMLFormElement | null)?.reset();
+  setInputValue('promotion-id', '');
+  document.getElementById('promotion-form-title')!.textContent = 'New Promotion';
+  document.getElementById('promotion-save-btn')!.textContent = 'Save Promotion';
+  document.getElementById('promotion-cancel-btn')?.classList.add('hidden');
+}
+
+function editPromotion(id: string): void {
+  const promotion = promotions.find((p) => p.id === id);
+  if (!promotion) return;
+
+  resetPromotionForm();
+  editingPromotionId = id;
+  setInputValue('promotion-id', id);
+  setInputValue('promotion-code', promotion.code);
+  setInputValue('promotion-description', promotion.description);
+  setInputValue('promotion-discount-type', promotion.discountType);
+  setInputValue('promotion-amount', promotion.amount);
+  setInputValue('promotion-product', promotion.productId);
+  setInputValue('promotion-category', promotion.categoryId);
+  setInputValue('promotion-starts-at', toLocalInput(promotion.startsAt));
+  setInputValue('promotion-ends-at', toLocalInput(promotion.endsAt));
+  setInputValue('promotion-usage-limit', promotion.usageLimit);
+  (document.getElementById('promotion-active') as HTMLInputElement).checked = promotion.active;
+
+  document.getElementById('promotion-form-title')!.textContent = 'Edit Promotion';
+  document.getElementById('promotion-save-btn')!.textContent = 'Update Promotion';
+  document.getElementById('promotion-cancel-btn')?.classList.remove('hidden');
+  document.getElementById('promotion-form')?.scrollIntoView({ behavior: 'smooth' });
+}
+
+/** Send a promotion to the API (PUT when it has an id) */
+async function submitPromotion(data: Record<string, unknown>): Promise<void> {
+  const res = await fetch('/api/admin/promotions', {
+    method: data.id ? 'PUT' : 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'X-CSRF-Token': getCsrfToken(),
+    },
+    credentials: 'include',
+    body: JSON.stringify(data),
+  });
+  if (!res.ok) throw new Error(await readError(res, 'Save failed'));
+}
+
+async function savePromotion(): Promise<void> {
+  const feedback = document.getElementById('promotion-feedback');
+  const saveBtn = document.getElementById('promotion-save-btn') as HTMLButtonElement;
+  const isEditing = !!editingPromotionId;
+  const usageLimit = inputValue('promotion-usage-limit');
+
+  const data = {
+    id: editingPromotionId || undefined,
+    code: inputValue('promotion-code') || null,
+    description: inputValue('promotion-description') || undefined,
+    discountType: inputValue('promotion-discount-type'),
+    amount: inputValue('promotion-amount').replace(/^\$|%$/g, ''),
+    productId: inputValue('promotion-product') || null,
+    categoryId: inputValue('promotion-category') || null,
+    usageLimit: usageLimit === '' ? null : parseInt(usageLimit, 10),
+    startsAt: fromLocalInput(inputValue('promotion-starts-at')),
+    endsAt: fromLocalInput(inputValue('promotion-ends-at')),
+    active: (document.getElementById('promotion-active') as HTMLInputElement).checked,
+  };
+
+  saveBtn.disabled = true;
+  saveBtn.textContent = isEditing ? 'Updating...' : 'Saving...';
+
+  try {
+    await submitPromotion(data);
+    resetPromotionForm();
+    await loadPromotions();
+    showFeedback(feedback, isEditing ? 'Promotion updated' : 'Promotion created', 'success');
+  } catch (err) {
+    saveBtn.textContent = isEditing ? 'Update Promotion' : 'Save Promotion';
+    showFeedback(feedback, err instanceof Error ? err.message : 'Failed to save promotion', 'error');
+  } finally {
+    saveBtn.disabled = false;
+  }
+}
+
+async function togglePromotion(id: string): Promise<void> {
+  const promotion = promotions.find((p) => p.id === id);
+  if (!promotion) return;
+
+  const feedback = document.getElementById('promotion-feedback');
+  try {
+    await submitPromotion({ ...promotion, description: promotion.description ?? undefined, active: !promotion.active });
+    await loadPromotions();
+    showFeedback(feedback, promotion.active ? 'Promotion turned off' : 'Promotion turned on', 'success');
+  } catch (err) {
+    showFeedback(feedback, err instanceof Error ? err.message : 'Failed to update promotion', 'error');
+  }
+}
+
+async function deletePromotion(id: string): Promise<void> {
+  const promotion = promotions.find((p) => p.id === id);
+  if (!confirm(`Delete ${promotion?.code ? `"${promotion.code}"` : 'this sale'}? It will stop applying to carts.`)) return;
+
+  const feedback = document.getElementById('promotion-feedback');
+  try {
+    const res = await fetch(`/api/admin/promotions?id=${encodeURIComponent(id)}`, {
+      method: 'DELETE',
+      credentials: 'include',
+      headers: { 'X-CSRF-Token': getCsrfToken() },
+    });
+    if (!res.ok) throw new Error(await readError(res, 'Delete failed'));
+
+    promotions = promotions.filter((p) => p.id !== id);
+    if (editingPromotionId === id) resetPromotionForm();
+    renderPromotions();
+    showFeedback(feedback, 'Promotion deleted', 'success');
+  } catch (err) {
+    showFeedback(feedback, err instanceof Error ? err.message : 'Failed to delete promotion', 'error');
+  }
+}
+
+export function initPromotionsAdmin() {
+  // Check if we're on the promotions admin page
+  const form = document.getElementById('promotion-form') as HTMLFormElement | null;
+  if (!form || form.dataset.initialized) return;
+  form.dataset.initialized = 'true';
+
+  promotions = (window as any).__INITIAL_PROMOTIONS__ || [];
+  const productOptions: ScopeOption[] = (window as any).__INITIAL_PROMOTION_PRODUCTS__ || [];
+  const categoryOptions: ScopeOption[] = (window as any).__INITIAL_PROMOTION_CATEGORIES__ || [];
+  productNames = new Map(productOptions.map((p) => [p.id, p.name]));
+  categoryNames = new Map(categoryOptions.map((c) => [c.id, c.name]));
+  editingPromotionId = null;
+  renderPromotions();
+
+  // Toggle/Edit/Delete handlers using event delegation
+  document.getElementById('promotions-list')?.addEventListener('click', (e) => {
+    const target = e.target as HTMLElement;
+    const toggleBtn = target.closest('.toggle-btn') as HTMLElement | null;
+    const editBtn = target.closest('.edit-btn') as HTMLElement | null;
+    const deleteBtn = target.closest('.delete-btn') as HTMLElement | null;
+    if (toggleBtn?.dataset.id) togglePromotion(toggleBtn.dataset.id);
+    else if (editBtn?.dataset.id) editPromotion(editBtn.dataset.id);
+    else if (deleteBtn?.dataset.id) deletePromotion(deleteBtn.dataset.id);
+  });
+
+  form.addEventListener('submit', (e) => {
+    e.preventDefault();
+    savePromotion();
+  });
+  document.getElementById('promotion-cancel-btn')?.addEventListener('click', resetPromotionForm);
+}
+
+// Initialize on DOM ready
+if (document.readyState === 'loading') {
+  document.addEventListener('DOMContentLoaded', initPromotionsAdmin);
+} else {
+  initPromotionsAdmin();
+}
+
+// Re-initialize after Astro view transitions
+document.addEventListener('astro:page-load', initPromotionsAdmin);
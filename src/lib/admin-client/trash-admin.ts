@@ -0,0 +1,217 @@
+/**
+ * Trash Admin Page Client-Side Logic
+ *
+ * Lists soft-deleted items across content types, restores them or deletes
+ * them permanently, and empties the trash
+ */
+
+type TrashKind = 'media' | 'work' | 'post' | 'product' | 'audio-post';
+
+interface TrashItem {
+  kind: TrashKind;
+  id: string;
+  title: string;
+  detail: string;
+  thumbnail: string | null;
+  deletedAt: string;
+  purgeAt: string;
+}
+
+const KIND_LABELS: Record<TrashKind, string> = {
+  media: 'Media',
+  work: 'Work',
+  post: 'Post',
+  product: 'Product',
+  'audio-post': 'Audio post',
+};
+
+const secondaryButtonClass = 'px-3 py-1.5 bg-[var(--admin-bg-card)] border border-[var(--admin-border-secondary)] rounded-md text-sm font-medium text-[var(--admin-text-secondary)] hover:bg-[var(--admin-bg-hover)] hover:text-[var(--admin-text-primary)] transition-colors disabled:opacity-50';
+const dangerButtonClass = 'px-3 py-1.5 rounded-md text-sm font-medium text-[var(--admin-accent-danger)] border border-[var(--admin-accent-danger)] hover:bg-[var(--admin-accent-danger)]/10 transition-colors disabled:opacity-50';
+
+let items: TrashItem[] = [];
+let filter: TrashKind | 'all' = 'all';
+
+function getCsrfToken(): string {
+  const csrfMatch = document.cookie.match(/csrf_token=([^;]+)/);
+  return csrfMatch ? decodeURIComponent(csrfMatch[1]) : '';
+}
+
+function showFeedback(message: string, type: 'success' | 'error'): void {
+  const feedback = document.getElementById('trash-feedback');
+  if (!feedback) return;
+  feedback.textContent = message;
+  feedback.className = `p-3 rounded-md text-sm ${type === 'success' ? 'bg-[var(--admin-accent-success)]/20 text-[var(--admin-accent-success)] border border-[var(--admin-accent-success)]' : 'bg-[var(--admin-accent-danger)]/20 text-[var(--admin-accent-danger)] border border-[var(--admin-accent-danger)]'}`;
+  feedback.classList.remove('hidden');
+  setTimeout(() => feedback.classList.add('hidden'), 4000);
+}
+
+/**
+ * Turn an API error response into a readable message
+ */
+async function readError(res: Response, fallback: string): Promise<string> {
+  const data = await res.json().catch(() => ({}));
+  // Validation failures carry zod's flattened { formErrors, fieldErrors }
+  const fieldErrors: Record<string, string[]> = data.details?.fieldErrors ?? {};
+  const messages = [
+    ...(data.details?.formErrors ?? []),
+    ...Object.entries(fieldErrors).map(([field, errors]) => `${field}: ${errors.join(', ')}`),
+  ];
+  if (messages.length > 0) {
+    return `${data.error || fallback}: ${messages.join('; ')}`;
+  }
+  return data.details ? `${data.error || fallback}: ${data.details}` : data.error || fallback;
+}
+
+function formatDate(iso: string): string {
+  return new Date(iso).toLocaleDateString(undefined, { dateStyle: 'medium' });
+}
+
+function el<K extends keyof HTMLElementTagNameMap>(tag: K, className: string, text?: string): HTMLElementTagNameMap[K] {
+  const node = document.createElement(tag);
+  node.className = className;
+  if (text !== undefined) node.textContent = text;
+  return node;
+}
+
+function renderItem(item: TrashItem): HTMLElement {
+  const row = el('div', 'flex items-center gap-3 p-3');
+
+  if (item.thumbnail) {
+    const thumb = el('img', 'w-12 h-12 object-cover rounded bg-[var(--admin-bg-card)] shrink-0');
+    thumb.src = item.thumbnail;
+    thumb.alt = '';
+    thumb.loading = 'lazy';
+    row.appendChild(thumb);
+  } else {
+    row.appendChild(el('span', 'w-12 h-12 flex items-center justify-center rounded bg-[var(--admin-bg-card)] text-xs text-[var(--admin-text-muted)] shrink-0', KIND_LABELS[item.kind]));
+  }
+
+  const info = el('div', 'min-w-0 flex-1 text-sm');
+  info.appendChild(el('p', 'text-[var(--admin-text-primary)] truncate', item.title));
+  info.appendChild(el('p', 'text-xs text-[var(--admin-text-muted)]',
+    `${KIND_LABELS[item.kind]} · ${item.detail} · deleted ${formatDate(item.deletedAt)} · purged ${formatDate(item.purgeAt)}`));
+  row.appendChild(info);
+
+  const restore = el('button', secondaryButtonClass, 'Restore');
+  restore.type = 'button';
+  restore.dataset.action = 'restore';
+  restore.dataset.kind = item.kind;
+  restore.dataset.id = item.id;
+  row.appendChild(restore);
+
+  const purge = el('button', dangerButtonClass, 'Delete forever');
+  purge.type = 'button';
+  purge.dataset.action = 'purge';
+  purge.dataset.kind = item.kind;
+  purge.dataset.id = item.id;
+  row.appendChild(purge);
+
+  return row;
+}
+
+function renderItems(): void {
+  const list = document.getElementById('trash-list');
+  const emptyState = document.getElementById('trash-empty');
+  const emptyButton = document.getElementById('empty-trash') as HTMLButtonElement | null;
+  if (!list || !emptyState) return;
+
+  const visible = filter === 'all' ? items : items.filter((item) => item.kind === filter);
+  emptyState.classList.toggle('hidden', visible.length > 0);
+  list.classList.toggle('hidden', visible.length === 0);
+  if (emptyButton) emptyButton.disabled = items.length === 0;
+
+  // Clear and rebuild using safe DOM methods (prevents XSS)
+  list.innerHTML = '';
+  for (const item of visible) list.appendChild(renderItem(item));
+}
+
+async function loadItems(): Promise<void> {
+  try {
+    const res = await fetch('/api/admin/trash', { credentials: 'include' });
+    if (!res.ok) throw new Error(await readError(res, `HTTP ${res.status}`));
+    const data = await res.json();
+    items = data.items || [];
+    renderItems();
+  } catch (err) {
+    const message = err instanceof Error ? err.message : 'Failed to load';
+    showFeedback(`Failed to load trash: ${message}`, 'error');
+    console.error('[trash-admin] loadItems error:', err);
+  }
+}
+
+async function sendAction(body: Record<string, string>, fallback: string): Promise<void> {
+  const res = await fetch('/api/admin/trash', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'X-CSRF-Token': getCsrfToken(),
+    },
+    credentials: 'include',
+    body: JSON.stringify(body),
+  });
+  if (!res.ok) throw new Error(await readError(res, fallback));
+  const data = await res.json();
+  await loadItems();
+  showFeedback(data.message || 'Done', data.failed?.length ? 'error' : 'success');
+}
+
+async function handleItemAction(button: HTMLButtonElement): Promise<void> {
+  const { action, kind, id } = button.dataset;
+  if (!action || !kind || !id) return;
+  const item = items.find((i) => i.kind === kind && i.id === id);
+  if (action === 'purge' && !confirm(`Permanently delete "${item?.title ?? id}"? Its files are deleted too. This can't be undone.`)) return;
+
+  button.disabled = true;
+  try {
+    await sendAction({ action, kind, id }, action === 'restore' ? 'Failed to restore' : 'Failed to delete');
+  } catch (err) {
+    showFeedback(err instanceof Error ? err.message : 'Trash action failed', 'error');
+    button.disabled = false;
+  }
+}
+
+async function handleEmptyTrash(button: HTMLButtonElement): Promise<void> {
+  if (!confirm(`Permanently delete all ${items.length} item(s) in the trash, with their files? This can't be undone.`)) return;
+
+  button.disabled = true;
+  try {
+    await sendAction({ action: 'empty' }, 'Failed to empty the trash');
+  } catch (err) {
+    showFeedback(err instanceof Error ? err.message : 'Failed to empty the trash', 'error');
+    button.disabled = false;
+  }
+}
+
+export function initTrashAdmin() {
+  // Check if we're on the trash page
+  const list = document.getElementById('trash-list');
+  if (!list || list.dataset.initialized) return;
+  list.dataset.initialized = 'true';
+
+  items = (window as any).__INITIAL_TRASH__ || [];
+  renderItems();
+
+  list.addEventListener('click', (e) => {
+    const button = (e.target as HTMLElement).closest<HTMLButtonElement>('button[data-action]');
+    if (button) handleItemAction(button);
+  });
+
+  document.getElementById('trash-filter')?.addEventListener('change', (e) => {
+    filter = (e.target as HTMLSelectElement).value as TrashKind | 'all';
+    renderItems();
+  });
+
+  document.getElementById('empty-trash')?.addEventListener('click', (e) => {
+    handleEmptyTrash(e.currentTarget as HTMLButtonElement);
+  });
+}
+
+// Initialize on DOM ready
+if (document.readyState === 'loading') {
+  document.addEventListener('DOMContentLoaded', initTrashAdmin);
+} else {
+  initTrashAdmin();
+}
+
+// Re-initialize after Astro view transitions
+document.addEventListener('astro:page-load', initTrashAdmin);
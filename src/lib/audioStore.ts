@@ -5,17 +5,27 @@ import { useStore } from '@nanostores/react';
 // TYPES
 // ============================================================================
 
+export interface AudioSource {
+  src: string;
+  type: string; // MIME type with codecs, for canPlayType
+  bitrate: number; // kbps
+}
+
 export interface Track {
   id: string;
   title: string;
   artist: string;
   src: string; // Audio file URL
+  sources?: AudioSource[]; // Streaming variants; the engine picks one and falls back to src
+  downloadUrl?: string; // Lossless master, when the post offers it
   duration?: number; // Duration in seconds
   coverArt?: string; // Optional cover image
   album?: string;
   year?: number;
   youtubeLink?: string | null;
   soundcloudLink?: string | null;
+  waveform?: number[]; // Peaks (0-1) for the waveform scrubber
+  loudness?: number; // Integrated loudness in LUFS, for normalization
 }
 
 export interface Release {
@@ -28,6 +38,8 @@ export interface Release {
   soundcloudLink?: string | null;
 }
 
+export type RepeatMode = 'off' | 'all' | 'one';
+
 export interface AudioState {
   currentTrack: Track | null;
   isPlaying: boolean;
@@ -38,6 +50,12 @@ export interface AudioState {
   queue: Track[];
   currentIndex: number;
   isExpanded: boolean; // For expanded player view
+  normalize: boolean; // Even out loudness between tracks
+  shuffle: boolean; // Queue is in shuffled order
+  unshuffledQueue: Track[] | null; // Order to go back to when shuffle is turned off
+  repeat: RepeatMode; // 'all' wraps the queue, 'one' replays the current track when it ends
+  gapless: boolean; // Web Audio engine: preloads the next track and starts it without a gap
+  crossfade: number; // Seconds the gapless engine overlaps tracks for (0 = none)
 }
 
 // ============================================================================
@@ -55,33 +73,95 @@ export const $audio = map<AudioState>({
   queue: [],
   currentIndex: -1,
   isExpanded: false,
+  normalize: true,
+  shuffle: false,
+  unshuffledQueue: null,
+  repeat: 'off',
+  gapless: false,
+  crossfade: 0,
 });
 
+export const MAX_CROSSFADE = 12; // seconds
+
+// Loudness tracks are evened out to (LUFS). Louder tracks are turned down;
+// the media element can't go above full volume, so quieter ones play as they are.
+export const NORMALIZE_TARGET_LUFS = -14;
+
+/**
+ * Volume multiplier (0-1) that brings a track to the normalization target
+ */
+export function loudnessGain(loudness?: number): number {
+  if (loudness === undefined || !isFinite(loudness)) return 1;
+  return Math.min(1, Math.pow(10, (NORMALIZE_TARGET_LUFS - loudness) / 20));
+}
+
 // Derived: Is player visible? (true once any track has played)
 export const $playerVisible = computed($audio, (state) => state.currentTrack !== null);
 
-// Derived: Has next track?
-export const $hasNext = computed($audio, (state) => 
-  state.currentIndex < state.queue.length - 1
+// Derived: Has next track? (always, when repeating wraps around the queue)
+export const $hasNext = computed($audio, (state) =>
+  state.currentIndex < state.queue.length - 1 || (state.repeat !== 'off' && state.queue.length > 0)
 );
 
+// Derived: Track that plays when the current one ends on its own (see trackEnded)
+export const $upNext = computed($audio, (state): Track | null => {
+  if (state.repeat === 'one') return state.currentTrack;
+  if (state.currentIndex < state.queue.length - 1) return state.queue[state.currentIndex + 1];
+  return state.repeat === 'all' ? state.queue[0] ?? null : null;
+});
+
 // Derived: Has previous track?
-export const $hasPrev = computed($audio, (state) => 
-  state.currentIndex > 0
+export const $hasPrev = computed($audio, (state) =>
+  state.currentIndex > 0 || (state.repeat !== 'off' && state.queue.length > 0)
 );
 
+// ============================================================================
+// QUEUE ORDER
+// ============================================================================
+
+function shuffled<T>(items: T[]): T[] {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+}
+
+// The current track goes first, so shuffling never interrupts it
+function shuffleAround(queue: Track[], currentIndex: number): Track[] {
+  const current = queue[currentIndex];
+  if (!current) return shuffled(queue);
+  return [current, ...shuffled(queue.filter((_, i) => i !== currentIndex))];
+}
+
+// Put the queue back in its pre-shuffle order. Matched by ID, since the queue
+// may have been reloaded from storage; tracks added while shuffled go last.
+function unshuffle(original: Track[], queue: Track[]): Track[] {
+  const remaining = [...queue];
+  const ordered: Track[] = [];
+  for (const track of original) {
+    const index = remaining.findIndex((t) => t.id === track.id);
+    if (index >= 0) ordered.push(...remaining.splice(index, 1));
+  }
+  return [...ordered, ...remaining];
+}
+
 // ============================================================================
 // ACTIONS
 // ============================================================================
 
 export function playTrack(track: Track, queue: Track[] = []) {
   console.log('[audioStore] playTrack called:', track.title, track.id);
-  const trackIndex = queue.findIndex(t => t.id === track.id);
+  const state = $audio.get();
+  const fullQueue = queue.length > 0 ? queue : [track];
+  const trackIndex = Math.max(0, fullQueue.findIndex(t => t.id === track.id));
   const newState = {
-    ...$audio.get(),
+    ...state,
     currentTrack: track,
-    queue: queue.length > 0 ? queue : [track],
-    currentIndex: trackIndex >= 0 ? trackIndex : 0,
+    queue: state.shuffle ? shuffleAround(fullQueue, trackIndex) : fullQueue,
+    currentIndex: state.shuffle ? 0 : trackIndex,
+    unshuffledQueue: state.shuffle ? fullQueue : null,
     isPlaying: true,
     progress: 0,
   };
@@ -110,34 +190,45 @@ export function stop() {
   });
 }
 
+function jumpTo(index: number) {
+  const state = $audio.get();
+  $audio.set({
+    ...state,
+    currentTrack: state.queue[index],
+    currentIndex: index,
+    isPlaying: true,
+    progress: 0,
+  });
+}
+
 export function nextTrack() {
   const state = $audio.get();
   if (state.currentIndex < state.queue.length - 1) {
-    const newIndex = state.currentIndex + 1;
-    $audio.set({
-      ...state,
-      currentTrack: state.queue[newIndex],
-      currentIndex: newIndex,
-      isPlaying: true,
-      progress: 0,
-    });
+    jumpTo(state.currentIndex + 1);
+  } else if (state.repeat !== 'off' && state.queue.length > 0) {
+    jumpTo(0);
   }
 }
 
 export function prevTrack() {
   const state = $audio.get();
   if (state.currentIndex > 0) {
-    const newIndex = state.currentIndex - 1;
-    $audio.set({
-      ...state,
-      currentTrack: state.queue[newIndex],
-      currentIndex: newIndex,
-      isPlaying: true,
-      progress: 0,
-    });
+    jumpTo(state.currentIndex - 1);
+  } else if (state.repeat !== 'off' && state.queue.length > 0) {
+    jumpTo(state.queue.length - 1);
   }
 }
 
+// Called when the current track finishes on its own (skipping is nextTrack)
+export function trackEnded() {
+  const state = $audio.get();
+  if (state.repeat === 'one' && state.currentTrack) {
+    $audio.set({ ...state, isPlaying: true, progress: 0 });
+    return;
+  }
+  nextTrack();
+}
+
 export function setProgress(time: number) {
   $audio.set({ ...$audio.get(), progress: time });
 }
@@ -155,20 +246,68 @@ export function toggleMute() {
   $audio.set({ ...state, isMuted: !state.isMuted });
 }
 
+export function toggleNormalize() {
+  const state = $audio.get();
+  $audio.set({ ...state, normalize: !state.normalize });
+}
+
+export function toggleShuffle() {
+  const state = $audio.get();
+  if (state.shuffle) {
+    const current = state.queue[state.currentIndex];
+    const queue = unshuffle(state.unshuffledQueue ?? [], state.queue);
+    $audio.set({
+      ...state,
+      shuffle: false,
+      unshuffledQueue: null,
+      queue,
+      currentIndex: current ? queue.indexOf(current) : state.currentIndex,
+    });
+    return;
+  }
+
+  $audio.set({
+    ...state,
+    shuffle: true,
+    unshuffledQueue: state.queue,
+    queue: shuffleAround(state.queue, state.currentIndex),
+    currentIndex: state.queue.length > 0 ? 0 : -1,
+  });
+}
+
+// Off → all → one → off
+export function cycleRepeat() {
+  const state = $audio.get();
+  const next: Record<RepeatMode, RepeatMode> = { off: 'all', all: 'one', one: 'off' };
+  $audio.set({ ...state, repeat: next[state.repeat] });
+}
+
+export function toggleGapless() {
+  const state = $audio.get();
+  $audio.set({ ...state, gapless: !state.gapless });
+}
+
+export function setCrossfade(seconds: number) {
+  $audio.set({ ...$audio.get(), crossfade: Math.max(0, Math.min(MAX_CROSSFADE, seconds)) });
+}
+
 export function toggleExpanded() {
   const state = $audio.get();
   $audio.set({ ...state, isExpanded: !state.isExpanded });
 }
 
-export function addToQueue(track: Track) {
+// A release's tracks can be queued together, in order
+export function addToQueue(track: Track | Track[]) {
+  const tracks = Array.isArray(track) ? track : [track];
+  if (tracks.length === 0) return;
   const state = $audio.get();
-  const newQueue = [...state.queue, track];
+  const newQueue = [...state.queue, ...tracks];
 
-  // If queue was empty, show player with this track (paused) so user can see their queue
+  // If queue was empty, show player with the first track (paused) so user can see their queue
   if (state.queue.length === 0) {
     $audio.set({
       ...state,
-      currentTrack: track,
+      currentTrack: tracks[0],
       queue: newQueue,
       currentIndex: 0,
       isPlaying: false,
@@ -184,6 +323,44 @@ export function addToQueue(track: Track) {
   });
 }
 
+// Insert right after the current track
+export function playNext(track: Track | Track[]) {
+  const tracks = Array.isArray(track) ? track : [track];
+  const state = $audio.get();
+  if (state.queue.length === 0) {
+    addToQueue(tracks);
+    return;
+  }
+
+  const queue = [...state.queue];
+  queue.splice(state.currentIndex + 1, 0, ...tracks);
+  $audio.set({ ...state, queue });
+}
+
+/**
+ * Move a queued track to another position; the current track keeps playing
+ */
+export function moveInQueue(from: number, to: number) {
+  const state = $audio.get();
+  const last = state.queue.length - 1;
+  if (from === to || from < 0 || to < 0 || from > last || to > last) return;
+
+  const queue = [...state.queue];
+  const [moved] = queue.splice(from, 1);
+  queue.splice(to, 0, moved);
+
+  let currentIndex = state.currentIndex;
+  if (from === currentIndex) {
+    currentIndex = to;
+  } else if (from < currentIndex && to >= currentIndex) {
+    currentIndex--;
+  } else if (from > currentIndex && to <= currentIndex) {
+    currentIndex++;
+  }
+
+  $audio.set({ ...state, queue, currentIndex });
+}
+
 export function clearQueue() {
   const state = $audio.get();
   $audio.set({
@@ -222,6 +399,130 @@ export function removeFromQueue(index: number) {
   });
 }
 
+// ============================================================================
+// PERSISTENCE & TAB SYNC
+// ============================================================================
+
+const STORAGE_KEY = 'audio-player';
+const PROGRESS_SAVE_INTERVAL = 5000; // ms between saves while only the position moves
+
+type PersistedAudioState = Pick<
+  AudioState,
+  | 'currentTrack' | 'queue' | 'currentIndex' | 'progress' | 'volume'
+  | 'shuffle' | 'unshuffledQueue' | 'repeat' | 'gapless' | 'crossfade'
+>;
+
+function readPersisted(): PersistedAudioState | null {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) return null;
+    const saved = JSON.parse(raw) as Partial<PersistedAudioState>;
+    if (!saved.currentTrack || !Array.isArray(saved.queue)) return null;
+    return {
+      currentTrack: saved.currentTrack,
+      queue: saved.queue,
+      currentIndex: typeof saved.currentIndex === 'number' ? saved.currentIndex : 0,
+      progress: typeof saved.progress === 'number' ? saved.progress : 0,
+      volume: typeof saved.volume === 'number' ? Math.max(0, Math.min(1, saved.volume)) : 0.8,
+      shuffle: saved.shuffle === true,
+      unshuffledQueue: saved.shuffle === true && Array.isArray(saved.unshuffledQueue) ? saved.unshuffledQueue : null,
+      repeat: saved.repeat === 'all' || saved.repeat === 'one' ? saved.repeat : 'off',
+      gapless: saved.gapless === true,
+      crossfade: typeof saved.crossfade === 'number' ? Math.max(0, Math.min(MAX_CROSSFADE, saved.crossfade)) : 0,
+    };
+  } catch {
+    return null;
+  }
+}
+
+function writePersisted(state: AudioState) {
+  const saved: PersistedAudioState = {
+    currentTrack: state.currentTrack,
+    queue: state.queue,
+    currentIndex: state.currentIndex,
+    progress: state.progress,
+    volume: state.volume,
+    shuffle: state.shuffle,
+    unshuffledQueue: state.unshuffledQueue,
+    repeat: state.repeat,
+    gapless: state.gapless,
+    crossfade: state.crossfade,
+  };
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(saved));
+  } catch {
+    // Storage full or disabled: the session just won't survive a reload
+  }
+}
+
+/**
+ * Restore the last session's track, queue, position and volume (paused), keep
+ * them saved as they change, and pause this tab when another tab starts
+ * playing. Called once by the audio engine; returns a cleanup function.
+ */
+export function persistAudio(): () => void {
+  // Don't replace a track that was started before the player hydrated
+  const saved = readPersisted();
+  if (saved && $audio.get().currentTrack === null) {
+    $audio.set({ ...$audio.get(), ...saved, isPlaying: false });
+  }
+
+  const channel = typeof BroadcastChannel !== 'undefined' ? new BroadcastChannel(STORAGE_KEY) : null;
+  let previous = $audio.get();
+  let lastSaved = Date.now();
+  let pausedByOtherTab = false;
+
+  const unsubscribe = $audio.listen((state) => {
+    if (state.isPlaying && !previous.isPlaying) {
+      channel?.postMessage({ type: 'play' });
+    }
+
+    const changed =
+      state.currentTrack !== previous.currentTrack ||
+      state.queue !== previous.queue ||
+      state.currentIndex !== previous.currentIndex ||
+      state.volume !== previous.volume ||
+      state.shuffle !== previous.shuffle ||
+      state.repeat !== previous.repeat ||
+      state.gapless !== previous.gapless ||
+      state.crossfade !== previous.crossfade ||
+      state.isPlaying !== previous.isPlaying ||
+      Math.abs(state.progress - previous.progress) > 2; // a seek, not playback
+    previous = state;
+
+    // The tab that took over now owns the saved session
+    if (pausedByOtherTab) {
+      pausedByOtherTab = false;
+      return;
+    }
+    if (changed || Date.now() - lastSaved >= PROGRESS_SAVE_INTERVAL) {
+      writePersisted(state);
+      lastSaved = Date.now();
+    }
+  });
+
+  const handleMessage = (event: MessageEvent<{ type: string }>) => {
+    if (event.data?.type === 'play' && $audio.get().isPlaying) {
+      pausedByOtherTab = true;
+      pause();
+    }
+  };
+  channel?.addEventListener('message', handleMessage);
+
+  // Catch the position between interval saves
+  const handlePageHide = () => {
+    if ($audio.get().isPlaying) writePersisted($audio.get());
+  };
+  window.addEventListener('pagehide', handlePageHide);
+
+  return () => {
+    unsubscribe();
+    channel?.removeEventListener('message', handleMessage);
+    channel?.close();
+    window.removeEventListener('pagehide', handlePageHide);
+  };
+}
+
 // ============================================================================
 // REACT HOOK
 // ============================================================================
@@ -239,12 +540,20 @@ export function useAudio() {
     stop,
     nextTrack,
     prevTrack,
+    trackEnded,
     setProgress,
     setDuration,
     setVolume,
     toggleMute,
+    toggleNormalize,
+    toggleShuffle,
+    cycleRepeat,
+    toggleGapless,
+    setCrossfade,
     toggleExpanded,
     addToQueue,
+    playNext,
+    moveInQueue,
     clearQueue,
     removeFromQueue,
   };
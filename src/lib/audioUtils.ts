@@ -1,54 +1,521 @@
 import { useEffect, useRef, useCallback } from 'react';
-import { $audio, playTrack, nextTrack, prevTrack, setProgress, setDuration, pause, resume } from '@lib/audioStore';
-import type { Track } from '../lib/audioStore';
+import { $audio, $upNext, playTrack, nextTrack, trackEnded, prevTrack, setProgress, setDuration, pause, resume, loudnessGain, persistAudio } from '@lib/audioStore';
+import type { AudioState, Track } from '../lib/audioStore';
 
 // ============================================================================
-// AUDIO ENGINE HOOK
+// STREAM SELECTION
 // ============================================================================
 
-export function useAudioEngine() {
-  const audioRef = useRef<HTMLAudioElement | null>(null);
-  const loadedSrcRef = useRef<string | null>(null);
-  const wasPlayingBeforeHiddenRef = useRef(false);
+// Data saver or a slow connection gets the lowest bitrate
+function prefersLowBitrate(): boolean {
+  const connection = (navigator as Navigator & { connection?: { saveData?: boolean; effectiveType?: string } }).connection;
+  return !!connection && (!!connection.saveData || /(^|-)2g$|^3g$/.test(connection.effectiveType ?? ''));
+}
 
-  // Sync audio element with store state
-  useEffect(() => {
-    const audio = new Audio();
-    audioRef.current = audio;
+// Asked which formats this browser plays; both engines decode the same ones
+let probe: HTMLAudioElement | null = null;
+
+/**
+ * URL to play for a track: the best streaming variant this browser can play
+ * (Opus over AAC at the same tier, lowest bitrate on data saver), else `src`
+ */
+export function pickTrackSource(track: Track): string {
+  probe ??= new Audio();
+  const audio = probe;
+  const playable = (track.sources ?? []).filter((source) => audio.canPlayType(source.type) !== '');
+  if (playable.length === 0) return track.src;
+
+  // Opus sounds as good at a lower bitrate, so prefer it when supported
+  const opus = playable.filter((source) => source.type.includes('opus'));
+  const candidates = (opus.length > 0 ? opus : playable).sort((a, b) => b.bitrate - a.bitrate);
+  return prefersLowBitrate() ? candidates[candidates.length - 1].src : candidates[0].src;
+}
 
-    // Event listeners
-    const handleTimeUpdate = () => {
-      setProgress(audio.currentTime);
-    };
+// ============================================================================
+// PLAYBACK ENGINES
+// ============================================================================
 
-    const handleDurationChange = () => {
-      setDuration(audio.duration);
-    };
+// The standard engine streams through one media element. The gapless engine
+// downloads and decodes each track, then starts the next one on the audio
+// clock at the exact moment the current one ends (less the crossfade), so no
+// timer decides when it starts.
+
+/** What the hook drives; both engines implement it */
+interface Playback {
+  readonly src: string | null; // URL loaded
+  readonly paused: boolean;
+  readonly currentTime: number;
+  load(src: string, startAt?: number): void;
+  play(): void;
+  pause(): void;
+  seek(time: number): void;
+  setVolume(volume: number): void;
+  unload(): void;
+  sync(): void; // Gapless engine: preload and schedule the upcoming track
+  dispose(): void;
+}
 
-    const handleEnded = () => {
-      nextTrack();
-    };
+/** Reported by the active engine only */
+interface PlaybackEvents {
+  onProgress(time: number): void;
+  onDuration(duration: number): void;
+  onEnded(): void; // Finished, with nothing lined up after it
+  onAdvance(): void; // Gapless engine: the upcoming track has taken over
+  onInterrupted(): void; // Paused from outside (iOS audio session, other apps)
+  onError(error: unknown): void;
+}
 
-    const handleError = (e: ErrorEvent) => {
-      console.error('Audio error:', e);
-    };
+/** The track the gapless engine lines up next, and how */
+interface Upcoming {
+  src: string;
+  level: number;
+  crossfade: number; // seconds
+}
 
-    audio.addEventListener('timeupdate', handleTimeUpdate);
-    audio.addEventListener('durationchange', handleDurationChange);
-    audio.addEventListener('ended', handleEnded);
-    audio.addEventListener('error', handleError as EventListener);
+// How often the gapless engine reports progress and checks for a track change
+const PROGRESS_INTERVAL_MS = 250;
 
-    return () => {
-      audio.removeEventListener('timeupdate', handleTimeUpdate);
-      audio.removeEventListener('durationchange', handleDurationChange);
-      audio.removeEventListener('ended', handleEnded);
-      audio.removeEventListener('error', handleError as EventListener);
+// Call play() synchronously so it's part of the user gesture (required on iOS/mobile)
+function playElement(audio: HTMLAudioElement) {
+  const p = audio.play();
+  if (p && typeof p.catch === 'function') {
+    p.catch((err: Error) => {
+      if (err?.name === 'NotAllowedError') {
+        console.warn('Play blocked (user gesture required). Tap play again.');
+        return;
+      }
+      const onCanPlay = () => {
+        audio.removeEventListener('canplay', onCanPlay);
+        if ($audio.get().isPlaying && audio.paused) audio.play().catch(() => {});
+      };
+      audio.addEventListener('canplay', onCanPlay);
+    });
+  }
+}
+
+function createElementPlayback(events: PlaybackEvents): Playback {
+  const audio = new Audio();
+  let src: string | null = null;
+
+  audio.addEventListener('timeupdate', () => events.onProgress(audio.currentTime));
+  audio.addEventListener('durationchange', () => events.onDuration(audio.duration));
+  audio.addEventListener('ended', () => events.onEnded());
+  audio.addEventListener('error', (e) => events.onError(e));
+  // iOS/safari fires this when audio session is interrupted (phone calls, Siri, other apps)
+  audio.addEventListener('pause', () => {
+    if (audio.paused) events.onInterrupted();
+  });
+
+  return {
+    get src() { return src; },
+    get paused() { return audio.paused; },
+    get currentTime() { return audio.currentTime; },
+    load(url, startAt = 0) {
+      src = url;
+      audio.src = url;
+      audio.load();
+      // Seeking only sticks once the new source's metadata is in
+      if (startAt > 0) {
+        audio.addEventListener('loadedmetadata', () => {
+          if (src === url) audio.currentTime = startAt;
+        }, { once: true });
+      }
+    },
+    play: () => playElement(audio),
+    pause: () => audio.pause(),
+    seek(time) {
+      audio.currentTime = time;
+    },
+    setVolume(volume) {
+      if (audio.volume !== volume) audio.volume = volume;
+    },
+    unload() {
+      src = null;
       audio.pause();
-      audioRef.current = null;
-      loadedSrcRef.current = null;
+    },
+    sync() {},
+    dispose: () => audio.pause(),
+  };
+}
+
+/** One decoded track playing (or scheduled to) through its own gain */
+interface Voice {
+  src: string;
+  buffer: AudioBuffer;
+  source: AudioBufferSourceNode;
+  gain: GainNode;
+  startedAt: number; // Context time the track's 0:00 plays at
+  level: number;
+  crossfade: number; // What an upcoming voice was scheduled with
+}
+
+function createBufferPlayback(
+  context: AudioContext,
+  upcoming: () => Upcoming | null,
+  events: PlaybackEvents
+): Playback {
+  // Decoded tracks are large (~10 MB a minute), so only the current and upcoming ones are kept
+  const buffers = new Map<string, AudioBuffer>();
+  const decoding = new Map<string, Promise<AudioBuffer>>();
+
+  let src: string | null = null;
+  let buffer: AudioBuffer | null = null;
+  let voice: Voice | null = null; // Playing now
+  let next: Voice | null = null; // Scheduled to start as `voice` ends
+  let fading: Voice | null = null; // Previous track finishing its crossfade
+  let position = 0; // Where play() starts from
+  let playing = false;
+  let volume = 1;
+  let ticker: number | null = null;
+
+  // Fetched rather than streamed: a CDN without CORS headers fails here, not silently
+  const decode = (url: string): Promise<AudioBuffer> => {
+    const done = buffers.get(url);
+    if (done) return Promise.resolve(done);
+    let pending = decoding.get(url);
+    if (!pending) {
+      pending = fetch(url)
+        .then((res) => {
+          if (!res.ok) throw new Error(`Could not fetch ${url}: ${res.status}`);
+          return res.arrayBuffer();
+        })
+        .then((data) => context.decodeAudioData(data))
+        .then((decoded) => {
+          const wanted = url === src || url === upcoming()?.src;
+          if (wanted) buffers.set(url, decoded);
+          return decoded;
+        })
+        .finally(() => decoding.delete(url));
+      decoding.set(url, pending);
+    }
+    return pending;
+  };
+
+  const positionNow = (): number => {
+    if (!voice || !playing) return position;
+    return Math.min(Math.max(context.currentTime - voice.startedAt, 0), voice.buffer.duration);
+  };
+
+  const startVoice = (url: string, decoded: AudioBuffer, when: number, offset: number, level: number): Voice => {
+    const gain = context.createGain();
+    gain.gain.value = level;
+    const source = context.createBufferSource();
+    source.buffer = decoded;
+    source.connect(gain).connect(context.destination);
+    source.start(when, offset);
+    const started: Voice = { src: url, buffer: decoded, source, gain, startedAt: when - offset, level, crossfade: 0 };
+    source.onended = () => voiceEnded(started);
+    return started;
+  };
+
+  const stopVoice = (stopping: Voice | null) => {
+    if (!stopping) return;
+    stopping.source.onended = null;
+    try {
+      stopping.source.stop();
+    } catch {
+      // Already stopped
+    }
+    stopping.source.disconnect();
+    stopping.gain.disconnect();
+  };
+
+  const stopAll = () => {
+    stopVoice(next);
+    stopVoice(voice);
+    stopVoice(fading);
+    next = voice = fading = null;
+  };
+
+  const startTicker = () => {
+    ticker ??= window.setInterval(tick, PROGRESS_INTERVAL_MS);
+  };
+
+  const stopTicker = () => {
+    if (ticker === null) return;
+    clearInterval(ticker);
+    ticker = null;
+  };
+
+  // Drop a scheduled track that hasn't started yet, and the fade-out it set up
+  const unschedule = () => {
+    if (!next) return;
+    stopVoice(next);
+    next = null;
+    if (voice) {
+      const now = context.currentTime;
+      voice.gain.gain.cancelScheduledValues(now);
+      voice.gain.gain.setValueAtTime(volume, now);
+    }
+  };
+
+  // Line the upcoming track up to start when this one ends, less the crossfade
+  const schedule = () => {
+    if (!playing || !voice || next) return;
+    const up = upcoming();
+    if (!up) return;
+    const upBuffer = buffers.get(up.src);
+    if (!upBuffer) {
+      decode(up.src).then(() => schedule(), () => {});
+      return;
+    }
+
+    const end = voice.startedAt + voice.buffer.duration;
+    const fade = Math.min(up.crossfade, voice.buffer.duration / 2, upBuffer.duration / 2);
+    const when = Math.max(end - fade, context.currentTime);
+    next = startVoice(up.src, upBuffer, when, 0, fade > 0 ? 0 : up.level);
+    next.level = up.level;
+    next.crossfade = up.crossfade;
+    if (fade > 0) {
+      next.gain.gain.setValueAtTime(0, when);
+      next.gain.gain.linearRampToValueAtTime(up.level, when + fade);
+      voice.gain.gain.setValueAtTime(volume, when);
+      voice.gain.gain.linearRampToValueAtTime(0, end);
+    }
+  };
+
+  // The scheduled track has started: it becomes the current one
+  const advance = () => {
+    if (!next) return;
+    if (fading) stopVoice(fading);
+    fading = voice;
+    voice = next;
+    next = null;
+    src = voice.src;
+    buffer = voice.buffer;
+    volume = voice.level;
+    events.onDuration(buffer.duration);
+    events.onAdvance();
+  };
+
+  const voiceEnded = (ended: Voice) => {
+    if (ended === fading) {
+      stopVoice(fading);
+      fading = null;
+      return;
+    }
+    if (ended !== voice) return;
+    if (next) {
+      // The next track started right as this one ended
+      advance();
+      stopVoice(fading);
+      fading = null;
+      return;
+    }
+    stopVoice(voice);
+    voice = null;
+    playing = false;
+    position = ended.buffer.duration;
+    stopTicker();
+    events.onEnded();
+  };
+
+  function tick() {
+    if (next && context.currentTime >= next.startedAt) advance();
+    events.onProgress(positionNow());
+    schedule();
+  }
+
+  const begin = () => {
+    if (!src || !buffer) return;
+    voice = startVoice(src, buffer, context.currentTime, Math.min(position, buffer.duration), volume);
+    schedule();
+  };
+
+  context.addEventListener('statechange', () => {
+    if (playing && context.state !== 'running') events.onInterrupted();
+  });
+
+  return {
+    get src() { return src; },
+    get paused() { return !playing; },
+    get currentTime() { return positionNow(); },
+    load(url, startAt = 0) {
+      stopAll();
+      src = url;
+      position = startAt;
+      buffer = buffers.get(url) ?? null;
+      if (buffer) {
+        events.onDuration(buffer.duration);
+        if (playing) begin();
+        return;
+      }
+      decode(url).then(
+        (decoded) => {
+          if (src !== url) return;
+          buffer = decoded;
+          buffers.set(url, decoded);
+          events.onDuration(decoded.duration);
+          if (playing) begin();
+        },
+        (error) => {
+          if (src === url) events.onError(error);
+        }
+      );
+    },
+    play() {
+      // Resumed synchronously so it's part of the user gesture
+      if (context.state === 'suspended') context.resume().catch(() => {});
+      if (playing) return;
+      playing = true;
+      startTicker();
+      begin();
+    },
+    pause() {
+      if (!playing) return;
+      position = positionNow();
+      playing = false;
+      stopTicker();
+      stopAll();
+    },
+    seek(time) {
+      position = time;
+      if (!playing || !voice) return;
+      stopAll();
+      begin();
+    },
+    setVolume(level) {
+      if (level === volume) return;
+      volume = level;
+      unschedule();
+      if (voice) {
+        const now = context.currentTime;
+        voice.gain.gain.cancelScheduledValues(now);
+        voice.gain.gain.setValueAtTime(level, now);
+      }
+      schedule();
+    },
+    unload() {
+      stopAll();
+      stopTicker();
+      src = null;
+      buffer = null;
+      playing = false;
+      position = 0;
+    },
+    sync() {
+      const up = upcoming();
+      // The queue, crossfade or level changed before the scheduled track started
+      if (next && context.currentTime < next.startedAt
+        && (next.src !== up?.src || next.level !== up.level || next.crossfade !== up.crossfade)) {
+        unschedule();
+      }
+      for (const url of buffers.keys()) {
+        if (url !== src && url !== up?.src) buffers.delete(url);
+      }
+      if (up) decode(up.src).catch(() => {}); // Its errors surface if it's ever loaded
+      schedule();
+    },
+    dispose() {
+      this.unload();
+      buffers.clear();
+    },
+  };
+}
+
+// Output level for a track: volume and mute, scaled when normalizing loudness
+function trackVolume(state: AudioState, track: Track | null): number {
+  if (state.isMuted) return 0;
+  return state.volume * (state.normalize ? loudnessGain(track?.loudness) : 1);
+}
+
+// ============================================================================
+// AUDIO ENGINE HOOK
+// ============================================================================
+
+export function useAudioEngine() {
+  const playbackRef = useRef<Playback | null>(null); // Engine now playing
+  const elementRef = useRef<Playback | null>(null);
+  const bufferRef = useRef<Playback | null>(null);
+  const contextRef = useRef<AudioContext | null>(null);
+  const buffersBlockedRef = useRef(false); // Decoding failed (e.g. no CORS): standard engine from now on
+  const wasPlayingBeforeHiddenRef = useRef(false);
+
+  // Events reach the store only from the engine in use
+  const eventsFor = (isActive: () => boolean): PlaybackEvents => ({
+    onProgress: (time) => isActive() && setProgress(time),
+    onDuration: (duration) => isActive() && setDuration(duration),
+    onEnded: () => isActive() && trackEnded(),
+    // The store moves on; its new track is already playing
+    onAdvance: () => isActive() && trackEnded(),
+    onInterrupted: () => {
+      // Paused externally but we think we're playing
+      if (isActive() && $audio.get().isPlaying) pause();
+    },
+    onError: (error) => {
+      if (!isActive()) return;
+      if (playbackRef.current === elementRef.current) {
+        console.error('Audio error:', error);
+        return;
+      }
+      console.warn('Gapless playback unavailable (the audio CDN must allow CORS); using the standard player:', error);
+      buffersBlockedRef.current = true;
+      switchEngine($audio.get().gapless);
+    },
+  });
+
+  const upcoming = (): Upcoming | null => {
+    const state = $audio.get();
+    const track = $upNext.get();
+    return track ? { src: pickTrackSource(track), level: trackVolume(state, track), crossfade: state.crossfade } : null;
+  };
+
+  // Switch engines when the option changes, carrying over the track and position
+  const switchEngine = (gapless: boolean) => {
+    const wanted = gapless && !buffersBlockedRef.current && typeof AudioContext !== 'undefined';
+    let next: Playback;
+    if (wanted) {
+      contextRef.current ??= new AudioContext();
+      bufferRef.current ??= createBufferPlayback(
+        contextRef.current,
+        upcoming,
+        eventsFor(() => playbackRef.current === bufferRef.current)
+      );
+      next = bufferRef.current;
+    } else {
+      elementRef.current ??= createElementPlayback(eventsFor(() => playbackRef.current === elementRef.current));
+      next = elementRef.current;
+    }
+
+    const previous = playbackRef.current;
+    if (previous === next) return;
+    const position = previous?.currentTime ?? 0;
+    const hadTrack = !!previous?.src;
+    previous?.unload();
+    playbackRef.current = next;
+
+    const state = $audio.get();
+    if (hadTrack && state.currentTrack) {
+      next.setVolume(trackVolume(state, state.currentTrack));
+      next.load(pickTrackSource(state.currentTrack), position);
+      if (state.isPlaying) next.play();
+    }
+  };
+
+  // Create the engine for the saved option
+  useEffect(() => {
+    switchEngine($audio.get().gapless);
+
+    return () => {
+      elementRef.current?.dispose();
+      bufferRef.current?.dispose();
+      contextRef.current?.close().catch(() => {});
+      contextRef.current = null;
+      elementRef.current = null;
+      bufferRef.current = null;
+      playbackRef.current = null;
     };
   }, []);
 
+  // Seek function
+  const seek = useCallback((time: number) => {
+    const playback = playbackRef.current;
+    if (playback) {
+      playback.seek(time);
+      setProgress(time);
+    }
+  }, []);
+
   // Media Session API - Lock screen / control center integration
   useEffect(() => {
     if (!('mediaSession' in navigator)) return;
@@ -82,17 +549,17 @@ export function useAudioEngine() {
     navigator.mediaSession.setActionHandler('nexttrack', () => nextTrack());
     navigator.mediaSession.setActionHandler('previoustrack', () => prevTrack());
     navigator.mediaSession.setActionHandler('seekbackward', (details) => {
-      const audio = audioRef.current;
-      if (audio) {
+      const playback = playbackRef.current;
+      if (playback) {
         const skipTime = details.seekOffset || 10;
-        audio.currentTime = Math.max(0, audio.currentTime - skipTime);
+        seek(Math.max(0, playback.currentTime - skipTime));
       }
     });
     navigator.mediaSession.setActionHandler('seekforward', (details) => {
-      const audio = audioRef.current;
-      if (audio) {
+      const playback = playbackRef.current;
+      if (playback) {
         const skipTime = details.seekOffset || 10;
-        audio.currentTime = Math.min(audio.duration || Infinity, audio.currentTime + skipTime);
+        seek(Math.min($audio.get().duration || Infinity, playback.currentTime + skipTime));
       }
     });
 
@@ -112,7 +579,9 @@ export function useAudioEngine() {
         // Page is hidden - remember if we were playing
         wasPlayingBeforeHiddenRef.current = state.isPlaying;
         // Note: We don't auto-pause on hide - user may want audio to continue
-        // But iOS Safari will typically pause background audio anyway
+        // But iOS Safari will typically pause background audio anyway.
+        // Hidden tabs throttle timers, which only slows progress updates:
+        // gapless transitions are scheduled on the audio clock
       } else {
         // Page is visible again
         // Optional: could resume if wasPlayingBeforeHiddenRef.current
@@ -120,97 +589,49 @@ export function useAudioEngine() {
       }
     };
 
-    // Handle audio interruptions (phone calls, Siri, other apps)
-    const handleAudioInterruption = () => {
-      const audio = audioRef.current;
-      if (!audio) return;
-
-      // iOS/safari fires this when audio session is interrupted
-      if (audio.paused && $audio.get().isPlaying) {
-        // Audio was paused externally but we think we're playing
-        pause();
-      }
-    };
-
     document.addEventListener('visibilitychange', handleVisibilityChange);
-    
-    // Listen for audio interruptions (iOS specific)
-    const audio = audioRef.current;
-    if (audio) {
-      audio.addEventListener('pause', handleAudioInterruption);
-    }
 
     return () => {
       document.removeEventListener('visibilitychange', handleVisibilityChange);
-      if (audio) {
-        audio.removeEventListener('pause', handleAudioInterruption);
-      }
     };
   }, []);
 
   // Subscribe to store changes
   useEffect(() => {
     const unsubscribe = $audio.subscribe((state) => {
-      const audio = audioRef.current;
-      if (!audio) return;
-
-      const trackSrc = state.currentTrack?.src ?? null;
-
-      // Handle track changes - only load when src actually changes
-      if (trackSrc && loadedSrcRef.current !== trackSrc) {
-        loadedSrcRef.current = trackSrc;
-        audio.src = trackSrc;
-        audio.load();
-
-        // Call play() synchronously so it's part of the user gesture (required on iOS/mobile)
-        if (state.isPlaying) {
-          const p = audio.play();
-          if (p && typeof p.catch === 'function') {
-            p.catch((err: Error) => {
-              if (err?.name === 'NotAllowedError') {
-                console.warn('Play blocked (user gesture required). Tap play again.');
-                return;
-              }
-              const onCanPlay = () => {
-                audio.removeEventListener('canplay', onCanPlay);
-                if ($audio.get().isPlaying) audio.play().catch(() => {});
-              };
-              audio.addEventListener('canplay', onCanPlay);
-            });
-          }
+      switchEngine(state.gapless);
+      const playback = playbackRef.current;
+      if (!playback) return;
+
+      const trackSrc = state.currentTrack ? pickTrackSource(state.currentTrack) : null;
+
+      // Handle volume (scaled per track when normalizing loudness). Set before a
+      // new track loads, so it never starts at the previous track's level
+      playback.setVolume(trackVolume(state, state.currentTrack));
+
+      if (trackSrc && playback.src !== trackSrc) {
+        // Handle track changes - only load when src actually changes. Track
+        // changes start at 0; a session restored after a reload resumes where it was
+        playback.load(trackSrc, state.progress);
+        if (state.isPlaying) playback.play();
+      } else if (trackSrc) {
+        // Handle seeking (when progress changes significantly), before resuming
+        // so a replayed track doesn't start from its end
+        if (Math.abs(playback.currentTime - state.progress) > 1) {
+          playback.seek(state.progress);
         }
-
-        return;
-      }
-
-      // Handle play/pause (when same track, no load needed)
-      if (trackSrc && loadedSrcRef.current === trackSrc) {
-        if (state.isPlaying) {
-          if (audio.paused) {
-            audio.play().catch((err) => {
-              console.error('Play failed:', err);
-            });
-          }
-        } else {
-          if (!audio.paused) {
-            audio.pause();
-          }
+        // Handle play/pause (when same track, no load needed)
+        if (state.isPlaying && playback.paused) {
+          playback.play();
+        } else if (!state.isPlaying && !playback.paused) {
+          playback.pause();
         }
-      } else if (!trackSrc) {
-        loadedSrcRef.current = null;
-        audio.pause();
+      } else if (playback.src) {
+        playback.unload();
       }
 
-      // Handle volume
-      const effectiveVolume = state.isMuted ? 0 : state.volume;
-      if (audio.volume !== effectiveVolume) {
-        audio.volume = effectiveVolume;
-      }
-
-      // Handle seeking (when progress changes significantly)
-      if (trackSrc && Math.abs(audio.currentTime - state.progress) > 1) {
-        audio.currentTime = state.progress;
-      }
+      // Gapless engine: buffer the next track and line it up
+      playback.sync();
 
       // Update media session position state for scrubbing
       if ('mediaSession' in navigator && 'setPositionState' in navigator.mediaSession) {
@@ -229,15 +650,10 @@ export function useAudioEngine() {
     return unsubscribe;
   }, []);
 
-  // Seek function
-  const seek = useCallback((time: number) => {
-    if (audioRef.current) {
-      audioRef.current.currentTime = time;
-      setProgress(time);
-    }
-  }, []);
+  // Restore the saved session once the engine is listening, so it loads the track
+  useEffect(() => persistAudio(), []);
 
-  return { audioRef, seek };
+  return { seek };
 }
 
 // ============================================================================
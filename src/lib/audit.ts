@@ -216,9 +216,13 @@ export const AuditActions = {
   UPDATE: 'update',
   DELETE: 'delete',
   RESTORE: 'restore',
+  MERGE: 'merge',
   
   UPLOAD: 'upload',
   PROCESS: 'process',
+
+  SHIP: 'ship',
+  REFUND: 'refund',
   
   VIEW: 'view',
   EXPORT: 'export',
@@ -231,5 +235,8 @@ export const AuditResources = {
   MEDIA: 'media',
   PRODUCT: 'product',
   CATEGORY: 'category',
+  PROMOTION: 'promotion',
+  ORDER: 'order',
   SETTINGS: 'settings',
+  AUDIO_POST: 'audio_post',
 } as const;
@@ -93,6 +93,27 @@ export async function uploadImageToBunny(
   return uploadToBunny(fileBuffer, filename, { contentType: getMimeType(filename) });
 }
 
+/**
+ * Storage path of a file served from the CDN, e.g. `2026/10/abc-md.webp`
+ */
+export function getStoragePath(cdnUrl: string): string {
+  return decodeURIComponent(new URL(cdnUrl).pathname).replace(/^\/+/, '');
+}
+
+/**
+ * Whether a URL is served from our storage zone (BUNNY_CDN_URL), so the file
+ * is ours to delete
+ */
+export function isBunnyUrl(url: string): boolean {
+  const cdnUrl = process.env.BUNNY_CDN_URL;
+  if (!cdnUrl) return false;
+  try {
+    return new URL(url).origin === new URL(cdnUrl).origin;
+  } catch {
+    return false;
+  }
+}
+
 /**
  * Delete a file from Bunny.net storage
  */
@@ -118,3 +139,30 @@ export async function deleteFromBunny(filename: string): Promise<void> {
     throw new Error(`Bunny.net delete failed: ${response.status} ${errorText}`);
   }
 }
+
+/**
+ * Download a file from Bunny.net storage (straight from storage, not the CDN cache)
+ */
+export async function downloadFromBunny(filename: string): Promise<Buffer> {
+  const apiKey = process.env.BUNNY_API_KEY;
+  const storageZone = process.env.BUNNY_STORAGE_ZONE;
+  const storageEndpoint = process.env.BUNNY_STORAGE_ENDPOINT || 'storage.bunnycdn.com';
+
+  if (!apiKey || !storageZone) {
+    throw new Error('Bunny.net credentials not configured');
+  }
+
+  const cleanFilename = filename.startsWith('/') ? filename.slice(1) : filename;
+  const downloadUrl = `https://${storageEndpoint}/${storageZone}/${cleanFilename}`;
+
+  const response = await fetch(downloadUrl, {
+    headers: { 'AccessKey': apiKey },
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new Error(`Bunny.net download failed: ${response.status} ${errorText}`);
+  }
+
+  return Buffer.from(await response.arrayBuffer());
+}
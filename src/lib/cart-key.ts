@@ -0,0 +1,17 @@
+/**
+ * Cart line keys - "productId" or "productId::size"
+ *
+ * Shared by the cart API (server) and cart UI (client) so both agree on the format.
+ */
+
+const SIZE_SEPARATOR = '::';
+
+export function toCartKey(productId: string, size: string | null): string {
+  return size ? `${productId}${SIZE_SEPARATOR}${size}` : productId;
+}
+
+export function parseCartKey(key: string): { productId: string; size: string | null } {
+  const sepIdx = key.indexOf(SIZE_SEPARATOR);
+  if (sepIdx < 0) return { productId: key, size: null };
+  return { productId: key.slice(0, sepIdx), size: key.slice(sepIdx + SIZE_SEPARATOR.length) };
+}
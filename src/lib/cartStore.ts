@@ -24,17 +24,29 @@ export function setCartTrayOpen(open: boolean): void {
   cartTrayOpenStore.set(open);
 }
 
+// Cart requests can finish out of order; only the newest one started may set the cart,
+// so a slow answer to an earlier change never overwrites a later one
+let cartRequestSeq = 0;
+
+function startCartRequest(): () => boolean {
+  const seq = ++cartRequestSeq;
+  return () => seq === cartRequestSeq;
+}
+
 export async function fetchCartFromServer(): Promise<void> {
+  const isLatest = startCartRequest();
   setCartLoading(true);
   setCartError(null);
   try {
     const res = await fetch('/api/cart', { method: 'GET', credentials: 'include' });
     if (!res.ok) throw new Error('Failed to load cart');
     const cart: Cart = await res.json();
-    setCart(cart);
+    if (isLatest()) setCart(cart);
   } catch (err) {
-    setCartError(err instanceof Error ? err.message : 'Failed to load cart');
-    setCart(null);
+    if (isLatest()) {
+      setCartError(err instanceof Error ? err.message : 'Failed to load cart');
+      setCart(null);
+    }
   } finally {
     setCartLoading(false);
   }
@@ -45,6 +57,7 @@ export async function addItemToCart(
   quantity: number,
   size?: string
 ): Promise<string | null> {
+  const isLatest = startCartRequest();
   setCartLoading(true);
   setCartError(null);
   try {
@@ -59,45 +72,184 @@ export async function addItemToCart(
       throw new Error(data.error || 'Failed to add to cart');
     }
     const data: { cart: Cart; addedKey: string } = await res.json();
-    setCart(data.cart);
+    if (isLatest()) setCart(data.cart);
     return data.addedKey;
   } catch (err) {
-    setCartError(err instanceof Error ? err.message : 'Failed to add to cart');
+    if (isLatest()) setCartError(err instanceof Error ? err.message : 'Failed to add to cart');
     return null;
   } finally {
     setCartLoading(false);
   }
 }
 
-export async function updateCartItemQuantity(key: string, quantity: number): Promise<void> {
+/** Parse a "12.00 USD" cart amount */
+function parseCartAmount(amount?: string): number {
+  return amount ? parseFloat(amount) || 0 : 0;
+}
+
+function formatCartAmount(amount: number): string {
+  return `${amount.toFixed(2)} USD`;
+}
+
+/**
+ * Apply a quantity change to a cart locally (0 removes the line) so the UI
+ * can update before the server answers. Totals are recomputed from line prices;
+ * the discount is kept as-is until the server reprices the cart.
+ */
+function withLineQuantity(cart: Cart, key: string, quantity: number): Cart {
+  const nodes = (cart.contents?.nodes ?? []).flatMap((item) => {
+    if (item.key !== key) return [item];
+    if (quantity < 1) return [];
+    const unit = item.quantity > 0 ? parseCartAmount(item.total) / item.quantity : 0;
+    const total = formatCartAmount(unit * quantity);
+    return [{ ...item, quantity, subtotal: total, total }];
+  });
+  const sum = nodes.reduce((s, item) => s + parseCartAmount(item.total), 0);
+  const discount = Math.min(parseCartAmount(cart.discountTotal), sum);
+  return {
+    ...cart,
+    contents: { nodes },
+    itemCount: nodes.reduce((s, item) => s + item.quantity, 0),
+    subtotal: formatCartAmount(sum),
+    discountTotal: formatCartAmount(discount),
+    total: formatCartAmount(sum - discount),
+  };
+}
+
+/**
+ * Send a cart change to the server, showing it optimistically first.
+ * The previous cart is restored if the request fails, unless a newer change
+ * has been made since.
+ */
+async function optimisticCartUpdate(
+  key: string,
+  quantity: number,
+  request: () => Promise<Response>,
+  fallbackError: string
+): Promise<boolean> {
+  const isLatest = startCartRequest();
   setCartError(null);
+  const previous = cartStore.get().cart;
+  if (previous) setCart(withLineQuantity(previous, key, quantity));
+
   try {
-    const res = await fetch('/api/cart', {
+    const res = await request();
+    if (!res.ok) {
+      const data = await res.json().catch(() => ({}));
+      throw new Error(data.error || fallbackError);
+    }
+    const data: { cart: Cart } = await res.json();
+    if (isLatest()) setCart(data.cart);
+    return true;
+  } catch (err) {
+    if (isLatest()) {
+      setCart(previous);
+      setCartError(err instanceof Error ? err.message : fallbackError);
+    }
+    return false;
+  }
+}
+
+export async function updateCartItemQuantity(key: string, quantity: number): Promise<boolean> {
+  return optimisticCartUpdate(
+    key,
+    quantity,
+    () => fetch('/api/cart', {
       method: 'PATCH',
       credentials: 'include',
       headers: { 'Content-Type': 'application/json' },
       body: JSON.stringify({ key, quantity }),
+    }),
+    'Failed to update cart'
+  );
+}
+
+export async function removeCartItem(key: string): Promise<boolean> {
+  return optimisticCartUpdate(
+    key,
+    0,
+    () => fetch(`/api/cart/items/${encodeURIComponent(key)}`, {
+      method: 'DELETE',
+      credentials: 'include',
+    }),
+    'Failed to remove item'
+  );
+}
+
+/**
+ * Apply a promotion code to the cart.
+ * Returns an error message if the code can't be used.
+ */
+export async function applyPromotionCode(code: string): Promise<string | null> {
+  const isLatest = startCartRequest();
+  setCartLoading(true);
+  setCartError(null);
+  try {
+    const res = await fetch('/api/cart/promotion', {
+      method: 'POST',
+      credentials: 'include',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ code }),
     });
-    if (!res.ok) throw new Error('Failed to update cart');
-    const data: { cart: Cart } = await res.json();
-    setCart(data.cart);
+    const data = await res.json().catch(() => ({}));
+    if (!res.ok || !data.cart) {
+      throw new Error(data.error || 'Failed to apply promotion code');
+    }
+    if (isLatest()) setCart(data.cart);
+    return null;
   } catch (err) {
-    setCartError(err instanceof Error ? err.message : 'Failed to update');
+    return err instanceof Error ? err.message : 'Failed to apply promotion code';
+  } finally {
+    setCartLoading(false);
   }
 }
 
-export async function removeCartItem(key: string): Promise<void> {
+export async function removePromotionCode(): Promise<boolean> {
+  const isLatest = startCartRequest();
+  setCartLoading(true);
   setCartError(null);
   try {
-    const res = await fetch(`/api/cart/items/${encodeURIComponent(key)}`, {
+    const res = await fetch('/api/cart/promotion', {
       method: 'DELETE',
       credentials: 'include',
     });
-    if (!res.ok) throw new Error('Failed to remove item');
-    const data: { cart: Cart } = await res.json();
-    setCart(data.cart);
+    const data = await res.json().catch(() => ({}));
+    if (!res.ok || !data.cart) {
+      throw new Error(data.error || 'Failed to remove promotion code');
+    }
+    if (isLatest()) setCart(data.cart);
+    return true;
+  } catch (err) {
+    if (isLatest()) setCartError(err instanceof Error ? err.message : 'Failed to remove promotion code');
+    return false;
+  } finally {
+    setCartLoading(false);
+  }
+}
+
+/**
+ * Start a Stripe Checkout for the current cart and redirect to it.
+ * Returns an error message if checkout could not be started.
+ */
+export async function checkoutCart(): Promise<string | null> {
+  setCartLoading(true);
+  setCartError(null);
+  try {
+    const res = await fetch('/api/cart/checkout', {
+      method: 'POST',
+      credentials: 'include',
+    });
+    const data = await res.json().catch(() => ({}));
+    if (!res.ok || !data.url) {
+      throw new Error(data.error || 'Failed to start checkout');
+    }
+    window.location.href = data.url;
+    return null;
   } catch (err) {
-    setCartError(err instanceof Error ? err.message : 'Failed to remove');
+    const message = err instanceof Error ? err.message : 'Failed to start checkout';
+    setCartError(message);
+    setCartLoading(false);
+    return message;
   }
 }
 
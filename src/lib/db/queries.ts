@@ -4,12 +4,15 @@
  * Helper functions for querying products and categories
  */
 
-import { eq, and, desc, asc, inArray, isNull } from 'drizzle-orm';
+import { eq, and, or, desc, asc, inArray, notInArray, isNull, sql } from 'drizzle-orm';
 import { db } from './index';
-import { products, categories, productImages, productCategories, productAttributes, productSizeInventory, carts, cartItems, siteSettings, media, audioPosts } from './schema';
+import { products, categories, productImages, productCategories, productAttributes, productSizeInventory, carts, cartItems, siteSettings, media, audioPosts, audioPostTracks, type AudioPostTrack } from './schema';
 import type { Product, ProductCategory, Cart as AppCart, CartItem as AppCartItem } from '../types';
+import { toCartKey, parseCartKey } from '../cart-key';
+import { getCartPromotionCode, resolveCartPromotion, type PromotionLine } from '../promotions';
 import type { Product as DBProduct, ProductImage, ProductAttribute, ProductSizeInventory } from './schema';
 import type { Category } from './schema';
+import type { AudioVariants } from '../media-process';
 
 interface ProductQueryResult {
   product: DBProduct;
@@ -33,9 +36,7 @@ const LETTER_SIZE_ORDER: Record<string, number> = {
 };
 
 /** Sort size strings smallest to largest (numeric, letter, then One Size) */
-function sortSizesByOrder(
-  list: { size: string; quantity: number }[]
-): { size: string; quantity: number }[] {
+function sortSizesByOrder<T extends { size: string }>(list: T[]): T[] {
   return [...list].sort((a, b) => {
     const sa = a.size.trim();
     const sb = b.size.trim();
@@ -120,13 +121,13 @@ function formatProduct(
       })),
     } : undefined,
     sizes: sizeInventoryList.length > 0
-      ? sortSizesByOrder(sizeInventoryList.map(si => ({ size: si.size, quantity: si.quantity })))
+      ? sortSizesByOrder(sizeInventoryList.map(si => ({ size: si.size, quantity: si.quantity ?? 0 })))
       : undefined,
   };
 }
 
 /**
- * Get all products with optional category filter
+ * Get all products with optional category filter (soft-deleted products excluded)
  */
 export async function getAllProducts(categorySlug?: string): Promise<Product[]> {
   let productIdsInCategory: string[] | undefined;
@@ -168,8 +169,8 @@ export async function getAllProducts(categorySlug?: string): Promise<Product[]>
     .leftJoin(productSizeInventory, eq(products.id, productSizeInventory.productId));
 
   const results: ProductQueryResult[] = categorySlug && productIdsInCategory
-    ? await baseQuery.where(inArray(products.id, productIdsInCategory)).orderBy(desc(products.createdAt))
-    : await baseQuery.orderBy(desc(products.createdAt));
+    ? await baseQuery.where(and(inArray(products.id, productIdsInCategory), isNull(products.deletedAt))).orderBy(desc(products.createdAt))
+    : await baseQuery.where(isNull(products.deletedAt)).orderBy(desc(products.createdAt));
 
   // Group results by product
   const productMap = new Map<string, {
@@ -235,7 +236,7 @@ export async function getProductBySlug(slug: string): Promise<Product | null> {
       sizeInventory: productSizeInventory,
     })
     .from(products)
-    .where(eq(products.slug, slug))
+    .where(and(eq(products.slug, slug), isNull(products.deletedAt)))
     .leftJoin(productImages, eq(products.id, productImages.productId))
     .leftJoin(productCategories, eq(products.id, productCategories.productId))
     .leftJoin(categories, eq(productCategories.categoryId, categories.id))
@@ -310,6 +311,7 @@ export async function getAllCategories(): Promise<ProductCategory[]> {
   const results = await db
     .select()
     .from(categories)
+    .where(isNull(categories.deletedAt))
     .orderBy(asc(categories.sortOrder), asc(categories.name));
 
   return results.map(cat => ({
@@ -330,7 +332,7 @@ export async function getAllCategories(): Promise<ProductCategory[]> {
 const CART_COOKIE_NAME = 'cart_id';
 const CART_COOKIE_MAX_AGE = 60 * 60 * 24 * 30; // 30 days
 
-function parsePriceToNumber(price: string | null): number {
+export function parsePriceToNumber(price: string | null): number {
   if (!price) return 0;
   const stripped = price.replace(/<[^>]*>/g, '').trim();
   const match = stripped.match(/(\d+\.?\d*)/);
@@ -363,22 +365,27 @@ export async function getCartForApp(cartId: string): Promise<AppCart | null> {
     .where(eq(cartItems.cartId, cartId))
     .orderBy(cartItems.createdAt);
 
+  const promotionCode = await getCartPromotionCode(cartId);
+
   if (rows.length === 0) {
     return {
       contents: { nodes: [] },
       itemCount: 0,
       subtotal: '0.00 USD',
+      discountTotal: '0.00 USD',
       total: '0.00 USD',
+      promotionCode: promotionCode ?? undefined,
     };
   }
 
   const nodes: AppCartItem[] = [];
+  const promotionLines: PromotionLine[] = [];
   let subtotalNum = 0;
 
   for (const row of rows) {
     const product = await getProductById(row.productId);
     if (!product) continue;
-    const key = row.size ? `${row.productId}::${row.size}` : row.productId;
+    const key = toCartKey(row.productId, row.size);
     const unitPrice = parsePriceToNumber(product.price ?? null);
     const lineTotal = unitPrice * row.quantity;
     subtotalNum += lineTotal;
@@ -390,16 +397,50 @@ export async function getCartForApp(cartId: string): Promise<AppCart | null> {
       subtotal: totalStr,
       total: totalStr,
     });
+    promotionLines.push({
+      productId: row.productId,
+      categoryIds: product.productCategories?.nodes.map((c) => c.id) ?? [],
+      amount: Math.round(lineTotal * 100),
+    });
   }
 
+  const { applied, codeError } = await resolveCartPromotion(promotionCode, promotionLines);
+  const discount = (applied?.discount ?? 0) / 100;
+
   return {
     contents: { nodes },
     itemCount: nodes.reduce((s, n) => s + n.quantity, 0),
     subtotal: formatLinePrice(subtotalNum),
-    total: formatLinePrice(subtotalNum),
+    discountTotal: formatLinePrice(discount),
+    total: formatLinePrice(Math.max(subtotalNum - discount, 0)),
+    promotionCode: promotionCode ?? undefined,
+    appliedPromotion: applied
+      ? { code: applied.promotion.code ?? undefined, label: applied.label }
+      : undefined,
+    promotionError: codeError,
   };
 }
 
+/** Quantity of a product/size already in a cart (0 if not present) */
+export async function getCartItemQuantity(
+  cartId: string,
+  productId: string,
+  size: string | null
+): Promise<number> {
+  const rows = await db
+    .select({ quantity: cartItems.quantity })
+    .from(cartItems)
+    .where(
+      and(
+        eq(cartItems.cartId, cartId),
+        eq(cartItems.productId, productId),
+        size === null ? isNull(cartItems.size) : eq(cartItems.size, size)
+      )
+    )
+    .limit(1);
+  return rows[0]?.quantity ?? 0;
+}
+
 export async function addCartItem(
   cartId: string,
   productId: string,
@@ -432,7 +473,7 @@ export async function addCartItem(
   }
 
   await db.update(carts).set({ updatedAt: new Date() }).where(eq(carts.id, cartId));
-  return size ? `${productId}::${size}` : productId;
+  return toCartKey(productId, size);
 }
 
 export async function updateCartItemByKey(
@@ -440,16 +481,7 @@ export async function updateCartItemByKey(
   key: string,
   quantity: number
 ): Promise<void> {
-  let productId: string;
-  let size: string | null;
-  const sepIdx = key.indexOf('::');
-  if (sepIdx >= 0) {
-    productId = key.slice(0, sepIdx);
-    size = key.slice(sepIdx + 2);
-  } else {
-    productId = key;
-    size = null;
-  }
+  const { productId, size } = parseCartKey(key);
 
   const rows = await db
     .select()
@@ -472,14 +504,254 @@ export async function updateCartItemByKey(
   await db.update(carts).set({ updatedAt: new Date() }).where(eq(carts.id, cartId));
 }
 
+// ============================================================
+// PRODUCTS (Admin) QUERIES
+// ============================================================
+
+/** Product with its raw images, sizes and category ids, for the admin editor */
+export interface AdminProduct extends DBProduct {
+  images: ProductImage[];
+  sizes: ProductSizeInventory[];
+  categoryIds: string[];
+}
+
+export interface ProductInput {
+  name: string;
+  slug: string;
+  shortDescription?: string;
+  description?: string;
+  regularPrice: string;
+  salePrice?: string;
+  onSale: boolean;
+  stockStatus: 'IN_STOCK' | 'OUT_OF_STOCK' | 'ON_BACKORDER';
+  stockQuantity: number | null;
+  measurements?: string;
+  materials?: string;
+  features?: string;
+  details?: string;
+}
+
+/**
+ * Stock status implied by the inventory numbers.
+ * Tracked inventory (sizes or stockQuantity) wins; untracked products keep the requested status.
+ */
+export function deriveStockStatus(
+  requested: ProductInput['stockStatus'],
+  stockQuantity: number | null,
+  sizes: { quantity: number }[]
+): ProductInput['stockStatus'] {
+  const tracked = sizes.length > 0 ? sizes.reduce((sum, s) => sum + s.quantity, 0) : stockQuantity;
+  if (tracked === null) return requested;
+  if (tracked <= 0) return 'OUT_OF_STOCK';
+  return requested === 'ON_BACKORDER' ? requested : 'IN_STOCK';
+}
+
+/** Map editor input onto product columns (price is what checkout charges) */
+function toProductColumns(data: ProductInput) {
+  return {
+    name: data.name,
+    slug: data.slug,
+    shortDescription: data.shortDescription || null,
+    description: data.description || null,
+    price: data.onSale && data.salePrice ? data.salePrice : data.regularPrice,
+    regularPrice: data.regularPrice,
+    salePrice: data.salePrice || null,
+    onSale: data.onSale,
+    stockStatus: data.stockStatus,
+    stockQuantity: data.stockQuantity,
+    measurements: data.measurements || null,
+    materials: data.materials || null,
+    features: data.features || null,
+    details: data.details || null,
+  };
+}
+
+/** Attach images, sizes and category ids to product rows */
+async function withProductRelations(rows: DBProduct[]): Promise<AdminProduct[]> {
+  if (rows.length === 0) return [];
+  const ids = rows.map((p) => p.id);
+
+  const [images, sizes, links] = await Promise.all([
+    db.select().from(productImages).where(inArray(productImages.productId, ids))
+      .orderBy(asc(productImages.sortOrder)),
+    db.select().from(productSizeInventory).where(inArray(productSizeInventory.productId, ids)),
+    db.select().from(productCategories).where(inArray(productCategories.productId, ids)),
+  ]);
+
+  return rows.map((product) => ({
+    ...product,
+    images: images.filter((img) => img.productId === product.id),
+    sizes: sortSizesByOrder(sizes.filter((s) => s.productId === product.id)),
+    categoryIds: links.filter((l) => l.productId === product.id).map((l) => l.categoryId),
+  }));
+}
+
+/** All products (newest first) for the admin list */
+export async function getProductsForAdmin(): Promise<AdminProduct[]> {
+  const rows = await db
+    .select()
+    .from(products)
+    .where(isNull(products.deletedAt))
+    .orderBy(desc(products.createdAt));
+  return withProductRelations(rows);
+}
+
+/** A single product for the admin editor */
+export async function getProductForAdmin(id: string): Promise<AdminProduct | null> {
+  const rows = await db.select().from(products).where(eq(products.id, id)).limit(1);
+  const [product] = await withProductRelations(rows);
+  return product ?? null;
+}
+
+/** Check whether a product slug is taken (optionally by a product other than `excludeId`) */
+export async function isProductSlugTaken(slug: string, excludeId?: string): Promise<boolean> {
+  const rows = await db.select({ id: products.id }).from(products).where(eq(products.slug, slug)).limit(1);
+  return rows.length > 0 && rows[0].id !== excludeId;
+}
+
+/** Create a product */
+export async function createProduct(data: ProductInput): Promise<string> {
+  const id = crypto.randomUUID();
+  await db.insert(products).values({ id, ...toProductColumns(data) });
+  return id;
+}
+
+/** Update a product */
+export async function updateProduct(id: string, data: ProductInput): Promise<void> {
+  await db.update(products).set({
+    ...toProductColumns(data),
+    updatedAt: new Date(),
+  }).where(eq(products.id, id));
+}
+
+/** Soft delete a product (hidden from the shop, order history keeps pointing at it) */
+export async function softDeleteProduct(id: string): Promise<boolean> {
+  const result = await db
+    .update(products)
+    .set({ deletedAt: new Date(), updatedAt: new Date() })
+    .where(and(eq(products.id, id), isNull(products.deletedAt)))
+    .returning({ id: products.id });
+  return result.length > 0;
+}
+
+/** Replace a product's image gallery (first image is primary) */
+export async function setProductImages(
+  productId: string,
+  images: { mediaId?: string | null; imageUrl: string; altText?: string | null }[]
+): Promise<void> {
+  await db.delete(productImages).where(eq(productImages.productId, productId));
+  if (images.length === 0) return;
+  await db.insert(productImages).values(images.map((img, i) => ({
+    id: crypto.randomUUID(),
+    productId,
+    mediaId: img.mediaId || null,
+    imageUrl: img.imageUrl,
+    altText: img.altText || null,
+    isPrimary: i === 0,
+    sortOrder: i,
+  })));
+}
+
+/** Replace a product's size-level inventory */
+export async function setProductSizes(
+  productId: string,
+  sizes: { size: string; quantity: number }[]
+): Promise<void> {
+  await db.delete(productSizeInventory).where(eq(productSizeInventory.productId, productId));
+  if (sizes.length === 0) return;
+  await db.insert(productSizeInventory).values(sizes.map((s) => ({
+    id: crypto.randomUUID(),
+    productId,
+    size: s.size.trim(),
+    quantity: s.quantity,
+  })));
+}
+
+/** Replace a product's category assignments */
+export async function setProductCategories(productId: string, categoryIds: string[]): Promise<void> {
+  await db.delete(productCategories).where(eq(productCategories.productId, productId));
+  if (categoryIds.length === 0) return;
+  await db.insert(productCategories).values(categoryIds.map((categoryId) => ({
+    id: crypto.randomUUID(),
+    productId,
+    categoryId,
+  })));
+}
+
+/** Create a category */
+export async function createCategory(data: {
+  name: string;
+  slug: string;
+  description?: string;
+  imageUrl?: string;
+  imageAlt?: string;
+  sortOrder?: number;
+}): Promise<string> {
+  const id = crypto.randomUUID();
+  await db.insert(categories).values({
+    id,
+    name: data.name,
+    slug: data.slug,
+    description: data.description || null,
+    imageUrl: data.imageUrl || null,
+    imageAlt: data.imageAlt || null,
+    sortOrder: data.sortOrder ?? 0,
+  });
+  return id;
+}
+
+/** Update a category */
+export async function updateCategory(
+  id: string,
+  data: {
+    name: string;
+    slug: string;
+    description?: string;
+    imageUrl?: string;
+    imageAlt?: string;
+    sortOrder?: number;
+  }
+): Promise<boolean> {
+  const result = await db.update(categories).set({
+    name: data.name,
+    slug: data.slug,
+    description: data.description || null,
+    imageUrl: data.imageUrl || null,
+    imageAlt: data.imageAlt || null,
+    sortOrder: data.sortOrder ?? 0,
+    updatedAt: new Date(),
+  }).where(eq(categories.id, id)).returning({ id: categories.id });
+  return result.length > 0;
+}
+
+/** Soft delete a category and unassign its products */
+export async function softDeleteCategory(id: string): Promise<boolean> {
+  const result = await db
+    .update(categories)
+    .set({ deletedAt: new Date(), updatedAt: new Date() })
+    .where(and(eq(categories.id, id), isNull(categories.deletedAt)))
+    .returning({ id: categories.id });
+  if (result.length === 0) return false;
+  await db.delete(productCategories).where(eq(productCategories.categoryId, id));
+  return true;
+}
+
+/** Check whether a category slug is taken (optionally by a category other than `excludeId`) */
+export async function isCategorySlugTaken(slug: string, excludeId?: string): Promise<boolean> {
+  const rows = await db.select({ id: categories.id }).from(categories).where(eq(categories.slug, slug)).limit(1);
+  return rows.length > 0 && rows[0].id !== excludeId;
+}
+
 // ============================================================
 // WORKS (Portfolio) QUERIES
 // ============================================================
 
 import { works, workMedia, audioTracks, type Work, type WorkMedia, type AudioTrack } from './schema';
+import type { FocalPoint, MediaCrops } from '../media-srcset';
 
 export interface WorkWithMedia extends Work {
-  media: WorkMedia[];
+  // mediaLibrary: art direction from the library item, where the query loads it
+  media: (WorkMedia & { mediaLibrary?: Pick<Media, 'focalX' | 'focalY' | 'crops' | 'hlsUrl' | 'posterUrl'> | null })[];
 }
 
 export type WorkWithMediaAndAudio = WorkWithMedia & { audioTrack: AudioTrack[] };
@@ -490,6 +762,7 @@ export interface CollaborationItem {
   title: string;
   year: number | null;
   forSale: boolean;
+  sold: boolean;
   externalUrl: string | null;
   image: {
     src: string;
@@ -499,6 +772,8 @@ export interface CollaborationItem {
     dominantColor: string | null;
     width: number | null;
     height: number | null;
+    focalPoint: FocalPoint | null;
+    crops: MediaCrops | null;
   } | null;
 }
 
@@ -514,6 +789,7 @@ export async function getWorksByCategory(category: string): Promise<WorkWithMedi
     with: {
       media: {
         orderBy: [asc(workMedia.sortOrder)],
+        with: { mediaLibrary: { columns: { focalX: true, focalY: true, crops: true, hlsUrl: true, posterUrl: true } } },
       },
     },
   });
@@ -527,6 +803,7 @@ export async function getWorkBySlug(slug: string): Promise<WorkWithMedia | null>
     with: {
       media: {
         orderBy: [asc(workMedia.sortOrder)],
+        with: { mediaLibrary: { columns: { focalX: true, focalY: true, crops: true, hlsUrl: true, posterUrl: true } } },
       },
     },
   });
@@ -582,6 +859,11 @@ export async function insertAudioTrack(
 const WORK_CATEGORIES = ['audio', 'physical', 'digital', 'collaborations'] as const;
 export type WorkCategory = (typeof WORK_CATEGORIES)[number];
 
+/** Focal point of a library item, if one was set */
+export function mediaFocalPoint(item: Pick<Media, 'focalX' | 'focalY'> | null | undefined): FocalPoint | null {
+  return item?.focalX != null && item.focalY != null ? { x: item.focalX, y: item.focalY } : null;
+}
+
 /** Map works with media to grid item shape (shared by all categories) */
 function workToGridItem(work: WorkWithMedia): CollaborationItem {
   const primaryImage = work.media.find(m => m.isPrimary || m.type === 'image' || m.type === 'cover') || work.media[0];
@@ -591,6 +873,7 @@ function workToGridItem(work: WorkWithMedia): CollaborationItem {
     title: work.title,
     year: work.year ?? null,
     forSale: work.forSale ?? false,
+    sold: work.sold ?? false,
     externalUrl: work.externalUrl,
     image: primaryImage ? {
       src: primaryImage.url,
@@ -600,6 +883,8 @@ function workToGridItem(work: WorkWithMedia): CollaborationItem {
       dominantColor: primaryImage.dominantColor,
       width: primaryImage.width,
       height: primaryImage.height,
+      focalPoint: mediaFocalPoint(primaryImage.mediaLibrary),
+      crops: primaryImage.mediaLibrary?.crops ?? null,
     } : null,
   };
 }
@@ -625,6 +910,7 @@ export async function createWork(data: {
   year?: number;
   forSale?: boolean;
   price?: string;
+  productId?: string | null;
   externalUrl?: string;
   published?: boolean;
   sortOrder?: number;
@@ -639,6 +925,7 @@ export async function createWork(data: {
     year: data.year || null,
     forSale: data.forSale ?? false,
     price: data.price || null,
+    productId: data.productId || null,
     externalUrl: data.externalUrl || null,
     published: data.published ?? true,
     sortOrder: data.sortOrder ?? 0,
@@ -656,6 +943,8 @@ export async function updateWork(
     year: number;
     forSale: boolean;
     price: string;
+    productId: string | null;
+    sold: boolean;
     externalUrl: string;
     published: boolean;
     sortOrder: number;
@@ -667,6 +956,44 @@ export async function updateWork(
   }).where(eq(works.id, id));
 }
 
+/** Product a work is sold as, or null if it has none or the product was deleted */
+export async function getWorkProduct(work: Work): Promise<Product | null> {
+  if (!work.productId) return null;
+  const [row] = await db
+    .select({ id: products.id })
+    .from(products)
+    .where(and(eq(products.id, work.productId), isNull(products.deletedAt)))
+    .limit(1);
+  return row ? getProductById(row.id) : null;
+}
+
+/** Products a work can be linked to, for the admin works form */
+export async function getLinkableProducts(): Promise<{ id: string; name: string }[]> {
+  return db
+    .select({ id: products.id, name: products.name })
+    .from(products)
+    .where(isNull(products.deletedAt))
+    .orderBy(asc(products.name));
+}
+
+/**
+ * Mark the works linked to a product sold when the product is out of stock,
+ * and unsold again when it has been restocked
+ */
+export async function syncWorksSoldState(productId: string): Promise<void> {
+  const [product] = await db
+    .select({ stockStatus: products.stockStatus })
+    .from(products)
+    .where(eq(products.id, productId))
+    .limit(1);
+  if (!product) return;
+
+  await db.update(works).set({
+    sold: product.stockStatus === 'OUT_OF_STOCK',
+    updatedAt: new Date(),
+  }).where(eq(works.productId, productId));
+}
+
 /** Delete a work and its media */
 export async function deleteWork(id: string): Promise<void> {
   await db.delete(works).where(eq(works.id, id));
@@ -815,6 +1142,152 @@ export async function getAudioPostBySlug(slug: string) {
   });
 }
 
+/** Tracklists of these audio posts, keyed by post ID, in track order */
+export async function getAudioPostTracks(postIds: string[]): Promise<Map<string, AudioPostTrack[]>> {
+  const tracks = new Map<string, AudioPostTrack[]>(postIds.map((id) => [id, []]));
+  if (postIds.length === 0) return tracks;
+
+  const rows = await db
+    .select()
+    .from(audioPostTracks)
+    .where(inArray(audioPostTracks.audioPostId, postIds))
+    .orderBy(asc(audioPostTracks.audioPostId), asc(audioPostTracks.trackNumber));
+  for (const row of rows) tracks.get(row.audioPostId)?.push(row);
+  return tracks;
+}
+
+export interface AudioPostTrackInput {
+  title: string;
+  artist?: string | null;
+  audioFile: string;
+  duration?: number | null;
+}
+
+/**
+ * Replace an audio post's tracklist, numbered in the given order. Durations
+ * not given are filled in from the media library. The new rows go in before
+ * the old ones are removed, so a failed insert leaves the old tracklist.
+ */
+export async function setAudioPostTracks(postId: string, tracks: AudioPostTrackInput[]): Promise<AudioPostTrack[]> {
+  const library = await getLibraryAudio(tracks.map((track) => track.audioFile));
+  const now = new Date();
+  const rows = tracks.map((track, index) => {
+    const measured = library.get(track.audioFile)?.duration;
+    return {
+      id: crypto.randomUUID(),
+      audioPostId: postId,
+      trackNumber: index + 1,
+      title: track.title,
+      artist: track.artist || null,
+      audioFile: track.audioFile,
+      duration: track.duration ?? (measured ? Math.round(measured) : null),
+      createdAt: now,
+      updatedAt: now,
+    };
+  });
+
+  if (rows.length > 0) await db.insert(audioPostTracks).values(rows);
+  await db.delete(audioPostTracks).where(and(
+    eq(audioPostTracks.audioPostId, postId),
+    rows.length > 0 ? notInArray(audioPostTracks.id, rows.map((row) => row.id)) : undefined
+  ));
+  // Keep the deprecated single-file column in step with track 1
+  await db
+    .update(audioPosts)
+    .set({ audioFile: rows[0]?.audioFile ?? null })
+    .where(eq(audioPosts.id, postId));
+  return rows;
+}
+
+// What the media library knows about an audio track's file
+export interface LibraryAudio {
+  waveform: number[] | null; // see analyzeAudio
+  loudness: number | null;
+  duration: number | null;
+  sources: { src: string; type: string; bitrate: number }[]; // streaming variants, best first
+  masterUrl: string | null; // the file as uploaded
+}
+
+/**
+ * Library audio at these URLs, keyed by URL. Audio post tracks reference their file
+ * by URL: the stream media.url points at, or the master for tracks saved before
+ * it was transcoded. Files outside the library have no entry.
+ */
+export async function getLibraryAudio(urls: string[]): Promise<Map<string, LibraryAudio>> {
+  const unique = [...new Set(urls.filter(Boolean))];
+  if (unique.length === 0) return new Map();
+
+  const masterUrl = sql<string | null>`${media.variants}->'master'->>'url'`;
+  const rows = await db
+    .select({ url: media.url, variants: media.variants, waveform: media.waveform, loudness: media.loudness, duration: media.duration })
+    .from(media)
+    .where(and(
+      or(inArray(media.url, unique), inArray(masterUrl, unique)),
+      eq(media.mediaType, 'audio'),
+      isNull(media.deletedAt)
+    ));
+
+  const found = new Map<string, LibraryAudio>();
+  for (const row of rows) {
+    const { master, ...streams } = (row.variants ?? {}) as AudioVariants;
+    const audio: LibraryAudio = {
+      waveform: row.waveform,
+      loudness: row.loudness,
+      duration: row.duration,
+      sources: Object.values(streams)
+        .map((v) => ({ src: v.url, type: v.mimeType, bitrate: v.bitrate ?? 0 }))
+        .sort((a, b) => b.bitrate - a.bitrate),
+      masterUrl: master?.url ?? row.url,
+    };
+    found.set(row.url, audio);
+    if (master) found.set(master.url, audio);
+  }
+  return found;
+}
+
+// A library audio file as a feed enclosure: the default stream, with its real size and type
+export interface AudioEnclosure {
+  url: string;
+  length: number; // bytes
+  type: string; // MIME type, without codec parameters
+  duration: number | null; // seconds
+}
+
+/**
+ * Enclosures for tracks whose audio is in the media library, keyed by each
+ * given URL (the stream or the master both resolve to the stream)
+ */
+export async function getAudioEnclosures(urls: string[]): Promise<Map<string, AudioEnclosure>> {
+  const unique = [...new Set(urls.filter(Boolean))];
+  if (unique.length === 0) return new Map();
+
+  const masterUrl = sql<string | null>`${media.variants}->'master'->>'url'`;
+  const rows = await db
+    .select({ url: media.url, variants: media.variants, mimeType: media.mimeType, fileSize: media.fileSize, duration: media.duration })
+    .from(media)
+    .where(and(
+      or(inArray(media.url, unique), inArray(masterUrl, unique)),
+      eq(media.mediaType, 'audio'),
+      isNull(media.deletedAt)
+    ));
+
+  const found = new Map<string, AudioEnclosure>();
+  for (const row of rows) {
+    const { master, ...streams } = (row.variants ?? {}) as AudioVariants;
+    // Once processed, fileSize is the total of all variants: size the stream itself
+    const stream = Object.values(streams).find((v) => v.url === row.url);
+    const enclosure: AudioEnclosure = {
+      url: row.url,
+      length: stream?.size ?? row.fileSize,
+      type: (stream?.mimeType ?? row.mimeType).split(';')[0],
+      duration: row.duration,
+    };
+    found.set(row.url, enclosure);
+    if (master) found.set(master.url, enclosure);
+  }
+  return found;
+}
+
 // ============================================================
 // SITE SETTINGS QUERIES
 // ============================================================
@@ -825,6 +1298,9 @@ export interface HomepageVideo {
   mediaId: string;
   url: string;
   originalName: string;
+  hlsUrl: string | null;
+  posterUrl: string | null;
+  dominantColor: string | null; // of the poster frame
 }
 
 /** Get the current homepage video */
@@ -857,6 +1333,9 @@ export async function getHomepageVideo(): Promise<HomepageVideo | null> {
       mediaId: video.id,
       url: video.url,
       originalName: video.originalName,
+      hlsUrl: video.hlsUrl,
+      posterUrl: video.posterUrl,
+      dominantColor: video.dominantColor,
     };
   } catch {
     return null;
@@ -898,3 +1377,55 @@ export async function setHomepageVideo(mediaId: string): Promise<boolean> {
 export async function clearHomepageVideo(): Promise<void> {
   await db.delete(siteSettings).where(eq(siteSettings.key, 'homepage_video'));
 }
+
+// Channel metadata of the podcast feed (/audio/feed.xml)
+export interface PodcastSettings {
+  title: string;
+  description: string;
+  author: string;
+  email: string; // itunes:owner, may be empty
+  language: string; // e.g. 'en' or 'ko-KR'
+  category: string; // an Apple Podcasts category
+  explicit: boolean;
+  artwork: string | null; // square, 1400-3000px; the newest post's artwork when null
+}
+
+export const DEFAULT_PODCAST_SETTINGS: PodcastSettings = {
+  title: 'ICT★SNU SOUND',
+  description: 'Releases by she_skin',
+  author: 'she_skin',
+  email: '',
+  language: 'en',
+  category: 'Music',
+  explicit: false,
+  artwork: null,
+};
+
+/** Get the podcast feed settings, with defaults for anything unset */
+export async function getPodcastSettings(): Promise<PodcastSettings> {
+  const setting = await db
+    .select()
+    .from(siteSettings)
+    .where(eq(siteSettings.key, 'podcast_feed'))
+    .limit(1);
+
+  if (setting.length === 0) return DEFAULT_PODCAST_SETTINGS;
+
+  try {
+    return { ...DEFAULT_PODCAST_SETTINGS, ...(JSON.parse(setting[0].value) as Partial<PodcastSettings>) };
+  } catch {
+    return DEFAULT_PODCAST_SETTINGS;
+  }
+}
+
+/** Save the podcast feed settings */
+export async function setPodcastSettings(settings: PodcastSettings): Promise<void> {
+  const value = JSON.stringify(settings);
+  await db
+    .insert(siteSettings)
+    .values({ id: crypto.randomUUID(), key: 'podcast_feed', value })
+    .onConflictDoUpdate({
+      target: siteSettings.key,
+      set: { value, updatedAt: new Date() },
+    });
+}
@@ -10,6 +10,7 @@
 
 import { pgTable, text, timestamp, boolean, integer, json, real, decimal, varchar, index } from 'drizzle-orm/pg-core';
 import { relations } from 'drizzle-orm';
+import type { MediaCrops } from '../media-srcset';
 
 // ============================================================================
 // CONTENT MANAGEMENT TABLES (WordPress-style)
@@ -77,20 +78,49 @@ export const media = pgTable('media', {
   url: text('url').notNull(),
   path: text('path').notNull(), // Storage path for deletion
   
-  // Variants (auto-generated sizes)
+  // Variants (auto-generated sizes, each WebP with an optional AVIF copy)
   variants: json('variants').$type<{
-    sm?: { url: string; width: number; height: number; size: number };
-    md?: { url: string; width: number; height: number; size: number };
-    lg?: { url: string; width: number; height: number; size: number };
-    xl?: { url: string; width: number; height: number; size: number };
+    sm?: { url: string; width: number; height: number; size: number; avif?: { url: string; size: number } };
+    md?: { url: string; width: number; height: number; size: number; avif?: { url: string; size: number } };
+    lg?: { url: string; width: number; height: number; size: number; avif?: { url: string; size: number } };
+    xl?: { url: string; width: number; height: number; size: number; avif?: { url: string; size: number } };
+    // Ready-made srcset per format and a default sizes value (see media-srcset.ts)
+    srcset?: { webp: string; avif?: string };
+    sizes?: string;
   }>(),
   
-  // Image metadata
+  // Video streaming: HLS master playlist and a poster frame (see packageHls)
+  hlsUrl: text('hls_url'),
+  posterUrl: text('poster_url'),
+  posterTime: real('poster_time'), // seconds into the video the poster was taken
+  duration: real('duration'), // seconds (video and audio)
+  // Scrubbing thumbnails: `count` frames side by side in one image, one every `interval` seconds
+  sprite: json('sprite').$type<{ url: string; frameWidth: number; frameHeight: number; count: number; interval: number }>(),
+  
+  // Audio analysis (see analyzeAudio): waveform peaks (0-1) for the player's
+  // scrubber and integrated loudness for volume normalization
+  waveform: json('waveform').$type<number[]>(),
+  loudness: real('loudness'), // LUFS
+  
+  // Image metadata (videos get blurhash and dominant color from the poster frame)
   width: integer('width'),
   height: integer('height'),
   blurhash: text('blurhash'),
   dominantColor: text('dominant_color'),
   
+  // Art direction: where the subject is (0-1 from the top left, null = centre)
+  // and named crops with their own variants
+  focalX: real('focal_x'),
+  focalY: real('focal_y'),
+  crops: json('crops').$type<MediaCrops>(),
+  
+  // MD5 of the file as uploaded (before processing), so re-uploads reuse this row
+  contentHash: text('content_hash'),
+  
+  // Background processing (see media_jobs): url points at the original until 'ready'
+  status: text('status').notNull().default('ready'), // 'pending', 'processing', 'ready', 'error'
+  originalPath: text('original_path'), // Storage path of the unprocessed upload, kept for reprocessing
+  
   // Anti-bloat: reference counting
   // When count reaches 0, media can be safely deleted
   refCount: integer('ref_count').notNull().default(0),
@@ -110,6 +140,7 @@ export const media = pgTable('media', {
   typeIdx: index('media_type_idx').on(table.mediaType),
   refCountIdx: index('media_ref_count_idx').on(table.refCount),
   deletedAtIdx: index('media_deleted_at_idx').on(table.deletedAt),
+  contentHashIdx: index('media_content_hash_idx').on(table.contentHash),
 }));
 
 // Post-media junction table (tracks which media is used where)
@@ -232,6 +263,7 @@ export const productSizeInventory = pgTable('product_size_inventory', {
 // Carts table
 export const carts = pgTable('carts', {
   id: text('id').primaryKey(),
+  promotionCode: text('promotion_code'), // discount code entered in the cart
   createdAt: timestamp('created_at').defaultNow(),
   updatedAt: timestamp('updated_at').defaultNow(),
 });
@@ -256,6 +288,8 @@ export const works = pgTable('works', {
   year: integer('year'),
   forSale: boolean('for_sale').default(false),
   price: decimal('price', { precision: 10, scale: 2 }),
+  productId: text('product_id').references(() => products.id, { onDelete: 'set null' }), // shop product that sells this work
+  sold: boolean('sold').default(false), // set automatically when the linked product sells out
   externalUrl: text('external_url'), // for collaborations (YouTube, etc.)
   sortOrder: integer('sort_order').default(0),
   published: boolean('published').default(true),
@@ -388,10 +422,11 @@ export const audioPosts = pgTable('audio_posts', {
   title: text('title').notNull(),
   artist: text('artist').notNull().default('she_skin'), // Artist name
   slug: text('slug').notNull().unique(),
-  audioFile: text('audio_file'), // URL to audio file
+  audioFile: text('audio_file'), // Deprecated: mirrors track 1 of audio_post_tracks until the column is dropped
   artwork: text('artwork'), // URL to artwork image
   youtubeLink: text('youtube_link'), // YouTube video URL
   soundcloudLink: text('soundcloud_link'), // SoundCloud track URL
+  allowDownload: boolean('allow_download').notNull().default(false), // Offer the master (e.g. the WAV) for download
   status: text('status').notNull().default('draft'), // 'draft', 'published', 'archived'
   publishedAt: timestamp('published_at'),
   deletedAt: timestamp('deleted_at'), // Soft delete
@@ -399,11 +434,35 @@ export const audioPosts = pgTable('audio_posts', {
   updatedAt: timestamp('updated_at').defaultNow(),
 });
 
+// Tracklist of an audio post: one row for a single, several for an EP or mixtape
+export const audioPostTracks = pgTable('audio_post_tracks', {
+  id: text('id').primaryKey(),
+  audioPostId: text('audio_post_id').notNull().references(() => audioPosts.id, { onDelete: 'cascade' }),
+  trackNumber: integer('track_number').notNull(), // Order within the release, from 1
+  title: text('title').notNull(),
+  artist: text('artist'), // Featured or guest artist; the post's artist when null
+  audioFile: text('audio_file').notNull(), // URL to audio file
+  duration: integer('duration'), // seconds
+  createdAt: timestamp('created_at').defaultNow(),
+  updatedAt: timestamp('updated_at').defaultNow(),
+}, (table) => ({
+  postTrackIdx: index('audio_post_tracks_post_idx').on(table.audioPostId, table.trackNumber),
+}));
+
 export const audioPostsRelations = relations(audioPosts, ({ many }) => ({
   media: many(postMedia),
+  tracks: many(audioPostTracks),
+}));
+
+export const audioPostTracksRelations = relations(audioPostTracks, ({ one }) => ({
+  audioPost: one(audioPosts, {
+    fields: [audioPostTracks.audioPostId],
+    references: [audioPosts.id],
+  }),
 }));
 
 export type AudioPost = typeof audioPosts.$inferSelect;
+export type AudioPostTrack = typeof audioPostTracks.$inferSelect;
 
 // ============================================================================
 // USERS TABLE - Admin authentication
@@ -452,3 +511,199 @@ export const siteSettings = pgTable('site_settings', {
 }));
 
 export type SiteSetting = typeof siteSettings.$inferSelect;
+
+// ============================================================================
+// PROMOTIONS - Discount codes and time-boxed sales
+// ============================================================================
+
+export const promotions = pgTable('promotions', {
+  id: text('id').primaryKey(),
+  code: text('code').unique(), // stored uppercase; null = automatic sale, no code needed
+  description: text('description'),
+
+  // Discount: 'percentage' (amount is 0-100) or 'fixed' (amount is USD off)
+  discountType: text('discount_type').notNull(),
+  amount: decimal('amount', { precision: 10, scale: 2 }).notNull(),
+
+  // Scope: a single product, a category, or (both null) the whole cart
+  productId: text('product_id').references(() => products.id, { onDelete: 'cascade' }),
+  categoryId: text('category_id').references(() => categories.id, { onDelete: 'cascade' }),
+
+  // Limits
+  usageLimit: integer('usage_limit'), // max paid orders; null = unlimited
+  timesRedeemed: integer('times_redeemed').notNull().default(0),
+  startsAt: timestamp('starts_at'),
+  endsAt: timestamp('ends_at'),
+  active: boolean('active').notNull().default(true),
+
+  createdAt: timestamp('created_at').defaultNow(),
+  updatedAt: timestamp('updated_at').defaultNow(),
+  deletedAt: timestamp('deleted_at'), // Soft delete
+});
+
+export type Promotion = typeof promotions.$inferSelect;
+
+// ============================================================================
+// ORDERS - Checkout records (one per Stripe Checkout Session)
+// ============================================================================
+
+export const orders = pgTable('orders', {
+  id: text('id').primaryKey(),
+  cartId: text('cart_id'), // Cart the order was built from (cleared once paid)
+  status: text('status').notNull().default('pending'), // 'pending', 'paid', 'shipped', 'refunded', 'abandoned'
+
+  // Stripe references
+  stripeSessionId: text('stripe_session_id').unique(),
+  stripePaymentIntentId: text('stripe_payment_intent_id'),
+
+  // Promotion applied at checkout (code copied so it survives the promotion being deleted)
+  promotionId: text('promotion_id').references(() => promotions.id, { onDelete: 'set null' }),
+  promotionCode: text('promotion_code'),
+
+  // Buyer (filled in from the completed Checkout Session)
+  customerEmail: text('customer_email'),
+  customerName: text('customer_name'),
+  shippingAddress: json('shipping_address').$type<{
+    line1?: string | null;
+    line2?: string | null;
+    city?: string | null;
+    state?: string | null;
+    postalCode?: string | null;
+    country?: string | null;
+  }>(),
+
+  // Totals (USD, same precision as products.price)
+  subtotal: decimal('subtotal', { precision: 10, scale: 2 }).notNull(),
+  discountTotal: decimal('discount_total', { precision: 10, scale: 2 }).notNull().default('0'),
+  total: decimal('total', { precision: 10, scale: 2 }).notNull(),
+  currency: text('currency').notNull().default('usd'),
+
+  // Fulfillment
+  trackingNumber: text('tracking_number'),
+  trackingCarrier: text('tracking_carrier'),
+  shippedAt: timestamp('shipped_at'),
+
+  // Refunds (partial refunds add up here; the order turns 'refunded' once it reaches the total)
+  refundedTotal: decimal('refunded_total', { precision: 10, scale: 2 }).notNull().default('0'),
+  refundedAt: timestamp('refunded_at'),
+
+  paidAt: timestamp('paid_at'),
+  // Steps after payment, recorded so a retried webhook only finishes what is left (see markOrderPaid)
+  promotionRedeemedAt: timestamp('promotion_redeemed_at'),
+  fulfilledAt: timestamp('fulfilled_at'), // stock, promotion and cart all done
+  createdAt: timestamp('created_at').defaultNow(),
+  updatedAt: timestamp('updated_at').defaultNow(),
+}, (table) => ({
+  statusIdx: index('orders_status_idx').on(table.status),
+  createdAtIdx: index('orders_created_at_idx').on(table.createdAt),
+}));
+
+// Order line items - snapshot of name/price at checkout time
+export const orderItems = pgTable('order_items', {
+  id: text('id').primaryKey(),
+  orderId: text('order_id').notNull().references(() => orders.id, { onDelete: 'cascade' }),
+  productId: text('product_id').notNull().references(() => products.id),
+  productName: text('product_name').notNull(),
+  size: text('size'),
+  quantity: integer('quantity').notNull().default(1),
+  unitPrice: decimal('unit_price', { precision: 10, scale: 2 }).notNull(),
+  lineTotal: decimal('line_total', { precision: 10, scale: 2 }).notNull(),
+  stockDecrementedAt: timestamp('stock_decremented_at'), // set once its stock is taken for a paid order
+  createdAt: timestamp('created_at').defaultNow(),
+}, (table) => ({
+  orderIdx: index('order_items_order_idx').on(table.orderId),
+}));
+
+export const ordersRelations = relations(orders, ({ many }) => ({
+  items: many(orderItems),
+}));
+
+export const orderItemsRelations = relations(orderItems, ({ one }) => ({
+  order: one(orders, {
+    fields: [orderItems.orderId],
+    references: [orders.id],
+  }),
+  product: one(products, {
+    fields: [orderItems.productId],
+    references: [products.id],
+  }),
+}));
+
+export type Order = typeof orders.$inferSelect;
+export type OrderItem = typeof orderItems.$inferSelect;
+
+// ============================================================================
+// STOCK RESERVATIONS - Temporary holds on stock for items sitting in a cart
+// ============================================================================
+
+export const stockReservations = pgTable('stock_reservations', {
+  id: text('id').primaryKey(),
+  cartId: text('cart_id').notNull().references(() => carts.id, { onDelete: 'cascade' }),
+  productId: text('product_id').notNull().references(() => products.id, { onDelete: 'cascade' }),
+  size: text('size'), // null for products without sizes
+  quantity: integer('quantity').notNull(),
+  expiresAt: timestamp('expires_at').notNull(), // hold is ignored after this
+  createdAt: timestamp('created_at').defaultNow(),
+  updatedAt: timestamp('updated_at').defaultNow(),
+}, (table) => ({
+  productIdx: index('stock_reservations_product_idx').on(table.productId, table.size),
+  cartIdx: index('stock_reservations_cart_idx').on(table.cartId),
+  expiresAtIdx: index('stock_reservations_expires_at_idx').on(table.expiresAt),
+}));
+
+export type StockReservation = typeof stockReservations.$inferSelect;
+
+// ============================================================================
+// MAIL OUTBOX - Transactional email, queued so a failed send is retried
+// ============================================================================
+
+export const mailOutbox = pgTable('mail_outbox', {
+  id: text('id').primaryKey(),
+  template: text('template').notNull(), // 'password_reset', 'order_confirmation', 'order_shipped', 'order_refunded'
+  toAddress: text('to_address').notNull(),
+  subject: text('subject').notNull(),
+  html: text('html').notNull(),
+  text: text('text').notNull(),
+
+  status: text('status').notNull().default('pending'), // 'pending', 'sending', 'sent', 'failed'
+  attempts: integer('attempts').notNull().default(0),
+  nextAttemptAt: timestamp('next_attempt_at').defaultNow(),
+  lastError: text('last_error'),
+  transport: text('transport'), // transport that delivered it
+  providerMessageId: text('provider_message_id'),
+  dedupeKey: text('dedupe_key').unique(), // a second message with the same key is not queued
+
+  sentAt: timestamp('sent_at'),
+  createdAt: timestamp('created_at').defaultNow(),
+  updatedAt: timestamp('updated_at').defaultNow(),
+}, (table) => ({
+  dueIdx: index('mail_outbox_due_idx').on(table.status, table.nextAttemptAt),
+}));
+
+export type MailOutboxEntry = typeof mailOutbox.$inferSelect;
+
+// ============================================================================
+// MEDIA JOBS - Background image/video processing, so uploads return immediately
+// ============================================================================
+
+export const mediaJobs = pgTable('media_jobs', {
+  id: text('id').primaryKey(),
+  mediaId: text('media_id').notNull().references(() => media.id, { onDelete: 'cascade' }),
+  type: text('type').notNull().default('process'), // 'process' (generate variants from the original), 'crops' (generate named crops), 'poster' (re-cut the video poster), 'analyze' (audio waveform and loudness)
+
+  status: text('status').notNull().default('pending'), // 'pending', 'processing', 'done', 'error'
+  progress: integer('progress').notNull().default(0), // 0-100
+  attempts: integer('attempts').notNull().default(0),
+  nextAttemptAt: timestamp('next_attempt_at').defaultNow(),
+  lastError: text('last_error'),
+
+  startedAt: timestamp('started_at'),
+  completedAt: timestamp('completed_at'),
+  createdAt: timestamp('created_at').defaultNow(),
+  updatedAt: timestamp('updated_at').defaultNow(),
+}, (table) => ({
+  dueIdx: index('media_jobs_due_idx').on(table.status, table.nextAttemptAt),
+  mediaIdx: index('media_jobs_media_idx').on(table.mediaId),
+}));
+
+export type MediaJob = typeof mediaJobs.$inferSelect;
@@ -0,0 +1,255 @@
+/**
+ * Mail - Transactional email through a persistent outbox
+ *
+ * Every message is written to `mail_outbox` before anything is sent, then delivered
+ * straight away through the configured transport (see transport.ts). A failed send
+ * stays in the outbox and is retried with backoff, either opportunistically when
+ * the next message is queued or by `npm run mail:outbox`, until it goes through or
+ * runs out of attempts.
+ */
+
+import { db } from '../db';
+import { mailOutbox, type MailOutboxEntry } from '../db/schema';
+import { eq, and, or, lt, lte, inArray } from 'drizzle-orm';
+import { nanoid } from '../nanoid';
+import { getOrderWithItems, type OrderWithItems } from '../orders';
+import { getMailTransport, type MailTransport } from './transport';
+import {
+  passwordResetEmail,
+  orderConfirmationEmail,
+  orderShippedEmail,
+  orderRefundedEmail,
+  type MailTemplate,
+  type RenderedMail,
+} from './templates';
+
+export { getMailTransport, setMailTransport, type MailMessage, type MailTransport } from './transport';
+export type { MailTemplate } from './templates';
+
+export const MAX_MAIL_ATTEMPTS = 5;
+
+// Wait before each retry: 1 minute, 5 minutes, 30 minutes, 2 hours
+const RETRY_DELAYS_MINUTES = [1, 5, 30, 120];
+
+// A send that has been 'sending' this long crashed mid-way and is picked up again
+const STALE_SENDING_MINUTES = 10;
+
+export interface OutboxRunResult {
+  sent: number;
+  retrying: number;
+  failed: number;
+}
+
+function mailFrom(): string {
+  return process.env.MAIL_FROM || 'she_skin <no-reply@localhost>';
+}
+
+function minutesFromNow(minutes: number): Date {
+  return new Date(Date.now() + minutes * 60 * 1000);
+}
+
+/**
+ * Claim an outbox row for sending, so two workers never send the same message
+ */
+async function claim(id: string): Promise<MailOutboxEntry | null> {
+  const [entry] = await db
+    .update(mailOutbox)
+    .set({ status: 'sending', updatedAt: new Date() })
+    .where(and(
+      eq(mailOutbox.id, id),
+      or(
+        eq(mailOutbox.status, 'pending'),
+        and(eq(mailOutbox.status, 'sending'), lt(mailOutbox.updatedAt, minutesFromNow(-STALE_SENDING_MINUTES)))
+      )
+    ))
+    .returning();
+  return entry ?? null;
+}
+
+/**
+ * Try to send one outbox message. Returns its new status.
+ */
+async function deliver(id: string): Promise<'sent' | 'pending' | 'failed' | null> {
+  const entry = await claim(id);
+  if (!entry) return null;
+
+  const attempts = entry.attempts + 1;
+  let transport: MailTransport | null = null;
+
+  try {
+    // Inside the try: a misconfigured transport throws here, and the message
+    // goes back to 'pending' with backoff instead of staying 'sending'
+    transport = getMailTransport();
+    const result = await transport.send({
+      from: mailFrom(),
+      replyTo: process.env.MAIL_REPLY_TO || undefined,
+      to: entry.toAddress,
+      subject: entry.subject,
+      html: entry.html,
+      text: entry.text,
+    });
+
+    await db
+      .update(mailOutbox)
+      .set({
+        status: 'sent',
+        attempts,
+        transport: transport.name,
+        providerMessageId: result.messageId ?? null,
+        lastError: null,
+        sentAt: new Date(),
+        updatedAt: new Date(),
+      })
+      .where(eq(mailOutbox.id, id));
+    return 'sent';
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    const giveUp = attempts >= MAX_MAIL_ATTEMPTS;
+    console.error(`[mail] Send ${attempts}/${MAX_MAIL_ATTEMPTS} of ${entry.template} to ${entry.toAddress} failed:`, message);
+
+    await db
+      .update(mailOutbox)
+      .set({
+        status: giveUp ? 'failed' : 'pending',
+        attempts,
+        transport: transport?.name ?? null,
+        lastError: message.slice(0, 1000),
+        nextAttemptAt: giveUp ? null : minutesFromNow(RETRY_DELAYS_MINUTES[attempts - 1] ?? 120),
+        updatedAt: new Date(),
+      })
+      .where(eq(mailOutbox.id, id));
+    return giveUp ? 'failed' : 'pending';
+  }
+}
+
+/**
+ * Send every outbox message that is due (new, retry time reached, or stuck mid-send)
+ */
+export async function processOutbox(limit = 20): Promise<OutboxRunResult> {
+  const now = new Date();
+  const due = await db
+    .select({ id: mailOutbox.id })
+    .from(mailOutbox)
+    .where(or(
+      and(eq(mailOutbox.status, 'pending'), lte(mailOutbox.nextAttemptAt, now)),
+      and(eq(mailOutbox.status, 'sending'), lt(mailOutbox.updatedAt, minutesFromNow(-STALE_SENDING_MINUTES)))
+    ))
+    .orderBy(mailOutbox.nextAttemptAt)
+    .limit(limit);
+
+  const result: OutboxRunResult = { sent: 0, retrying: 0, failed: 0 };
+  for (const { id } of due) {
+    const status = await deliver(id);
+    if (status === 'sent') result.sent++;
+    else if (status === 'pending') result.retrying++;
+    else if (status === 'failed') result.failed++;
+  }
+  return result;
+}
+
+/**
+ * Put a message in the outbox and try to send it right away.
+ * A failed send is not an error here: the outbox retries it later.
+ * With a `dedupeKey`, a message already queued under that key is kept and
+ * this one is dropped; its ID is returned instead.
+ */
+export async function queueMail(
+  template: MailTemplate,
+  to: string,
+  mail: RenderedMail,
+  dedupeKey?: string
+): Promise<string> {
+  const id = nanoid();
+  const [inserted] = await db
+    .insert(mailOutbox)
+    .values({
+      id,
+      template,
+      toAddress: to,
+      subject: mail.subject,
+      html: mail.html,
+      text: mail.text,
+      dedupeKey: dedupeKey ?? null,
+    })
+    .onConflictDoNothing({ target: mailOutbox.dedupeKey })
+    .returning({ id: mailOutbox.id });
+
+  if (!inserted) {
+    const [existing] = await db
+      .select({ id: mailOutbox.id })
+      .from(mailOutbox)
+      .where(eq(mailOutbox.dedupeKey, dedupeKey!))
+      .limit(1);
+    return existing.id;
+  }
+
+  await deliver(id);
+  // Catch up on earlier messages waiting for a retry
+  await processOutbox(3).catch((error) => console.error('[mail] Outbox retry failed:', error));
+
+  return id;
+}
+
+/** Put failed messages back in the queue (e.g. after fixing the transport config) */
+export async function requeueFailedMail(ids?: string[]): Promise<number> {
+  const rows = await db
+    .update(mailOutbox)
+    .set({ status: 'pending', attempts: 0, nextAttemptAt: new Date(), updatedAt: new Date() })
+    .where(ids?.length
+      ? and(eq(mailOutbox.status, 'failed'), inArray(mailOutbox.id, ids))
+      : eq(mailOutbox.status, 'failed'))
+    .returning({ id: mailOutbox.id });
+  return rows.length;
+}
+
+// ============================================================
+// Messages
+// ============================================================
+
+export async function sendPasswordResetEmail(to: string, params: { resetUrl: string; expiresAt: Date }): Promise<string> {
+  return queueMail('password_reset', to, passwordResetEmail(params));
+}
+
+/**
+ * Email the buyer of an order. Never throws, so a mail problem can't fail
+ * the payment or fulfillment step that triggered it.
+ */
+async function sendOrderEmail(
+  template: MailTemplate,
+  orderId: string,
+  render: (order: OrderWithItems) => RenderedMail,
+  dedupeKey?: string
+): Promise<boolean> {
+  try {
+    const order = await getOrderWithItems(orderId);
+    if (!order?.customerEmail) return false;
+    await queueMail(template, order.customerEmail, render(order), dedupeKey);
+    return true;
+  } catch (error) {
+    console.error(`[mail] Could not queue ${template} for order ${orderId}:`, error);
+    return false;
+  }
+}
+
+export function sendOrderConfirmationEmail(orderId: string): Promise<boolean> {
+  return sendOrderEmail('order_confirmation', orderId, orderConfirmationEmail);
+}
+
+export function sendOrderShippedEmail(orderId: string): Promise<boolean> {
+  return sendOrderEmail('order_shipped', orderId, orderShippedEmail);
+}
+
+/**
+ * `amount` is what this refund returned (USD, e.g. "30.00"); `refundedTotal` is
+ * what the order has had refunded including it, in cents. Both the admin refund
+ * route and the charge.refunded webhook see the same total for a refund, so the
+ * email is keyed on it and the buyer gets one whichever of them sends first.
+ */
+export function sendOrderRefundedEmail(orderId: string, amount: string, refundedTotal: number): Promise<boolean> {
+  return sendOrderEmail(
+    'order_refunded',
+    orderId,
+    (order) => orderRefundedEmail(order, amount),
+    `order_refunded:${orderId}:${refundedTotal}`
+  );
+}
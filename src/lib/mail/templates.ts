@@ -0,0 +1,157 @@
+/**
+ * Mail Templates - Subject, HTML and plain-text versions of each transactional email
+ *
+ * HTML uses inline styles and tables only, since that's what mail clients render.
+ * Every value interpolated into HTML goes through escapeHtml.
+ */
+
+import { escapeHtml } from '../sanitize';
+import type { OrderWithItems } from '../orders';
+
+export type MailTemplate = 'password_reset' | 'order_confirmation' | 'order_shipped' | 'order_refunded';
+
+export interface RenderedMail {
+  subject: string;
+  html: string;
+  text: string;
+}
+
+const BRAND = 'she_skin';
+
+function formatMoney(amount: string | number | null | undefined): string {
+  const value = typeof amount === 'number' ? amount : parseFloat(amount ?? '') || 0;
+  return `$${value.toFixed(2)}`;
+}
+
+/** Wrap body HTML in the shared email layout */
+function layout(title: string, body: string): string {
+  return `<!DOCTYPE html>
+<html>
+<head><meta charset="utf-8"><meta name="viewport" content="width=device-width"><title>${escapeHtml(title)}</title></head>
+<body style="margin:0;padding:0;background:#f4f4f4;font-family:Helvetica,Arial,sans-serif;color:#111;">
+<table role="presentation" width="100%" cellpadding="0" cellspacing="0" style="background:#f4f4f4;padding:24px 0;">
+<tr><td align="center">
+<table role="presentation" width="560" cellpadding="0" cellspacing="0" style="max-width:560px;width:100%;background:#fff;padding:32px;">
+<tr><td style="font-size:20px;font-weight:bold;letter-spacing:1px;padding-bottom:24px;">${BRAND}</td></tr>
+<tr><td style="font-size:15px;line-height:1.6;">${body}</td></tr>
+</table>
+</td></tr>
+</table>
+</body>
+</html>`;
+}
+
+function button(href: string, label: string): string {
+  return `<p style="margin:24px 0;"><a href="${escapeHtml(href)}" style="display:inline-block;background:#000;color:#fff;text-decoration:none;padding:12px 24px;border-radius:999px;">${escapeHtml(label)}</a></p>`;
+}
+
+function itemLabel(item: OrderWithItems['items'][number]): string {
+  return `${item.quantity} × ${item.productName}${item.size ? ` (size ${item.size})` : ''}`;
+}
+
+function itemsHtml(order: OrderWithItems): string {
+  const rows = order.items.map((item) =>
+    `<tr><td style="padding:6px 0;">${escapeHtml(itemLabel(item))}</td><td align="right" style="padding:6px 0;">${formatMoney(item.lineTotal)}</td></tr>`
+  );
+  const discount = parseFloat(order.discountTotal) > 0
+    ? `<tr><td style="padding:6px 0;color:#666;">Discount${order.promotionCode ? ` (${escapeHtml(order.promotionCode)})` : ''}</td><td align="right" style="padding:6px 0;color:#666;">−${formatMoney(order.discountTotal)}</td></tr>`
+    : '';
+  return `<table role="presentation" width="100%" cellpadding="0" cellspacing="0" style="border-top:1px solid #ddd;border-bottom:1px solid #ddd;margin:16px 0;">
+${rows.join('\n')}
+${discount}
+<tr><td style="padding:6px 0;font-weight:bold;">Total</td><td align="right" style="padding:6px 0;font-weight:bold;">${formatMoney(order.total)}</td></tr>
+</table>`;
+}
+
+function itemsText(order: OrderWithItems): string {
+  const lines = order.items.map((item) => `${itemLabel(item)}  ${formatMoney(item.lineTotal)}`);
+  if (parseFloat(order.discountTotal) > 0) {
+    lines.push(`Discount${order.promotionCode ? ` (${order.promotionCode})` : ''}  −${formatMoney(order.discountTotal)}`);
+  }
+  lines.push(`Total  ${formatMoney(order.total)}`);
+  return lines.join('\n');
+}
+
+function addressLines(order: OrderWithItems): string[] {
+  const a = order.shippingAddress;
+  if (!a) return [];
+  const cityLine = [a.city, a.state, a.postalCode].filter(Boolean).join(', ');
+  return [order.customerName, a.line1, a.line2, cityLine, a.country].filter((line): line is string => !!line);
+}
+
+function greeting(order: OrderWithItems): string {
+  return order.customerName ? `Hi ${order.customerName.split(' ')[0]},` : 'Hi,';
+}
+
+export function passwordResetEmail(params: { resetUrl: string; expiresAt: Date }): RenderedMail {
+  const minutes = Math.max(Math.round((params.expiresAt.getTime() - Date.now()) / 60000), 1);
+  const subject = `Reset your ${BRAND} admin password`;
+  return {
+    subject,
+    html: layout(subject, `<p>Someone asked to reset the password for your ${BRAND} admin account.</p>
+${button(params.resetUrl, 'Reset password')}
+<p style="color:#666;font-size:13px;">The link works once and expires in ${minutes} minutes. If you didn't ask for this, you can ignore this email.</p>`),
+    text: `Someone asked to reset the password for your ${BRAND} admin account.
+
+Reset it here: ${params.resetUrl}
+
+The link works once and expires in ${minutes} minutes. If you didn't ask for this, you can ignore this email.`,
+  };
+}
+
+export function orderConfirmationEmail(order: OrderWithItems): RenderedMail {
+  const subject = `Your ${BRAND} order #${order.id}`;
+  const address = addressLines(order);
+  return {
+    subject,
+    html: layout(subject, `<p>${escapeHtml(greeting(order))}</p>
+<p>Thank you for your order. We'll email you again when it ships.</p>
+${itemsHtml(order)}
+${address.length > 0 ? `<p style="color:#666;font-size:13px;"><strong>Shipping to</strong><br>${address.map(escapeHtml).join('<br>')}</p>` : ''}`),
+    text: `${greeting(order)}
+
+Thank you for your order #${order.id}. We'll email you again when it ships.
+
+${itemsText(order)}
+${address.length > 0 ? `\nShipping to:\n${address.join('\n')}\n` : ''}`,
+  };
+}
+
+export function orderShippedEmail(order: OrderWithItems): RenderedMail {
+  const subject = `Your ${BRAND} order #${order.id} has shipped`;
+  const tracking = [order.trackingCarrier, order.trackingNumber].filter(Boolean).join(' ');
+  return {
+    subject,
+    html: layout(subject, `<p>${escapeHtml(greeting(order))}</p>
+<p>Your order is on its way.</p>
+${tracking ? `<p><strong>Tracking:</strong> ${escapeHtml(tracking)}</p>` : ''}
+${itemsHtml(order)}`),
+    text: `${greeting(order)}
+
+Your order #${order.id} is on its way.
+${tracking ? `\nTracking: ${tracking}\n` : ''}
+${itemsText(order)}
+`,
+  };
+}
+
+export function orderRefundedEmail(order: OrderWithItems, amount: string): RenderedMail {
+  const full = order.status === 'refunded';
+  const subject = `Refund for your ${BRAND} order #${order.id}`;
+  const summary = full
+    ? `We've refunded your order in full (${formatMoney(amount)}).`
+    : `We've refunded ${formatMoney(amount)} of your order.`;
+  return {
+    subject,
+    html: layout(subject, `<p>${escapeHtml(greeting(order))}</p>
+<p>${escapeHtml(summary)} It can take 5–10 business days to appear on your statement.</p>
+${itemsHtml(order)}`),
+    text: `${greeting(order)}
+
+${summary} It can take 5-10 business days to appear on your statement.
+
+Order #${order.id}
+${itemsText(order)}
+`,
+  };
+}
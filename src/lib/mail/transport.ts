@@ -0,0 +1,176 @@
+/**
+ * Mail Transports - Where outgoing mail actually goes
+ *
+ * MAIL_TRANSPORT picks one:
+ * - smtp:    any SMTP relay through nodemailer (SMTP_HOST, SMTP_PORT, SMTP_USER, SMTP_PASS,
+ *            SMTP_SECURE, SMTP_ALLOW_INSECURE_AUTH)
+ * - resend:  the Resend HTTP API (RESEND_API_KEY)
+ * - file:    writes .eml files to MAIL_FILE_DIR, for development and tests
+ * - console: logs the message (the default when nothing is configured)
+ */
+
+import { mkdir, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import nodemailer, { type SendMailOptions } from 'nodemailer';
+import { nanoid } from '../nanoid';
+
+export interface MailMessage {
+  to: string;
+  from: string;
+  replyTo?: string;
+  subject: string;
+  html: string;
+  text: string;
+}
+
+export interface SendResult {
+  messageId?: string;
+}
+
+export interface MailTransport {
+  name: string;
+  send(message: MailMessage): Promise<SendResult>;
+}
+
+// Queued mail is delivered inline (webhooks, forgot-password), so a dead relay must fail fast
+const SMTP_TIMEOUT_MS = 15000;
+
+function newMessageId(from: string): string {
+  const address = from.match(/<([^>]+)>/)?.[1] ?? from;
+  const domain = address.trim().split('@')[1] || 'localhost';
+  return `${nanoid()}@${domain}`;
+}
+
+/** The message as nodemailer takes it, with our own Message-ID */
+function toMailOptions(message: MailMessage, messageId: string): SendMailOptions {
+  return {
+    from: message.from,
+    to: message.to,
+    replyTo: message.replyTo,
+    subject: message.subject,
+    html: message.html,
+    text: message.text,
+    messageId: `<${messageId}>`,
+  };
+}
+
+export function createSmtpTransport(): MailTransport {
+  const host = process.env.SMTP_HOST;
+  if (!host) throw new Error('SMTP_HOST environment variable is not set');
+  const port = Number(process.env.SMTP_PORT) || 587;
+  const secure = process.env.SMTP_SECURE ? process.env.SMTP_SECURE === 'true' : port === 465;
+  const user = process.env.SMTP_USER || undefined;
+
+  const smtp = nodemailer.createTransport({
+    host,
+    port,
+    secure,
+    auth: user ? { user, pass: process.env.SMTP_PASS || '' } : undefined,
+    // Credentials never go out in cleartext: without implicit TLS the relay must
+    // offer STARTTLS, unless SMTP_ALLOW_INSECURE_AUTH=true says otherwise
+    requireTLS: !secure && !!user && process.env.SMTP_ALLOW_INSECURE_AUTH !== 'true',
+    connectionTimeout: SMTP_TIMEOUT_MS,
+    greetingTimeout: SMTP_TIMEOUT_MS,
+    socketTimeout: SMTP_TIMEOUT_MS,
+  });
+
+  return {
+    name: 'smtp',
+    async send(message) {
+      const messageId = newMessageId(message.from);
+      await smtp.sendMail(toMailOptions(message, messageId));
+      return { messageId };
+    },
+  };
+}
+
+export function createResendTransport(): MailTransport {
+  const apiKey = process.env.RESEND_API_KEY;
+  if (!apiKey) throw new Error('RESEND_API_KEY environment variable is not set');
+
+  return {
+    name: 'resend',
+    async send(message) {
+      const res = await fetch('https://api.resend.com/emails', {
+        method: 'POST',
+        headers: {
+          Authorization: `Bearer ${apiKey}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          from: message.from,
+          to: [message.to],
+          subject: message.subject,
+          html: message.html,
+          text: message.text,
+          ...(message.replyTo && { reply_to: message.replyTo }),
+        }),
+      });
+      if (!res.ok) {
+        const body = await res.text().catch(() => '');
+        throw new Error(`Resend API error ${res.status}: ${body.slice(0, 500)}`);
+      }
+      const data = await res.json().catch(() => ({}));
+      return { messageId: data.id };
+    },
+  };
+}
+
+export function createFileTransport(dir = process.env.MAIL_FILE_DIR || '.mail'): MailTransport {
+  // Builds the same MIME message SMTP would send, without sending it
+  const eml = nodemailer.createTransport({ streamTransport: true, buffer: true });
+  return {
+    name: 'file',
+    async send(message) {
+      const messageId = newMessageId(message.from);
+      await mkdir(dir, { recursive: true });
+      const file = path.join(dir, `${Date.now()}-${messageId.split('@')[0]}.eml`);
+      const { message: raw } = await eml.sendMail(toMailOptions(message, messageId));
+      await writeFile(file, raw);
+      console.log(`[mail] Wrote "${message.subject}" for ${message.to} to ${file}`);
+      return { messageId };
+    },
+  };
+}
+
+export function createConsoleTransport(): MailTransport {
+  return {
+    name: 'console',
+    async send(message) {
+      console.log('\n📧 EMAIL');
+      console.log('================================');
+      console.log('To:', message.to);
+      console.log('Subject:', message.subject);
+      console.log('--------------------------------');
+      console.log(message.text);
+      console.log('================================\n');
+      return {};
+    },
+  };
+}
+
+let transport: MailTransport | null = null;
+
+/** The transport configured by MAIL_TRANSPORT (created once) */
+export function getMailTransport(): MailTransport {
+  if (transport) return transport;
+  switch (process.env.MAIL_TRANSPORT) {
+    case 'smtp':
+      transport = createSmtpTransport();
+      break;
+    case 'resend':
+      transport = createResendTransport();
+      break;
+    case 'file':
+      transport = createFileTransport();
+      break;
+    default:
+      transport = createConsoleTransport();
+  }
+  return transport;
+}
+
+/** Swap the transport (tests and scripts) */
+export function setMailTransport(next: MailTransport | null): void {
+  transport = next;
+}
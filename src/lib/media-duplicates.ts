@@ -0,0 +1,227 @@
+/**
+ * Media Duplicates - Find and merge copies of the same file in the library
+ *
+ * New uploads are matched by content hash (see uploadMedia). Items uploaded
+ * before hashes were stored have none, so they're matched on type, stored size
+ * and dimensions instead: processing the same source always produces the same
+ * output, so that is only a likely match and the admin confirms each merge.
+ */
+
+import { db } from './db';
+import { media, workMedia, productImages, postMedia, audioPosts, audioPostTracks } from './db/schema';
+import { eq, and, inArray, isNull } from 'drizzle-orm';
+import { purgeMedia } from './upload-service';
+import { syncRefCounts } from './media-usage';
+import { getHomepageVideo, setHomepageVideo } from './db/queries';
+import type { Media } from './db/schema';
+
+export interface DuplicateGroup {
+  key: string;
+  // 'content': identical uploaded bytes; 'fingerprint': same type, size and dimensions
+  match: 'content' | 'fingerprint';
+  // Suggested survivor first (most used, then oldest)
+  media: Media[];
+}
+
+export interface MergeResult {
+  success: boolean;
+  error?: string;
+  merged?: string[];
+  repointed?: {
+    workMedia: number;
+    productImages: number;
+    postMedia: number;
+    audioPosts: number;
+    homepageVideo: boolean;
+  };
+}
+
+type VariantMap = Record<string, { url?: string } | undefined>;
+
+function fingerprint(item: Media): string | null {
+  if (!item.fileSize) return null;
+  return [item.mediaType, item.fileSize, item.width ?? '', item.height ?? ''].join(':');
+}
+
+function byPreference(a: Media, b: Media): number {
+  if (a.refCount !== b.refCount) return b.refCount - a.refCount;
+  return new Date(a.createdAt ?? 0).getTime() - new Date(b.createdAt ?? 0).getTime();
+}
+
+/**
+ * Group library items (not deleted) that are copies of the same file
+ */
+export async function findDuplicateMedia(): Promise<DuplicateGroup[]> {
+  const items = await db.select().from(media).where(isNull(media.deletedAt)).orderBy(media.createdAt);
+
+  const groups = new Map<string, DuplicateGroup>();
+  const groupByFingerprint = new Map<string, string>();
+
+  const add = (key: string, match: DuplicateGroup['match'], item: Media) => {
+    const group = groups.get(key) ?? { key, match, media: [] };
+    group.media.push(item);
+    // A group is only as certain as its weakest match
+    if (match === 'fingerprint') group.match = 'fingerprint';
+    groups.set(key, group);
+  };
+
+  // Hashed items group on content; remember their fingerprint so legacy copies can join
+  for (const item of items) {
+    if (!item.contentHash) continue;
+    const key = `hash:${item.contentHash}`;
+    add(key, 'content', item);
+    const print = fingerprint(item);
+    if (print && !groupByFingerprint.has(print)) groupByFingerprint.set(print, key);
+  }
+
+  for (const item of items) {
+    if (item.contentHash) continue;
+    const print = fingerprint(item);
+    if (!print) continue;
+    const key = groupByFingerprint.get(print) ?? `fingerprint:${print}`;
+    groupByFingerprint.set(print, key);
+    add(key, 'fingerprint', item);
+  }
+
+  return [...groups.values()]
+    .filter((group) => group.media.length > 1)
+    .map((group) => ({ ...group, media: group.media.sort(byPreference) }));
+}
+
+/**
+ * Map each URL of a duplicate (main file and variants) to the survivor's
+ * equivalent, so places that copied a URL keep pointing at a live file
+ */
+function buildUrlMap(keep: Media, duplicates: Media[]): Map<string, string> {
+  const keepVariants = (keep.variants ?? {}) as VariantMap;
+  const urls = new Map<string, string>();
+  for (const duplicate of duplicates) {
+    urls.set(duplicate.url, keep.url);
+    for (const [size, variant] of Object.entries((duplicate.variants ?? {}) as VariantMap)) {
+      if (variant?.url) urls.set(variant.url, keepVariants[size]?.url || keep.url);
+    }
+  }
+  return urls;
+}
+
+/**
+ * Merge duplicates into one library item: every work, product, post, audio post
+ * and the homepage video that used a duplicate is repointed at `keepId`, the
+ * duplicates are deleted from the database and CDN, and the survivor's
+ * reference count is recounted.
+ */
+export async function mergeDuplicateMedia(keepId: string, duplicateIds: string[]): Promise<MergeResult> {
+  const ids = [...new Set(duplicateIds)].filter((id) => id !== keepId);
+  if (ids.length === 0) {
+    return { success: false, error: 'No duplicates to merge' };
+  }
+
+  const [keep] = await db
+    .select()
+    .from(media)
+    .where(and(eq(media.id, keepId), isNull(media.deletedAt)))
+    .limit(1);
+  if (!keep) {
+    return { success: false, error: 'Media to keep not found' };
+  }
+
+  const duplicates = await db
+    .select()
+    .from(media)
+    .where(and(inArray(media.id, ids), isNull(media.deletedAt)));
+  if (duplicates.length !== ids.length) {
+    return { success: false, error: 'Some duplicates were not found' };
+  }
+  if (duplicates.some((d) => d.mediaType !== keep.mediaType)) {
+    return { success: false, error: 'Only media of the same type can be merged' };
+  }
+
+  const urls = buildUrlMap(keep, duplicates);
+  const keepVariants = (keep.variants ?? {}) as VariantMap;
+
+  // Works store their own copy of the URL and variants: the media's variants, or
+  // plain variant URLs ({ sm: url, ... }) on older rows
+  const workRows = await db.select().from(workMedia).where(inArray(workMedia.mediaId, ids));
+  for (const row of workRows) {
+    const rowVariants = row.variants && typeof row.variants === 'object' ? row.variants as Record<string, unknown> : null;
+    const variants = !rowVariants
+      ? row.variants
+      : Object.values(rowVariants).every((value) => typeof value === 'string')
+        ? Object.fromEntries(Object.entries(rowVariants as Record<string, string>).map(([size, url]) => [
+            size,
+            urls.get(url) || keepVariants[size]?.url || keep.url,
+          ]))
+        : keep.variants;
+    await db
+      .update(workMedia)
+      .set({
+        mediaId: keep.id,
+        url: urls.get(row.url) || keep.url,
+        variants,
+        blurhash: keep.blurhash,
+        dominantColor: keep.dominantColor,
+        width: keep.width,
+        height: keep.height,
+      })
+      .where(eq(workMedia.id, row.id));
+  }
+
+  const imageRows = await db.select().from(productImages).where(inArray(productImages.mediaId, ids));
+  for (const row of imageRows) {
+    await db
+      .update(productImages)
+      .set({ mediaId: keep.id, imageUrl: urls.get(row.imageUrl) || keep.url })
+      .where(eq(productImages.id, row.id));
+  }
+
+  const postRows = await db
+    .update(postMedia)
+    .set({ mediaId: keep.id })
+    .where(inArray(postMedia.mediaId, ids))
+    .returning({ id: postMedia.id });
+
+  // Audio posts reference files by URL only
+  let audioPostCount = 0;
+  for (const [from, to] of urls) {
+    const files = await db.update(audioPostTracks).set({ audioFile: to }).where(eq(audioPostTracks.audioFile, from)).returning({ id: audioPostTracks.audioPostId });
+    await db.update(audioPosts).set({ audioFile: to }).where(eq(audioPosts.audioFile, from));
+    const artwork = await db.update(audioPosts).set({ artwork: to }).where(eq(audioPosts.artwork, from)).returning({ id: audioPosts.id });
+    audioPostCount += files.length + artwork.length;
+  }
+
+  const homepageVideo = await getHomepageVideo();
+  const homepageVideoMoved = !!homepageVideo && ids.includes(homepageVideo.mediaId);
+  if (homepageVideoMoved) {
+    await setHomepageVideo(keep.id);
+  }
+
+  // The survivor takes over a content hash, if it had none
+  await db
+    .update(media)
+    .set({
+      contentHash: keep.contentHash ?? duplicates.find((d) => d.contentHash)?.contentHash ?? null,
+      updatedAt: new Date(),
+    })
+    .where(eq(media.id, keep.id));
+
+  // Nothing references the duplicates any more
+  const merged: string[] = [];
+  for (const duplicate of duplicates) {
+    const result = await purgeMedia(duplicate.id);
+    if (result.success) merged.push(duplicate.id);
+    else console.warn(`[mergeDuplicateMedia] Could not delete ${duplicate.id}:`, result.error);
+  }
+  await syncRefCounts([keep.id]);
+
+  return {
+    success: true,
+    merged,
+    repointed: {
+      workMedia: workRows.length,
+      productImages: imageRows.length,
+      postMedia: postRows.length,
+      audioPosts: audioPostCount,
+      homepageVideo: homepageVideoMoved,
+    },
+  };
+}
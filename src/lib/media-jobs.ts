@@ -0,0 +1,774 @@
+/**
+ * Media Jobs - Background processing for uploaded images, videos and lossless audio
+ *
+ * uploadMedia stores the original and queues a job instead of running Sharp and
+ * FFmpeg inside the request. The worker (`npm run media:worker`) claims due jobs,
+ * generates the web variants, uploads them to Bunny and marks the media 'ready'.
+ *
+ * Job states: pending → processing → done, or back to pending with a backoff
+ * when an attempt fails, until it runs out of attempts and ends in 'error'.
+ *
+ * 'crops' jobs generate the named crops an admin saved (see setMediaFocus) for an
+ * image that is already in use, so they leave the media's own status alone.
+ * 'poster' jobs do the same for a video's poster frame (see setVideoPoster).
+ * 'analyze' jobs measure an audio upload's waveform and loudness; the file is
+ * playable as uploaded, so they don't hold it back either.
+ */
+
+import { db } from './db';
+import { media, mediaJobs, workMedia, type Media, type MediaJob } from './db/schema';
+import { eq, and, or, lt, lte, desc, inArray, isNull } from 'drizzle-orm';
+import { unlink } from 'fs/promises';
+import { join, extname } from 'path';
+import { nanoid } from './nanoid';
+import { uploadToBunny, downloadFromBunny, deleteFromBunny, getStoragePath } from './bunny';
+import {
+  processImageBuffer,
+  processVideoBuffer,
+  processAudioBuffer,
+  packageHls,
+  cleanupHls,
+  extractPosterFrame,
+  extractThumbnailSprite,
+  videoSource,
+  defaultPosterTime,
+  analyzeAudio,
+  AUDIO_CONFIG,
+  encodeAvif,
+  cropImageBuffer,
+  getFileHash,
+  type ProcessedImage,
+  type AudioVariant,
+  type AudioVariants,
+  type ProcessedVideo,
+  type ProcessedHls,
+  type VideoFrame,
+  type ThumbnailSprite,
+} from './media-process';
+import { readFile } from 'fs/promises';
+import { describeVariants, isSizeVariant, sizeVariants, sameCropRect, type CropName, type MediaCrops } from './media-srcset';
+
+export const MAX_MEDIA_JOB_ATTEMPTS = 4;
+
+// Wait before each retry: 1 minute, 5 minutes, 30 minutes
+const RETRY_DELAYS_MINUTES = [1, 5, 30];
+
+// Progress updates keep a running job fresh; one this quiet crashed mid-way
+const STALE_PROCESSING_MINUTES = 30;
+
+// Write progress to the database at most this often
+const PROGRESS_INTERVAL_MS = 2000;
+
+export interface MediaJobRunResult {
+  done: number;
+  retrying: number;
+  failed: number;
+}
+
+export interface AvifBackfillResult {
+  updated: number;
+  skipped: number;
+  failed: number;
+}
+
+export interface AudioAnalysisBackfillResult {
+  queued: number;
+  skipped: number;
+}
+
+export interface AudioStreamBackfillResult {
+  queued: number;
+  skipped: number;
+}
+
+type StoredVariant = { url: string; width: number; height: number; size: number; avif?: { url: string; size: number } };
+
+export type MediaJobType = 'process' | 'crops' | 'poster' | 'analyze';
+
+function minutesFromNow(minutes: number): Date {
+  return new Date(Date.now() + minutes * 60 * 1000);
+}
+
+/**
+ * Queue processing for a media item whose original is stored at `originalPath`,
+ * or crop generation for an image. A job of the same type that hasn't started
+ * yet is reused, since it will pick up the latest state when it runs.
+ */
+export async function enqueueMediaJob(mediaId: string, type: MediaJobType = 'process'): Promise<MediaJob> {
+  const [waiting] = await db
+    .select()
+    .from(mediaJobs)
+    .where(and(eq(mediaJobs.mediaId, mediaId), eq(mediaJobs.type, type), eq(mediaJobs.status, 'pending')))
+    .limit(1);
+  const job = waiting ?? (await db.insert(mediaJobs).values({ id: nanoid(), mediaId, type }).returning())[0];
+
+  if (type === 'process') {
+    await db
+      .update(media)
+      .set({ status: 'pending', updatedAt: new Date() })
+      .where(eq(media.id, mediaId));
+  }
+  return job;
+}
+
+/**
+ * Claim a job for processing, so two workers never run the same job
+ */
+async function claim(id: string): Promise<MediaJob | null> {
+  const [job] = await db
+    .update(mediaJobs)
+    .set({ status: 'processing', startedAt: new Date(), updatedAt: new Date() })
+    .where(and(
+      eq(mediaJobs.id, id),
+      or(
+        eq(mediaJobs.status, 'pending'),
+        and(eq(mediaJobs.status, 'processing'), lt(mediaJobs.updatedAt, minutesFromNow(-STALE_PROCESSING_MINUTES)))
+      )
+    ))
+    .returning();
+  return job ?? null;
+}
+
+/**
+ * Report progress (0-100), throttled so a long encode doesn't flood the database
+ */
+function progressReporter(jobId: string): (percent: number) => void {
+  let lastWrite = 0;
+  let lastPercent = -1;
+  return (percent) => {
+    const now = Date.now();
+    if (percent === lastPercent || now - lastWrite < PROGRESS_INTERVAL_MS) return;
+    lastWrite = now;
+    lastPercent = percent;
+    db.update(mediaJobs)
+      .set({ progress: Math.min(Math.max(Math.round(percent), 0), 100), updatedAt: new Date() })
+      .where(eq(mediaJobs.id, jobId))
+      .catch((error) => console.warn(`[media-jobs] Progress update for ${jobId} failed:`, error));
+  };
+}
+
+/**
+ * Fetch variant buffer from local file (helper for image processing)
+ */
+async function fetchVariantBuffer(url: string): Promise<Buffer | null> {
+  try {
+    // URL is like "/media/images/file.webp" - convert to local path
+    const localPath = url.replace('/media/', '');
+    const { readFile } = await import('fs/promises');
+    const filePath = join(process.cwd(), 'public', 'media', localPath);
+    return await readFile(filePath);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Clean up temporary local files after upload to Bunny
+ */
+async function cleanupTempFiles(variants: Record<string, { url: string; avif?: { url: string } }>): Promise<void> {
+  const urls = Object.values(variants).flatMap((v) => (v.avif ? [v.url, v.avif.url] : [v.url]));
+  for (const url of urls) {
+    try {
+      // URL is like "/media/images/file.webp" - convert to local path
+      const localPath = url.replace('/media/', '');
+      const filePath = join(process.cwd(), 'public', 'media', localPath);
+      await unlink(filePath);
+    } catch {
+      // Ignore errors (file may not exist or already deleted)
+    }
+  }
+}
+
+/**
+ * Upload streaming audio variants to Bunny as `${datePath}/${baseName}-${name}.${ext}`
+ */
+async function uploadAudioVariants(
+  variants: Record<string, AudioVariant>,
+  datePath: string,
+  baseName: string,
+  onProgress: (percent: number) => void
+): Promise<Record<string, AudioVariant>> {
+  const uploaded: Record<string, AudioVariant> = {};
+  const entries = Object.entries(variants);
+
+  for (const [index, [name, variant]] of entries.entries()) {
+    const variantBuffer = await fetchVariantBuffer(variant.url);
+    if (variantBuffer) {
+      uploaded[name] = {
+        ...variant,
+        url: await uploadToBunny(
+          variantBuffer,
+          `${datePath}/${baseName}-${name}${extname(variant.url)}`,
+          { contentType: variant.mimeType.split(';')[0] }
+        ),
+        size: variantBuffer.length,
+      };
+    }
+    onProgress(((index + 1) / entries.length) * 100);
+  }
+
+  return uploaded;
+}
+
+/**
+ * Upload processed variants to Bunny as `${datePath}/${baseName}-${size}.${ext}`,
+ * with image AVIF copies next to them as `.avif`
+ */
+async function uploadVariants<V extends { url: string; width: number; height: number; avif?: { url: string } }>(
+  variants: Record<string, V>,
+  datePath: string,
+  baseName: string,
+  ext: 'webp' | 'mp4',
+  onProgress: (percent: number) => void
+): Promise<Record<string, StoredVariant>> {
+  const uploaded: Record<string, StoredVariant> = {};
+  const entries = Object.entries(variants);
+
+  for (const [index, [sizeName, variantData]] of entries.entries()) {
+    // The variant URL in result is local, we need to upload to Bunny
+    const variantBuffer = await fetchVariantBuffer(variantData.url);
+    if (variantBuffer) {
+      const bunnyUrl = await uploadToBunny(
+        variantBuffer,
+        `${datePath}/${baseName}-${sizeName}.${ext}`,
+        { contentType: ext === 'webp' ? 'image/webp' : 'video/mp4' }
+      );
+
+      uploaded[sizeName] = {
+        url: bunnyUrl,
+        width: variantData.width,
+        height: variantData.height,
+        size: variantBuffer.length,
+      };
+
+      const avifBuffer = variantData.avif ? await fetchVariantBuffer(variantData.avif.url) : null;
+      if (avifBuffer) {
+        uploaded[sizeName].avif = {
+          url: await uploadToBunny(avifBuffer, `${datePath}/${baseName}-${sizeName}.avif`, { contentType: 'image/avif' }),
+          size: avifBuffer.length,
+        };
+      }
+    }
+    onProgress(((index + 1) / entries.length) * 100);
+  }
+
+  return uploaded;
+}
+
+/**
+ * Upload an HLS package to `${dir}/`, keeping the playlists' relative paths.
+ * Returns the master playlist URL.
+ */
+async function uploadHls(hls: ProcessedHls, dir: string, onProgress: (percent: number) => void): Promise<string> {
+  let masterUrl = '';
+  for (const [index, file] of hls.files.entries()) {
+    const url = await uploadToBunny(await readFile(join(hls.dir, file)), `${dir}/${file}`, {
+      contentType: file.endsWith('.m3u8') ? 'application/vnd.apple.mpegurl' : 'video/mp2t',
+    });
+    if (file === hls.master) masterUrl = url;
+    onProgress(((index + 1) / hls.files.length) * 100);
+  }
+  return masterUrl;
+}
+
+/**
+ * Generate and upload the web variants for one media item, then mark it ready
+ */
+async function processMedia(item: Media, buffer: Buffer, report: (percent: number) => void): Promise<void> {
+  // Media paths are `${datePath}/${id}`; variants go next to the original upload
+  const datePath = item.path.slice(0, item.path.lastIndexOf('/'));
+  const baseName = item.filename.replace(/\.[^/.]+$/, '');
+
+  if (item.mediaType === 'image') {
+    // Encoding is most of the work; uploading the variants is the last 15%
+    const { result } = await processImageBuffer(buffer, `${datePath}/${baseName}.webp`, (percent) => report(5 + percent * 0.8));
+    const variants = await uploadVariants(result.variants, datePath, baseName, 'webp', (percent) => report(85 + percent * 0.15));
+    await cleanupTempFiles(result.variants);
+
+    await db
+      .update(media)
+      .set({
+        filename: `${baseName}.webp`,
+        mimeType: 'image/webp',
+        url: variants.xl?.url || variants.lg?.url || variants.md?.url || variants.sm?.url || item.url,
+        variants: { ...variants, ...describeVariants(variants) },
+        // Total size of all variants
+        fileSize: Object.values(variants).reduce((sum, v) => sum + v.size + (v.avif?.size ?? 0), 0),
+        width: result.metadata.width,
+        height: result.metadata.height,
+        blurhash: result.blurhash,
+        dominantColor: result.dominantColor,
+        status: 'ready',
+        updatedAt: new Date(),
+      })
+      .where(eq(media.id, item.id));
+    // A work can attach the image before it's processed; swap its copy of the raw upload
+    // for the variants, picked the way the works API picks them
+    await db
+      .update(workMedia)
+      .set({
+        url: variants.lg?.url || variants.md?.url || variants.sm?.url || variants.xl?.url || item.url,
+        variants: { ...variants, ...describeVariants(variants) },
+        blurhash: result.blurhash,
+        dominantColor: result.dominantColor,
+        width: result.metadata.width,
+        height: result.metadata.height,
+      })
+      .where(eq(workMedia.mediaId, item.id));
+    return;
+  }
+
+  if (item.mediaType === 'video') {
+    const { result } = await processVideoBuffer(buffer, `${datePath}/${baseName}.mp4`, (percent) => report(5 + percent * 0.7));
+
+    // The HLS renditions, poster and sprite are cut from the encoded MP4s. A
+    // poster time picked before a reprocess is kept.
+    const posterTime = Math.min(item.posterTime ?? defaultPosterTime(result.metadata.duration), result.metadata.duration || 0);
+    let hls: ProcessedHls | null = null;
+    let variants: ProcessedVideo['variants'];
+    let hlsUrl: string;
+    let poster: VideoFrame;
+    let posterUrl: string;
+    let sprite: ThumbnailSprite;
+    let spriteUrl: string;
+    try {
+      hls = await packageHls(result);
+      poster = await extractPosterFrame(videoSource(result), posterTime);
+      sprite = await extractThumbnailSprite(videoSource(result), result.metadata);
+      report(80);
+
+      variants = await uploadVariants(result.variants, datePath, baseName, 'mp4', (percent) => report(80 + percent * 0.1));
+      hlsUrl = await uploadHls(hls, `${datePath}/${baseName}-hls`, (percent) => report(90 + percent * 0.1));
+      posterUrl = await uploadToBunny(poster.buffer, `${datePath}/${posterName(baseName, posterTime)}`, { contentType: 'image/webp' });
+      spriteUrl = await uploadToBunny(sprite.buffer, `${datePath}/${baseName}-sprite.webp`, { contentType: 'image/webp' });
+    } finally {
+      await cleanupTempFiles(result.variants);
+      if (hls) await cleanupHls(hls);
+    }
+
+    await db
+      .update(media)
+      .set({
+        filename: `${baseName}.mp4`,
+        mimeType: 'video/mp4',
+        url: variants['1080p']?.url || variants['720p']?.url || variants['480p']?.url || variants.original?.url || item.url,
+        variants,
+        hlsUrl,
+        posterUrl,
+        posterTime,
+        duration: result.metadata.duration,
+        sprite: {
+          url: spriteUrl,
+          frameWidth: sprite.frameWidth,
+          frameHeight: sprite.frameHeight,
+          count: sprite.count,
+          interval: sprite.interval,
+        },
+        fileSize: Object.values(variants).reduce((sum, v) => sum + v.size, 0),
+        width: result.metadata.width,
+        height: result.metadata.height,
+        blurhash: poster.blurhash,
+        dominantColor: poster.dominantColor,
+        status: 'ready',
+        updatedAt: new Date(),
+      })
+      .where(eq(media.id, item.id));
+    return;
+  }
+
+  if (item.mediaType === 'audio') {
+    const ext = item.filename.split('.').pop() || 'wav';
+    const { result } = await processAudioBuffer(buffer, `${datePath}/${baseName}.${ext}`, (percent) => report(5 + percent * 0.8));
+    let variants: Record<string, AudioVariant>;
+    try {
+      variants = await uploadAudioVariants(result.variants, datePath, baseName, (percent) => report(85 + percent * 0.15));
+    } finally {
+      await cleanupTempFiles(result.variants);
+    }
+
+    // The upload stays as the master (for downloads); url moves to the default stream
+    const master = (item.variants as AudioVariants | null)?.master ?? { url: item.url, size: item.fileSize, mimeType: item.mimeType };
+    await db
+      .update(media)
+      .set({
+        url: variants[AUDIO_CONFIG.defaultVariant]?.url || item.url,
+        mimeType: variants[AUDIO_CONFIG.defaultVariant]?.mimeType.split(';')[0] || item.mimeType,
+        variants: { ...variants, master } as Media['variants'],
+        fileSize: Object.values(variants).reduce((sum, v) => sum + v.size, 0),
+        waveform: result.analysis.peaks,
+        loudness: result.analysis.loudness,
+        duration: result.analysis.duration,
+        status: 'ready',
+        updatedAt: new Date(),
+      })
+      .where(eq(media.id, item.id));
+    return;
+  }
+
+  throw new Error(`Nothing to process for ${item.mediaType} media`);
+}
+
+/**
+ * The best copy of an image to derive new files from: the stored original when
+ * there is one, else its largest variant
+ */
+async function loadSourceImage(item: Media): Promise<Buffer> {
+  if (item.originalPath) return downloadFromBunny(item.originalPath);
+
+  const url = sizeVariants(item.variants).pop()?.url ?? item.url;
+  const response = await fetch(url);
+  if (!response.ok) throw new Error(`Could not fetch ${url}: ${response.status}`);
+  return Buffer.from(await response.arrayBuffer());
+}
+
+/**
+ * Generate and upload variants for the named crops that don't have them yet
+ */
+async function processCrops(item: Media, buffer: Buffer, report: (percent: number) => void): Promise<void> {
+  const datePath = item.path.slice(0, item.path.lastIndexOf('/'));
+  const baseName = item.filename.replace(/\.[^/.]+$/, '');
+  const todo = (Object.entries(item.crops ?? {}) as [CropName, NonNullable<MediaCrops[CropName]>][])
+    .filter(([, crop]) => !crop.variants);
+
+  const generated: MediaCrops = {};
+  for (const [index, [name, crop]] of todo.entries()) {
+    const step = (percent: number) => report(5 + ((index + percent / 100) / todo.length) * 90);
+    const cropped = await cropImageBuffer(buffer, crop.rect);
+    // A new name per area, so the CDN never serves a crop from before the focal point moved
+    const cropBase = `${baseName}-${name}-${await getFileHash(Buffer.from(JSON.stringify(crop.rect)))}`;
+    const { result } = await processImageBuffer(cropped, `${datePath}/${cropBase}.webp`, (percent) => step(percent * 0.8));
+    const variants = await uploadVariants(result.variants, datePath, cropBase, 'webp', (percent) => step(80 + percent * 0.2));
+    await cleanupTempFiles(result.variants);
+    generated[name] = { rect: crop.rect, variants, ...describeVariants(variants) };
+  }
+
+  // The admin may have changed the crops while these were generated: only fill
+  // in crops whose area is still the one that was cut
+  const [current] = await db.select({ crops: media.crops }).from(media).where(eq(media.id, item.id)).limit(1);
+  const crops: MediaCrops = { ...(current?.crops ?? {}) };
+  for (const [name, crop] of Object.entries(generated) as [CropName, NonNullable<MediaCrops[CropName]>][]) {
+    if (sameCropRect(crops[name]?.rect, crop.rect)) crops[name] = crop;
+  }
+  await db
+    .update(media)
+    .set({ crops, updatedAt: new Date() })
+    .where(eq(media.id, item.id));
+}
+
+/**
+ * Poster file name. It changes with the timestamp, so the CDN never serves the
+ * previous frame.
+ */
+function posterName(baseName: string, seconds: number): string {
+  return `${baseName}-poster-${Math.round(seconds * 1000)}.webp`;
+}
+
+/**
+ * Cut the poster at the video's chosen timestamp from its largest MP4 on the
+ * CDN, and swap it in along with the placeholders taken from it
+ */
+async function processPoster(item: Media, report: (percent: number) => void): Promise<void> {
+  if (item.posterTime == null) throw new Error('No poster time to extract');
+  const datePath = item.path.slice(0, item.path.lastIndexOf('/'));
+  const baseName = item.filename.replace(/\.[^/.]+$/, '');
+  const variants = Object.values((item.variants ?? {}) as Record<string, { url?: string; height?: number }>)
+    .filter((v) => v?.url)
+    .sort((a, b) => (b.height ?? 0) - (a.height ?? 0));
+  const source = variants[0]?.url ?? item.url;
+
+  const poster = await extractPosterFrame(source, item.posterTime);
+  report(60);
+  const posterUrl = await uploadToBunny(poster.buffer, `${datePath}/${posterName(baseName, item.posterTime)}`, { contentType: 'image/webp' });
+  report(90);
+
+  // Only swap in the frame if the admin hasn't picked another one meanwhile
+  const [updated] = await db
+    .update(media)
+    .set({
+      posterUrl,
+      blurhash: poster.blurhash,
+      dominantColor: poster.dominantColor,
+      updatedAt: new Date(),
+    })
+    .where(and(eq(media.id, item.id), eq(media.posterTime, item.posterTime)))
+    .returning({ id: media.id });
+
+  // Superseded frames are dropped; otherwise the previous poster is
+  const stale = !updated ? posterUrl : item.posterUrl !== posterUrl ? item.posterUrl : null;
+  if (stale) {
+    await deleteFromBunny(getStoragePath(stale)).catch((e) => console.warn('[media-jobs] Failed to delete old poster:', e));
+  }
+}
+
+/**
+ * Measure an audio file's waveform and loudness from its CDN copy
+ */
+async function processAudioAnalysis(item: Media, report: (percent: number) => void): Promise<void> {
+  const analysis = await analyzeAudio(item.url);
+  report(90);
+  await db
+    .update(media)
+    .set({
+      waveform: analysis.peaks,
+      loudness: analysis.loudness,
+      duration: analysis.duration,
+      updatedAt: new Date(),
+    })
+    .where(eq(media.id, item.id));
+}
+
+/**
+ * Run one job. Returns its new status.
+ */
+async function runJob(id: string): Promise<'done' | 'pending' | 'error' | null> {
+  const job = await claim(id);
+  if (!job) return null;
+
+  const attempts = job.attempts + 1;
+  const report = progressReporter(job.id);
+
+  try {
+    const [item] = await db
+      .select()
+      .from(media)
+      .where(and(eq(media.id, job.mediaId), isNull(media.deletedAt)))
+      .limit(1);
+    if (!item) throw new Error('Media not found');
+
+    if (job.type === 'crops') {
+      const buffer = await loadSourceImage(item);
+      report(5);
+      await processCrops(item, buffer, report);
+    } else if (job.type === 'poster') {
+      await processPoster(item, report);
+    } else if (job.type === 'analyze') {
+      await processAudioAnalysis(item, report);
+    } else {
+      if (!item.originalPath) throw new Error('Media has no stored original to process');
+
+      await db
+        .update(media)
+        .set({ status: 'processing', updatedAt: new Date() })
+        .where(eq(media.id, item.id));
+
+      const buffer = await downloadFromBunny(item.originalPath);
+      report(5);
+      await processMedia(item, buffer, report);
+    }
+
+    await db
+      .update(mediaJobs)
+      .set({ status: 'done', progress: 100, attempts, lastError: null, completedAt: new Date(), updatedAt: new Date() })
+      .where(eq(mediaJobs.id, job.id));
+    return 'done';
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    const giveUp = attempts >= MAX_MEDIA_JOB_ATTEMPTS;
+    console.error(`[media-jobs] Attempt ${attempts}/${MAX_MEDIA_JOB_ATTEMPTS} for media ${job.mediaId} failed:`, message);
+
+    await db
+      .update(mediaJobs)
+      .set({
+        status: giveUp ? 'error' : 'pending',
+        attempts,
+        progress: 0,
+        lastError: message.slice(0, 1000),
+        nextAttemptAt: giveUp ? null : minutesFromNow(RETRY_DELAYS_MINUTES[attempts - 1] ?? 30),
+        updatedAt: new Date(),
+      })
+      .where(eq(mediaJobs.id, job.id));
+    if (job.type === 'process') {
+      await db
+        .update(media)
+        .set({ status: giveUp ? 'error' : 'pending', updatedAt: new Date() })
+        .where(eq(media.id, job.mediaId));
+    }
+    return giveUp ? 'error' : 'pending';
+  }
+}
+
+/**
+ * Run every job that is due (new, retry time reached, or stuck mid-run), oldest first
+ */
+export async function processMediaJobs(limit = 5): Promise<MediaJobRunResult> {
+  const now = new Date();
+  const due = await db
+    .select({ id: mediaJobs.id })
+    .from(mediaJobs)
+    .where(or(
+      and(eq(mediaJobs.status, 'pending'), lte(mediaJobs.nextAttemptAt, now)),
+      and(eq(mediaJobs.status, 'processing'), lt(mediaJobs.updatedAt, minutesFromNow(-STALE_PROCESSING_MINUTES)))
+    ))
+    .orderBy(mediaJobs.nextAttemptAt)
+    .limit(limit);
+
+  const result: MediaJobRunResult = { done: 0, retrying: 0, failed: 0 };
+  for (const { id } of due) {
+    const status = await runJob(id);
+    if (status === 'done') result.done++;
+    else if (status === 'pending') result.retrying++;
+    else if (status === 'error') result.failed++;
+  }
+  return result;
+}
+
+/**
+ * Latest processing job for each of these media items
+ */
+export async function getLatestMediaJobs(mediaIds: string[]): Promise<Record<string, MediaJob>> {
+  if (mediaIds.length === 0) return {};
+  const jobs = await db
+    .select()
+    .from(mediaJobs)
+    .where(and(inArray(mediaJobs.mediaId, mediaIds), eq(mediaJobs.type, 'process')))
+    .orderBy(desc(mediaJobs.createdAt));
+
+  const latest: Record<string, MediaJob> = {};
+  for (const job of jobs) {
+    if (!latest[job.mediaId]) latest[job.mediaId] = job;
+  }
+  return latest;
+}
+
+/** Give a media item whose processing failed for good another set of attempts */
+export async function retryMediaJob(mediaId: string): Promise<MediaJob | null> {
+  const [job] = await db
+    .update(mediaJobs)
+    .set({ status: 'pending', attempts: 0, progress: 0, nextAttemptAt: new Date(), updatedAt: new Date() })
+    .where(and(eq(mediaJobs.mediaId, mediaId), eq(mediaJobs.type, 'process'), eq(mediaJobs.status, 'error')))
+    .returning();
+  if (!job) return null;
+
+  await db
+    .update(media)
+    .set({ status: 'pending', updatedAt: new Date() })
+    .where(eq(media.id, mediaId));
+  return job;
+}
+
+/**
+ * Add the missing AVIF copies to a processed image. They are encoded from the
+ * stored original when there is one, else from the largest WebP variant, and
+ * uploaded next to each WebP; nothing already on the CDN is replaced.
+ * Returns false when the image has nothing to add.
+ */
+export async function addAvifVariants(item: Media): Promise<boolean> {
+  const variants = { ...(item.variants ?? {}) } as Record<string, unknown>;
+  const missing = Object.entries(variants).filter(
+    (entry): entry is [string, StoredVariant] => isSizeVariant(entry[1]) && !entry[1].avif
+  );
+  if (missing.length === 0) return false;
+
+  const source = await loadSourceImage(item);
+
+  let added = 0;
+  for (const [sizeName, variant] of missing) {
+    // Same width as the WebP it sits beside, so both srcsets list the same sizes
+    const avifBuffer = await encodeAvif(source, variant.width);
+    const path = getStoragePath(variant.url).replace(/\.[^/.]+$/, '.avif');
+    const url = await uploadToBunny(avifBuffer, path, { contentType: 'image/avif' });
+    variants[sizeName] = { ...variant, avif: { url, size: avifBuffer.length } };
+    added += avifBuffer.length;
+  }
+
+  const updated = { ...variants, ...describeVariants(variants) } as Media['variants'];
+  await db
+    .update(media)
+    .set({ variants: updated, fileSize: item.fileSize + added, updatedAt: new Date() })
+    .where(eq(media.id, item.id));
+  // Works keep their own copy of the variants
+  await db
+    .update(workMedia)
+    .set({ variants: updated })
+    .where(eq(workMedia.mediaId, item.id));
+  return true;
+}
+
+/**
+ * Add AVIF copies to every ready library image that doesn't have them yet
+ */
+export async function backfillAvifVariants(options: { dryRun?: boolean } = {}): Promise<AvifBackfillResult> {
+  const images = await db
+    .select()
+    .from(media)
+    .where(and(eq(media.mediaType, 'image'), eq(media.status, 'ready'), isNull(media.deletedAt)))
+    .orderBy(media.createdAt);
+
+  const result: AvifBackfillResult = { updated: 0, skipped: 0, failed: 0 };
+  for (const item of images) {
+    const sized = sizeVariants(item.variants);
+    if (sized.length === 0 || sized.every((v) => v.avif)) {
+      result.skipped++;
+      continue;
+    }
+    if (options.dryRun) {
+      console.log(`[media-jobs] Would add AVIF to ${item.id} (${item.originalName})`);
+      result.updated++;
+      continue;
+    }
+    try {
+      if (await addAvifVariants(item)) result.updated++;
+      else result.skipped++;
+    } catch (error) {
+      console.error(`[media-jobs] AVIF backfill for ${item.id} failed:`, error instanceof Error ? error.message : error);
+      result.failed++;
+    }
+  }
+  return result;
+}
+
+/**
+ * Queue waveform and loudness analysis for library audio uploaded before it
+ * was measured on upload
+ */
+export async function backfillAudioAnalysis(options: { dryRun?: boolean } = {}): Promise<AudioAnalysisBackfillResult> {
+  const tracks = await db
+    .select({ id: media.id, originalName: media.originalName, waveform: media.waveform })
+    .from(media)
+    .where(and(eq(media.mediaType, 'audio'), isNull(media.deletedAt)))
+    .orderBy(media.createdAt);
+
+  const result: AudioAnalysisBackfillResult = { queued: 0, skipped: 0 };
+  for (const track of tracks) {
+    if (track.waveform) {
+      result.skipped++;
+      continue;
+    }
+    if (options.dryRun) console.log(`[media-jobs] Would analyze ${track.id} (${track.originalName})`);
+    else await enqueueMediaJob(track.id, 'analyze');
+    result.queued++;
+  }
+  return result;
+}
+
+/**
+ * Queue streaming transcodes for lossless library audio uploaded before it was
+ * transcoded on upload. The file stays as the master: it becomes the original
+ * the job reads, and keeps playing from media.url until the streams are ready.
+ */
+export async function backfillAudioStreams(options: { dryRun?: boolean } = {}): Promise<AudioStreamBackfillResult> {
+  const tracks = await db
+    .select()
+    .from(media)
+    .where(and(eq(media.mediaType, 'audio'), inArray(media.mimeType, AUDIO_CONFIG.losslessTypes), isNull(media.deletedAt)))
+    .orderBy(media.createdAt);
+
+  const result: AudioStreamBackfillResult = { queued: 0, skipped: 0 };
+  for (const track of tracks) {
+    if (track.variants || track.status !== 'ready') {
+      result.skipped++;
+      continue;
+    }
+    if (options.dryRun) {
+      console.log(`[media-jobs] Would transcode ${track.id} (${track.originalName})`);
+    } else {
+      await db
+        .update(media)
+        .set({ originalPath: track.originalPath ?? getStoragePath(track.url), updatedAt: new Date() })
+        .where(eq(media.id, track.id));
+      await enqueueMediaJob(track.id);
+    }
+    result.queued++;
+  }
+  return result;
+}
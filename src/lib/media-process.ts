@@ -3,18 +3,22 @@
  * Handles image/audio/video processing for uploads
  */
 
-import { readFile, writeFile, mkdir, unlink } from 'fs/promises';
+import { readFile, writeFile, mkdir, unlink, readdir, rm } from 'fs/promises';
 import { join, extname, basename, dirname } from 'path';
 import { createHash } from 'node:crypto';
 import sharp from 'sharp';
 import ffmpeg from 'fluent-ffmpeg';
 import { encode } from 'blurhash';
+import type { CropRect } from './media-srcset';
 
 /**
  * Generate hash from file buffer
+ * The short form tags processed files; pass `full` for the whole digest,
+ * which is what duplicate detection compares.
  */
-export async function getFileHash(buffer: Buffer): Promise<string> {
-  return createHash('md5').update(buffer).digest('hex').slice(0, 8);
+export async function getFileHash(buffer: Buffer, full = false): Promise<string> {
+  const digest = createHash('md5').update(buffer).digest('hex');
+  return full ? digest : digest.slice(0, 8);
 }
 
 /**
@@ -89,6 +93,9 @@ export const MEDIA_CONFIG = {
     xl: 2560,
   },
   imageQuality: 80,
+  // AVIF copy of each size, served to browsers that support it (MEDIA_AVIF=false to skip)
+  avif: process.env.MEDIA_AVIF !== 'false',
+  avifQuality: 55,
 };
 
 // Image variant type
@@ -97,6 +104,7 @@ export interface ImageVariant {
   width: number;
   height: number;
   size: number;
+  avif?: { url: string; size: number };
 }
 
 // Processed image result
@@ -142,12 +150,47 @@ async function deleteFile(url: string): Promise<void> {
 }
 
 /**
- * Process image with Sharp - convert to WebP with multiple sizes
- * Stores temporarily in public directory for upload-service to read
+ * Encode an AVIF at most `maxWidth` wide
+ */
+export async function encodeAvif(buffer: Buffer, maxWidth: number): Promise<Buffer> {
+  return sharp(buffer)
+    .resize(maxWidth, null, {
+      withoutEnlargement: true,
+      fit: 'inside'
+    })
+    .avif({
+      quality: MEDIA_CONFIG.avifQuality,
+      effort: 4
+    })
+    .toBuffer();
+}
+
+/**
+ * Cut an area (fractions of the image's size) out of an image, keeping its format
+ */
+export async function cropImageBuffer(buffer: Buffer, rect: CropRect): Promise<Buffer> {
+  const { width = 0, height = 0 } = await sharp(buffer).metadata();
+  const left = Math.min(Math.round(rect.x * width), width - 1);
+  const top = Math.min(Math.round(rect.y * height), height - 1);
+  return sharp(buffer)
+    .extract({
+      left,
+      top,
+      width: Math.max(1, Math.min(Math.round(rect.width * width), width - left)),
+      height: Math.max(1, Math.min(Math.round(rect.height * height), height - top)),
+    })
+    .toBuffer();
+}
+
+/**
+ * Process image with Sharp - convert to WebP (and AVIF) with multiple sizes
+ * Stores temporarily in public directory for the media job to read.
+ * `onProgress` gets the percentage of variants done.
  */
 export async function processImageBuffer(
   buffer: Buffer,
-  filename: string
+  filename: string,
+  onProgress?: (percent: number) => void
 ): Promise<{ result: ProcessedImage }> {
   const id = basename(filename, extname(filename));
   const image = sharp(buffer);
@@ -156,9 +199,12 @@ export async function processImageBuffer(
   const originalHeight = metadata.height || 0;
 
   const variants: Record<string, ImageVariant> = {};
+  const sizes = Object.entries(MEDIA_CONFIG.sizes);
 
   // Generate WebP variants at different sizes
-  for (const [sizeName, maxWidth] of Object.entries(MEDIA_CONFIG.sizes)) {
+  for (const [index, [sizeName, maxWidth]] of sizes.entries()) {
+    onProgress?.(Math.round((index / sizes.length) * 100));
+
     // Skip if original is smaller than this size
     if (originalWidth < maxWidth * 0.5) continue;
 
@@ -186,6 +232,14 @@ export async function processImageBuffer(
       height: variantInfo.height || Math.round((variantInfo.width || maxWidth) * (originalHeight / originalWidth)),
       size: processedBuffer.length,
     };
+
+    if (MEDIA_CONFIG.avif) {
+      const avifBuffer = await encodeAvif(buffer, maxWidth);
+      variants[sizeName].avif = {
+        url: await storeFile(avifBuffer, `images/${id}-${sizeName}.avif`),
+        size: avifBuffer.length,
+      };
+    }
   }
 
   // Generate metadata
@@ -245,6 +299,209 @@ export async function getAudioMetadata(buffer: Buffer, filename: string): Promis
   });
 }
 
+// Audio processing: streaming encodes of lossless uploads, waveform overview and loudness
+export const AUDIO_CONFIG = {
+  // Bars in the player's waveform scrubber
+  waveformPeaks: 200,
+  // Decode rate for peak detection: plenty for an overview, light on memory
+  waveformSampleRate: 8000,
+  // Streaming variants: AAC plays everywhere, Opus is smaller where supported.
+  // `mimeType` carries the codec so the player can ask canPlayType.
+  variants: {
+    aac_256: { codec: 'aac', bitrate: 256, ext: 'm4a', mimeType: 'audio/mp4; codecs="mp4a.40.2"' },
+    aac_128: { codec: 'aac', bitrate: 128, ext: 'm4a', mimeType: 'audio/mp4; codecs="mp4a.40.2"' },
+    opus_160: { codec: 'libopus', bitrate: 160, ext: 'webm', mimeType: 'audio/webm; codecs="opus"' },
+    opus_96: { codec: 'libopus', bitrate: 96, ext: 'webm', mimeType: 'audio/webm; codecs="opus"' },
+  } as Record<string, { codec: string; bitrate: number; ext: string; mimeType: string }>,
+  // Served by default (media.url): the best AAC, since every browser plays it
+  defaultVariant: 'aac_256',
+  // Uploads in these formats are kept as the master and transcoded for streaming
+  losslessTypes: ['audio/wav', 'audio/aiff', 'audio/flac'],
+};
+
+// Audio variant type
+export interface AudioVariant {
+  url: string;
+  size: number;
+  bitrate?: number; // kbps (absent on the master)
+  mimeType: string;
+}
+
+// media.variants of processed audio: the streaming variants plus `master`, the upload
+export type AudioVariants = Record<string, AudioVariant>;
+
+// Processed audio result
+export interface ProcessedAudio {
+  id: string;
+  originalName: string;
+  variants: Record<string, AudioVariant>;
+  analysis: AudioAnalysis;
+}
+
+// Result of analyzeAudio
+export interface AudioAnalysis {
+  duration: number;
+  peaks: number[]; // 0-1, loudest slice = 1
+  loudness: number | null; // integrated loudness in LUFS (EBU R128), null for silence
+}
+
+/**
+ * Peak level of each slice of the track, for drawing a waveform. Decoded to
+ * mono 16-bit PCM and streamed, so long tracks never sit in memory.
+ */
+async function waveformPeaks(source: string, duration: number): Promise<number[]> {
+  const rate = AUDIO_CONFIG.waveformSampleRate;
+  // One peak per second when the container doesn't report a duration
+  const perPeak = duration > 0 ? Math.max(1, Math.ceil((duration * rate) / AUDIO_CONFIG.waveformPeaks)) : rate;
+
+  const peaks = await new Promise<number[]>((resolve, reject) => {
+    const result: number[] = [];
+    let current = 0;
+    let inPeak = 0;
+    let carry: Buffer | null = null;
+
+    const command = ffmpeg(source)
+      .noVideo()
+      .audioChannels(1)
+      .audioFrequency(rate)
+      .format('s16le')
+      .on('error', reject);
+    const stream = command.pipe();
+
+    stream.on('data', (chunk: Buffer) => {
+      const data: Buffer = carry ? Buffer.concat([carry, chunk]) : chunk;
+      const usable = data.length - (data.length % 2);
+      carry = usable < data.length ? data.subarray(usable) : null;
+      for (let offset = 0; offset < usable; offset += 2) {
+        current = Math.max(current, Math.abs(data.readInt16LE(offset)) / 32768);
+        if (++inPeak === perPeak) {
+          result.push(current);
+          current = 0;
+          inPeak = 0;
+        }
+      }
+    });
+    stream.on('end', () => {
+      if (inPeak > 0) result.push(current);
+      resolve(result);
+    });
+  });
+
+  const loudest = peaks.reduce((max, peak) => Math.max(max, peak), 0);
+  return peaks.map((peak) => (loudest > 0 ? Math.round((peak / loudest) * 100) / 100 : 0));
+}
+
+/**
+ * Integrated loudness (LUFS) from ffmpeg's loudnorm measurement pass
+ */
+async function integratedLoudness(source: string): Promise<number | null> {
+  const stderr = await new Promise<string>((resolve, reject) => {
+    ffmpeg(source)
+      .noVideo()
+      .audioFilters('loudnorm=print_format=json')
+      .format('null')
+      .on('error', reject)
+      .on('end', (_stdout: string | null, stderr: string | null) => resolve(stderr ?? ''))
+      .save('-');
+  });
+
+  // The measurement is the last JSON object ffmpeg prints
+  const json = stderr.slice(stderr.lastIndexOf('{'), stderr.lastIndexOf('}') + 1);
+  try {
+    const loudness = parseFloat(JSON.parse(json).input_i);
+    return Number.isFinite(loudness) ? Math.round(loudness * 10) / 10 : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Waveform peaks, integrated loudness and duration of an audio file. `source`
+ * is a local path or a URL (the worker reads the CDN copy).
+ */
+export async function analyzeAudio(source: string): Promise<AudioAnalysis> {
+  const duration = await new Promise<number>((resolve, reject) => {
+    ffmpeg.ffprobe(source, (err, metadata) => {
+      if (err) {
+        reject(err);
+        return;
+      }
+      resolve(metadata.format.duration || 0);
+    });
+  });
+
+  return {
+    duration,
+    peaks: await waveformPeaks(source, duration),
+    loudness: await integratedLoudness(source),
+  };
+}
+
+/**
+ * Transcode an audio upload (usually a lossless master) into the streaming
+ * variants and analyze it. `onProgress` gets the overall encoding percentage.
+ */
+export async function processAudioBuffer(
+  buffer: Buffer,
+  filename: string,
+  onProgress?: (percent: number) => void
+): Promise<{ result: ProcessedAudio }> {
+  const id = basename(filename, extname(filename));
+  const ext = extname(filename).toLowerCase().slice(1) || 'wav';
+
+  const tempInputPath = join(process.cwd(), 'temp', `audio-input-${Date.now()}.${ext}`);
+  await mkdir(dirname(tempInputPath), { recursive: true });
+  await writeFile(tempInputPath, buffer);
+
+  try {
+    const variants: Record<string, AudioVariant> = {};
+    const entries = Object.entries(AUDIO_CONFIG.variants);
+
+    for (const [index, [name, config]] of entries.entries()) {
+      const variantFilename = `audio/${id}-${name}.${config.ext}`;
+      const tempOutputPath = join(process.cwd(), 'temp', variantFilename);
+      await mkdir(dirname(tempOutputPath), { recursive: true });
+
+      const command = ffmpeg(tempInputPath)
+        .noVideo()
+        .audioCodec(config.codec)
+        .audioBitrate(config.bitrate);
+      if (config.ext === 'm4a') command.addOption('-movflags', '+faststart');
+
+      await new Promise<void>((resolve, reject) => {
+        command
+          .on('progress', (progress: { percent?: number }) => {
+            const percent = Math.min(Math.max(progress.percent ?? 0, 0), 100);
+            onProgress?.(Math.round(((index + percent / 100) / entries.length) * 90));
+          })
+          .on('error', (err) => {
+            unlink(tempOutputPath).catch(() => {});
+            reject(err);
+          })
+          .on('end', () => resolve())
+          .save(tempOutputPath);
+      });
+
+      const processedBuffer = await readFile(tempOutputPath);
+      variants[name] = {
+        url: await storeFile(processedBuffer, variantFilename),
+        size: processedBuffer.length,
+        bitrate: config.bitrate,
+        mimeType: config.mimeType,
+      };
+      await unlink(tempOutputPath).catch(() => {});
+    }
+
+    // Measured on the master, not a lossy copy
+    const analysis = await analyzeAudio(tempInputPath);
+    onProgress?.(100);
+
+    return { result: { id, originalName: filename, variants, analysis } };
+  } finally {
+    await unlink(tempInputPath).catch(() => {});
+  }
+}
+
 // Video configuration for web-optimized compression
 export const VIDEO_CONFIG = {
   // High quality CRF values (lower = higher quality, larger file)
@@ -258,6 +515,15 @@ export const VIDEO_CONFIG = {
   // Output format
   videoCodec: 'libx264',
   outputFormat: 'mp4',
+  // Keyframe every N seconds in every size, so HLS renditions line up and players can switch between them
+  keyframeSeconds: 2,
+  // HLS segment length (a multiple of keyframeSeconds)
+  hlsSegmentSeconds: 6,
+  // Poster frame taken this far in (or halfway through shorter videos) unless an admin picks one
+  posterSeconds: 1,
+  // Scrubbing strip: up to this many thumbnails, at most one per second of video
+  spriteFrames: 40,
+  spriteFrameWidth: 160,
   // Resolution variants (height-based, width calculated to maintain aspect ratio)
   sizes: {
     '1080p': { height: 1080, maxWidth: 1920 },
@@ -291,11 +557,13 @@ export interface ProcessedVideo {
 
 /**
  * Process video with ffmpeg - generate web-optimized H.264 variants
- * Uses CRF encoding for consistent quality without massive files
+ * Uses CRF encoding for consistent quality without massive files.
+ * `onProgress` gets the overall encoding percentage across all variants.
  */
 export async function processVideoBuffer(
   buffer: Buffer,
-  filename: string
+  filename: string,
+  onProgress?: (percent: number) => void
 ): Promise<{ result: ProcessedVideo }> {
   const id = basename(filename, extname(filename));
   const ext = extname(filename).toLowerCase().slice(1) || 'mp4';
@@ -332,10 +600,16 @@ export async function processVideoBuffer(
 
   // Generate variants at different resolutions
   const variants: Record<string, VideoVariant> = {};
+  const sizes = Object.entries(VIDEO_CONFIG.sizes).filter(([, { height }]) => sourceHeight >= height * 0.8);
+  const encodeCount = Math.max(sizes.length, 1);
+
+  // ffmpeg reports progress per encode; spread it over all of them
+  const reportEncode = (index: number) => (progress: { percent?: number }) => {
+    const percent = Math.min(Math.max(progress.percent ?? 0, 0), 100);
+    onProgress?.(Math.round(((index + percent / 100) / encodeCount) * 100));
+  };
 
-  for (const [sizeName, { height: targetHeight, maxWidth }] of Object.entries(VIDEO_CONFIG.sizes)) {
-    // Skip if source is smaller than this variant
-    if (sourceHeight < targetHeight * 0.8) continue;
+  for (const [index, [sizeName, { height: targetHeight, maxWidth }]] of sizes.entries()) {
 
     // Calculate width maintaining aspect ratio
     const targetWidth = Math.min(Math.round(targetHeight * aspectRatio), maxWidth);
@@ -357,6 +631,8 @@ export async function processVideoBuffer(
         .addOption('-pix_fmt', 'yuv420p') // Compatibility
         .addOption('-profile:v', 'high') // H.264 profile
         .addOption('-level', '4.2') // H.264 level
+        .addOption('-force_key_frames', `expr:gte(t,n_forced*${VIDEO_CONFIG.keyframeSeconds})`)
+        .on('progress', reportEncode(index))
         .on('error', (err) => {
           unlink(tempOutputPath).catch(() => {});
           reject(err);
@@ -398,6 +674,8 @@ export async function processVideoBuffer(
         .addOption('-preset', VIDEO_CONFIG.preset)
         .addOption('-movflags', '+faststart')
         .addOption('-pix_fmt', 'yuv420p')
+        .addOption('-force_key_frames', `expr:gte(t,n_forced*${VIDEO_CONFIG.keyframeSeconds})`)
+        .on('progress', reportEncode(0))
         .on('error', (err) => {
           unlink(tempOutputPath).catch(() => {});
           reject(err);
@@ -442,6 +720,169 @@ export async function processVideoBuffer(
   return { result };
 }
 
+// HLS output of packageHls: a local directory holding the playlists and segments
+export interface ProcessedHls {
+  dir: string;
+  files: string[];
+  master: string;
+}
+
+// Variants are H.264 High profile level 4.2 with AAC-LC audio
+const HLS_CODECS = 'avc1.64002a,mp4a.40.2';
+
+/**
+ * Local path of a file stored by processImageBuffer/processVideoBuffer
+ */
+function localMediaPath(url: string): string {
+  return join(PUBLIC_MEDIA_DIR, url.replace(/^\/media\//, ''));
+}
+
+/**
+ * Package the MP4 variants of a processed video as HLS: one segmented rendition
+ * per size (stream copy, no re-encode) and a master playlist listing them by
+ * bandwidth, so players can switch with the connection.
+ */
+export async function packageHls(video: ProcessedVideo): Promise<ProcessedHls> {
+  const dir = join(process.cwd(), 'temp', 'hls', `${video.id}-${Date.now()}`);
+  await mkdir(dir, { recursive: true });
+
+  const renditions = Object.entries(video.variants).sort((a, b) => b[1].height - a[1].height);
+  const duration = video.metadata.duration || 1;
+  const master = ['#EXTM3U', '#EXT-X-VERSION:3'];
+
+  for (const [sizeName, variant] of renditions) {
+    await new Promise<void>((resolve, reject) => {
+      ffmpeg(localMediaPath(variant.url))
+        .addOption('-c', 'copy')
+        .addOption('-f', 'hls')
+        .addOption('-hls_time', String(VIDEO_CONFIG.hlsSegmentSeconds))
+        .addOption('-hls_playlist_type', 'vod')
+        .addOption('-hls_segment_filename', join(dir, `${sizeName}_%03d.ts`))
+        .on('error', reject)
+        .on('end', () => resolve())
+        .save(join(dir, `${sizeName}.m3u8`));
+    });
+
+    // Average bitrate from the file; segments peak above it, so advertise some headroom
+    const average = Math.round((variant.size * 8) / duration);
+    master.push(
+      `#EXT-X-STREAM-INF:BANDWIDTH=${Math.round(average * 1.25)},AVERAGE-BANDWIDTH=${average},RESOLUTION=${variant.width}x${variant.height},CODECS="${HLS_CODECS}"`,
+      `${sizeName}.m3u8`
+    );
+  }
+
+  await writeFile(join(dir, 'master.m3u8'), `${master.join('\n')}\n`);
+  return { dir, files: await readdir(dir), master: 'master.m3u8' };
+}
+
+/**
+ * Remove a packageHls directory once it has been uploaded
+ */
+export async function cleanupHls(hls: ProcessedHls): Promise<void> {
+  await rm(hls.dir, { recursive: true, force: true });
+}
+
+// A video frame as a WebP still, with the placeholders images get
+export interface VideoFrame {
+  buffer: Buffer;
+  width: number;
+  height: number;
+  blurhash: string;
+  dominantColor: string;
+}
+
+// Thumbnails side by side in one WebP, one every `interval` seconds
+export interface ThumbnailSprite {
+  buffer: Buffer;
+  frameWidth: number;
+  frameHeight: number;
+  count: number;
+  interval: number;
+}
+
+/**
+ * The largest MP4 of a processed video, as a path ffmpeg can read
+ */
+export function videoSource(video: ProcessedVideo): string {
+  const largest = Object.values(video.variants).sort((a, b) => b.height - a.height)[0];
+  return localMediaPath(largest.url);
+}
+
+/**
+ * Default poster timestamp: posterSeconds in, or halfway through shorter videos
+ */
+export function defaultPosterTime(duration: number): number {
+  return Math.min(VIDEO_CONFIG.posterSeconds, (duration || 0) / 2);
+}
+
+/**
+ * Grab the frame at `at` seconds as a WebP poster. `source` is a local path or
+ * a URL (ffmpeg reads the CDN copy when re-picking a poster).
+ */
+export async function extractPosterFrame(source: string, at: number): Promise<VideoFrame> {
+  const framePath = join(process.cwd(), 'temp', `poster-${Date.now()}.png`);
+  await mkdir(dirname(framePath), { recursive: true });
+
+  await new Promise<void>((resolve, reject) => {
+    ffmpeg(source)
+      .seekInput(at)
+      .addOption('-frames:v', '1')
+      .on('error', reject)
+      .on('end', () => resolve())
+      .save(framePath);
+  });
+
+  try {
+    const frame = await readFile(framePath);
+    const { data, info } = await sharp(frame)
+      .webp({ quality: MEDIA_CONFIG.imageQuality })
+      .toBuffer({ resolveWithObject: true });
+    return {
+      buffer: data,
+      width: info.width,
+      height: info.height,
+      blurhash: await generateBlurhash(frame),
+      dominantColor: await getDominantColor(frame),
+    };
+  } finally {
+    await unlink(framePath).catch(() => {});
+  }
+}
+
+/**
+ * Render evenly spaced thumbnails into a single horizontal strip, so admin
+ * scrubbing needs one request instead of one per frame
+ */
+export async function extractThumbnailSprite(source: string, video: ProcessedVideo['metadata']): Promise<ThumbnailSprite> {
+  const duration = video.duration || 1;
+  const count = Math.max(1, Math.min(VIDEO_CONFIG.spriteFrames, Math.floor(duration)));
+  const interval = duration / count;
+  const frameWidth = VIDEO_CONFIG.spriteFrameWidth;
+  // Even height for the scaler, keeping the source aspect ratio
+  const frameHeight = Math.max(2, Math.round((frameWidth * (video.height || 9)) / (video.width || 16) / 2) * 2);
+  const spritePath = join(process.cwd(), 'temp', `sprite-${Date.now()}.png`);
+  await mkdir(dirname(spritePath), { recursive: true });
+
+  await new Promise<void>((resolve, reject) => {
+    ffmpeg(source)
+      .videoFilters([`fps=1/${interval}`, `scale=${frameWidth}:${frameHeight}`, `tile=${count}x1`])
+      .addOption('-frames:v', '1')
+      .addOption('-an')
+      .on('error', reject)
+      .on('end', () => resolve())
+      .save(spritePath);
+  });
+
+  try {
+    const buffer = await sharp(await readFile(spritePath))
+      .webp({ quality: MEDIA_CONFIG.imageQuality })
+      .toBuffer();
+    return { buffer, frameWidth, frameHeight, count, interval };
+  } finally {
+    await unlink(spritePath).catch(() => {});
+  }
+}
+
 /**
  * Get video metadata using ffmpeg
  */
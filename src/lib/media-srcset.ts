@@ -0,0 +1,147 @@
+/**
+ * Responsive image descriptors
+ *
+ * Processed images keep one WebP file per size on media.variants (sm/md/lg/xl),
+ * each with an optional AVIF copy, plus ready-made `srcset` strings and a default
+ * `sizes` value. Named crops (media.crops) carry variants of the same shape.
+ * No Node imports here: the image components use it too.
+ */
+
+export interface ResponsiveVariant {
+  url: string;
+  width: number;
+  height?: number;
+  size?: number;
+  avif?: { url: string; size: number };
+}
+
+export interface SrcsetDescriptor {
+  webp: string;
+  avif?: string;
+}
+
+/** Point of interest, as fractions of the width and height from the top left */
+export interface FocalPoint {
+  x: number;
+  y: number;
+}
+
+/** Crop area, as fractions of the image's width and height */
+export interface CropRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/** A named crop: its area, and its variants once the media worker has made them */
+export interface MediaCrop {
+  rect: CropRect;
+  variants?: Record<string, ResponsiveVariant>;
+  srcset?: SrcsetDescriptor;
+  sizes?: string;
+}
+
+// Named crops admins can save per image; ratio is width / height
+export const CROP_PRESETS = {
+  square: { label: 'Square', ratio: 1 },
+  portrait: { label: '3:4', ratio: 3 / 4 },
+  wide: { label: '16:9', ratio: 16 / 9 },
+} as const;
+
+export type CropName = keyof typeof CROP_PRESETS;
+
+export type MediaCrops = Partial<Record<CropName, MediaCrop>>;
+
+/**
+ * Whether a value on media.variants is a sized file (not a stored descriptor)
+ */
+export function isSizeVariant(value: unknown): value is ResponsiveVariant {
+  return !!value && typeof value === 'object'
+    && typeof (value as ResponsiveVariant).url === 'string'
+    && typeof (value as ResponsiveVariant).width === 'number';
+}
+
+/**
+ * The size variants of a variants object, narrowest first
+ */
+export function sizeVariants(variants: unknown): ResponsiveVariant[] {
+  if (!variants || typeof variants !== 'object') return [];
+  return Object.values(variants as Record<string, unknown>)
+    .filter(isSizeVariant)
+    .sort((a, b) => a.width - b.width);
+}
+
+/**
+ * `url 640w, url 1024w, ...` for one format. AVIF is only listed when every
+ * size has a copy, so the browser never picks a width that doesn't exist.
+ */
+export function buildSrcset(variants: unknown, format: 'webp' | 'avif'): string {
+  const sized = sizeVariants(variants);
+  if (format === 'avif' && sized.some((v) => !v.avif)) return '';
+  return sized
+    .map((v) => `${format === 'avif' ? v.avif!.url : v.url} ${v.width}w`)
+    .join(', ');
+}
+
+/**
+ * Default `sizes`: full viewport width up to the largest variant
+ */
+export function defaultSizes(variants: unknown): string {
+  const sized = sizeVariants(variants);
+  const largest = sized[sized.length - 1];
+  return largest ? `(max-width: ${largest.width}px) 100vw, ${largest.width}px` : '100vw';
+}
+
+/**
+ * The srcset/sizes descriptor stored alongside the variants
+ */
+export function describeVariants(variants: unknown): { srcset: SrcsetDescriptor; sizes: string } {
+  const avif = buildSrcset(variants, 'avif');
+  return {
+    srcset: { webp: buildSrcset(variants, 'webp'), ...(avif ? { avif } : {}) },
+    sizes: defaultSizes(variants),
+  };
+}
+
+/**
+ * Stored srcset for a format, or one built from the variants (items processed
+ * before descriptors were stored)
+ */
+export function getSrcset(variants: unknown, format: 'webp' | 'avif'): string {
+  const stored = (variants as { srcset?: SrcsetDescriptor } | null | undefined)?.srcset;
+  if (stored && typeof stored === 'object') return stored[format] ?? '';
+  return buildSrcset(variants, format);
+}
+
+/**
+ * CSS object-position for a focal point (centre when there is none)
+ */
+export function focalObjectPosition(focalPoint?: FocalPoint | null): string {
+  if (!focalPoint) return '50% 50%';
+  return `${Math.round(focalPoint.x * 1000) / 10}% ${Math.round(focalPoint.y * 1000) / 10}%`;
+}
+
+/**
+ * The largest area with this aspect ratio that fits the image, centred on the
+ * focal point as far as the edges allow
+ */
+export function cropRect(width: number, height: number, ratio: number, focalPoint?: FocalPoint | null): CropRect {
+  const focus = focalPoint ?? { x: 0.5, y: 0.5 };
+  const cropWidth = Math.min(width, height * ratio);
+  const cropHeight = cropWidth / ratio;
+  const left = Math.min(Math.max(focus.x * width - cropWidth / 2, 0), width - cropWidth);
+  const top = Math.min(Math.max(focus.y * height - cropHeight / 2, 0), height - cropHeight);
+  // Rounded so the same focal point always gives an identical rect
+  const round = (n: number) => Math.round(n * 10000) / 10000;
+  return {
+    x: round(left / width),
+    y: round(top / height),
+    width: round(cropWidth / width),
+    height: round(cropHeight / height),
+  };
+}
+
+export function sameCropRect(a: CropRect | undefined, b: CropRect): boolean {
+  return !!a && a.x === b.x && a.y === b.y && a.width === b.width && a.height === b.height;
+}
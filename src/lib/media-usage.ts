@@ -0,0 +1,214 @@
+/**
+ * Media Usage - Where each library item is used
+ *
+ * Usage is read from the places that reference media instead of being trusted
+ * from the `refCount` counter: work media and product images (by media ID, or
+ * by URL on rows that never had one), post links, audio post artwork and
+ * tracks (URL only) and the homepage video setting. `refCount` is kept as a
+ * cache of the usage count for listing filters; syncRefCounts rewrites it
+ * after references change.
+ */
+
+import { db } from './db';
+import { media, workMedia, works, productImages, products, postMedia, posts, audioPosts, audioPostTracks, siteSettings } from './db/schema';
+import { eq, inArray, or } from 'drizzle-orm';
+import type { Media } from './db/schema';
+
+export type MediaUsageKind = 'work' | 'product' | 'post' | 'audio-post' | 'homepage-video';
+
+export interface MediaUsage {
+  kind: MediaUsageKind;
+  id: string; // of the work, product, post or audio post ('homepage_video' for the setting)
+  title: string;
+  href: string; // admin page to edit it
+  trashed: boolean; // soft-deleted, but restoring it would bring the reference back
+}
+
+type VariantMap = Record<string, { url?: string; avif?: { url?: string } } | undefined>;
+
+/** Every URL a library item is served under: the file, its variants and their AVIF copies */
+function mediaUrls(item: Pick<Media, 'url' | 'variants'>): string[] {
+  const urls = [item.url];
+  for (const variant of Object.values((item.variants ?? {}) as VariantMap)) {
+    if (variant?.url) urls.push(variant.url);
+    if (variant?.avif?.url) urls.push(variant.avif.url);
+  }
+  return urls;
+}
+
+/** Which of these URLs belong to a library item (its file or one of its variants) */
+export async function findLibraryUrls(urls: string[]): Promise<Set<string>> {
+  const wanted = new Set(urls);
+  const found = new Set<string>();
+  if (wanted.size === 0) return found;
+
+  const items = await db.select({ url: media.url, variants: media.variants }).from(media);
+  for (const item of items) {
+    for (const url of mediaUrls(item)) {
+      if (wanted.has(url)) found.add(url);
+    }
+  }
+  return found;
+}
+
+/**
+ * Usage of the given media items, or of the whole library when `ids` is
+ * omitted. Every requested ID has an entry (empty when unused).
+ */
+export async function getMediaUsage(ids?: string[]): Promise<Map<string, MediaUsage[]>> {
+  const usage = new Map<string, MediaUsage[]>();
+  if (ids && ids.length === 0) return usage;
+
+  const items = await db
+    .select({ id: media.id, url: media.url, variants: media.variants })
+    .from(media)
+    .where(ids ? inArray(media.id, ids) : undefined);
+  if (items.length === 0) return usage;
+
+  const ownerByUrl = new Map<string, string>();
+  for (const item of items) {
+    usage.set(item.id, []);
+    for (const url of mediaUrls(item)) ownerByUrl.set(url, item.id);
+  }
+  const scopedIds = items.map((item) => item.id);
+  const scopedUrls = [...ownerByUrl.keys()];
+
+  // A place can reference an item more than once (e.g. a variant and the file): count it once
+  const add = (mediaId: string | null | undefined, entry: MediaUsage) => {
+    const list = mediaId ? usage.get(mediaId) : undefined;
+    if (!list || list.some((u) => u.kind === entry.kind && u.id === entry.id)) return;
+    list.push(entry);
+  };
+  const ownerOf = (mediaId: string | null, url: string | null) =>
+    (mediaId && usage.has(mediaId) ? mediaId : null) ?? (url ? ownerByUrl.get(url) : undefined);
+
+  const workRows = await db
+    .select({ mediaId: workMedia.mediaId, url: workMedia.url, workId: works.id, title: works.title, deletedAt: works.deletedAt })
+    .from(workMedia)
+    .innerJoin(works, eq(workMedia.workId, works.id))
+    .where(ids ? or(inArray(workMedia.mediaId, scopedIds), inArray(workMedia.url, scopedUrls)) : undefined);
+  for (const row of workRows) {
+    add(ownerOf(row.mediaId, row.url), {
+      kind: 'work',
+      id: row.workId,
+      title: row.title,
+      href: '/admin/works',
+      trashed: !!row.deletedAt,
+    });
+  }
+
+  const productRows = await db
+    .select({ mediaId: productImages.mediaId, url: productImages.imageUrl, productId: products.id, title: products.name, deletedAt: products.deletedAt })
+    .from(productImages)
+    .innerJoin(products, eq(productImages.productId, products.id))
+    .where(ids ? or(inArray(productImages.mediaId, scopedIds), inArray(productImages.imageUrl, scopedUrls)) : undefined);
+  for (const row of productRows) {
+    add(ownerOf(row.mediaId, row.url), {
+      kind: 'product',
+      id: row.productId,
+      title: row.title,
+      href: '/admin/products',
+      trashed: !!row.deletedAt,
+    });
+  }
+
+  const postRows = await db
+    .select({ mediaId: postMedia.mediaId, postId: posts.id, title: posts.title, deletedAt: posts.deletedAt })
+    .from(postMedia)
+    .innerJoin(posts, eq(postMedia.postId, posts.id))
+    .where(ids ? inArray(postMedia.mediaId, scopedIds) : undefined);
+  for (const row of postRows) {
+    add(row.mediaId, {
+      kind: 'post',
+      id: row.postId,
+      title: row.title,
+      href: `/admin/posts/edit?id=${row.postId}`,
+      trashed: !!row.deletedAt,
+    });
+  }
+
+  // Audio posts and their tracks reference files by URL only
+  const artworkRows = await db
+    .select({ id: audioPosts.id, title: audioPosts.title, url: audioPosts.artwork, deletedAt: audioPosts.deletedAt })
+    .from(audioPosts)
+    .where(ids ? inArray(audioPosts.artwork, scopedUrls) : undefined);
+  const trackRows = await db
+    .select({ id: audioPosts.id, title: audioPosts.title, url: audioPostTracks.audioFile, deletedAt: audioPosts.deletedAt })
+    .from(audioPostTracks)
+    .innerJoin(audioPosts, eq(audioPostTracks.audioPostId, audioPosts.id))
+    .where(ids ? inArray(audioPostTracks.audioFile, scopedUrls) : undefined);
+  for (const row of [...artworkRows, ...trackRows]) {
+    add(row.url ? ownerByUrl.get(row.url) : undefined, {
+      kind: 'audio-post',
+      id: row.id,
+      title: row.title,
+      href: '/admin/audio',
+      trashed: !!row.deletedAt,
+    });
+  }
+
+  const homepageVideoId = await getHomepageVideoId();
+  add(homepageVideoId, {
+    kind: 'homepage-video',
+    id: 'homepage_video',
+    title: 'Homepage video',
+    href: '/admin/homepage',
+    trashed: false,
+  });
+
+  return usage;
+}
+
+async function getHomepageVideoId(): Promise<string | null> {
+  const [setting] = await db.select().from(siteSettings).where(eq(siteSettings.key, 'homepage_video')).limit(1);
+  if (!setting) return null;
+  try {
+    return (JSON.parse(setting.value) as { mediaId?: string }).mediaId ?? null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Rewrite `refCount` from real usage for the given items (or the whole
+ * library). Returns how many counters were wrong.
+ */
+export async function syncRefCounts(ids?: string[]): Promise<number> {
+  const scoped = ids ? [...new Set(ids.filter(Boolean))] : undefined;
+  const usage = await getMediaUsage(scoped);
+  if (usage.size === 0) return 0;
+
+  const counts = await db
+    .select({ id: media.id, refCount: media.refCount })
+    .from(media)
+    .where(inArray(media.id, [...usage.keys()]));
+
+  let fixed = 0;
+  for (const row of counts) {
+    const refCount = usage.get(row.id)?.length ?? 0;
+    if (row.refCount === refCount) continue;
+    await db.update(media).set({ refCount, updatedAt: new Date() }).where(eq(media.id, row.id));
+    fixed++;
+  }
+  return fixed;
+}
+
+/**
+ * Remove every reference to an item before it is deleted: its work media,
+ * product images, post links and audio post tracks are dropped, audio posts
+ * lose the artwork, and the homepage video is cleared.
+ */
+export async function detachMediaUsage(item: Pick<Media, 'id' | 'url' | 'variants'>): Promise<void> {
+  const urls = mediaUrls(item);
+
+  await db.delete(workMedia).where(or(eq(workMedia.mediaId, item.id), inArray(workMedia.url, urls)));
+  await db.delete(productImages).where(or(eq(productImages.mediaId, item.id), inArray(productImages.imageUrl, urls)));
+  await db.delete(postMedia).where(eq(postMedia.mediaId, item.id));
+  await db.update(audioPosts).set({ artwork: null, updatedAt: new Date() }).where(inArray(audioPosts.artwork, urls));
+  await db.delete(audioPostTracks).where(inArray(audioPostTracks.audioFile, urls));
+  await db.update(audioPosts).set({ audioFile: null, updatedAt: new Date() }).where(inArray(audioPosts.audioFile, urls));
+
+  if ((await getHomepageVideoId()) === item.id) {
+    await db.delete(siteSettings).where(eq(siteSettings.key, 'homepage_video'));
+  }
+}
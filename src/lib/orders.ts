@@ -0,0 +1,466 @@
+/**
+ * Orders - Turn the persistent cart into a recorded sale
+ *
+ * Every checkout writes an `orders` row plus one `order_items` row per cart line
+ * before the Stripe Checkout Session is created, so each sale exists on our side
+ * and not only in the Stripe dashboard.
+ */
+
+import { db } from './db';
+import { orders, orderItems, cartItems, products, productSizeInventory } from './db/schema';
+import { eq, and, asc, desc, inArray, isNull, isNotNull, sql, type SQL } from 'drizzle-orm';
+import type { PgUpdateSetSource } from 'drizzle-orm/pg-core';
+import { nanoid } from './nanoid';
+import { getProductById, parsePriceToNumber, syncWorksSoldState } from './db/queries';
+import type { Order, OrderItem } from './db/schema';
+import type { CheckoutLineItem, CheckoutDiscount } from './stripe';
+import { reserveStock, releaseCartReservations } from './reservations';
+import { getCartPromotionCode, resolveCartPromotion, type PromotionLine } from './promotions';
+
+export type OrderStatus = 'pending' | 'paid' | 'shipped' | 'refunded' | 'abandoned';
+
+export const ORDER_STATUSES: OrderStatus[] = ['pending', 'paid', 'shipped', 'refunded', 'abandoned'];
+
+// Statuses an order can be refunded (or partially refunded) from
+const REFUNDABLE_STATUSES: OrderStatus[] = ['paid', 'shipped'];
+
+// Buyer details copied from a completed Checkout Session
+export interface PaidOrderDetails {
+  stripePaymentIntentId?: string | null;
+  customerEmail?: string | null;
+  customerName?: string | null;
+  shippingAddress?: Order['shippingAddress'];
+}
+
+export interface OrderWithItems extends Order {
+  items: OrderItem[];
+}
+
+// Result of building an order from a cart
+export interface CreateOrderResult {
+  success: boolean;
+  order?: Order;
+  items?: OrderItem[];
+  lineItems?: CheckoutLineItem[];
+  discount?: CheckoutDiscount; // promotion to carry over to Stripe
+  error?: string;
+  status?: number; // HTTP status hint for the API route
+}
+
+/**
+ * Format a dollar amount for a decimal(10, 2) column
+ */
+function toDecimal(amount: number): string {
+  return amount.toFixed(2);
+}
+
+/**
+ * Create a pending order from the items in a cart
+ * Prices are read from the products table at checkout time and snapshotted on the order,
+ * along with the promotion the cart qualifies for. Every line's stock hold is re-checked;
+ * the caller stretches the holds over the checkout once the Stripe session exists.
+ */
+export async function createOrderFromCart(cartId: string): Promise<CreateOrderResult> {
+  const rows = await db
+    .select()
+    .from(cartItems)
+    .where(eq(cartItems.cartId, cartId))
+    .orderBy(asc(cartItems.createdAt));
+
+  if (rows.length === 0) {
+    return { success: false, error: 'Cart is empty', status: 400 };
+  }
+
+  const orderId = nanoid();
+  const items: OrderItem[] = [];
+  const lineItems: CheckoutLineItem[] = [];
+  const promotionLines: PromotionLine[] = [];
+  let subtotal = 0;
+
+  for (const row of rows) {
+    const product = await getProductById(row.productId);
+    if (!product) {
+      return { success: false, error: 'A product in your cart is no longer available', status: 409 };
+    }
+    if (product.stockStatus === 'OUT_OF_STOCK') {
+      return { success: false, error: `${product.name} is sold out`, status: 409 };
+    }
+
+    // Re-check the hold, which may have lapsed while the item sat in the cart
+    const reservation = await reserveStock(cartId, row.productId, row.size, row.quantity);
+    if (!reservation.success) {
+      return { success: false, error: `${product.name}: ${reservation.error}`, status: reservation.status ?? 409 };
+    }
+
+    const unitPrice = parsePriceToNumber(product.price ?? null);
+    if (unitPrice <= 0) {
+      return { success: false, error: `${product.name} has no price`, status: 409 };
+    }
+
+    const lineTotal = unitPrice * row.quantity;
+    subtotal += lineTotal;
+
+    items.push({
+      id: nanoid(),
+      orderId,
+      productId: row.productId,
+      productName: product.name,
+      size: row.size,
+      quantity: row.quantity,
+      unitPrice: toDecimal(unitPrice),
+      lineTotal: toDecimal(lineTotal),
+      stockDecrementedAt: null,
+      createdAt: new Date(),
+    });
+
+    lineItems.push({
+      name: row.size ? `${product.name} (${row.size})` : product.name,
+      unitAmount: Math.round(unitPrice * 100),
+      quantity: row.quantity,
+      imageUrl: product.image?.sourceUrl,
+    });
+
+    promotionLines.push({
+      productId: row.productId,
+      categoryIds: product.productCategories?.nodes.map((c) => c.id) ?? [],
+      amount: Math.round(lineTotal * 100),
+    });
+  }
+
+  // Don't silently charge more than the cart showed: a code that stopped working
+  // (expired, used up) has to be removed before checking out
+  const { applied, codeError } = await resolveCartPromotion(await getCartPromotionCode(cartId), promotionLines);
+  if (codeError) {
+    return { success: false, error: codeError, status: 409 };
+  }
+  const discount = (applied?.discount ?? 0) / 100;
+
+  const now = new Date();
+  const [order] = await db.insert(orders).values({
+    id: orderId,
+    cartId,
+    status: 'pending',
+    subtotal: toDecimal(subtotal),
+    discountTotal: toDecimal(discount),
+    total: toDecimal(Math.max(subtotal - discount, 0)),
+    currency: 'usd',
+    promotionId: applied?.promotion.id ?? null,
+    promotionCode: applied?.promotion.code ?? null,
+    createdAt: now,
+    updatedAt: now,
+  }).returning();
+
+  await db.insert(orderItems).values(items);
+
+  return {
+    success: true,
+    order,
+    items,
+    lineItems,
+    discount: applied ? { amountOff: applied.discount, name: applied.label } : undefined,
+  };
+}
+
+/**
+ * Store the Stripe Checkout Session id on a pending order
+ */
+export async function attachCheckoutSession(orderId: string, sessionId: string): Promise<void> {
+  await db
+    .update(orders)
+    .set({ stripeSessionId: sessionId, updatedAt: new Date() })
+    .where(eq(orders.id, orderId));
+}
+
+/**
+ * Get an order with its line items
+ */
+export async function getOrderWithItems(id: string): Promise<OrderWithItems | null> {
+  const [order] = await db.select().from(orders).where(eq(orders.id, id)).limit(1);
+  if (!order) return null;
+
+  const items = await db
+    .select()
+    .from(orderItems)
+    .where(eq(orderItems.orderId, id))
+    .orderBy(asc(orderItems.createdAt));
+
+  return { ...order, items };
+}
+
+/**
+ * Orders for the admin dashboard, newest first, optionally filtered by status
+ */
+export async function getOrdersForAdmin(status?: OrderStatus, limit = 200): Promise<OrderWithItems[]> {
+  const orderRows = await db
+    .select()
+    .from(orders)
+    .where(status ? eq(orders.status, status) : undefined)
+    .orderBy(desc(orders.createdAt))
+    .limit(limit);
+  if (orderRows.length === 0) return [];
+
+  const itemRows = await db
+    .select()
+    .from(orderItems)
+    .where(inArray(orderItems.orderId, orderRows.map((o) => o.id)))
+    .orderBy(asc(orderItems.createdAt));
+
+  const itemsByOrder = new Map<string, OrderItem[]>();
+  for (const item of itemRows) {
+    const list = itemsByOrder.get(item.orderId) ?? [];
+    list.push(item);
+    itemsByOrder.set(item.orderId, list);
+  }
+
+  return orderRows.map((order) => ({ ...order, items: itemsByOrder.get(order.id) ?? [] }));
+}
+
+/**
+ * Set an order's status
+ */
+export async function updateOrderStatus(id: string, status: OrderStatus): Promise<void> {
+  await db
+    .update(orders)
+    .set({ status, updatedAt: new Date() })
+    .where(eq(orders.id, id));
+}
+
+/**
+ * Move an order from one status to another, only if it is still in the expected status.
+ * Returns the updated order, or null when the transition already happened (or never can),
+ * which is what makes replayed webhook events harmless.
+ */
+async function transitionOrder(
+  where: SQL,
+  from: OrderStatus[],
+  to: OrderStatus,
+  extra: PgUpdateSetSource<typeof orders> = {}
+): Promise<Order | null> {
+  const now = new Date();
+  const [updated] = await db
+    .update(orders)
+    .set({ ...extra, status: to, updatedAt: now })
+    .where(and(where, inArray(orders.status, from)))
+    .returning();
+  return updated ?? null;
+}
+
+/**
+ * Mark an order paid, decrement inventory for its items, count its promotion as redeemed
+ * and clear the cart it came from.
+ * There are no transactions over neon-http, so each step records that it ran: when one
+ * throws, Stripe's retry finds the order paid but not fulfilled and finishes the rest
+ * without repeating what was done. Returns the order only from the call that fulfilled it;
+ * once fulfilled, further calls do nothing.
+ */
+export async function markOrderPaid(orderId: string, details: PaidOrderDetails = {}): Promise<Order | null> {
+  const paid = await transitionOrder(eq(orders.id, orderId), ['pending', 'abandoned'], 'paid', {
+    ...details,
+    paidAt: new Date(),
+  });
+  const [order] = paid
+    ? [paid]
+    : await db
+        .select()
+        .from(orders)
+        .where(and(eq(orders.id, orderId), eq(orders.status, 'paid'), isNull(orders.fulfilledAt)))
+        .limit(1);
+  if (!order) return null;
+
+  const items = await db.select().from(orderItems).where(eq(orderItems.orderId, orderId));
+  for (const item of items) {
+    await decrementItemStock(item.id);
+  }
+  // Safe to repeat, and it must run even for items a failed delivery already decremented
+  for (const productId of new Set(items.map((item) => item.productId))) {
+    await syncStockStatus(productId);
+  }
+
+  if (order.promotionId) {
+    await redeemOrderPromotion(orderId);
+  }
+
+  if (order.cartId) {
+    await db.delete(cartItems).where(eq(cartItems.cartId, order.cartId));
+    // Stock is gone for real now, so the holds are no longer needed
+    await releaseCartReservations(order.cartId);
+  }
+
+  // Whichever delivery gets here first reports the order (and sends the confirmation)
+  const [fulfilled] = await db
+    .update(orders)
+    .set({ fulfilledAt: new Date(), updatedAt: new Date() })
+    .where(and(eq(orders.id, orderId), isNull(orders.fulfilledAt)))
+    .returning();
+  return fulfilled ?? null;
+}
+
+/**
+ * Mark a paid order shipped with its tracking details.
+ * Shipped orders can be marked again to correct the tracking number.
+ */
+export async function markOrderShipped(
+  orderId: string,
+  tracking: { trackingNumber: string; trackingCarrier?: string | null }
+): Promise<Order | null> {
+  return transitionOrder(eq(orders.id, orderId), ['paid', 'shipped'], 'shipped', {
+    trackingNumber: tracking.trackingNumber,
+    trackingCarrier: tracking.trackingCarrier ?? null,
+    shippedAt: sql`COALESCE(${orders.shippedAt}, now())`,
+  });
+}
+
+type OrderRef = { orderId?: string; paymentIntentId?: string };
+
+function orderCondition(where: OrderRef): SQL {
+  return where.orderId
+    ? eq(orders.id, where.orderId)
+    : eq(orders.stripePaymentIntentId, where.paymentIntentId ?? '');
+}
+
+/**
+ * Get an order by its ID or its Stripe payment intent
+ */
+export async function getOrderByRef(where: OrderRef): Promise<Order | null> {
+  const [order] = await db.select().from(orders).where(orderCondition(where)).limit(1);
+  return order ?? null;
+}
+
+/**
+ * Mark a paid or shipped order refunded (full refund)
+ */
+export async function markOrderRefunded(where: OrderRef): Promise<Order | null> {
+  return transitionOrder(orderCondition(where), REFUNDABLE_STATUSES, 'refunded', {
+    refundedTotal: sql`${orders.total}`,
+    refundedAt: new Date(),
+  });
+}
+
+/**
+ * Record how much of an order has been refunded so far (cents, cumulative, as Stripe reports it).
+ * The order keeps its status until the refunds cover its total, then becomes 'refunded'.
+ * Never lowers the recorded amount, so an older webhook arriving late is harmless.
+ */
+export async function recordOrderRefund(where: OrderRef, amountRefunded: number): Promise<Order | null> {
+  const order = await getOrderByRef(where);
+  if (!order || !REFUNDABLE_STATUSES.includes(order.status as OrderStatus)) return null;
+
+  const totalCents = Math.round(parsePriceToNumber(order.total) * 100);
+  if (amountRefunded >= totalCents) {
+    return markOrderRefunded({ orderId: order.id });
+  }
+
+  const refunded = toDecimal(amountRefunded / 100);
+  const [updated] = await db
+    .update(orders)
+    .set({
+      refundedTotal: sql`GREATEST(${orders.refundedTotal}, ${refunded})`,
+      refundedAt: new Date(),
+      updatedAt: new Date(),
+    })
+    .where(and(eq(orders.id, order.id), inArray(orders.status, REFUNDABLE_STATUSES)))
+    .returning();
+  return updated ?? null;
+}
+
+/**
+ * Pending orders of a cart whose Checkout Session was created
+ */
+export async function getPendingCheckoutOrders(cartId: string): Promise<Order[]> {
+  return db
+    .select()
+    .from(orders)
+    .where(and(eq(orders.cartId, cartId), eq(orders.status, 'pending'), isNotNull(orders.stripeSessionId)));
+}
+
+/**
+ * Mark a pending order abandoned because its cart started a new checkout.
+ * The cart's stock holds carry over to the new order, so they are kept.
+ */
+export async function markOrderSuperseded(orderId: string): Promise<Order | null> {
+  return transitionOrder(eq(orders.id, orderId), ['pending'], 'abandoned');
+}
+
+/**
+ * Mark a pending order abandoned (checkout expired or was never completed)
+ * and release the stock its cart was holding.
+ */
+export async function markOrderAbandoned(orderId: string): Promise<Order | null> {
+  const order = await transitionOrder(eq(orders.id, orderId), ['pending'], 'abandoned');
+  if (order?.cartId) {
+    await releaseCartReservations(order.cartId);
+  }
+  return order;
+}
+
+/**
+ * Decrement size-level and product-level stock for an order item, once.
+ * Marking the item and taking its stock is one statement, so it either all
+ * happens or none of it does, and a replay finds the item already marked.
+ */
+async function decrementItemStock(orderItemId: string): Promise<void> {
+  await db.execute(sql`
+    WITH claimed AS (
+      UPDATE "order_items" SET "stock_decremented_at" = now()
+      WHERE "id" = ${orderItemId} AND "stock_decremented_at" IS NULL
+      RETURNING "product_id", "size", "quantity"
+    ), sized AS (
+      UPDATE "product_size_inventory" SET
+        "quantity" = GREATEST(COALESCE("product_size_inventory"."quantity", 0) - claimed."quantity", 0),
+        "updated_at" = now()
+      FROM claimed
+      WHERE "product_size_inventory"."product_id" = claimed."product_id" AND "product_size_inventory"."size" = claimed."size"
+    )
+    UPDATE "products" SET
+      "stock_quantity" = CASE WHEN "products"."stock_quantity" IS NULL THEN NULL ELSE GREATEST("products"."stock_quantity" - claimed."quantity", 0) END,
+      "updated_at" = now()
+    FROM claimed
+    WHERE "products"."id" = claimed."product_id"
+  `);
+}
+
+/**
+ * Count an order's promotion as redeemed, once (same single-statement claim as above)
+ */
+async function redeemOrderPromotion(orderId: string): Promise<void> {
+  await db.execute(sql`
+    WITH claimed AS (
+      UPDATE "orders" SET "promotion_redeemed_at" = now()
+      WHERE "id" = ${orderId} AND "promotion_redeemed_at" IS NULL
+      RETURNING "promotion_id"
+    )
+    UPDATE "promotions" SET "times_redeemed" = "promotions"."times_redeemed" + 1, "updated_at" = now()
+    FROM claimed
+    WHERE "promotions"."id" = claimed."promotion_id"
+  `);
+}
+
+/**
+ * Mark a product out of stock once it (or every one of its sizes) has run out,
+ * and mark linked works sold
+ */
+async function syncStockStatus(productId: string): Promise<void> {
+  const [product] = await db
+    .select({ stockQuantity: products.stockQuantity })
+    .from(products)
+    .where(eq(products.id, productId))
+    .limit(1);
+  if (!product) return;
+
+  const sizes = await db
+    .select({ quantity: productSizeInventory.quantity })
+    .from(productSizeInventory)
+    .where(eq(productSizeInventory.productId, productId));
+
+  const productSoldOut = product.stockQuantity !== null && product.stockQuantity <= 0;
+  const sizesSoldOut = sizes.length > 0 && sizes.every((s) => (s.quantity ?? 0) <= 0);
+
+  if (productSoldOut || sizesSoldOut) {
+    await db
+      .update(products)
+      .set({ stockStatus: 'OUT_OF_STOCK', updatedAt: new Date() })
+      .where(eq(products.id, productId));
+    // A one-off piece that just sold shows as sold on its works page
+    await syncWorksSoldState(productId);
+  }
+}
@@ -0,0 +1,100 @@
+/**
+ * Podcast Feed - RSS 2.0 with the iTunes and Podcasting 2.0 namespaces
+ *
+ * One item per published audio post, enclosing its first track. The GUID is
+ * the post ID, so it survives title, slug and tracklist edits. Enclosure
+ * length and type come from the media library; posts whose first track is not
+ * in the library are left out, since their size is unknown.
+ */
+
+import { getPublishedAudioPosts, getAudioPostTracks, getAudioEnclosures, getPodcastSettings } from './db/queries';
+import type { AudioPost } from './db/schema';
+import { escapeHtml } from './sanitize';
+
+// Escaping for HTML and XML is the same set of characters
+const xml = escapeHtml;
+
+/** Duration as itunes:duration wants it: H:MM:SS or M:SS */
+function formatDuration(seconds: number): string {
+  const total = Math.round(seconds);
+  const h = Math.floor(total / 3600);
+  const m = Math.floor((total % 3600) / 60);
+  const s = String(total % 60).padStart(2, '0');
+  return h > 0 ? `${h}:${String(m).padStart(2, '0')}:${s}` : `${m}:${s}`;
+}
+
+/** The feed at /audio/feed.xml, with links made absolute against `origin` */
+export async function buildPodcastFeed(origin: string): Promise<string> {
+  const [settings, posts] = await Promise.all([
+    getPodcastSettings(),
+    getPublishedAudioPosts() as Promise<AudioPost[]>,
+  ]);
+  const tracksByPost = await getAudioPostTracks(posts.map((post) => post.id));
+  const enclosures = await getAudioEnclosures(
+    [...tracksByPost.values()].flatMap((tracks) => (tracks[0] ? [tracks[0].audioFile] : []))
+  );
+
+  const pageUrl = `${origin}/audio`;
+  const feedUrl = `${origin}/audio/feed.xml`;
+  const publishedAt = (post: AudioPost) => post.publishedAt ?? post.createdAt ?? new Date(0);
+  const newestFirst = [...posts].sort((a, b) => publishedAt(b).getTime() - publishedAt(a).getTime());
+  const artwork = settings.artwork ?? newestFirst.find((post) => post.artwork)?.artwork ?? null;
+
+  const items: string[] = [];
+  for (const post of newestFirst) {
+    const tracks = tracksByPost.get(post.id) ?? [];
+    const enclosure = tracks[0] ? enclosures.get(tracks[0].audioFile) : undefined;
+    if (!enclosure) continue;
+
+    const artist = tracks[0].artist || post.artist;
+    const duration = enclosure.duration ?? tracks[0].duration;
+    // Releases list their tracks; only the first is enclosed
+    const description = tracks.length > 1
+      ? tracks.map((track) => `${track.trackNumber}. ${track.title}${track.artist ? ` — ${track.artist}` : ''}`).join('\n')
+      : `${post.title} by ${artist}`;
+
+    items.push(`    <item>
+      <title>${xml(post.title)}</title>
+      <link>${xml(pageUrl)}</link>
+      <guid isPermaLink="false">${xml(post.id)}</guid>
+      <pubDate>${publishedAt(post).toUTCString()}</pubDate>
+      <description>${xml(description)}</description>
+      <enclosure url="${xml(enclosure.url)}" length="${enclosure.length}" type="${xml(enclosure.type)}" />
+      <itunes:author>${xml(artist)}</itunes:author>
+      <itunes:episodeType>full</itunes:episodeType>${duration ? `
+      <itunes:duration>${formatDuration(duration)}</itunes:duration>` : ''}${post.artwork ? `
+      <itunes:image href="${xml(post.artwork)}" />` : ''}
+    </item>`);
+  }
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<rss version="2.0" xmlns:itunes="http://www.itunes.com/dtds/podcast-1.0.dtd" xmlns:podcast="https://podcastindex.org/namespace/1.0" xmlns:atom="http://www.w3.org/2005/Atom">
+  <channel>
+    <title>${xml(settings.title)}</title>
+    <link>${xml(pageUrl)}</link>
+    <atom:link href="${xml(feedUrl)}" rel="self" type="application/rss+xml" />
+    <description>${xml(settings.description || settings.title)}</description>
+    <language>${xml(settings.language)}</language>
+    <lastBuildDate>${new Date().toUTCString()}</lastBuildDate>
+    <itunes:author>${xml(settings.author)}</itunes:author>
+    <itunes:summary>${xml(settings.description || settings.title)}</itunes:summary>
+    <itunes:category text="${xml(settings.category)}" />
+    <itunes:explicit>${settings.explicit ? 'true' : 'false'}</itunes:explicit>
+    <itunes:type>episodic</itunes:type>${settings.email ? `
+    <itunes:owner>
+      <itunes:name>${xml(settings.author)}</itunes:name>
+      <itunes:email>${xml(settings.email)}</itunes:email>
+    </itunes:owner>` : ''}${artwork ? `
+    <itunes:image href="${xml(artwork)}" />
+    <image>
+      <url>${xml(artwork)}</url>
+      <title>${xml(settings.title)}</title>
+      <link>${xml(pageUrl)}</link>
+    </image>` : ''}
+    <podcast:locked>no</podcast:locked>
+    <podcast:medium>music</podcast:medium>
+${items.join('\n')}
+  </channel>
+</rss>
+`;
+}
@@ -0,0 +1,256 @@
+/**
+ * Promotions - Discount codes and time-boxed sales
+ *
+ * A promotion takes a percentage or a fixed amount off the cart lines it covers:
+ * one product, one category, or everything. Promotions with a code apply once the
+ * buyer enters it in the cart; promotions without a code are sales that apply on
+ * their own between their start and end dates.
+ *
+ * Promotions don't stack: the cart gets whichever usable promotion saves the most.
+ * The same calculation prices the cart, the order and the Stripe Checkout Session,
+ * so the buyer pays exactly the discounted total they were shown.
+ */
+
+import { db } from './db';
+import { promotions, carts, type Promotion } from './db/schema';
+import { eq, and, desc, isNull } from 'drizzle-orm';
+import { nanoid } from './nanoid';
+
+export type DiscountType = 'percentage' | 'fixed';
+
+export type PromotionErrorCode = 'not_found' | 'inactive' | 'not_started' | 'expired' | 'used_up' | 'not_applicable';
+
+/** A cart line as promotions see it */
+export interface PromotionLine {
+  productId: string;
+  categoryIds: string[];
+  amount: number; // line total in cents
+}
+
+export interface AppliedPromotion {
+  promotion: Promotion;
+  discount: number; // cents
+  label: string; // e.g. "SPRING20: 20% off"
+}
+
+export interface CartPromotionResult {
+  applied: AppliedPromotion | null;
+  codeError?: string; // why the cart's code isn't being used
+  codeErrorCode?: PromotionErrorCode;
+}
+
+export interface PromotionInput {
+  code?: string | null;
+  description?: string;
+  discountType: DiscountType;
+  amount: string;
+  productId?: string | null;
+  categoryId?: string | null;
+  usageLimit?: number | null;
+  startsAt?: Date | null;
+  endsAt?: Date | null;
+  active: boolean;
+}
+
+/** Codes are matched case-insensitively and stored uppercase */
+export function normalizePromotionCode(code: string): string {
+  return code.trim().toUpperCase();
+}
+
+function formatDollars(cents: number): string {
+  return `$${(cents / 100).toFixed(2)}`;
+}
+
+/** "20% off" / "$10.00 off", prefixed with the code when there is one */
+export function describePromotion(promotion: Promotion): string {
+  const amount = parseFloat(promotion.amount) || 0;
+  const off = promotion.discountType === 'percentage'
+    ? `${Number.isInteger(amount) ? amount : amount.toFixed(2)}% off`
+    : `${formatDollars(Math.round(amount * 100))} off`;
+  const label = promotion.description ? `${off} ${promotion.description}` : off;
+  return promotion.code ? `${promotion.code}: ${label}` : label;
+}
+
+/**
+ * Why a promotion can't be used right now, or null when it can
+ */
+function unavailableReason(promotion: Promotion, now: Date): { error: string; code: PromotionErrorCode } | null {
+  if (!promotion.active || promotion.deletedAt) {
+    return { error: 'This code is no longer active', code: 'inactive' };
+  }
+  if (promotion.startsAt && promotion.startsAt > now) {
+    return { error: 'This code is not active yet', code: 'not_started' };
+  }
+  if (promotion.endsAt && promotion.endsAt <= now) {
+    return { error: 'This code has expired', code: 'expired' };
+  }
+  if (promotion.usageLimit !== null && promotion.timesRedeemed >= promotion.usageLimit) {
+    return { error: 'This code has reached its usage limit', code: 'used_up' };
+  }
+  return null;
+}
+
+function coversLine(promotion: Promotion, line: PromotionLine): boolean {
+  if (promotion.productId) return line.productId === promotion.productId;
+  if (promotion.categoryId) return line.categoryIds.includes(promotion.categoryId);
+  return true;
+}
+
+/**
+ * Discount in cents for a set of cart lines (0 when nothing in the cart is covered).
+ * Fixed discounts never exceed the covered lines' total.
+ */
+export function calculateDiscount(promotion: Promotion, lines: PromotionLine[]): number {
+  const covered = lines
+    .filter((line) => coversLine(promotion, line))
+    .reduce((sum, line) => sum + line.amount, 0);
+  if (covered <= 0) return 0;
+
+  const amount = parseFloat(promotion.amount) || 0;
+  const discount = promotion.discountType === 'percentage'
+    ? Math.round(covered * Math.min(amount, 100) / 100)
+    : Math.round(amount * 100);
+  return Math.min(Math.max(discount, 0), covered);
+}
+
+export async function findPromotionByCode(code: string): Promise<Promotion | null> {
+  const [promotion] = await db
+    .select()
+    .from(promotions)
+    .where(and(eq(promotions.code, normalizePromotionCode(code)), isNull(promotions.deletedAt)))
+    .limit(1);
+  return promotion ?? null;
+}
+
+/** Code-less promotions (sales) that are switched on */
+async function getAutomaticPromotions(): Promise<Promotion[]> {
+  return db
+    .select()
+    .from(promotions)
+    .where(and(isNull(promotions.code), eq(promotions.active, true), isNull(promotions.deletedAt)));
+}
+
+/**
+ * Pick the promotion for a cart: the entered code or a running sale, whichever saves more.
+ * A code that can't be used is reported in `codeError` rather than failing the cart.
+ */
+export async function resolveCartPromotion(
+  code: string | null,
+  lines: PromotionLine[]
+): Promise<CartPromotionResult> {
+  const now = new Date();
+  const candidates: AppliedPromotion[] = [];
+  const result: CartPromotionResult = { applied: null };
+
+  for (const promotion of await getAutomaticPromotions()) {
+    if (unavailableReason(promotion, now)) continue;
+    const discount = calculateDiscount(promotion, lines);
+    if (discount > 0) candidates.push({ promotion, discount, label: describePromotion(promotion) });
+  }
+
+  if (code) {
+    const promotion = await findPromotionByCode(code);
+    const reason = promotion
+      ? unavailableReason(promotion, now)
+      : { error: 'This code is not valid', code: 'not_found' as const };
+    const discount = promotion && !reason ? calculateDiscount(promotion, lines) : 0;
+
+    if (reason) {
+      result.codeError = reason.error;
+      result.codeErrorCode = reason.code;
+    } else if (discount <= 0) {
+      result.codeError = "This code doesn't apply to anything in your cart";
+      result.codeErrorCode = 'not_applicable';
+    } else {
+      candidates.push({ promotion: promotion!, discount, label: describePromotion(promotion!) });
+    }
+  }
+
+  result.applied = candidates.reduce<AppliedPromotion | null>(
+    (best, candidate) => (!best || candidate.discount > best.discount ? candidate : best),
+    null
+  );
+  return result;
+}
+
+/** The code a buyer entered in their cart, if any */
+export async function getCartPromotionCode(cartId: string): Promise<string | null> {
+  const [cart] = await db
+    .select({ promotionCode: carts.promotionCode })
+    .from(carts)
+    .where(eq(carts.id, cartId))
+    .limit(1);
+  return cart?.promotionCode ?? null;
+}
+
+/** Store (or with null, clear) the code entered in a cart */
+export async function setCartPromotionCode(cartId: string, code: string | null): Promise<void> {
+  await db
+    .update(carts)
+    .set({ promotionCode: code ? normalizePromotionCode(code) : null, updatedAt: new Date() })
+    .where(eq(carts.id, cartId));
+}
+
+// ============================================================
+// Admin
+// ============================================================
+
+/** All promotions (newest first) */
+export async function getPromotions(): Promise<Promotion[]> {
+  return db
+    .select()
+    .from(promotions)
+    .where(isNull(promotions.deletedAt))
+    .orderBy(desc(promotions.createdAt));
+}
+
+/** Check whether a code is taken (optionally by a promotion other than `excludeId`) */
+export async function isPromotionCodeTaken(code: string, excludeId?: string): Promise<boolean> {
+  const rows = await db
+    .select({ id: promotions.id })
+    .from(promotions)
+    .where(eq(promotions.code, normalizePromotionCode(code)))
+    .limit(1);
+  return rows.length > 0 && rows[0].id !== excludeId;
+}
+
+function toPromotionColumns(data: PromotionInput) {
+  return {
+    code: data.code ? normalizePromotionCode(data.code) : null,
+    description: data.description || null,
+    discountType: data.discountType,
+    amount: data.amount,
+    // A product scope is narrower than a category scope, so it wins
+    productId: data.productId || null,
+    categoryId: data.productId ? null : data.categoryId || null,
+    usageLimit: data.usageLimit ?? null,
+    startsAt: data.startsAt ?? null,
+    endsAt: data.endsAt ?? null,
+    active: data.active,
+  };
+}
+
+export async function createPromotion(data: PromotionInput): Promise<string> {
+  const id = nanoid();
+  await db.insert(promotions).values({ id, ...toPromotionColumns(data) });
+  return id;
+}
+
+export async function updatePromotion(id: string, data: PromotionInput): Promise<boolean> {
+  const result = await db
+    .update(promotions)
+    .set({ ...toPromotionColumns(data), updatedAt: new Date() })
+    .where(and(eq(promotions.id, id), isNull(promotions.deletedAt)))
+    .returning({ id: promotions.id });
+  return result.length > 0;
+}
+
+/** Soft delete a promotion; past orders keep their copy of the code */
+export async function softDeletePromotion(id: string): Promise<boolean> {
+  const result = await db
+    .update(promotions)
+    .set({ deletedAt: new Date(), active: false, updatedAt: new Date() })
+    .where(and(eq(promotions.id, id), isNull(promotions.deletedAt)))
+    .returning({ id: promotions.id });
+  return result.length > 0;
+}
@@ -0,0 +1,242 @@
+/**
+ * Stock Reservations - Hold stock for cart items so pieces can't be oversold
+ *
+ * Adding to the cart places a hold on the product (and size) for a few minutes.
+ * Available stock for everyone else is the real stock minus active holds, so the
+ * second buyer of a one-of-one piece is turned away at "add to cart" instead of
+ * after paying. Holds expire on their own; checkout stretches them to cover the
+ * Stripe session, and they are released when the order is paid or abandoned.
+ *
+ * Expired rows are simply ignored by every query and swept up opportunistically.
+ */
+
+import { db } from './db';
+import { products, productSizeInventory, stockReservations } from './db/schema';
+import { eq, and, ne, gt, lt, isNull, sum } from 'drizzle-orm';
+import { nanoid } from './nanoid';
+
+// How long an add-to-cart holds stock (STOCK_RESERVATION_MINUTES, default 15)
+export const RESERVATION_MINUTES = Number(process.env.STOCK_RESERVATION_MINUTES) || 15;
+
+// Stripe sessions must expire between 30 minutes and 24 hours after creation
+export const CHECKOUT_SESSION_MINUTES = Math.min(Math.max(RESERVATION_MINUTES, 30), 24 * 60);
+
+// Checkout holds outlive the session slightly so the buyer never pays for released stock
+export const CHECKOUT_RESERVATION_MINUTES = CHECKOUT_SESSION_MINUTES + 5;
+
+export type ReservationErrorCode = 'not_found' | 'sold_out' | 'insufficient_stock' | 'reserved';
+
+export interface ReservationResult {
+  success: boolean;
+  expiresAt?: Date;
+  available?: number | null; // how many this cart could still hold (null = stock not tracked)
+  error?: string;
+  code?: ReservationErrorCode;
+  status?: number; // HTTP status hint for the API route
+}
+
+function sizeCondition(size: string | null) {
+  return size === null ? isNull(stockReservations.size) : eq(stockReservations.size, size);
+}
+
+function minutesFromNow(minutes: number): Date {
+  return new Date(Date.now() + minutes * 60 * 1000);
+}
+
+/**
+ * Physical stock for a product/size, before holds.
+ * Size rows win over products.stockQuantity; null means stock isn't tracked.
+ * Returns undefined when the product doesn't exist.
+ */
+export async function getStockLevel(productId: string, size: string | null): Promise<number | null | undefined> {
+  const [product] = await db
+    .select({
+      stockStatus: products.stockStatus,
+      stockQuantity: products.stockQuantity,
+      deletedAt: products.deletedAt,
+    })
+    .from(products)
+    .where(eq(products.id, productId))
+    .limit(1);
+
+  if (!product || product.deletedAt) return undefined;
+  if (product.stockStatus === 'OUT_OF_STOCK') return 0;
+
+  if (size) {
+    const [sizeRow] = await db
+      .select({ quantity: productSizeInventory.quantity })
+      .from(productSizeInventory)
+      .where(and(eq(productSizeInventory.productId, productId), eq(productSizeInventory.size, size)))
+      .limit(1);
+    if (sizeRow) return Math.max(sizeRow.quantity ?? 0, 0);
+  }
+
+  return product.stockQuantity === null ? null : Math.max(product.stockQuantity, 0);
+}
+
+/**
+ * Quantity held by active reservations, optionally leaving out one cart
+ */
+export async function getReservedQuantity(
+  productId: string,
+  size: string | null,
+  excludeCartId?: string
+): Promise<number> {
+  const conditions = [
+    eq(stockReservations.productId, productId),
+    sizeCondition(size),
+    gt(stockReservations.expiresAt, new Date()),
+  ];
+  if (excludeCartId) conditions.push(ne(stockReservations.cartId, excludeCartId));
+
+  const [row] = await db
+    .select({ total: sum(stockReservations.quantity) })
+    .from(stockReservations)
+    .where(and(...conditions));
+
+  return Number(row?.total ?? 0);
+}
+
+/**
+ * Explain why a cart can't hold `quantity` of an item
+ */
+function describeShortfall(quantity: number, stock: number, free: number): ReservationResult {
+  if (stock <= 0) {
+    return { success: false, available: 0, error: 'Sold out', code: 'sold_out', status: 409 };
+  }
+  if (quantity > stock) {
+    return { success: false, available: free, error: `Only ${stock} left`, code: 'insufficient_stock', status: 409 };
+  }
+  if (free <= 0) {
+    return {
+      success: false,
+      available: 0,
+      error: 'Reserved by another buyer. It may become available again in a few minutes.',
+      code: 'reserved',
+      status: 409,
+    };
+  }
+  return {
+    success: false,
+    available: free,
+    error: `Only ${free} available right now; the rest is reserved by another buyer`,
+    code: 'reserved',
+    status: 409,
+  };
+}
+
+/**
+ * Hold `quantity` units (the cart line's full quantity, not a delta) for a cart.
+ * Creates or refreshes the cart's hold, or rejects with a reason if it would oversell.
+ */
+export async function reserveStock(
+  cartId: string,
+  productId: string,
+  size: string | null,
+  quantity: number,
+  minutes: number = RESERVATION_MINUTES
+): Promise<ReservationResult> {
+  const stock = await getStockLevel(productId, size);
+  if (stock === undefined) {
+    return { success: false, error: 'Product not found', code: 'not_found', status: 404 };
+  }
+
+  // Untracked stock can't be oversold, so there's nothing to hold
+  if (stock === null) {
+    return { success: true, available: null };
+  }
+
+  const reservedByOthers = await getReservedQuantity(productId, size, cartId);
+  const free = Math.max(stock - reservedByOthers, 0);
+  if (quantity > free) {
+    return describeShortfall(quantity, stock, free);
+  }
+
+  const expiresAt = minutesFromNow(minutes);
+  const [existing] = await db
+    .select({ id: stockReservations.id, quantity: stockReservations.quantity, expiresAt: stockReservations.expiresAt })
+    .from(stockReservations)
+    .where(and(
+      eq(stockReservations.cartId, cartId),
+      eq(stockReservations.productId, productId),
+      sizeCondition(size)
+    ))
+    .limit(1);
+
+  let reservationId: string;
+  if (existing) {
+    reservationId = existing.id;
+    await db
+      .update(stockReservations)
+      .set({ quantity, expiresAt, updatedAt: new Date() })
+      .where(eq(stockReservations.id, reservationId));
+  } else {
+    reservationId = nanoid();
+    await db.insert(stockReservations).values({
+      id: reservationId,
+      cartId,
+      productId,
+      size,
+      quantity,
+      expiresAt,
+    });
+  }
+
+  // No transactions on neon-http: re-check after writing, and back out if another
+  // cart grabbed the same stock in the meantime. A cart raising its quantity keeps
+  // the hold it already had.
+  const totalReserved = await getReservedQuantity(productId, size);
+  if (totalReserved > stock) {
+    if (existing) {
+      await db
+        .update(stockReservations)
+        .set({ quantity: existing.quantity, expiresAt: existing.expiresAt, updatedAt: new Date() })
+        .where(eq(stockReservations.id, reservationId));
+    } else {
+      await db.delete(stockReservations).where(eq(stockReservations.id, reservationId));
+    }
+    return describeShortfall(quantity, stock, Math.max(stock - (totalReserved - quantity), 0));
+  }
+
+  // Keep the table small
+  await purgeExpiredReservations().catch(() => {});
+
+  return { success: true, expiresAt, available: free - quantity };
+}
+
+/**
+ * Stretch every hold a cart has to `minutes` from now (a Checkout Session was opened for it)
+ */
+export async function extendCartReservations(cartId: string, minutes: number): Promise<void> {
+  await db
+    .update(stockReservations)
+    .set({ expiresAt: minutesFromNow(minutes), updatedAt: new Date() })
+    .where(eq(stockReservations.cartId, cartId));
+}
+
+/**
+ * Release a cart's hold on one product/size (item removed from cart)
+ */
+export async function releaseReservation(cartId: string, productId: string, size: string | null): Promise<void> {
+  await db
+    .delete(stockReservations)
+    .where(and(
+      eq(stockReservations.cartId, cartId),
+      eq(stockReservations.productId, productId),
+      sizeCondition(size)
+    ));
+}
+
+/**
+ * Release every hold a cart has (order paid or checkout abandoned)
+ */
+export async function releaseCartReservations(cartId: string): Promise<void> {
+  await db.delete(stockReservations).where(eq(stockReservations.cartId, cartId));
+}
+
+/**
+ * Delete holds that have expired
+ */
+export async function purgeExpiredReservations(): Promise<void> {
+  await db.delete(stockReservations).where(lt(stockReservations.expiresAt, new Date()));
+}
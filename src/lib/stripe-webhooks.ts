@@ -0,0 +1,141 @@
+/**
+ * Stripe Webhook Event Handling
+ *
+ * Applies verified Stripe events to our orders. Kept separate from the API route
+ * (and from the Stripe client in stripe.ts) so stored event fixtures can be
+ * replayed through it without a signature or an API key:
+ *
+ *   npm run stripe:replay -- scripts/fixtures/stripe/checkout.session.completed.json
+ *
+ * Every handler is safe to run more than once for the same event, because Stripe
+ * retries deliveries until it gets a 2xx.
+ */
+
+import type Stripe from 'stripe';
+import { markOrderPaid, getOrderByRef, markOrderRefunded, recordOrderRefund, markOrderAbandoned } from './orders';
+import { sendOrderConfirmationEmail, sendOrderRefundedEmail } from './mail';
+import { parsePriceToNumber } from './db/queries';
+
+export interface WebhookResult {
+  handled: boolean;
+  orderId?: string | null;
+  message: string;
+}
+
+/**
+ * Read our order id from a Checkout Session (metadata first, then client_reference_id)
+ */
+function getSessionOrderId(session: Stripe.Checkout.Session): string | null {
+  return session.metadata?.orderId || session.client_reference_id || null;
+}
+
+// Checkout Session fields that the installed SDK types (a newer API version) no longer declare
+type AcaciaCheckoutSession = Stripe.Checkout.Session & {
+  shipping_details?: Stripe.Checkout.Session.CollectedInformation.ShippingDetails | null;
+};
+
+function getId(ref: string | { id: string } | null | undefined): string | null {
+  if (!ref) return null;
+  return typeof ref === 'string' ? ref : ref.id;
+}
+
+async function handleCheckoutCompleted(session: Stripe.Checkout.Session): Promise<WebhookResult> {
+  const orderId = getSessionOrderId(session);
+  if (!orderId) {
+    return { handled: false, message: 'Session has no orderId' };
+  }
+
+  // Delayed payment methods complete the session before money moves
+  if (session.payment_status === 'unpaid') {
+    return { handled: false, orderId, message: 'Session completed but not paid yet' };
+  }
+
+  // The ship-to address is `shipping_details` on our pinned API version (2024-12-18.acacia)
+  // and `collected_information.shipping_details` on newer ones. `customer_details.address`
+  // is the billing address, so it is never used for shipping.
+  const shipping = (session as AcaciaCheckoutSession).shipping_details
+    ?? session.collected_information?.shipping_details
+    ?? null;
+  const address = shipping?.address ?? null;
+
+  const order = await markOrderPaid(orderId, {
+    stripePaymentIntentId: getId(session.payment_intent),
+    customerEmail: session.customer_details?.email ?? null,
+    customerName: shipping?.name ?? session.customer_details?.name ?? null,
+    shippingAddress: address ? {
+      line1: address.line1,
+      line2: address.line2,
+      city: address.city,
+      state: address.state,
+      postalCode: address.postal_code,
+      country: address.country,
+    } : null,
+  });
+
+  if (!order) {
+    return { handled: false, orderId, message: 'Order already processed or not found' };
+  }
+
+  // Only reached by the delivery that finished the order, so the buyer gets one confirmation
+  await sendOrderConfirmationEmail(orderId);
+  return { handled: true, orderId, message: 'Order marked paid' };
+}
+
+async function handleChargeRefunded(charge: Stripe.Charge): Promise<WebhookResult> {
+  const orderId = charge.metadata?.orderId || null;
+  const paymentIntentId = getId(charge.payment_intent);
+  if (!orderId && !paymentIntentId) {
+    return { handled: false, message: 'Charge has no orderId or payment intent' };
+  }
+  const where = orderId ? { orderId } : { paymentIntentId: paymentIntentId! };
+
+  const before = await getOrderByRef(where);
+  // A fully refunded charge refunds the order even if our totals disagree
+  const order = before && (charge.refunded
+    ? await markOrderRefunded(where)
+    : await recordOrderRefund(where, charge.amount_refunded));
+  if (!before || !order) {
+    return { handled: false, orderId, message: 'Order not refundable or not found' };
+  }
+
+  // Email whatever this charge update refunded beyond what we had recorded. A refund
+  // issued from the admin is usually recorded (and emailed) by then; if not, both
+  // send under the same refunded total and the outbox keeps one
+  const refunded = charge.amount_refunded - Math.round(parsePriceToNumber(before.refundedTotal) * 100);
+  if (refunded > 0) {
+    await sendOrderRefundedEmail(order.id, (refunded / 100).toFixed(2), charge.amount_refunded);
+  }
+  return {
+    handled: true,
+    orderId: order.id,
+    message: order.status === 'refunded' ? 'Order marked refunded' : 'Partial refund recorded',
+  };
+}
+
+async function handleCheckoutExpired(session: Stripe.Checkout.Session): Promise<WebhookResult> {
+  const orderId = getSessionOrderId(session);
+  if (!orderId) {
+    return { handled: false, message: 'Session has no orderId' };
+  }
+
+  const order = await markOrderAbandoned(orderId);
+  return order
+    ? { handled: true, orderId, message: 'Order marked abandoned' }
+    : { handled: false, orderId, message: 'Order not pending' };
+}
+
+/**
+ * Apply a Stripe event to our data
+ */
+export async function handleStripeEvent(event: Stripe.Event): Promise<WebhookResult> {
+  switch (event.type) {
+    case 'checkout.session.completed':
+      return handleCheckoutCompleted(event.data.object);
+    case 'charge.refunded':
+      return handleChargeRefunded(event.data.object);
+    case 'checkout.session.expired':
+      return handleCheckoutExpired(event.data.object);
+    default:
+      return { handled: false, message: `Ignored event type ${event.type}` };
+  }
+}
@@ -1,8 +1,8 @@
 /**
  * Stripe Integration
  * 
- * Using Stripe Checkout Links (no backend logic required)
- * Products store their checkout URLs directly in the database
+ * Single products can still use Stripe Checkout Links stored on the product.
+ * Cart checkouts build a multi-line Checkout Session from the persistent cart.
  */
 
 import Stripe from 'stripe';
@@ -12,8 +12,14 @@ if (!process.env.STRIPE_SECRET_KEY) {
 }
 
 // Initialize Stripe (server-side only)
+// STRIPE_API_HOST/PORT/PROTOCOL point the client at a local stripe-mock instead of api.stripe.com
 export const stripe = new Stripe(process.env.STRIPE_SECRET_KEY, {
   apiVersion: '2024-12-18.acacia',
+  ...(process.env.STRIPE_API_HOST && {
+    host: process.env.STRIPE_API_HOST,
+    port: process.env.STRIPE_API_PORT || undefined,
+    protocol: process.env.STRIPE_API_PROTOCOL === 'http' ? 'http' : 'https',
+  }),
 });
 
 /**
@@ -49,3 +55,130 @@ export async function createPaymentLink(params: {
   });
   return paymentLink.url;
 }
+
+/** One line of a cart checkout, priced on our side (products have no Stripe Price objects) */
+export interface CheckoutLineItem {
+  name: string;
+  unitAmount: number; // cents
+  quantity: number;
+  imageUrl?: string;
+}
+
+/** A promotion applied to a cart checkout, already calculated on our side */
+export interface CheckoutDiscount {
+  amountOff: number; // cents
+  name: string;
+}
+
+/** Countries Stripe Checkout collects shipping addresses for (comma-separated ISO codes) */
+function getShippingCountries(): Stripe.Checkout.SessionCreateParams.ShippingAddressCollection.AllowedCountry[] {
+  const raw = process.env.STRIPE_SHIPPING_COUNTRIES || 'US';
+  return raw
+    .split(',')
+    .map((c) => c.trim().toUpperCase())
+    .filter(Boolean) as Stripe.Checkout.SessionCreateParams.ShippingAddressCollection.AllowedCountry[];
+}
+
+/**
+ * Create a multi-line Checkout Session for a cart order
+ * The order id travels in metadata so the webhook can find the order again.
+ * A discount becomes a single-use coupon so Stripe charges the same total as the order.
+ */
+export async function createCartCheckoutSession(params: {
+  orderId: string;
+  lineItems: CheckoutLineItem[];
+  successUrl: string;
+  cancelUrl: string;
+  expiresInMinutes?: number; // 30 minutes to 24 hours; Stripe defaults to 24 hours
+  discount?: CheckoutDiscount;
+}): Promise<Stripe.Checkout.Session> {
+  const coupon = params.discount && params.discount.amountOff > 0
+    ? await stripe.coupons.create({
+        amount_off: params.discount.amountOff,
+        currency: 'usd',
+        duration: 'once',
+        max_redemptions: 1,
+        name: params.discount.name.slice(0, 40), // Stripe's limit for coupon names
+        metadata: { orderId: params.orderId },
+      })
+    : null;
+
+  return stripe.checkout.sessions.create({
+    mode: 'payment',
+    payment_method_types: ['card'],
+    line_items: params.lineItems.map((item) => ({
+      price_data: {
+        currency: 'usd',
+        unit_amount: item.unitAmount,
+        product_data: {
+          name: item.name,
+          ...(item.imageUrl && { images: [item.imageUrl] }),
+        },
+      },
+      quantity: item.quantity,
+    })),
+    shipping_address_collection: { allowed_countries: getShippingCountries() },
+    success_url: params.successUrl,
+    cancel_url: params.cancelUrl,
+    client_reference_id: params.orderId,
+    metadata: { orderId: params.orderId },
+    payment_intent_data: { metadata: { orderId: params.orderId } },
+    ...(coupon && { discounts: [{ coupon: coupon.id }] }),
+    ...(params.expiresInMinutes && {
+      expires_at: Math.floor(Date.now() / 1000) + params.expiresInMinutes * 60,
+    }),
+  });
+}
+
+/**
+ * Close a Checkout Session so it can no longer be paid
+ * Returns the session's final status: 'expired', or 'complete' when the buyer already paid.
+ */
+export async function expireCheckoutSession(sessionId: string): Promise<Stripe.Checkout.Session.Status | null> {
+  const session = await stripe.checkout.sessions.retrieve(sessionId);
+  if (session.status !== 'open') return session.status;
+  const expired = await stripe.checkout.sessions.expire(sessionId);
+  await deleteSessionCoupon(expired);
+  return expired.status;
+}
+
+/**
+ * Delete the single-use coupon a cart checkout created for its discount, once the
+ * session has expired; otherwise every abandoned checkout leaves one behind.
+ * Safe to call more than once.
+ */
+export async function deleteSessionCoupon(session: Stripe.Checkout.Session): Promise<void> {
+  for (const discount of session.discounts ?? []) {
+    const couponId = typeof discount.coupon === 'string' ? discount.coupon : discount.coupon?.id;
+    if (!couponId) continue;
+    try {
+      await stripe.coupons.del(couponId);
+    } catch (error) {
+      if ((error as Stripe.errors.StripeError).code !== 'resource_missing') throw error;
+    }
+  }
+}
+
+/**
+ * Refund all or part of an order's payment
+ * Leave out `amount` to refund whatever is left on the payment. The idempotency
+ * key is the order plus the refunded total before and after, so a retried or
+ * double-submitted request returns the first refund instead of refunding twice.
+ */
+export async function createRefund(params: {
+  orderId: string;
+  paymentIntentId: string;
+  refundedBefore: number; // cents
+  amount?: number; // cents
+  reason?: Stripe.RefundCreateParams.Reason;
+}): Promise<Stripe.Refund> {
+  return stripe.refunds.create(
+    {
+      payment_intent: params.paymentIntentId,
+      ...(params.amount && { amount: params.amount }),
+      ...(params.reason && { reason: params.reason }),
+      metadata: { orderId: params.orderId },
+    },
+    { idempotencyKey: `refund-${params.orderId}-${params.refundedBefore}-${params.amount ?? 'rest'}` }
+  );
+}
@@ -0,0 +1,355 @@
+/**
+ * Trash - Soft-deleted media, works, posts, products and audio posts
+ *
+ * Deleting from the admin only sets `deletedAt`, so items can be restored from
+ * the Trash page. They are removed for good when purged: by hand, by emptying
+ * the trash, or by purgeExpiredTrash once they have been in the trash longer
+ * than the retention period. Purging deletes the row and the CDN files only it
+ * owned; files that belong to the media library are left to the library.
+ */
+
+import { db } from './db';
+import {
+  media,
+  works,
+  workMedia,
+  posts,
+  postMedia,
+  products,
+  productImages,
+  productCategories,
+  productAttributes,
+  productSizeInventory,
+  cartItems,
+  orderItems,
+  audioPosts,
+  audioPostTracks,
+} from './db/schema';
+import { and, desc, eq, inArray, isNotNull } from 'drizzle-orm';
+import { deleteFromBunny, getStoragePath, isBunnyUrl } from './bunny';
+import { purgeMedia } from './upload-service';
+import { findLibraryUrls, syncRefCounts } from './media-usage';
+
+// How long deleted items stay restorable (TRASH_RETENTION_DAYS, default 30)
+export const TRASH_RETENTION_DAYS = Number(process.env.TRASH_RETENTION_DAYS) || 30;
+
+export type TrashKind = 'media' | 'work' | 'post' | 'product' | 'audio-post';
+
+export interface TrashItem {
+  kind: TrashKind;
+  id: string;
+  title: string;
+  detail: string; // media type, work category, post type...
+  thumbnail: string | null;
+  deletedAt: Date;
+  purgeAt: Date; // when purgeExpiredTrash will delete it
+}
+
+export interface TrashResult {
+  success: boolean;
+  error?: string;
+}
+
+export interface PurgeSummary {
+  purged: number;
+  failed: { kind: TrashKind; id: string; error: string }[];
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function purgeDate(deletedAt: Date): Date {
+  return new Date(deletedAt.getTime() + TRASH_RETENTION_DAYS * DAY_MS);
+}
+
+/**
+ * Everything in the trash, most recently deleted first
+ */
+export async function listTrash(): Promise<TrashItem[]> {
+  const items: Omit<TrashItem, 'purgeAt'>[] = [];
+
+  const mediaRows = await db.select().from(media).where(isNotNull(media.deletedAt));
+  for (const row of mediaRows) {
+    items.push({
+      kind: 'media',
+      id: row.id,
+      title: row.originalName,
+      detail: row.mediaType,
+      thumbnail: row.mediaType === 'image' ? row.variants?.sm?.url || row.url : row.posterUrl,
+      deletedAt: row.deletedAt!,
+    });
+  }
+
+  const workRows = await db
+    .select({ id: works.id, title: works.title, category: works.category, deletedAt: works.deletedAt })
+    .from(works)
+    .where(isNotNull(works.deletedAt));
+  const workThumbs = new Map<string, string>();
+  if (workRows.length > 0) {
+    const images = await db
+      .select({ workId: workMedia.workId, url: workMedia.url })
+      .from(workMedia)
+      .where(and(inArray(workMedia.workId, workRows.map((row) => row.id)), eq(workMedia.type, 'image')))
+      .orderBy(desc(workMedia.isPrimary), workMedia.sortOrder);
+    for (const image of images) {
+      if (!workThumbs.has(image.workId)) workThumbs.set(image.workId, image.url);
+    }
+  }
+  for (const row of workRows) {
+    items.push({
+      kind: 'work',
+      id: row.id,
+      title: row.title,
+      detail: `${row.category} work`,
+      thumbnail: workThumbs.get(row.id) ?? null,
+      deletedAt: row.deletedAt!,
+    });
+  }
+
+  const postRows = await db
+    .select({ id: posts.id, title: posts.title, postType: posts.postType, deletedAt: posts.deletedAt })
+    .from(posts)
+    .where(isNotNull(posts.deletedAt));
+  for (const row of postRows) {
+    items.push({ kind: 'post', id: row.id, title: row.title, detail: row.postType, thumbnail: null, deletedAt: row.deletedAt! });
+  }
+
+  const productRows = await db
+    .select({ id: products.id, name: products.name, deletedAt: products.deletedAt })
+    .from(products)
+    .where(isNotNull(products.deletedAt));
+  const productThumbs = new Map<string, string>();
+  if (productRows.length > 0) {
+    const images = await db
+      .select({ productId: productImages.productId, imageUrl: productImages.imageUrl })
+      .from(productImages)
+      .where(inArray(productImages.productId, productRows.map((row) => row.id)))
+      .orderBy(desc(productImages.isPrimary), productImages.sortOrder);
+    for (const image of images) {
+      if (!productThumbs.has(image.productId)) productThumbs.set(image.productId, image.imageUrl);
+    }
+  }
+  for (const row of productRows) {
+    items.push({
+      kind: 'product',
+      id: row.id,
+      title: row.name,
+      detail: 'product',
+      thumbnail: productThumbs.get(row.id) ?? null,
+      deletedAt: row.deletedAt!,
+    });
+  }
+
+  const audioRows = await db
+    .select({ id: audioPosts.id, title: audioPosts.title, artist: audioPosts.artist, artwork: audioPosts.artwork, deletedAt: audioPosts.deletedAt })
+    .from(audioPosts)
+    .where(isNotNull(audioPosts.deletedAt));
+  for (const row of audioRows) {
+    items.push({
+      kind: 'audio-post',
+      id: row.id,
+      title: row.title,
+      detail: `audio post by ${row.artist}`,
+      thumbnail: row.artwork,
+      deletedAt: row.deletedAt!,
+    });
+  }
+
+  return items
+    .map((item) => ({ ...item, purgeAt: purgeDate(item.deletedAt) }))
+    .sort((a, b) => b.deletedAt.getTime() - a.deletedAt.getTime());
+}
+
+/**
+ * Take an item out of the trash. Works come back published; posts and audio
+ * posts come back as drafts, since deleting archived them.
+ */
+export async function restoreFromTrash(kind: TrashKind, id: string): Promise<TrashResult> {
+  const now = new Date();
+  let restored: { id: string }[];
+
+  switch (kind) {
+    case 'media':
+      restored = await db
+        .update(media)
+        .set({ deletedAt: null, updatedAt: now })
+        .where(and(eq(media.id, id), isNotNull(media.deletedAt)))
+        .returning({ id: media.id });
+      break;
+    case 'work':
+      restored = await db
+        .update(works)
+        .set({ deletedAt: null, published: true, updatedAt: now })
+        .where(and(eq(works.id, id), isNotNull(works.deletedAt)))
+        .returning({ id: works.id });
+      break;
+    case 'post':
+      restored = await db
+        .update(posts)
+        .set({ deletedAt: null, status: 'draft', updatedAt: now })
+        .where(and(eq(posts.id, id), isNotNull(posts.deletedAt)))
+        .returning({ id: posts.id });
+      break;
+    case 'product':
+      restored = await db
+        .update(products)
+        .set({ deletedAt: null, updatedAt: now })
+        .where(and(eq(products.id, id), isNotNull(products.deletedAt)))
+        .returning({ id: products.id });
+      break;
+    case 'audio-post':
+      restored = await db
+        .update(audioPosts)
+        .set({ deletedAt: null, status: 'draft', updatedAt: now })
+        .where(and(eq(audioPosts.id, id), isNotNull(audioPosts.deletedAt)))
+        .returning({ id: audioPosts.id });
+      break;
+  }
+
+  return restored.length > 0 ? { success: true } : { success: false, error: 'Item not found in trash' };
+}
+
+/**
+ * Delete CDN files of a purged row that nothing else uses. URLs on other
+ * hosts, files that belong to the media library and files still referenced by
+ * another work, product or audio post are skipped.
+ */
+async function deleteOwnedFiles(urls: (string | null | undefined)[]): Promise<void> {
+  const candidates = [...new Set(urls.filter((url): url is string => !!url && isBunnyUrl(url)))];
+  if (candidates.length === 0) return;
+
+  const keep = await findLibraryUrls(candidates);
+  const [workRows, imageRows, artworkRows, trackRows] = await Promise.all([
+    db.select({ url: workMedia.url }).from(workMedia).where(inArray(workMedia.url, candidates)),
+    db.select({ url: productImages.imageUrl }).from(productImages).where(inArray(productImages.imageUrl, candidates)),
+    db.select({ url: audioPosts.artwork }).from(audioPosts).where(inArray(audioPosts.artwork, candidates)),
+    db.select({ url: audioPostTracks.audioFile }).from(audioPostTracks).where(inArray(audioPostTracks.audioFile, candidates)),
+  ]);
+  for (const row of [...workRows, ...imageRows, ...artworkRows, ...trackRows]) {
+    if (row.url) keep.add(row.url);
+  }
+
+  for (const url of candidates) {
+    if (keep.has(url)) continue;
+    try {
+      await deleteFromBunny(getStoragePath(url));
+    } catch (error) {
+      console.warn(`[trash] Failed to delete ${url}:`, error);
+    }
+  }
+}
+
+async function purgeWork(id: string): Promise<TrashResult> {
+  const [work] = await db.select({ id: works.id }).from(works).where(and(eq(works.id, id), isNotNull(works.deletedAt))).limit(1);
+  if (!work) return { success: false, error: 'Item not found in trash' };
+
+  const files = await db.select({ mediaId: workMedia.mediaId, url: workMedia.url }).from(workMedia).where(eq(workMedia.workId, id));
+
+  // Work media and audio tracks go with the work
+  await db.delete(works).where(eq(works.id, id));
+  await deleteOwnedFiles(files.filter((file) => !file.mediaId).map((file) => file.url));
+  await syncRefCounts(files.flatMap((file) => (file.mediaId ? [file.mediaId] : [])));
+  return { success: true };
+}
+
+async function purgePost(id: string): Promise<TrashResult> {
+  const [post] = await db.select({ id: posts.id }).from(posts).where(and(eq(posts.id, id), isNotNull(posts.deletedAt))).limit(1);
+  if (!post) return { success: false, error: 'Item not found in trash' };
+
+  const links = await db.select({ mediaId: postMedia.mediaId }).from(postMedia).where(eq(postMedia.postId, id));
+
+  // Meta, media links and revisions go with the post
+  await db.delete(posts).where(eq(posts.id, id));
+  await syncRefCounts(links.map((link) => link.mediaId));
+  return { success: true };
+}
+
+async function purgeProduct(id: string): Promise<TrashResult> {
+  const [product] = await db.select({ id: products.id }).from(products).where(and(eq(products.id, id), isNotNull(products.deletedAt))).limit(1);
+  if (!product) return { success: false, error: 'Item not found in trash' };
+
+  // Orders keep pointing at what was sold
+  const [ordered] = await db.select({ id: orderItems.id }).from(orderItems).where(eq(orderItems.productId, id)).limit(1);
+  if (ordered) return { success: false, error: 'Product has orders, so it can only stay in the trash' };
+
+  const images = await db.select({ mediaId: productImages.mediaId, imageUrl: productImages.imageUrl }).from(productImages).where(eq(productImages.productId, id));
+
+  await db.delete(productImages).where(eq(productImages.productId, id));
+  await db.delete(productCategories).where(eq(productCategories.productId, id));
+  await db.delete(productAttributes).where(eq(productAttributes.productId, id));
+  await db.delete(productSizeInventory).where(eq(productSizeInventory.productId, id));
+  await db.delete(cartItems).where(eq(cartItems.productId, id));
+  // Reservations and promotions scoped to it cascade; linked works are unlinked
+  await db.delete(products).where(eq(products.id, id));
+  await deleteOwnedFiles(images.filter((image) => !image.mediaId).map((image) => image.imageUrl));
+  await syncRefCounts(images.flatMap((image) => (image.mediaId ? [image.mediaId] : [])));
+  return { success: true };
+}
+
+async function purgeAudioPost(id: string): Promise<TrashResult> {
+  const [post] = await db
+    .select({ id: audioPosts.id, artwork: audioPosts.artwork })
+    .from(audioPosts)
+    .where(and(eq(audioPosts.id, id), isNotNull(audioPosts.deletedAt)))
+    .limit(1);
+  if (!post) return { success: false, error: 'Item not found in trash' };
+
+  const tracks = await db.select({ audioFile: audioPostTracks.audioFile }).from(audioPostTracks).where(eq(audioPostTracks.audioPostId, id));
+
+  // Its tracks go with it
+  await db.delete(audioPosts).where(eq(audioPosts.id, id));
+  await deleteOwnedFiles([post.artwork, ...tracks.map((track) => track.audioFile)]);
+  return { success: true };
+}
+
+/**
+ * Permanently delete an item that is in the trash, with the files only it used
+ */
+export async function purgeFromTrash(kind: TrashKind, id: string): Promise<TrashResult> {
+  try {
+    switch (kind) {
+      case 'media': {
+        const [item] = await db.select({ id: media.id }).from(media).where(and(eq(media.id, id), isNotNull(media.deletedAt))).limit(1);
+        if (!item) return { success: false, error: 'Item not found in trash' };
+        return await purgeMedia(id);
+      }
+      case 'work':
+        return await purgeWork(id);
+      case 'post':
+        return await purgePost(id);
+      case 'product':
+        return await purgeProduct(id);
+      case 'audio-post':
+        return await purgeAudioPost(id);
+    }
+  } catch (error) {
+    console.error(`[trash] Failed to purge ${kind} ${id}:`, error);
+    return { success: false, error: error instanceof Error ? error.message : 'Purge failed' };
+  }
+}
+
+async function purgeAll(items: TrashItem[]): Promise<PurgeSummary> {
+  const summary: PurgeSummary = { purged: 0, failed: [] };
+  for (const item of items) {
+    const result = await purgeFromTrash(item.kind, item.id);
+    if (result.success) summary.purged++;
+    else summary.failed.push({ kind: item.kind, id: item.id, error: result.error || 'Purge failed' });
+  }
+  return summary;
+}
+
+/**
+ * Permanently delete everything in the trash
+ */
+export async function emptyTrash(): Promise<PurgeSummary> {
+  return purgeAll(await listTrash());
+}
+
+/**
+ * Permanently delete items that have been in the trash longer than the
+ * retention period
+ */
+export async function purgeExpiredTrash(now = new Date()): Promise<PurgeSummary> {
+  const cutoff = new Date(now.getTime() - TRASH_RETENTION_DAYS * DAY_MS);
+  const items = await listTrash();
+  return purgeAll(items.filter((item) => item.deletedAt < cutoff));
+}
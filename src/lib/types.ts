@@ -75,5 +75,12 @@ export interface Cart {
   };
   total?: string;
   subtotal?: string;
+  discountTotal?: string;
   itemCount?: number;
+  promotionCode?: string; // code entered by the buyer
+  appliedPromotion?: {
+    code?: string; // absent for automatic sales
+    label: string;
+  };
+  promotionError?: string; // why the entered code isn't being used
 }
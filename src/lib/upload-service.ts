@@ -7,13 +7,14 @@
 
 import { db } from './db';
 import { media } from './db/schema';
-import { eq, desc, and, isNull, sql } from 'drizzle-orm';
-import { uploadToBunny, deleteFromBunny } from './bunny';
+import { eq, desc, and, isNull, inArray, sql } from 'drizzle-orm';
+import { uploadToBunny, deleteFromBunny, getStoragePath, isBunnyUrl } from './bunny';
 import { nanoid } from './nanoid';
-import { processImageBuffer, processVideoBuffer, type ProcessedImage, type ProcessedVideo } from './media-process';
+import { getFileHash, AUDIO_CONFIG } from './media-process';
+import { enqueueMediaJob } from './media-jobs';
+import { getMediaUsage, detachMediaUsage, type MediaUsage } from './media-usage';
+import { CROP_PRESETS, cropRect, sameCropRect, sizeVariants, type CropName, type FocalPoint, type MediaCrop, type MediaCrops } from './media-srcset';
 import type { Media } from './db/schema';
-import { unlink } from 'fs/promises';
-import { join } from 'path';
 
 // Upload configuration
 export const UPLOAD_CONFIG = {
@@ -47,6 +48,7 @@ export interface UploadOptions {
   altText?: string;
   processImage?: boolean; // Generate WebP variants
   uploadedBy?: string;
+  allowDuplicate?: boolean; // Store a second copy even if the same file is already in the library
 }
 
 // List options
@@ -63,6 +65,7 @@ export interface UploadResult {
   success: boolean;
   media?: Media;
   error?: string;
+  duplicate?: boolean; // media is an existing library item with the same content
 }
 
 /**
@@ -109,139 +112,6 @@ export function validateFile(file: File): { valid: boolean; error?: string } {
   return { valid: true };
 }
 
-/**
- * Process image and generate WebP variants
- */
-async function processAndUploadImage(
-  buffer: Buffer,
-  id: string,
-  datePath: string,
-  friendlyFilename: string
-): Promise<{ variants: ProcessedImage['variants']; width: number; height: number; blurhash: string; dominantColor: string; mainUrl: string }> {
-  // Use friendly filename (without extension) for processing path
-  const baseName = friendlyFilename.replace(/\.webp$/, '');
-  const filenameForProcessing = `${datePath}/${baseName}.webp`;
-  const { result } = await processImageBuffer(buffer, filenameForProcessing);
-
-  // Upload variants to Bunny
-  const variants: ProcessedImage['variants'] = {};
-
-  for (const [sizeName, variantData] of Object.entries(result.variants)) {
-    // Get the file buffer from the processed result
-    // The variant URL in result is local, we need to upload to Bunny
-    const variantBuffer = await fetchVariantBuffer(variantData.url);
-    if (variantBuffer) {
-      const bunnyUrl = await uploadToBunny(
-        variantBuffer,
-        `${datePath}/${baseName}-${sizeName}.webp`,
-        { contentType: 'image/webp' }
-      );
-
-      variants[sizeName] = {
-        url: bunnyUrl,
-        width: variantData.width,
-        height: variantData.height,
-        size: variantBuffer.length,
-      };
-    }
-  }
-
-  const mainUrl = variants.xl?.url || variants.lg?.url || variants.md?.url || variants.sm?.url || '';
-
-  // Clean up temporary local files after successful upload
-  await cleanupTempFiles(result.variants);
-
-  return {
-    variants,
-    width: result.metadata.width,
-    height: result.metadata.height,
-    blurhash: result.blurhash,
-    dominantColor: result.dominantColor,
-    mainUrl,
-  };
-}
-
-/**
- * Process video and generate H.264 variants
- */
-async function processAndUploadVideo(
-  buffer: Buffer,
-  id: string,
-  datePath: string,
-  friendlyFilename: string
-): Promise<{ variants: ProcessedVideo['variants']; width: number; height: number; mainUrl: string }> {
-  // Use friendly filename (without extension) for processing path
-  const baseName = friendlyFilename.replace(/\.[^/.]+$/, '');
-  const filenameForProcessing = `${datePath}/${baseName}.mp4`;
-  const { result } = await processVideoBuffer(buffer, filenameForProcessing);
-
-  // Upload variants to Bunny
-  const variants: ProcessedVideo['variants'] = {};
-
-  for (const [sizeName, variantData] of Object.entries(result.variants)) {
-    // Get the file buffer from the processed result
-    const variantBuffer = await fetchVariantBuffer(variantData.url);
-    if (variantBuffer) {
-      const bunnyUrl = await uploadToBunny(
-        variantBuffer,
-        `${datePath}/${baseName}-${sizeName}.mp4`,
-        { contentType: 'video/mp4' }
-      );
-
-      variants[sizeName] = {
-        url: bunnyUrl,
-        width: variantData.width,
-        height: variantData.height,
-        size: variantBuffer.length,
-      };
-    }
-  }
-
-  const mainUrl = variants['1080p']?.url || variants['720p']?.url || variants['480p']?.url || variants.original?.url || '';
-
-  // Clean up temporary local files after successful upload
-  await cleanupTempFiles(result.variants);
-
-  return {
-    variants,
-    width: result.metadata.width,
-    height: result.metadata.height,
-    mainUrl,
-  };
-}
-
-/**
- * Fetch variant buffer from local file (helper for image processing)
- */
-async function fetchVariantBuffer(url: string): Promise<Buffer | null> {
-  try {
-    // URL is like "/media/images/file.webp" - convert to local path
-    const localPath = url.replace('/media/', '');
-    const { readFile } = await import('fs/promises');
-    const { join } = await import('path');
-    const filePath = join(process.cwd(), 'public', 'media', localPath);
-    return await readFile(filePath);
-  } catch {
-    return null;
-  }
-}
-
-/**
- * Clean up temporary local files after upload to Bunny
- */
-async function cleanupTempFiles(variants: ProcessedImage['variants']): Promise<void> {
-  for (const variantData of Object.values(variants)) {
-    try {
-      // URL is like "/media/images/file.webp" - convert to local path
-      const localPath = variantData.url.replace('/media/', '');
-      const filePath = join(process.cwd(), 'public', 'media', localPath);
-      await unlink(filePath);
-    } catch {
-      // Ignore errors (file may not exist or already deleted)
-    }
-  }
-}
-
 /**
  * Generate a human-friendly filename from original name
  * Sanitizes, adds short unique suffix for collision resistance
@@ -266,8 +136,24 @@ function generateFriendlyFilename(originalName: string, newExt?: string): string
   return `${sanitized}-${shortUnique}.${ext}`;
 }
 
+/**
+ * Find a library item (not deleted) whose uploaded file had this content hash
+ */
+export async function findMediaByHash(contentHash: string): Promise<Media | null> {
+  const [existing] = await db
+    .select()
+    .from(media)
+    .where(and(eq(media.contentHash, contentHash), isNull(media.deletedAt)))
+    .orderBy(media.createdAt)
+    .limit(1);
+  return existing || null;
+}
+
 /**
  * Upload a media file to the database and CDN
+ * Images, videos and lossless audio come back with status 'pending' and get their variants
+ * from the media job queue. If the same file is already in the library, returns that item (flagged
+ * `duplicate`) instead of storing it again, unless `allowDuplicate` is set.
  */
 export async function uploadMedia(
   file: File,
@@ -287,64 +173,41 @@ export async function uploadMedia(
     const originalName = file.name;
     const ext = originalName.split('.').pop()?.toLowerCase() || '';
 
-    let mainUrl: string;
-    let variants: Media['variants'] = undefined;
-    let width: number | undefined;
-    let height: number | undefined;
-    let blurhash: string | undefined;
-    let dominantColor: string | undefined;
-    let fileSize = file.size;
-
     const buffer = Buffer.from(await file.arrayBuffer());
+    const contentHash = await getFileHash(buffer, true);
 
-    // Generate friendly filename for images (converted to webp)
-    // or use original name for non-image files
-    const friendlyFilename = mediaType === 'image'
-      ? generateFriendlyFilename(originalName, 'webp')
-      : generateFriendlyFilename(originalName);
-
-    if (mediaType === 'image' && options.processImage !== false) {
-      // Process image with Sharp, upload variants
-      const processed = await processAndUploadImage(buffer, id, datePath, friendlyFilename);
-      mainUrl = processed.mainUrl;
-      variants = processed.variants;
-      width = processed.width;
-      height = processed.height;
-      blurhash = processed.blurhash;
-      dominantColor = processed.dominantColor;
-
-      // Calculate total size of all variants
-      fileSize = Object.values(variants || {}).reduce((sum, v) => sum + (v?.size || 0), 0);
-    } else if (mediaType === 'video') {
-      // Process video with ffmpeg, upload variants
-      const processed = await processAndUploadVideo(buffer, id, datePath, friendlyFilename);
-      mainUrl = processed.mainUrl;
-      variants = processed.variants;
-      width = processed.width;
-      height = processed.height;
-
-      // Calculate total size of all variants
-      fileSize = Object.values(variants || {}).reduce((sum, v) => sum + (v?.size || 0), 0);
-    } else {
-      // Upload raw file for audio, documents
-      const filename = `${datePath}/${friendlyFilename}`;
-      mainUrl = await uploadToBunny(buffer, filename, { contentType: file.type });
+    if (!options.allowDuplicate) {
+      const existing = await findMediaByHash(contentHash);
+      if (existing) {
+        return { success: true, media: existing, duplicate: true };
+      }
     }
 
+    const friendlyFilename = generateFriendlyFilename(originalName);
+    const needsProcessing = mediaType === 'video'
+      || (mediaType === 'image' && options.processImage !== false)
+      || AUDIO_CONFIG.losslessTypes.includes(file.type);
+
+    // Images, videos and lossless audio are stored as uploaded and a media job
+    // generates the web variants (see media-jobs.ts); lossy audio and documents
+    // are served as they are
+    const storagePath = needsProcessing
+      ? `${datePath}/originals/${friendlyFilename}`
+      : `${datePath}/${friendlyFilename}`;
+    const mainUrl = await uploadToBunny(buffer, storagePath, { contentType: file.type });
+
     // Insert into database
     const [newMedia] = await db.insert(media).values({
       id,
       filename: friendlyFilename,
       originalName,
-      mimeType: mediaType === 'image' ? 'image/webp' : mediaType === 'video' ? 'video/mp4' : file.type,
-      fileSize,
+      mimeType: file.type,
+      fileSize: file.size,
       url: mainUrl,
       path: `${datePath}/${id}`,
-      variants,
-      width,
-      height,
-      blurhash,
-      dominantColor,
+      contentHash,
+      status: needsProcessing ? 'pending' : 'ready',
+      originalPath: needsProcessing ? storagePath : null,
       refCount: 0,
       mediaType,
       altText: options.altText || null,
@@ -353,6 +216,13 @@ export async function uploadMedia(
       updatedAt: now,
     }).returning();
 
+    if (needsProcessing) {
+      await enqueueMediaJob(id);
+    } else if (mediaType === 'audio') {
+      // Waveform and loudness for the player; the file is playable meanwhile
+      await enqueueMediaJob(id, 'analyze');
+    }
+
     return {
       success: true,
       media: newMedia,
@@ -380,12 +250,13 @@ export async function getMedia(id: string): Promise<Media | null> {
 }
 
 /**
- * List media with optional filtering
+ * List media with optional filtering, with where each listed item is used
  */
 export async function listMedia(options: ListMediaOptions = {}): Promise<{
   media: Media[];
   total: number;
   hasMore: boolean;
+  usage: Record<string, MediaUsage[]>;
 }> {
   const {
     type,
@@ -402,82 +273,161 @@ export async function listMedia(options: ListMediaOptions = {}): Promise<{
       conditions.push(eq(media.mediaType, type));
     }
 
-    if (unusedOnly) {
-      conditions.push(eq(media.refCount, 0));
-    }
-
     if (search) {
       conditions.push(sql`${media.filename} ILIKE ${`%${search}%`} OR ${media.originalName} ILIKE ${`%${search}%`}`);
     }
 
     const whereClause = conditions.length > 1 ? and(...conditions) : conditions[0];
 
-    const mediaList = await db.select().from(media).where(whereClause).orderBy(desc(media.createdAt)).limit(limit).offset(offset);
+    let page: Media[];
+    let usage: Map<string, MediaUsage[]>;
+    let total: number;
 
-    const countResult = await db
-      .select({ count: sql<number>`count(*)` })
-      .from(media)
-      .where(whereClause);
+    if (unusedOnly) {
+      // Usage is worked out from the real references (not the stored counter), so
+      // the filter runs on it and the page is cut from what's left
+      const [candidates, libraryUsage] = await Promise.all([
+        db.select({ id: media.id }).from(media).where(whereClause).orderBy(desc(media.createdAt)),
+        getMediaUsage(),
+      ]);
+      const unusedIds = candidates
+        .map((item) => item.id)
+        .filter((id) => (libraryUsage.get(id)?.length ?? 0) === 0);
+      const pageIds = unusedIds.slice(offset, offset + limit);
+
+      page = pageIds.length > 0
+        ? await db.select().from(media).where(inArray(media.id, pageIds)).orderBy(desc(media.createdAt))
+        : [];
+      usage = new Map(pageIds.map((id) => [id, []]));
+      total = unusedIds.length;
+    } else {
+      page = await db.select().from(media).where(whereClause).orderBy(desc(media.createdAt)).limit(limit).offset(offset);
+      // Report real usage rather than the stored counter
+      usage = await getMediaUsage(page.map((item) => item.id));
+
+      const countResult = await db
+        .select({ count: sql<number>`count(*)` })
+        .from(media)
+        .where(whereClause);
+      total = countResult[0]?.count || 0;
+    }
 
-    const total = countResult[0]?.count || 0;
+    const mediaList = page.map((item) => ({ ...item, refCount: usage.get(item.id)?.length ?? 0 }));
 
     return {
       media: mediaList,
       total,
       hasMore: offset + mediaList.length < total,
+      usage: Object.fromEntries(usage),
     };
   } catch (error) {
     console.error('[listMedia] Error:', error);
-    return { media: [], total: 0, hasMore: false };
+    return { media: [], total: 0, hasMore: false, usage: {} };
   }
 }
 
 /**
- * Delete a media item
- * Checks ref count before deleting (unless force=true)
+ * Move a media item to the trash
+ * Refuses while anything still uses it; with force=true those references are
+ * removed first (see detachMediaUsage). Its files stay on the CDN until the
+ * item is purged from the trash.
  */
 export async function deleteMedia(
   id: string,
   force = false
-): Promise<{ success: boolean; error?: string }> {
+): Promise<{ success: boolean; error?: string; usage?: MediaUsage[] }> {
   try {
     const mediaItem = await getMedia(id);
-    if (!mediaItem) {
+    if (!mediaItem || mediaItem.deletedAt) {
       return { success: false, error: 'Media not found' };
     }
 
     // Check if media is in use
-    if (mediaItem.refCount > 0 && !force) {
-      return {
-        success: false,
-        error: `Cannot delete media that is still in use (${mediaItem.refCount} references)`,
-      };
+    const usage = (await getMediaUsage([id])).get(id) ?? [];
+    if (usage.length > 0) {
+      if (!force) {
+        return {
+          success: false,
+          error: `Cannot delete media that is still in use (${usage.length} references)`,
+          usage,
+        };
+      }
+      await detachMediaUsage(mediaItem);
     }
 
-    // Delete from Bunny CDN
-    try {
-      await deleteFromBunny(mediaItem.path);
-      
-      // Delete variants if image
-      if (mediaItem.variants && typeof mediaItem.variants === 'object') {
-        const v = mediaItem.variants as Record<string, { url?: string }>;
-        for (const key of Object.keys(v)) {
-          if (v[key]?.url) {
-            try {
-              // Extract path from URL
-              const url = v[key].url!;
-              const pathMatch = url.match(/\/([^/]+\/)?([^/]+-\w+\.webp)$/);
-              if (pathMatch) {
-                await deleteFromBunny(`${mediaItem.path}/${key}.webp`);
-              }
-            } catch (e) {
-              console.warn(`[deleteMedia] Failed to delete variant ${key}:`, e);
-            }
-          }
-        }
+    await db
+      .update(media)
+      .set({ deletedAt: new Date(), updatedAt: new Date() })
+      .where(eq(media.id, id));
+
+    return { success: true };
+  } catch (error) {
+    console.error('[deleteMedia] Error:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Delete failed',
+    };
+  }
+}
+
+/**
+ * Storage paths of every file a media item has on the CDN: the file, its
+ * variants and their AVIF copies, crops, the original, HLS renditions, the
+ * poster and the scrubbing sprite
+ */
+function storedFilePaths(item: Media): string[] {
+  const urls = [item.url];
+  // srcset and sizes are strings, everything else is a stored file
+  for (const variant of Object.values((item.variants ?? {}) as Record<string, unknown>)) {
+    if (!variant || typeof variant !== 'object') continue;
+    const { url, avif } = variant as { url?: string; avif?: { url?: string } };
+    if (url) urls.push(url);
+    if (avif?.url) urls.push(avif.url);
+  }
+  for (const crop of Object.values(item.crops ?? {})) {
+    for (const variant of sizeVariants(crop.variants)) {
+      urls.push(variant.url);
+      if (variant.avif) urls.push(variant.avif.url);
+    }
+  }
+  if (item.posterUrl) urls.push(item.posterUrl);
+  if (item.sprite) urls.push(item.sprite.url);
+
+  const paths = urls.filter(isBunnyUrl).map(getStoragePath);
+  if (item.originalPath) paths.push(item.originalPath);
+  // HLS renditions live in their own folder next to the master playlist
+  if (item.hlsUrl && isBunnyUrl(item.hlsUrl)) {
+    paths.push(getStoragePath(item.hlsUrl).replace(/[^/]+$/, ''));
+  }
+  return [...new Set(paths)];
+}
+
+/**
+ * Permanently delete a media item: its files on the CDN, then the database row.
+ * The row is kept when a file can't be deleted, so the purge can be retried.
+ */
+export async function purgeMedia(id: string): Promise<{ success: boolean; error?: string }> {
+  try {
+    const mediaItem = await getMedia(id);
+    if (!mediaItem) {
+      return { success: false, error: 'Media not found' };
+    }
+
+    // Delete from Bunny CDN, one file at a time so one failure doesn't stop the rest
+    const failed: string[] = [];
+    for (const path of storedFilePaths(mediaItem)) {
+      try {
+        await deleteFromBunny(path);
+      } catch (e) {
+        console.warn(`[purgeMedia] Failed to delete ${path}:`, e);
+        failed.push(path);
       }
-    } catch (e) {
-      console.warn('[deleteMedia] CDN delete failed (may already be deleted):', e);
+    }
+    if (failed.length > 0) {
+      return {
+        success: false,
+        error: `Failed to delete ${failed.length} file(s) from the CDN; kept so it can be retried`,
+      };
     }
 
     // Delete from database
@@ -485,7 +435,7 @@ export async function deleteMedia(
 
     return { success: true };
   } catch (error) {
-    console.error('[deleteMedia] Error:', error);
+    console.error('[purgeMedia] Error:', error);
     return {
       success: false,
       error: error instanceof Error ? error.message : 'Delete failed',
@@ -522,35 +472,104 @@ export async function updateMedia(
 }
 
 /**
- * Increment reference count for media
+ * Remove a named crop's generated files from the CDN
  */
-export async function incrementRefCount(id: string): Promise<void> {
-  const current = await getMedia(id);
-  if (!current) return;
-  
-  await db
+async function deleteCropFiles(crop: MediaCrop): Promise<void> {
+  for (const variant of sizeVariants(crop.variants)) {
+    for (const url of variant.avif ? [variant.url, variant.avif.url] : [variant.url]) {
+      try {
+        await deleteFromBunny(getStoragePath(url));
+      } catch (e) {
+        console.warn(`[deleteCropFiles] Failed to delete ${url}:`, e);
+      }
+    }
+  }
+}
+
+/**
+ * Set an image's focal point and which named crops it has
+ *
+ * Crops are cut around the focal point, so moving it replaces every crop.
+ * Crops that need (re)generating are queued for the media worker; dropped or
+ * replaced crops are removed from the CDN.
+ */
+export async function setMediaFocus(
+  id: string,
+  focalPoint: FocalPoint | null,
+  cropNames: CropName[]
+): Promise<{ success: boolean; error?: string; media?: Media }> {
+  const item = await getMedia(id);
+  if (!item) {
+    return { success: false, error: 'Media not found' };
+  }
+  if (item.mediaType !== 'image') {
+    return { success: false, error: 'Only images have a focal point' };
+  }
+  if (cropNames.length > 0 && (!item.width || !item.height)) {
+    return { success: false, error: 'Image dimensions are unknown, so it cannot be cropped yet' };
+  }
+
+  const previous: MediaCrops = item.crops ?? {};
+  const crops: MediaCrops = {};
+  for (const name of new Set(cropNames)) {
+    const rect = cropRect(item.width!, item.height!, CROP_PRESETS[name].ratio, focalPoint);
+    const existing = previous[name];
+    crops[name] = existing && sameCropRect(existing.rect, rect) ? existing : { rect };
+  }
+
+  const [updated] = await db
     .update(media)
     .set({
-      refCount: current.refCount + 1,
+      focalX: focalPoint?.x ?? null,
+      focalY: focalPoint?.y ?? null,
+      crops,
       updatedAt: new Date(),
     })
-    .where(eq(media.id, id));
+    .where(eq(media.id, id))
+    .returning();
+
+  for (const [name, crop] of Object.entries(previous) as [CropName, MediaCrop][]) {
+    if (crops[name] !== crop) await deleteCropFiles(crop);
+  }
+
+  if (Object.values(crops).some((crop) => !crop.variants)) {
+    await enqueueMediaJob(id, 'crops');
+  }
+
+  return { success: true, media: updated };
 }
 
 /**
- * Decrement reference count for media
+ * Choose the poster frame of a processed video, in seconds from the start.
+ * The media worker cuts the new frame; the current poster stays until then.
  */
-export async function decrementRefCount(id: string): Promise<void> {
-  const current = await getMedia(id);
-  if (!current) return;
-  
-  await db
+export async function setVideoPoster(
+  id: string,
+  seconds: number
+): Promise<{ success: boolean; error?: string; media?: Media }> {
+  const item = await getMedia(id);
+  if (!item) {
+    return { success: false, error: 'Media not found' };
+  }
+  if (item.mediaType !== 'video') {
+    return { success: false, error: 'Only videos have a poster frame' };
+  }
+  if (item.status !== 'ready') {
+    return { success: false, error: 'Video is still processing' };
+  }
+  if (item.duration != null && seconds > item.duration) {
+    return { success: false, error: 'Poster time is past the end of the video' };
+  }
+
+  const [updated] = await db
     .update(media)
-    .set({
-      refCount: Math.max(current.refCount - 1, 0),
-      updatedAt: new Date(),
-    })
-    .where(eq(media.id, id));
+    .set({ posterTime: seconds, updatedAt: new Date() })
+    .where(eq(media.id, id))
+    .returning();
+
+  await enqueueMediaJob(id, 'poster');
+
+  return { success: true, media: updated };
 }
 
 /**
@@ -166,6 +166,100 @@ export const restoreWorkSchema = z.object({
   id: idSchema,
 });
 
+// ============================================================================
+// Products API Schemas
+// ============================================================================
+
+// Dollar amount as stored in decimal(10, 2) columns, e.g. "120" or "120.50"
+export const priceSchema = z.string().regex(/^\d{1,8}(\.\d{1,2})?$/, 'Price must be a dollar amount like 120 or 120.50');
+
+export const stockStatusSchema = z.enum(['IN_STOCK', 'OUT_OF_STOCK', 'ON_BACKORDER']);
+
+const productImageSchema = z.object({
+  mediaId: idSchema.optional(),
+  imageUrl: z.string().url().max(500),
+  altText: z.string().max(500).optional(),
+});
+
+const productSizeSchema = z.object({
+  size: z.string().trim().min(1).max(50),
+  quantity: z.number().int().min(0).max(100000),
+});
+
+export const productSchema = z.object({
+  id: idSchema.optional(),
+  name: z.string().min(1).max(200),
+  slug: slugSchema,
+  shortDescription: z.string().max(500).optional(),
+  description: z.string().max(10000).optional(),
+  regularPrice: priceSchema,
+  salePrice: priceSchema.optional(),
+  onSale: z.boolean().default(false),
+  stockStatus: stockStatusSchema.default('IN_STOCK'),
+  stockQuantity: z.number().int().min(0).max(100000).nullable().default(null), // null = not tracked
+  measurements: z.string().max(2000).optional(),
+  materials: z.string().max(2000).optional(),
+  features: z.string().max(2000).optional(),
+  details: z.string().max(5000).optional(),
+  sizes: z.array(productSizeSchema).max(50).default([])
+    .refine((sizes) => new Set(sizes.map((s) => s.size.toLowerCase())).size === sizes.length, 'Sizes must be unique'),
+  categoryIds: z.array(idSchema).max(20).default([]),
+  images: z.array(productImageSchema).max(30).default([]),
+}).refine((p) => !p.onSale || !!p.salePrice, { message: 'Sale price is required when on sale', path: ['salePrice'] });
+
+export const categorySchema = z.object({
+  id: idSchema.optional(),
+  name: z.string().min(1).max(100),
+  slug: slugSchema,
+  description: z.string().max(1000).optional(),
+  imageUrl: z.string().url().max(500).optional(),
+  imageAlt: z.string().max(500).optional(),
+  sortOrder: z.number().int().min(0).max(10000).default(0),
+});
+
+// Empty date inputs arrive as '' and mean "no limit"
+const optionalDateSchema = z.preprocess(
+  (v) => (v === '' || v === undefined ? null : v),
+  z.coerce.date().nullable()
+);
+
+export const promotionSchema = z.object({
+  id: idSchema.optional(),
+  code: z.string().trim().max(50).regex(/^[A-Za-z0-9_-]*$/, 'Codes may only use letters, numbers, - and _').nullable().optional(),
+  description: z.string().max(200).optional(),
+  discountType: z.enum(['percentage', 'fixed']),
+  amount: priceSchema,
+  productId: idSchema.nullable().optional(),
+  categoryId: idSchema.nullable().optional(),
+  usageLimit: z.number().int().min(1).max(1000000).nullable().optional(),
+  startsAt: optionalDateSchema,
+  endsAt: optionalDateSchema,
+  active: z.boolean().default(true),
+})
+  .refine((p) => p.discountType !== 'percentage' || parseFloat(p.amount) <= 100, {
+    message: 'A percentage discount can be at most 100',
+    path: ['amount'],
+  })
+  .refine((p) => parseFloat(p.amount) > 0, { message: 'Discount must be more than 0', path: ['amount'] })
+  .refine((p) => !p.startsAt || !p.endsAt || p.endsAt > p.startsAt, {
+    message: 'End date must be after the start date',
+    path: ['endsAt'],
+  });
+
+export const orderStatusSchema = z.enum(['pending', 'paid', 'shipped', 'refunded', 'abandoned']);
+
+export const orderShipSchema = z.object({
+  id: idSchema,
+  trackingNumber: z.string().trim().min(1).max(100),
+  trackingCarrier: z.string().trim().max(50).optional(),
+});
+
+export const orderRefundSchema = z.object({
+  id: idSchema,
+  amount: priceSchema.optional(), // omitted = refund everything not yet refunded
+  reason: z.enum(['duplicate', 'fraudulent', 'requested_by_customer']).optional(),
+});
+
 // ============================================================================
 // Auth API Schemas
 // ============================================================================
@@ -200,6 +294,70 @@ export const listMediaSchema = z.object({
   search: z.string().max(200).optional(),
 });
 
+export const mediaIdsSchema = z.array(idSchema).min(1).max(100);
+
+export const retryMediaJobSchema = z.object({
+  mediaId: idSchema,
+});
+
+export const mergeMediaSchema = z.object({
+  keepId: idSchema,
+  duplicateIds: z.array(idSchema).min(1).max(50),
+});
+
+export const mediaFocusSchema = z.object({
+  mediaId: idSchema,
+  // Fractions from the top left; null puts the focus back in the centre
+  focalPoint: z.object({
+    x: z.number().min(0).max(1),
+    y: z.number().min(0).max(1),
+  }).nullable(),
+  crops: z.array(z.enum(['square', 'portrait', 'wide'])).max(3).default([]),
+});
+
+export const mediaPosterSchema = z.object({
+  mediaId: idSchema,
+  time: z.number().min(0), // seconds from the start of the video
+});
+
+// ============================================================================
+// Audio Post API Schemas
+// ============================================================================
+
+export const audioPostTrackSchema = z.object({
+  title: z.string().trim().min(1, 'Title is required').max(200),
+  artist: z.string().trim().max(200).nullish(),
+  audioFile: z.string().url('Audio file must be a URL'),
+  duration: z.number().int().min(0).nullish(), // seconds; measured from the library file when omitted
+});
+
+// Full tracklist, in play order
+export const audioPostTracksSchema = z.array(audioPostTrackSchema).max(100);
+
+// Podcast feed channel metadata (see PodcastSettings)
+export const podcastSettingsSchema = z.object({
+  title: z.string().trim().min(1, 'Title is required').max(200),
+  description: z.string().trim().max(4000),
+  author: z.string().trim().min(1, 'Author is required').max(200),
+  email: z.string().trim().email('Invalid email').or(z.literal('')),
+  language: z.string().trim().regex(/^[a-z]{2,3}(-[A-Za-z]{2,4})?$/, 'Use a language code such as en or ko-KR'),
+  category: z.string().trim().min(1, 'Category is required').max(100),
+  explicit: z.boolean(),
+  artwork: z.string().url('Artwork must be a URL').nullable(),
+});
+
+// ============================================================================
+// Trash API Schemas
+// ============================================================================
+
+export const trashKindSchema = z.enum(['media', 'work', 'post', 'product', 'audio-post']);
+
+export const trashActionSchema = z.discriminatedUnion('action', [
+  z.object({ action: z.literal('restore'), kind: trashKindSchema, id: idSchema }),
+  z.object({ action: z.literal('purge'), kind: trashKindSchema, id: idSchema }),
+  z.object({ action: z.literal('empty') }),
+]);
+
 // ============================================================================
 // Cart API Schemas
 // ============================================================================
@@ -214,6 +372,13 @@ export const updateCartSchema = z.object({
   items: z.array(cartItemSchema).max(50),
 });
 
+// POST /api/cart/add
+export const cartAddSchema = z.object({
+  productId: z.string().min(1).max(128),
+  quantity: z.number().int().min(1).max(99).default(1),
+  size: z.string().max(50).nullish(),
+});
+
 // ============================================================================
 // Shop Password API Schemas
 // ============================================================================
@@ -37,6 +37,7 @@ const CSP_DIRECTIVES = {
   ],
   'media-src': [
     "'self'",
+    'blob:', // hls.js plays through a MediaSource object URL
     'https://*.b-cdn.net',
     'https://*.bunnycdn.com',
   ],
@@ -44,6 +45,8 @@ const CSP_DIRECTIVES = {
     "'self'",
     'https://*.stripe.com',
     'https://*.neon.tech',
+    'https://*.b-cdn.net', // hls.js fetches playlists and segments
+    'https://*.bunnycdn.com',
     'https://*.clerk.accounts.dev',
     'https://clerk.sheskinv3.thoughtform.world',
   ],
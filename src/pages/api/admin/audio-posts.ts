@@ -3,7 +3,8 @@ export const prerender = false;
 /**
  * Audio Posts API - ICT★SNU SOUND management
  *
- * CRUD operations for audio posts stored in the database.
+ * CRUD operations for audio posts stored in the database. Each post is a
+ * release with an ordered tracklist; `tracks` replaces it on create/update.
  */
 
 import type { APIRoute } from 'astro';
@@ -11,6 +12,15 @@ import { db } from '@lib/db';
 import { audioPosts } from '@lib/db/schema';
 import { eq, desc, and, isNull } from 'drizzle-orm';
 import { nanoid } from '@lib/nanoid';
+import { getAudioPostTracks, setAudioPostTracks } from '@lib/db/queries';
+import { audioPostTracksSchema } from '@lib/validation';
+
+function invalidTracks(error: { flatten: () => unknown }): Response {
+  return new Response(JSON.stringify({ error: 'Validation failed', details: error.flatten() }), {
+    status: 400,
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
 
 // GET: List all audio posts
 export const GET: APIRoute = async ({ locals }) => {
@@ -28,8 +38,9 @@ export const GET: APIRoute = async ({ locals }) => {
       where: isNull(audioPosts.deletedAt),
       orderBy: [desc(audioPosts.createdAt)],
     });
+    const tracks = await getAudioPostTracks(posts.map((post: { id: string }) => post.id));
 
-    return new Response(JSON.stringify(posts), {
+    return new Response(JSON.stringify(posts.map((post: { id: string }) => ({ ...post, tracks: tracks.get(post.id) ?? [] }))), {
       status: 200,
       headers: { 'Content-Type': 'application/json' },
     });
@@ -59,7 +70,7 @@ export const POST: APIRoute = async ({ request, locals }) => {
   try {
     const body = await request.json();
     console.log('[audio-posts] POST body:', body);
-    const { title, artist, audioFile, artwork, youtubeLink, soundcloudLink } = body;
+    const { title, artist, artwork, youtubeLink, soundcloudLink, allowDownload } = body;
 
     if (!title) {
       return new Response(JSON.stringify({ error: 'Title is required' }), {
@@ -68,6 +79,9 @@ export const POST: APIRoute = async ({ request, locals }) => {
       });
     }
 
+    const tracks = audioPostTracksSchema.safeParse(body.tracks ?? []);
+    if (!tracks.success) return invalidTracks(tracks.error);
+
     // Generate slug from title
     const slug = title.toLowerCase()
       .replace(/[^a-z0-9]+/g, '-')
@@ -93,10 +107,10 @@ export const POST: APIRoute = async ({ request, locals }) => {
       title,
       artist: artist || 'she_skin',
       slug,
-      audioFile: audioFile || null,
       artwork: artwork || null,
       youtubeLink: youtubeLink || null,
       soundcloudLink: soundcloudLink || null,
+      allowDownload: allowDownload === true,
       status: 'published',
       publishedAt: now,
       createdAt: now,
@@ -105,9 +119,10 @@ export const POST: APIRoute = async ({ request, locals }) => {
 
     console.log('[audio-posts] Inserting new post:', newPost);
     await db.insert(audioPosts).values(newPost);
+    const savedTracks = await setAudioPostTracks(id, tracks.data);
     console.log('[audio-posts] Post created successfully:', id);
 
-    return new Response(JSON.stringify(newPost), {
+    return new Response(JSON.stringify({ ...newPost, tracks: savedTracks }), {
       status: 201,
       headers: { 'Content-Type': 'application/json' },
     });
@@ -133,7 +148,7 @@ export const PUT: APIRoute = async ({ request, locals }) => {
 
   try {
     const body = await request.json();
-    const { id, title, artist, audioFile, artwork, youtubeLink, soundcloudLink } = body;
+    const { id, title, artist, artwork, youtubeLink, soundcloudLink, allowDownload } = body;
 
     if (!id) {
       return new Response(JSON.stringify({ error: 'ID is required' }), {
@@ -142,6 +157,9 @@ export const PUT: APIRoute = async ({ request, locals }) => {
       });
     }
 
+    const tracks = body.tracks === undefined ? null : audioPostTracksSchema.safeParse(body.tracks);
+    if (tracks && !tracks.success) return invalidTracks(tracks.error);
+
     // Get existing post
     const existingPost = await db.query.audioPosts.findFirst({
       where: and(
@@ -173,19 +191,24 @@ export const PUT: APIRoute = async ({ request, locals }) => {
       updateData.slug = newSlug;
     }
     if (artist !== undefined) updateData.artist = artist || 'she_skin';
-    if (audioFile !== undefined) updateData.audioFile = audioFile || null;
     if (artwork !== undefined) updateData.artwork = artwork || null;
     if (youtubeLink !== undefined) updateData.youtubeLink = youtubeLink || null;
     if (soundcloudLink !== undefined) updateData.soundcloudLink = soundcloudLink || null;
+    if (allowDownload !== undefined) updateData.allowDownload = allowDownload === true;
 
     await db.update(audioPosts)
       .set(updateData)
       .where(eq(audioPosts.id, id));
 
+    const savedTracks = tracks
+      ? await setAudioPostTracks(id, tracks.data)
+      : (await getAudioPostTracks([id])).get(id) ?? [];
+
     // Return updated post
     const updatedPost = {
       ...existingPost,
       ...updateData,
+      tracks: savedTracks,
     };
 
     return new Response(JSON.stringify(updatedPost), {
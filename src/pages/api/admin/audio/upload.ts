@@ -11,7 +11,7 @@ import { createWork, addWorkMedia, insertAudioTrack } from '@lib/db/queries';
 import { db } from '@lib/db';
 import { media } from '@lib/db/schema';
 import { eq } from 'drizzle-orm';
-import { incrementRefCount } from '@lib/upload-service';
+import { syncRefCounts } from '@lib/media-usage';
 
 export const POST: APIRoute = async ({ request, locals }) => {
   // Auth is handled by Clerk middleware
@@ -66,8 +66,6 @@ export const POST: APIRoute = async ({ request, locals }) => {
         if (variant) {
           coverUrl = variant.url;
         }
-        // Increment ref count for the media
-        await incrementRefCount(coverMediaId);
       }
     } else if (coverFile) {
       const coverFilename = `audio/covers/${timestamp}-${safeTitle}.jpg`;
@@ -93,6 +91,7 @@ export const POST: APIRoute = async ({ request, locals }) => {
     }
     await addWorkMedia(workId, { type: 'audio', url: audioUrl });
     await insertAudioTrack(workId, { duration: 0 });
+    if (coverMediaId) await syncRefCounts([coverMediaId]);
 
     return new Response(
       JSON.stringify({
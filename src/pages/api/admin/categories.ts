@@ -0,0 +1,220 @@
+/**
+ * Admin API — Create, update, or delete shop categories
+ * POST /api/admin/categories - Create new category
+ * PUT /api/admin/categories - Update existing category
+ * DELETE /api/admin/categories?id={id} - Delete a category (soft delete, unassigns its products)
+ */
+
+export const prerender = false;
+
+import type { APIRoute } from 'astro';
+import { validateCsrfToken } from '@lib/csrf';
+import {
+  createCategory,
+  updateCategory,
+  softDeleteCategory,
+  isCategorySlugTaken,
+} from '@lib/db/queries';
+import { logAction, AuditActions, AuditResources } from '@lib/audit';
+import { validateParam, categorySchema, idSchema } from '@lib/validation';
+
+export const POST: APIRoute = async ({ request, locals }) => {
+  const auth = locals.auth();
+  if (!auth.userId) {
+    return new Response(JSON.stringify({ error: 'Unauthorized' }), {
+      status: 401,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  // Check CSRF
+  if (!validateCsrfToken(request)) {
+    return new Response(
+      JSON.stringify({ error: 'Invalid CSRF token' }),
+      { status: 403, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+
+  // Parse and validate request body
+  let body;
+  try {
+    body = await request.json();
+  } catch {
+    return new Response(
+      JSON.stringify({ error: 'Invalid JSON body' }),
+      { status: 400, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+
+  const validation = categorySchema.safeParse(body);
+  if (!validation.success) {
+    return new Response(
+      JSON.stringify({ error: 'Validation failed', details: validation.error.flatten() }),
+      { status: 400, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+
+  const data = validation.data;
+
+  try {
+    if (await isCategorySlugTaken(data.slug)) {
+      return new Response(
+        JSON.stringify({ error: 'A category with this slug already exists' }),
+        { status: 409, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const categoryId = await createCategory(data);
+
+    await logAction(
+      request,
+      auth.userId,
+      null,
+      AuditActions.CREATE,
+      AuditResources.CATEGORY,
+      categoryId,
+      { name: data.name, slug: data.slug },
+      true
+    );
+
+    return new Response(
+      JSON.stringify({ success: true, id: categoryId, message: 'Category created' }),
+      { status: 200, headers: { 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    console.error('Create category error:', error);
+    await logAction(request, auth.userId, null, AuditActions.CREATE, AuditResources.CATEGORY, null,
+      { name: data.name, slug: data.slug }, false, (error as Error).message);
+    return new Response(
+      JSON.stringify({ error: 'Failed to create category', details: (error as Error).message }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+};
+
+export const PUT: APIRoute = async ({ request, locals }) => {
+  const auth = locals.auth();
+  if (!auth.userId) {
+    return new Response(JSON.stringify({ error: 'Unauthorized' }), {
+      status: 401,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  // Check CSRF
+  if (!validateCsrfToken(request)) {
+    return new Response(
+      JSON.stringify({ error: 'Invalid CSRF token' }),
+      { status: 403, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+
+  // Parse and validate request body
+  let body;
+  try {
+    body = await request.json();
+  } catch {
+    return new Response(
+      JSON.stringify({ error: 'Invalid JSON body' }),
+      { status: 400, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+
+  const validation = categorySchema.safeParse(body);
+  if (!validation.success) {
+    return new Response(
+      JSON.stringify({ error: 'Validation failed', details: validation.error.flatten() }),
+      { status: 400, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+
+  const { id, ...data } = validation.data;
+
+  if (!id) {
+    return new Response(
+      JSON.stringify({ error: 'Category ID is required for updates' }),
+      { status: 400, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+
+  try {
+    if (await isCategorySlugTaken(data.slug, id)) {
+      return new Response(
+        JSON.stringify({ error: 'A category with this slug already exists' }),
+        { status: 409, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const success = await updateCategory(id, data);
+    if (!success) {
+      return new Response(
+        JSON.stringify({ error: 'Category not found' }),
+        { status: 404, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    await logAction(request, auth.userId, null, AuditActions.UPDATE, AuditResources.CATEGORY, id,
+      { name: data.name, slug: data.slug, sortOrder: data.sortOrder }, true);
+
+    return new Response(
+      JSON.stringify({ success: true, id, message: 'Category updated' }),
+      { status: 200, headers: { 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    console.error('Update category error:', error);
+    await logAction(request, auth.userId, null, AuditActions.UPDATE, AuditResources.CATEGORY, id,
+      { name: data.name }, false, (error as Error).message);
+    return new Response(
+      JSON.stringify({ error: 'Failed to update category', details: (error as Error).message }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+};
+
+export const DELETE: APIRoute = async ({ request, locals }) => {
+  const auth = locals.auth();
+  if (!auth.userId) {
+    return new Response(JSON.stringify({ error: 'Unauthorized' }), {
+      status: 401,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  // Check CSRF
+  if (!validateCsrfToken(request)) {
+    return new Response(
+      JSON.stringify({ error: 'Invalid CSRF token' }),
+      { status: 403, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+
+  const url = new URL(request.url);
+  const idValidation = validateParam(url.searchParams.get('id'), idSchema);
+  if (!idValidation.success) {
+    return idValidation.response;
+  }
+  const id = idValidation.data;
+
+  try {
+    const success = await softDeleteCategory(id);
+    if (!success) {
+      return new Response(JSON.stringify({ error: 'Category not found' }), {
+        status: 404,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    await logAction(request, auth.userId, null, AuditActions.DELETE, AuditResources.CATEGORY, id, {}, true);
+
+    return new Response(
+      JSON.stringify({ success: true, message: 'Category deleted' }),
+      { status: 200, headers: { 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    console.error('Delete category error:', error);
+    return new Response(
+      JSON.stringify({ error: 'Failed to delete category', details: (error as Error).message }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+};
@@ -9,7 +9,8 @@ export const prerender = false;
 
 import type { APIRoute } from 'astro';
 import { validateCsrfToken } from '@lib/csrf';
-import { softDeleteWork, hardDeleteWork, restoreWork } from '@lib/db/queries';
+import { softDeleteWork, restoreWork } from '@lib/db/queries';
+import { purgeFromTrash } from '@lib/trash';
 import { db } from '@lib/db';
 import { works } from '@lib/db/schema';
 import { eq } from 'drizzle-orm';
@@ -68,7 +69,13 @@ export const DELETE: APIRoute = async ({ request, params, locals }) => {
         );
       }
 
-      await hardDeleteWork(id);
+      const purged = await purgeFromTrash('work', id);
+      if (!purged.success) {
+        return new Response(JSON.stringify({ error: purged.error }), {
+          status: 500,
+          headers: { 'Content-Type': 'application/json' },
+        });
+      }
       return new Response(
         JSON.stringify({ success: true, message: 'Permanently deleted' }),
         { status: 200, headers: { 'Content-Type': 'application/json' } }
@@ -9,6 +9,7 @@ import type { APIRoute } from 'astro';
 import { db } from '../../../lib/db';
 import { passwordResetTokens, users } from '../../../lib/db/schema';
 import { nanoid } from '../../../lib/nanoid';
+import { sendPasswordResetEmail } from '../../../lib/mail';
 import { eq } from 'drizzle-orm';
 import crypto from 'node:crypto';
 
@@ -49,19 +50,13 @@ export const POST: APIRoute = async ({ request }) => {
       used: false,
     });
 
-    // Generate reset URL
-    const origin = request.headers.get('origin') || 'http://localhost:4321';
+    // Generate reset URL from the configured site URL: a spoofed Origin header
+    // must not be able to point an emailed reset link at another host
+    const origin = import.meta.env.SITE_URL || new URL(request.url).origin;
     const resetUrl = `${origin}/admin/reset-password?token=${token}`;
 
-    // TODO: Send actual email here
-    // For now, log to console (in production, use Resend, SendGrid, etc.)
-    console.log('\n🔐 PASSWORD RESET REQUESTED');
-    console.log('================================');
-    console.log('Email:', email);
-    console.log('Reset URL:', resetUrl);
-    console.log('Token:', token);
-    console.log('Expires:', expiresAt.toISOString());
-    console.log('================================\n');
+    // Queued in the mail outbox, so a failed send is retried instead of lost
+    await sendPasswordResetEmail(user.email, { resetUrl, expiresAt });
 
     // Return success (don't leak token in response)
     return new Response(
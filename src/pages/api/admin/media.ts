@@ -2,7 +2,9 @@
  * Unified Media API - Single endpoint for all media operations
  * 
  * POST   /api/admin/media       - Upload new media file
- * GET    /api/admin/media       - List media (with filters)
+ *                                  (an identical file already in the library is returned
+ *                                  instead, with duplicate: true, unless allowDuplicate=true)
+ * GET    /api/admin/media       - List media (with filters) and where each item is used
  * GET    /api/admin/media?id=.. - Get single media item
  */
 
@@ -35,6 +37,7 @@ export const POST: APIRoute = async ({ request, locals }) => {
     const formData = await request.formData();
     const file = formData.get('file') as File | null;
     const altText = (formData.get('altText') as string) || '';
+    const allowDuplicate = formData.get('allowDuplicate') === 'true';
 
     if (!file) {
       return new Response(
@@ -47,6 +50,7 @@ export const POST: APIRoute = async ({ request, locals }) => {
     const result = await uploadMedia(file, {
       altText,
       processImage: true, // Always process images to WebP variants
+      allowDuplicate,
     });
 
     if (!result.success) {
@@ -60,8 +64,9 @@ export const POST: APIRoute = async ({ request, locals }) => {
       JSON.stringify({
         success: true,
         media: result.media,
+        duplicate: result.duplicate ?? false,
       }),
-      { status: 201, headers: { 'Content-Type': 'application/json' } }
+      { status: result.duplicate ? 200 : 201, headers: { 'Content-Type': 'application/json' } }
     );
   } catch (error) {
     console.error('[media API] POST error:', error);
@@ -119,6 +124,7 @@ export const GET: APIRoute = async ({ request, url, locals }) => {
     return new Response(
       JSON.stringify({
         media: result.media,
+        usage: result.usage,
         pagination: {
           total: result.total,
           limit,
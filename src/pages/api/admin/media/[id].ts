@@ -1,7 +1,7 @@
 /**
  * Single Media Item API - Operations on individual media files
  * 
- * DELETE /api/admin/media/[id] - Delete media (checks ref count)
+ * DELETE /api/admin/media/[id] - Move media to the trash (409 with its usage while in use; ?force=true removes those references)
  * PATCH  /api/admin/media/[id] - Update media metadata
  */
 
@@ -9,7 +9,7 @@ export const prerender = false;
 
 import type { APIRoute } from 'astro';
 import { validateCsrfToken } from '@lib/csrf';
-import { deleteMedia, updateMedia, getMedia } from '@lib/upload-service';
+import { deleteMedia, updateMedia } from '@lib/upload-service';
 
 // DELETE: Delete media item
 export const DELETE: APIRoute = async ({ request, params, locals }) => {
@@ -47,12 +47,12 @@ export const DELETE: APIRoute = async ({ request, params, locals }) => {
 
     if (!result.success) {
       // If media is in use, return 409 Conflict
-      if (result.error?.includes('in use')) {
-        const mediaItem = await getMedia(id);
+      if (result.usage) {
         return new Response(
           JSON.stringify({
             error: result.error,
-            refCount: mediaItem?.refCount || 0,
+            refCount: result.usage.length,
+            usage: result.usage,
           }),
           { status: 409, headers: { 'Content-Type': 'application/json' } }
         );
@@ -64,7 +64,7 @@ export const DELETE: APIRoute = async ({ request, params, locals }) => {
     }
 
     return new Response(
-      JSON.stringify({ success: true, message: 'Media deleted' }),
+      JSON.stringify({ success: true, message: 'Media moved to trash' }),
       { status: 200, headers: { 'Content-Type': 'application/json' } }
     );
   } catch (error) {
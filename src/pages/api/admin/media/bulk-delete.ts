@@ -1,15 +1,18 @@
 /**
  * Bulk Media Delete API
  * 
- * DELETE /api/admin/media/bulk-delete - Delete multiple media items
+ * DELETE /api/admin/media/bulk-delete - Move multiple media items to the trash
  * Body: { ids: string[], force?: boolean }
+ * Items still in use are skipped (reported under inUse) unless force=true, which
+ * removes their references first.
  */
 
 export const prerender = false;
 
 import type { APIRoute } from 'astro';
 import { validateCsrfToken } from '@lib/csrf';
-import { deleteMedia, getMedia } from '@lib/upload-service';
+import { deleteMedia } from '@lib/upload-service';
+import type { MediaUsage } from '@lib/media-usage';
 
 export const DELETE: APIRoute = async ({ request, locals }) => {
   // Auth is handled by Clerk middleware
@@ -43,7 +46,7 @@ export const DELETE: APIRoute = async ({ request, locals }) => {
     const results = {
       deleted: [] as string[],
       failed: [] as { id: string; error: string; refCount?: number }[],
-      inUse: [] as { id: string; refCount: number }[],
+      inUse: [] as { id: string; refCount: number; usage: MediaUsage[] }[],
     };
 
     // Delete each item sequentially to avoid race conditions
@@ -53,11 +56,10 @@ export const DELETE: APIRoute = async ({ request, locals }) => {
 
         if (result.success) {
           results.deleted.push(id);
-        } else if (result.error?.includes('in use')) {
-          const mediaItem = await getMedia(id);
-          const refCount = mediaItem?.refCount || 0;
-          results.inUse.push({ id, refCount });
-          results.failed.push({ id, error: result.error, refCount });
+        } else if (result.usage) {
+          const refCount = result.usage.length;
+          results.inUse.push({ id, refCount, usage: result.usage });
+          results.failed.push({ id, error: result.error || 'Media is in use', refCount });
         } else {
           results.failed.push({ id, error: result.error || 'Delete failed' });
         }
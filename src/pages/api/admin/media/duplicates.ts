@@ -0,0 +1,104 @@
+/**
+ * Admin API — Duplicate media report
+ * GET  /api/admin/media/duplicates - Groups of library items that are copies of the same file
+ * POST /api/admin/media/duplicates - { keepId, duplicateIds } merge duplicates into one item
+ */
+
+export const prerender = false;
+
+import type { APIRoute } from 'astro';
+import { validateCsrfToken } from '@lib/csrf';
+import { findDuplicateMedia, mergeDuplicateMedia } from '@lib/media-duplicates';
+import { logAction, AuditActions, AuditResources } from '@lib/audit';
+import { mergeMediaSchema } from '@lib/validation';
+
+export const GET: APIRoute = async ({ locals }) => {
+  const auth = locals.auth();
+  if (!auth.userId) {
+    return new Response(JSON.stringify({ error: 'Unauthorized' }), {
+      status: 401,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  try {
+    const groups = await findDuplicateMedia();
+    return new Response(
+      JSON.stringify({ groups }),
+      { status: 200, headers: { 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    console.error('Duplicate media report error:', error);
+    return new Response(
+      JSON.stringify({ error: 'Failed to find duplicates', details: (error as Error).message }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+};
+
+export const POST: APIRoute = async ({ request, locals }) => {
+  const auth = locals.auth();
+  if (!auth.userId) {
+    return new Response(JSON.stringify({ error: 'Unauthorized' }), {
+      status: 401,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  // Check CSRF
+  if (!validateCsrfToken(request)) {
+    return new Response(
+      JSON.stringify({ error: 'Invalid CSRF token' }),
+      { status: 403, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+
+  // Parse and validate request body
+  let body;
+  try {
+    body = await request.json();
+  } catch {
+    return new Response(
+      JSON.stringify({ error: 'Invalid JSON body' }),
+      { status: 400, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+
+  const validation = mergeMediaSchema.safeParse(body);
+  if (!validation.success) {
+    return new Response(
+      JSON.stringify({ error: 'Validation failed', details: validation.error.flatten() }),
+      { status: 400, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+
+  const { keepId, duplicateIds } = validation.data;
+
+  try {
+    const result = await mergeDuplicateMedia(keepId, duplicateIds);
+    if (!result.success) {
+      await logAction(request, auth.userId, null, AuditActions.MERGE, AuditResources.MEDIA, keepId,
+        { duplicateIds }, false, result.error);
+      return new Response(
+        JSON.stringify({ error: result.error }),
+        { status: 400, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    await logAction(request, auth.userId, null, AuditActions.MERGE, AuditResources.MEDIA, keepId,
+      { merged: result.merged, repointed: result.repointed }, true);
+
+    return new Response(
+      JSON.stringify({ ...result, message: `Merged ${result.merged?.length ?? 0} duplicate(s)` }),
+      { status: 200, headers: { 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    console.error('Merge media error:', error);
+    await logAction(request, auth.userId, null, AuditActions.MERGE, AuditResources.MEDIA, keepId,
+      { duplicateIds }, false, (error as Error).message);
+    return new Response(
+      JSON.stringify({ error: 'Failed to merge duplicates', details: (error as Error).message }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+};
@@ -0,0 +1,80 @@
+/**
+ * Admin API — Focal point and named crops for an image
+ * POST /api/admin/media/focus - { mediaId, focalPoint: { x, y } | null, crops: ['square', 'portrait', 'wide'] }
+ *
+ * Crops that need generating are queued for the media worker; the response
+ * carries the media with those crops still missing their variants.
+ */
+
+export const prerender = false;
+
+import type { APIRoute } from 'astro';
+import { validateCsrfToken } from '@lib/csrf';
+import { setMediaFocus } from '@lib/upload-service';
+import { logAction, AuditActions, AuditResources } from '@lib/audit';
+import { mediaFocusSchema } from '@lib/validation';
+
+export const POST: APIRoute = async ({ request, locals }) => {
+  const auth = locals.auth();
+  if (!auth.userId) {
+    return new Response(JSON.stringify({ error: 'Unauthorized' }), {
+      status: 401,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  // Check CSRF
+  if (!validateCsrfToken(request)) {
+    return new Response(
+      JSON.stringify({ error: 'Invalid CSRF token' }),
+      { status: 403, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+
+  // Parse and validate request body
+  let body;
+  try {
+    body = await request.json();
+  } catch {
+    return new Response(
+      JSON.stringify({ error: 'Invalid JSON body' }),
+      { status: 400, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+
+  const validation = mediaFocusSchema.safeParse(body);
+  if (!validation.success) {
+    return new Response(
+      JSON.stringify({ error: 'Validation failed', details: validation.error.flatten() }),
+      { status: 400, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+
+  const { mediaId, focalPoint, crops } = validation.data;
+
+  try {
+    const result = await setMediaFocus(mediaId, focalPoint, crops);
+    if (!result.success) {
+      return new Response(
+        JSON.stringify({ error: result.error }),
+        { status: result.error === 'Media not found' ? 404 : 409, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    await logAction(request, auth.userId, null, AuditActions.UPDATE, AuditResources.MEDIA, mediaId,
+      { focalPoint, crops }, true);
+
+    return new Response(
+      JSON.stringify({ success: true, media: result.media, message: 'Focal point saved' }),
+      { status: 200, headers: { 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    console.error('Media focus error:', error);
+    await logAction(request, auth.userId, null, AuditActions.UPDATE, AuditResources.MEDIA, mediaId,
+      { focalPoint, crops }, false, (error as Error).message);
+    return new Response(
+      JSON.stringify({ error: 'Failed to save focal point', details: (error as Error).message }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+};
@@ -0,0 +1,126 @@
+/**
+ * Admin API — Media processing status
+ * GET  /api/admin/media/jobs?ids=a,b,c - Status, progress and latest job for each media item
+ * POST /api/admin/media/jobs - { mediaId } retry processing that failed for good
+ */
+
+export const prerender = false;
+
+import type { APIRoute } from 'astro';
+import { db } from '@lib/db';
+import { media } from '@lib/db/schema';
+import { inArray } from 'drizzle-orm';
+import { validateCsrfToken } from '@lib/csrf';
+import { getLatestMediaJobs, retryMediaJob } from '@lib/media-jobs';
+import { logAction, AuditActions, AuditResources } from '@lib/audit';
+import { mediaIdsSchema, retryMediaJobSchema } from '@lib/validation';
+
+export const GET: APIRoute = async ({ url, locals }) => {
+  const auth = locals.auth();
+  if (!auth.userId) {
+    return new Response(JSON.stringify({ error: 'Unauthorized' }), {
+      status: 401,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  const validation = mediaIdsSchema.safeParse((url.searchParams.get('ids') || '').split(',').filter(Boolean));
+  if (!validation.success) {
+    return new Response(
+      JSON.stringify({ error: 'Validation failed', details: validation.error.flatten() }),
+      { status: 400, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+
+  try {
+    const ids = validation.data;
+    const [items, jobs] = await Promise.all([
+      db.select().from(media).where(inArray(media.id, ids)),
+      getLatestMediaJobs(ids),
+    ]);
+
+    return new Response(
+      JSON.stringify({
+        items: items.map((item) => {
+          const job = jobs[item.id];
+          return {
+            media: item,
+            job: job
+              ? { status: job.status, progress: job.progress, attempts: job.attempts, lastError: job.lastError }
+              : null,
+          };
+        }),
+      }),
+      { status: 200, headers: { 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    console.error('Media jobs status error:', error);
+    return new Response(
+      JSON.stringify({ error: 'Failed to load processing status', details: (error as Error).message }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+};
+
+export const POST: APIRoute = async ({ request, locals }) => {
+  const auth = locals.auth();
+  if (!auth.userId) {
+    return new Response(JSON.stringify({ error: 'Unauthorized' }), {
+      status: 401,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  // Check CSRF
+  if (!validateCsrfToken(request)) {
+    return new Response(
+      JSON.stringify({ error: 'Invalid CSRF token' }),
+      { status: 403, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+
+  // Parse and validate request body
+  let body;
+  try {
+    body = await request.json();
+  } catch {
+    return new Response(
+      JSON.stringify({ error: 'Invalid JSON body' }),
+      { status: 400, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+
+  const validation = retryMediaJobSchema.safeParse(body);
+  if (!validation.success) {
+    return new Response(
+      JSON.stringify({ error: 'Validation failed', details: validation.error.flatten() }),
+      { status: 400, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+
+  const { mediaId } = validation.data;
+
+  try {
+    const job = await retryMediaJob(mediaId);
+    if (!job) {
+      return new Response(
+        JSON.stringify({ error: 'No failed processing job for this media' }),
+        { status: 409, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    await logAction(request, auth.userId, null, AuditActions.PROCESS, AuditResources.MEDIA, mediaId,
+      { jobId: job.id, retry: true }, true);
+
+    return new Response(
+      JSON.stringify({ success: true, job: { status: job.status, progress: job.progress, attempts: job.attempts, lastError: job.lastError } }),
+      { status: 200, headers: { 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    console.error('Retry media job error:', error);
+    return new Response(
+      JSON.stringify({ error: 'Failed to retry processing', details: (error as Error).message }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+};
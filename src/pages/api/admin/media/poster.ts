@@ -0,0 +1,80 @@
+/**
+ * Admin API — Poster frame for a video
+ * POST /api/admin/media/poster - { mediaId, time }
+ *
+ * The media worker cuts the frame at `time` seconds; until it has, the
+ * response carries the media with the new posterTime and the old posterUrl.
+ */
+
+export const prerender = false;
+
+import type { APIRoute } from 'astro';
+import { validateCsrfToken } from '@lib/csrf';
+import { setVideoPoster } from '@lib/upload-service';
+import { logAction, AuditActions, AuditResources } from '@lib/audit';
+import { mediaPosterSchema } from '@lib/validation';
+
+export const POST: APIRoute = async ({ request, locals }) => {
+  const auth = locals.auth();
+  if (!auth.userId) {
+    return new Response(JSON.stringify({ error: 'Unauthorized' }), {
+      status: 401,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  // Check CSRF
+  if (!validateCsrfToken(request)) {
+    return new Response(
+      JSON.stringify({ error: 'Invalid CSRF token' }),
+      { status: 403, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+
+  // Parse and validate request body
+  let body;
+  try {
+    body = await request.json();
+  } catch {
+    return new Response(
+      JSON.stringify({ error: 'Invalid JSON body' }),
+      { status: 400, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+
+  const validation = mediaPosterSchema.safeParse(body);
+  if (!validation.success) {
+    return new Response(
+      JSON.stringify({ error: 'Validation failed', details: validation.error.flatten() }),
+      { status: 400, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+
+  const { mediaId, time } = validation.data;
+
+  try {
+    const result = await setVideoPoster(mediaId, time);
+    if (!result.success) {
+      return new Response(
+        JSON.stringify({ error: result.error }),
+        { status: result.error === 'Media not found' ? 404 : 409, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    await logAction(request, auth.userId, null, AuditActions.UPDATE, AuditResources.MEDIA, mediaId,
+      { posterTime: time }, true);
+
+    return new Response(
+      JSON.stringify({ success: true, media: result.media, message: 'Poster frame queued' }),
+      { status: 200, headers: { 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    console.error('Media poster error:', error);
+    await logAction(request, auth.userId, null, AuditActions.UPDATE, AuditResources.MEDIA, mediaId,
+      { posterTime: time }, false, (error as Error).message);
+    return new Response(
+      JSON.stringify({ error: 'Failed to set poster frame', details: (error as Error).message }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+};
@@ -26,6 +26,7 @@ export const POST: APIRoute = async ({ request, locals }) => {
     const formData = await request.formData();
     const file = formData.get('file') as File | null;
     const altText = (formData.get('altText') as string) || '';
+    const allowDuplicate = formData.get('allowDuplicate') === 'true';
 
     if (!file) {
       return new Response(
@@ -39,6 +40,7 @@ export const POST: APIRoute = async ({ request, locals }) => {
       altText,
       processImage: true, // Always process images
       uploadedBy: auth.userId,
+      allowDuplicate,
     });
 
     if (!result.success) {
@@ -56,6 +58,7 @@ export const POST: APIRoute = async ({ request, locals }) => {
         type: result.media?.mediaType,
         status: 'completed',
         url: result.media?.url,
+        duplicate: result.duplicate ?? false,
       }),
       { status: 200, headers: { 'Content-Type': 'application/json' } }
     );
@@ -0,0 +1,66 @@
+/**
+ * Admin API — List orders
+ * GET /api/admin/orders - List orders (newest first)
+ * GET /api/admin/orders?status={status} - List orders in one status
+ * GET /api/admin/orders?id={id} - Get a single order with its items
+ *
+ * Shipping and refunds live in /api/admin/orders/ship and /api/admin/orders/refund.
+ */
+
+export const prerender = false;
+
+import type { APIRoute } from 'astro';
+import { getOrdersForAdmin, getOrderWithItems } from '@lib/orders';
+import { orderStatusSchema } from '@lib/validation';
+
+export const GET: APIRoute = async ({ request, locals }) => {
+  // Auth is handled by Clerk middleware, but we double-check here
+  const auth = locals.auth();
+  if (!auth.userId) {
+    return new Response(JSON.stringify({ error: 'Unauthorized' }), {
+      status: 401,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  const url = new URL(request.url);
+  const id = url.searchParams.get('id');
+  const statusParam = url.searchParams.get('status');
+
+  const status = statusParam ? orderStatusSchema.safeParse(statusParam) : null;
+  if (status && !status.success) {
+    return new Response(
+      JSON.stringify({ error: 'Invalid status filter' }),
+      { status: 400, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+
+  try {
+    if (!id) {
+      const orders = await getOrdersForAdmin(status?.data);
+      return new Response(
+        JSON.stringify({ orders }),
+        { status: 200, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const order = await getOrderWithItems(id);
+    if (!order) {
+      return new Response(
+        JSON.stringify({ error: 'Order not found' }),
+        { status: 404, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    return new Response(
+      JSON.stringify({ order }),
+      { status: 200, headers: { 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    console.error('Get orders error:', error);
+    return new Response(
+      JSON.stringify({ error: 'Failed to fetch orders', details: (error as Error).message }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+};
@@ -0,0 +1,125 @@
+/**
+ * Admin API — Refund an order through Stripe
+ * POST /api/admin/orders/refund - { id, amount?, reason? }
+ *
+ * Without an amount, refunds whatever hasn't been refunded yet. Partial refunds
+ * add up on the order, which turns 'refunded' once they cover its total. The
+ * charge.refunded webhook records the same amounts, so both paths agree, and
+ * whichever of them gets there first emails the buyer.
+ */
+
+export const prerender = false;
+
+import type { APIRoute } from 'astro';
+import { validateCsrfToken } from '@lib/csrf';
+import { getOrderWithItems, recordOrderRefund } from '@lib/orders';
+import { createRefund } from '@lib/stripe';
+import { sendOrderRefundedEmail } from '@lib/mail';
+import { parsePriceToNumber } from '@lib/db/queries';
+import { logAction, AuditActions, AuditResources } from '@lib/audit';
+import { orderRefundSchema } from '@lib/validation';
+
+function toCents(amount: string | null | undefined): number {
+  return Math.round(parsePriceToNumber(amount ?? null) * 100);
+}
+
+export const POST: APIRoute = async ({ request, locals }) => {
+  const auth = locals.auth();
+  if (!auth.userId) {
+    return new Response(JSON.stringify({ error: 'Unauthorized' }), {
+      status: 401,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  // Check CSRF
+  if (!validateCsrfToken(request)) {
+    return new Response(
+      JSON.stringify({ error: 'Invalid CSRF token' }),
+      { status: 403, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+
+  // Parse and validate request body
+  let body;
+  try {
+    body = await request.json();
+  } catch {
+    return new Response(
+      JSON.stringify({ error: 'Invalid JSON body' }),
+      { status: 400, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+
+  const validation = orderRefundSchema.safeParse(body);
+  if (!validation.success) {
+    return new Response(
+      JSON.stringify({ error: 'Validation failed', details: validation.error.flatten() }),
+      { status: 400, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+
+  const { id, amount, reason } = validation.data;
+
+  try {
+    const order = await getOrderWithItems(id);
+    if (!order) {
+      return new Response(
+        JSON.stringify({ error: 'Order not found' }),
+        { status: 404, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    if ((order.status !== 'paid' && order.status !== 'shipped') || !order.stripePaymentIntentId) {
+      return new Response(
+        JSON.stringify({ error: 'Only paid orders can be refunded' }),
+        { status: 409, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const alreadyRefunded = toCents(order.refundedTotal);
+    const remaining = toCents(order.total) - alreadyRefunded;
+    const refundAmount = amount ? toCents(amount) : remaining;
+
+    if (refundAmount <= 0 || refundAmount > remaining) {
+      return new Response(
+        JSON.stringify({ error: `Refund must be between $0.01 and $${(remaining / 100).toFixed(2)}` }),
+        { status: 400, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const refund = await createRefund({
+      orderId: id,
+      paymentIntentId: order.stripePaymentIntentId,
+      refundedBefore: alreadyRefunded,
+      amount: refundAmount,
+      reason,
+    });
+
+    const updated = await recordOrderRefund({ orderId: id }, alreadyRefunded + refundAmount);
+
+    await logAction(request, auth.userId, null, AuditActions.REFUND, AuditResources.ORDER, id,
+      {
+        refundId: refund.id,
+        amount: (refundAmount / 100).toFixed(2),
+        full: refundAmount === remaining,
+        reason: reason ?? null,
+      },
+      true);
+
+    await sendOrderRefundedEmail(id, (refundAmount / 100).toFixed(2), alreadyRefunded + refundAmount);
+
+    return new Response(
+      JSON.stringify({ success: true, order: updated, refundId: refund.id, message: 'Refund issued' }),
+      { status: 200, headers: { 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    console.error('Refund order error:', error);
+    await logAction(request, auth.userId, null, AuditActions.REFUND, AuditResources.ORDER, id,
+      { amount: amount ?? null }, false, (error as Error).message);
+    return new Response(
+      JSON.stringify({ error: 'Failed to refund order', details: (error as Error).message }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+};
@@ -0,0 +1,88 @@
+/**
+ * Admin API — Mark an order shipped
+ * POST /api/admin/orders/ship - { id, trackingNumber, trackingCarrier? }
+ *
+ * Works on paid orders, and on shipped orders to correct the tracking number.
+ */
+
+export const prerender = false;
+
+import type { APIRoute } from 'astro';
+import { validateCsrfToken } from '@lib/csrf';
+import { getOrderWithItems, markOrderShipped } from '@lib/orders';
+import { sendOrderShippedEmail } from '@lib/mail';
+import { logAction, AuditActions, AuditResources } from '@lib/audit';
+import { orderShipSchema } from '@lib/validation';
+
+export const POST: APIRoute = async ({ request, locals }) => {
+  const auth = locals.auth();
+  if (!auth.userId) {
+    return new Response(JSON.stringify({ error: 'Unauthorized' }), {
+      status: 401,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  // Check CSRF
+  if (!validateCsrfToken(request)) {
+    return new Response(
+      JSON.stringify({ error: 'Invalid CSRF token' }),
+      { status: 403, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+
+  // Parse and validate request body
+  let body;
+  try {
+    body = await request.json();
+  } catch {
+    return new Response(
+      JSON.stringify({ error: 'Invalid JSON body' }),
+      { status: 400, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+
+  const validation = orderShipSchema.safeParse(body);
+  if (!validation.success) {
+    return new Response(
+      JSON.stringify({ error: 'Validation failed', details: validation.error.flatten() }),
+      { status: 400, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+
+  const { id, trackingNumber, trackingCarrier } = validation.data;
+
+  try {
+    const previous = await getOrderWithItems(id);
+    const order = await markOrderShipped(id, { trackingNumber, trackingCarrier: trackingCarrier || null });
+    if (!order) {
+      await logAction(request, auth.userId, null, AuditActions.SHIP, AuditResources.ORDER, id,
+        { trackingNumber }, false, 'Order not found or not paid');
+      return new Response(
+        JSON.stringify({ error: 'Only paid orders can be marked shipped' }),
+        { status: 409, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    await logAction(request, auth.userId, null, AuditActions.SHIP, AuditResources.ORDER, id,
+      { trackingNumber, trackingCarrier: trackingCarrier || null }, true);
+
+    // Email the buyer on the first shipment, and again only if the tracking number changed
+    if (previous?.status !== 'shipped' || previous.trackingNumber !== trackingNumber) {
+      await sendOrderShippedEmail(id);
+    }
+
+    return new Response(
+      JSON.stringify({ success: true, order, message: 'Order marked shipped' }),
+      { status: 200, headers: { 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    console.error('Ship order error:', error);
+    await logAction(request, auth.userId, null, AuditActions.SHIP, AuditResources.ORDER, id,
+      { trackingNumber }, false, (error as Error).message);
+    return new Response(
+      JSON.stringify({ error: 'Failed to mark order shipped', details: (error as Error).message }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+};
@@ -0,0 +1,90 @@
+/**
+ * Admin API — Podcast feed settings
+ * GET /api/admin/podcast-settings - Channel metadata of /audio/feed.xml
+ * PUT /api/admin/podcast-settings - Replace it (see podcastSettingsSchema)
+ */
+
+export const prerender = false;
+
+import type { APIRoute } from 'astro';
+import { validateCsrfToken } from '@lib/csrf';
+import { getPodcastSettings, setPodcastSettings } from '@lib/db/queries';
+import { logAction, AuditActions, AuditResources } from '@lib/audit';
+import { podcastSettingsSchema } from '@lib/validation';
+
+export const GET: APIRoute = async ({ locals }) => {
+  const auth = locals.auth();
+  if (!auth.userId) {
+    return new Response(JSON.stringify({ error: 'Unauthorized' }), {
+      status: 401,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  try {
+    const settings = await getPodcastSettings();
+    return new Response(JSON.stringify({ settings }), {
+      status: 200,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    console.error('Podcast settings error:', error);
+    return new Response(
+      JSON.stringify({ error: 'Failed to load podcast settings', details: (error as Error).message }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+};
+
+export const PUT: APIRoute = async ({ request, locals }) => {
+  const auth = locals.auth();
+  if (!auth.userId) {
+    return new Response(JSON.stringify({ error: 'Unauthorized' }), {
+      status: 401,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  // Check CSRF
+  if (!validateCsrfToken(request)) {
+    return new Response(
+      JSON.stringify({ error: 'Invalid CSRF token' }),
+      { status: 403, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+
+  // Parse and validate request body
+  let body;
+  try {
+    body = await request.json();
+  } catch {
+    return new Response(
+      JSON.stringify({ error: 'Invalid JSON body' }),
+      { status: 400, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+
+  const validation = podcastSettingsSchema.safeParse(body);
+  if (!validation.success) {
+    return new Response(
+      JSON.stringify({ error: 'Validation failed', details: validation.error.flatten() }),
+      { status: 400, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+
+  try {
+    await setPodcastSettings(validation.data);
+    await logAction(request, auth.userId, null, AuditActions.UPDATE, AuditResources.SETTINGS, 'podcast_feed', validation.data, true);
+    return new Response(
+      JSON.stringify({ success: true, settings: validation.data }),
+      { status: 200, headers: { 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    console.error('Podcast settings error:', error);
+    await logAction(request, auth.userId, null, AuditActions.UPDATE, AuditResources.SETTINGS, 'podcast_feed', {}, false, (error as Error).message);
+    return new Response(
+      JSON.stringify({ error: 'Failed to save podcast settings', details: (error as Error).message }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+};
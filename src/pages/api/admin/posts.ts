@@ -2,15 +2,16 @@
  * Posts API - WordPress-style content management
  * 
  * CRUD operations for posts stored in the database.
- * Anti-bloat: When posts are deleted, their associated media references are cleaned up.
+ * Media usage counts are recounted from the post's media links whenever they change.
  */
 
 import type { APIRoute } from 'astro';
 import { db } from '@lib/db';
-import { posts, postMeta, postMedia, media, revisions } from '@lib/db/schema';
+import { posts, postMeta, postMedia, revisions } from '@lib/db/schema';
 import { eq, desc, and, isNull, like, sql } from 'drizzle-orm';
 import { requireAdminAuth } from '@lib/admin-auth';
 import { nanoid } from '@lib/nanoid';
+import { syncRefCounts } from '@lib/media-usage';
 import { validateRequest, validateQuery, createPostSchema, updatePostSchema, deletePostSchema, getPostSchema, idSchema } from '@lib/validation';
 
 // GET: List or single post
@@ -204,7 +205,7 @@ export const POST: APIRoute = async ({ request }) => {
       await db.insert(postMeta).values(metaInserts);
     }
 
-    // Link media and increment ref counts
+    // Link media and recount its usage
     if (mediaIds.length > 0) {
       const mediaLinks = mediaIds.map((mediaId: string, index: number) => ({
         id: nanoid(),
@@ -215,16 +216,7 @@ export const POST: APIRoute = async ({ request }) => {
       }));
 
       await db.insert(postMedia).values(mediaLinks);
-
-      // Increment media ref counts
-      for (const mediaId of mediaIds) {
-        await db.update(media)
-          .set({ 
-            refCount: sql`${media.refCount} + 1`,
-            updatedAt: now,
-          })
-          .where(eq(media.id, mediaId));
-      }
+      await syncRefCounts(mediaIds);
     }
 
     return new Response(JSON.stringify({ 
@@ -337,28 +329,6 @@ export const PUT: APIRoute = async ({ request }) => {
       const oldMediaIds = existingPost.media.map(m => m.mediaId);
       const newMediaIds = body.mediaIds as string[];
 
-      // Decrement ref counts for removed media
-      const removedIds = oldMediaIds.filter(mid => !newMediaIds.includes(mid));
-      for (const mediaId of removedIds) {
-        await db.update(media)
-          .set({ 
-            refCount: sql`GREATEST(${media.refCount} - 1, 0)`,
-            updatedAt: now,
-          })
-          .where(eq(media.id, mediaId));
-      }
-
-      // Increment ref counts for added media
-      const addedIds = newMediaIds.filter(mid => !oldMediaIds.includes(mid));
-      for (const mediaId of addedIds) {
-        await db.update(media)
-          .set({ 
-            refCount: sql`${media.refCount} + 1`,
-            updatedAt: now,
-          })
-          .where(eq(media.id, mediaId));
-      }
-
       // Delete old links and create new ones
       await db.delete(postMedia).where(eq(postMedia.postId, id));
 
@@ -373,6 +343,7 @@ export const PUT: APIRoute = async ({ request }) => {
 
         await db.insert(postMedia).values(mediaLinks);
       }
+      await syncRefCounts([...oldMediaIds, ...newMediaIds]);
     }
 
     return new Response(JSON.stringify({ 
@@ -433,15 +404,7 @@ export const DELETE: APIRoute = async ({ request, url }) => {
       })
       .where(eq(posts.id, id));
 
-    // Decrement media ref counts
-    for (const mediaLink of post.media) {
-      await db.update(media)
-        .set({ 
-          refCount: sql`GREATEST(${media.refCount} - 1, 0)`,
-          updatedAt: now,
-        })
-        .where(eq(media.id, mediaLink.mediaId));
-    }
+    // Media links stay while the post is in the trash, so its media still counts as used
 
     return new Response(JSON.stringify({ 
       success: true,
@@ -0,0 +1,345 @@
+/**
+ * Admin API — Create, update, get, or delete shop products
+ * GET /api/admin/products - List products
+ * GET /api/admin/products?id={id} - Get a single product
+ * POST /api/admin/products - Create new product
+ * PUT /api/admin/products - Update existing product
+ * DELETE /api/admin/products?id={id} - Delete a product (soft delete)
+ *
+ * Images, sizes and categories are sent in full with every save and replace
+ * what the product had before.
+ */
+
+export const prerender = false;
+
+import type { APIRoute } from 'astro';
+import { validateCsrfToken } from '@lib/csrf';
+import {
+  getProductsForAdmin,
+  getProductForAdmin,
+  isProductSlugTaken,
+  createProduct,
+  updateProduct,
+  softDeleteProduct,
+  setProductImages,
+  setProductSizes,
+  setProductCategories,
+  deriveStockStatus,
+  syncWorksSoldState,
+} from '@lib/db/queries';
+import { syncRefCounts } from '@lib/media-usage';
+import { logAction, AuditActions, AuditResources } from '@lib/audit';
+import { validateParam, productSchema, idSchema } from '@lib/validation';
+import { db } from '@lib/db';
+import { media } from '@lib/db/schema';
+import { inArray } from 'drizzle-orm';
+import type { z } from 'zod';
+
+type ProductBody = z.infer<typeof productSchema>;
+
+/**
+ * Resolve gallery entries picked from the media library to their CDN URLs.
+ * Entries without a mediaId (e.g. migrated products) keep their URL as-is.
+ */
+async function resolveImages(images: ProductBody['images']) {
+  const mediaIds = images.map((img) => img.mediaId).filter((id): id is string => !!id);
+  const mediaRows = mediaIds.length > 0
+    ? await db.select().from(media).where(inArray(media.id, mediaIds))
+    : [];
+  const byId = new Map(mediaRows.map((m) => [m.id, m]));
+
+  return images.map((img) => {
+    const item = img.mediaId ? byId.get(img.mediaId) : undefined;
+    if (!item) return { mediaId: null, imageUrl: img.imageUrl, altText: img.altText ?? null };
+    return {
+      mediaId: item.id,
+      imageUrl: item.variants?.lg?.url || item.variants?.md?.url || item.url,
+      altText: img.altText || item.altText || null,
+    };
+  });
+}
+
+/** Write a product's images, sizes and categories, then recount the media they used and use */
+async function saveProductRelations(productId: string, data: ProductBody, previousMediaIds: string[]) {
+  const images = await resolveImages(data.images);
+  await setProductImages(productId, images);
+  await setProductSizes(productId, data.sizes);
+  await setProductCategories(productId, data.categoryIds);
+
+  await syncRefCounts([...previousMediaIds, ...images.flatMap((img) => (img.mediaId ? [img.mediaId] : []))]);
+}
+
+function toProductInput(data: ProductBody) {
+  return {
+    ...data,
+    stockStatus: deriveStockStatus(data.stockStatus, data.stockQuantity, data.sizes),
+  };
+}
+
+// GET - List products, or fetch one by ID
+export const GET: APIRoute = async ({ request, locals }) => {
+  // Auth is handled by Clerk middleware, but we double-check here
+  const auth = locals.auth();
+  if (!auth.userId) {
+    return new Response(JSON.stringify({ error: 'Unauthorized' }), {
+      status: 401,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  const url = new URL(request.url);
+  const id = url.searchParams.get('id');
+
+  try {
+    if (!id) {
+      const products = await getProductsForAdmin();
+      return new Response(
+        JSON.stringify({ products }),
+        { status: 200, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const product = await getProductForAdmin(id);
+    if (!product || product.deletedAt) {
+      return new Response(
+        JSON.stringify({ error: 'Product not found' }),
+        { status: 404, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    return new Response(
+      JSON.stringify({ product }),
+      { status: 200, headers: { 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    console.error('Get product error:', error);
+    return new Response(
+      JSON.stringify({ error: 'Failed to fetch products', details: (error as Error).message }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+};
+
+export const POST: APIRoute = async ({ request, locals }) => {
+  const auth = locals.auth();
+  if (!auth.userId) {
+    return new Response(JSON.stringify({ error: 'Unauthorized' }), {
+      status: 401,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  // Check CSRF
+  if (!validateCsrfToken(request)) {
+    return new Response(
+      JSON.stringify({ error: 'Invalid CSRF token' }),
+      { status: 403, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+
+  // Parse and validate request body
+  let body;
+  try {
+    body = await request.json();
+  } catch {
+    return new Response(
+      JSON.stringify({ error: 'Invalid JSON body' }),
+      { status: 400, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+
+  const validation = productSchema.safeParse(body);
+  if (!validation.success) {
+    return new Response(
+      JSON.stringify({ error: 'Validation failed', details: validation.error.flatten() }),
+      { status: 400, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+
+  const data = validation.data;
+
+  try {
+    if (await isProductSlugTaken(data.slug)) {
+      return new Response(
+        JSON.stringify({ error: 'A product with this slug already exists' }),
+        { status: 409, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const productId = await createProduct(toProductInput(data));
+    await saveProductRelations(productId, data, []);
+
+    await logAction(
+      request,
+      auth.userId,
+      null,
+      AuditActions.CREATE,
+      AuditResources.PRODUCT,
+      productId,
+      { name: data.name, slug: data.slug, price: data.regularPrice },
+      true
+    );
+
+    return new Response(
+      JSON.stringify({ success: true, id: productId, message: 'Product created' }),
+      { status: 200, headers: { 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    console.error('Create product error:', error);
+    await logAction(request, auth.userId, null, AuditActions.CREATE, AuditResources.PRODUCT, null,
+      { name: data.name, slug: data.slug }, false, (error as Error).message);
+    return new Response(
+      JSON.stringify({ error: 'Failed to create product', details: (error as Error).message }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+};
+
+export const PUT: APIRoute = async ({ request, locals }) => {
+  const auth = locals.auth();
+  if (!auth.userId) {
+    return new Response(JSON.stringify({ error: 'Unauthorized' }), {
+      status: 401,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  // Check CSRF
+  if (!validateCsrfToken(request)) {
+    return new Response(
+      JSON.stringify({ error: 'Invalid CSRF token' }),
+      { status: 403, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+
+  // Parse and validate request body
+  let body;
+  try {
+    body = await request.json();
+  } catch {
+    return new Response(
+      JSON.stringify({ error: 'Invalid JSON body' }),
+      { status: 400, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+
+  const validation = productSchema.safeParse(body);
+  if (!validation.success) {
+    return new Response(
+      JSON.stringify({ error: 'Validation failed', details: validation.error.flatten() }),
+      { status: 400, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+
+  const data = validation.data;
+
+  if (!data.id) {
+    return new Response(
+      JSON.stringify({ error: 'Product ID is required for updates' }),
+      { status: 400, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+
+  try {
+    const existing = await getProductForAdmin(data.id);
+    if (!existing || existing.deletedAt) {
+      return new Response(
+        JSON.stringify({ error: 'Product not found' }),
+        { status: 404, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    if (await isProductSlugTaken(data.slug, data.id)) {
+      return new Response(
+        JSON.stringify({ error: 'A product with this slug already exists' }),
+        { status: 409, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    await updateProduct(data.id, toProductInput(data));
+    const previousMediaIds = existing.images.map((img) => img.mediaId).filter((id): id is string => !!id);
+    await saveProductRelations(data.id, data, previousMediaIds);
+    // Selling out or restocking here flips linked works' sold badge
+    await syncWorksSoldState(data.id);
+
+    await logAction(
+      request,
+      auth.userId,
+      null,
+      AuditActions.UPDATE,
+      AuditResources.PRODUCT,
+      data.id,
+      {
+        name: data.name,
+        price: data.regularPrice,
+        salePrice: data.salePrice ?? null,
+        onSale: data.onSale,
+        sizes: data.sizes,
+        stockQuantity: data.stockQuantity,
+      },
+      true
+    );
+
+    return new Response(
+      JSON.stringify({ success: true, id: data.id, message: 'Product updated' }),
+      { status: 200, headers: { 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    console.error('Update product error:', error);
+    await logAction(request, auth.userId, null, AuditActions.UPDATE, AuditResources.PRODUCT, data.id,
+      { name: data.name }, false, (error as Error).message);
+    return new Response(
+      JSON.stringify({ error: 'Failed to update product', details: (error as Error).message }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+};
+
+// DELETE - Move a product to the trash
+export const DELETE: APIRoute = async ({ request, locals }) => {
+  const auth = locals.auth();
+  if (!auth.userId) {
+    return new Response(JSON.stringify({ error: 'Unauthorized' }), {
+      status: 401,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  // Check CSRF
+  if (!validateCsrfToken(request)) {
+    return new Response(
+      JSON.stringify({ error: 'Invalid CSRF token' }),
+      { status: 403, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+
+  const url = new URL(request.url);
+  const idValidation = validateParam(url.searchParams.get('id'), idSchema);
+  if (!idValidation.success) {
+    return idValidation.response;
+  }
+  const id = idValidation.data;
+
+  try {
+    const success = await softDeleteProduct(id);
+    if (!success) {
+      return new Response(JSON.stringify({ error: 'Product not found' }), {
+        status: 404,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    await logAction(request, auth.userId, null, AuditActions.DELETE, AuditResources.PRODUCT, id, {}, true);
+
+    return new Response(
+      JSON.stringify({ success: true, message: 'Moved to trash' }),
+      { status: 200, headers: { 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    console.error('Delete product error:', error);
+    return new Response(
+      JSON.stringify({ error: 'Failed to delete product', details: (error as Error).message }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+};
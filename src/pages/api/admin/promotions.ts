@@ -0,0 +1,258 @@
+/**
+ * Admin API — Create, update, list, or delete promotions
+ * GET /api/admin/promotions - List promotions
+ * POST /api/admin/promotions - Create new promotion
+ * PUT /api/admin/promotions - Update existing promotion
+ * DELETE /api/admin/promotions?id={id} - Delete a promotion (soft delete)
+ *
+ * A promotion without a code is a sale: it applies to matching carts on its own
+ * while it is active and within its dates.
+ */
+
+export const prerender = false;
+
+import type { APIRoute } from 'astro';
+import { validateCsrfToken } from '@lib/csrf';
+import {
+  getPromotions,
+  createPromotion,
+  updatePromotion,
+  softDeletePromotion,
+  isPromotionCodeTaken,
+} from '@lib/promotions';
+import { logAction, AuditActions, AuditResources } from '@lib/audit';
+import { validateParam, promotionSchema, idSchema } from '@lib/validation';
+
+// GET - List promotions
+export const GET: APIRoute = async ({ locals }) => {
+  // Auth is handled by Clerk middleware, but we double-check here
+  const auth = locals.auth();
+  if (!auth.userId) {
+    return new Response(JSON.stringify({ error: 'Unauthorized' }), {
+      status: 401,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  try {
+    const promotions = await getPromotions();
+    return new Response(
+      JSON.stringify({ promotions }),
+      { status: 200, headers: { 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    console.error('Get promotions error:', error);
+    return new Response(
+      JSON.stringify({ error: 'Failed to fetch promotions', details: (error as Error).message }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+};
+
+export const POST: APIRoute = async ({ request, locals }) => {
+  const auth = locals.auth();
+  if (!auth.userId) {
+    return new Response(JSON.stringify({ error: 'Unauthorized' }), {
+      status: 401,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  // Check CSRF
+  if (!validateCsrfToken(request)) {
+    return new Response(
+      JSON.stringify({ error: 'Invalid CSRF token' }),
+      { status: 403, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+
+  // Parse and validate request body
+  let body;
+  try {
+    body = await request.json();
+  } catch {
+    return new Response(
+      JSON.stringify({ error: 'Invalid JSON body' }),
+      { status: 400, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+
+  const validation = promotionSchema.safeParse(body);
+  if (!validation.success) {
+    return new Response(
+      JSON.stringify({ error: 'Validation failed', details: validation.error.flatten() }),
+      { status: 400, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+
+  const data = validation.data;
+
+  try {
+    if (data.code && await isPromotionCodeTaken(data.code)) {
+      return new Response(
+        JSON.stringify({ error: 'A promotion with this code already exists' }),
+        { status: 409, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const promotionId = await createPromotion(data);
+
+    await logAction(
+      request,
+      auth.userId,
+      null,
+      AuditActions.CREATE,
+      AuditResources.PROMOTION,
+      promotionId,
+      { code: data.code || null, discountType: data.discountType, amount: data.amount },
+      true
+    );
+
+    return new Response(
+      JSON.stringify({ success: true, id: promotionId, message: 'Promotion created' }),
+      { status: 200, headers: { 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    console.error('Create promotion error:', error);
+    await logAction(request, auth.userId, null, AuditActions.CREATE, AuditResources.PROMOTION, null,
+      { code: data.code || null }, false, (error as Error).message);
+    return new Response(
+      JSON.stringify({ error: 'Failed to create promotion', details: (error as Error).message }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+};
+
+export const PUT: APIRoute = async ({ request, locals }) => {
+  const auth = locals.auth();
+  if (!auth.userId) {
+    return new Response(JSON.stringify({ error: 'Unauthorized' }), {
+      status: 401,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  // Check CSRF
+  if (!validateCsrfToken(request)) {
+    return new Response(
+      JSON.stringify({ error: 'Invalid CSRF token' }),
+      { status: 403, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+
+  // Parse and validate request body
+  let body;
+  try {
+    body = await request.json();
+  } catch {
+    return new Response(
+      JSON.stringify({ error: 'Invalid JSON body' }),
+      { status: 400, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+
+  const validation = promotionSchema.safeParse(body);
+  if (!validation.success) {
+    return new Response(
+      JSON.stringify({ error: 'Validation failed', details: validation.error.flatten() }),
+      { status: 400, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+
+  const { id, ...data } = validation.data;
+
+  if (!id) {
+    return new Response(
+      JSON.stringify({ error: 'Promotion ID is required for updates' }),
+      { status: 400, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+
+  try {
+    if (data.code && await isPromotionCodeTaken(data.code, id)) {
+      return new Response(
+        JSON.stringify({ error: 'A promotion with this code already exists' }),
+        { status: 409, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const success = await updatePromotion(id, data);
+    if (!success) {
+      return new Response(
+        JSON.stringify({ error: 'Promotion not found' }),
+        { status: 404, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    await logAction(request, auth.userId, null, AuditActions.UPDATE, AuditResources.PROMOTION, id,
+      {
+        code: data.code || null,
+        discountType: data.discountType,
+        amount: data.amount,
+        usageLimit: data.usageLimit ?? null,
+        active: data.active,
+      },
+      true);
+
+    return new Response(
+      JSON.stringify({ success: true, id, message: 'Promotion updated' }),
+      { status: 200, headers: { 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    console.error('Update promotion error:', error);
+    await logAction(request, auth.userId, null, AuditActions.UPDATE, AuditResources.PROMOTION, id,
+      { code: data.code || null }, false, (error as Error).message);
+    return new Response(
+      JSON.stringify({ error: 'Failed to update promotion', details: (error as Error).message }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+};
+
+export const DELETE: APIRoute = async ({ request, locals }) => {
+  const auth = locals.auth();
+  if (!auth.userId) {
+    return new Response(JSON.stringify({ error: 'Unauthorized' }), {
+      status: 401,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  // Check CSRF
+  if (!validateCsrfToken(request)) {
+    return new Response(
+      JSON.stringify({ error: 'Invalid CSRF token' }),
+      { status: 403, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+
+  const url = new URL(request.url);
+  const idValidation = validateParam(url.searchParams.get('id'), idSchema);
+  if (!idValidation.success) {
+    return idValidation.response;
+  }
+  const id = idValidation.data;
+
+  try {
+    const success = await softDeletePromotion(id);
+    if (!success) {
+      return new Response(JSON.stringify({ error: 'Promotion not found' }), {
+        status: 404,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    await logAction(request, auth.userId, null, AuditActions.DELETE, AuditResources.PROMOTION, id, {}, true);
+
+    return new Response(
+      JSON.stringify({ success: true, message: 'Promotion deleted' }),
+      { status: 200, headers: { 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    console.error('Delete promotion error:', error);
+    return new Response(
+      JSON.stringify({ error: 'Failed to delete promotion', details: (error as Error).message }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+};
@@ -0,0 +1,124 @@
+/**
+ * Admin API — Trash
+ * GET  /api/admin/trash - Soft-deleted media, works, posts, products and audio posts
+ * POST /api/admin/trash - { action: 'restore' | 'purge', kind, id } or { action: 'empty' }
+ */
+
+export const prerender = false;
+
+import type { APIRoute } from 'astro';
+import { validateCsrfToken } from '@lib/csrf';
+import { listTrash, restoreFromTrash, purgeFromTrash, emptyTrash, TRASH_RETENTION_DAYS, type TrashKind } from '@lib/trash';
+import { logAction, AuditActions, AuditResources } from '@lib/audit';
+import { trashActionSchema } from '@lib/validation';
+
+const RESOURCES: Record<TrashKind, string> = {
+  media: AuditResources.MEDIA,
+  work: AuditResources.WORK,
+  post: AuditResources.POST,
+  product: AuditResources.PRODUCT,
+  'audio-post': AuditResources.AUDIO_POST,
+};
+
+export const GET: APIRoute = async ({ locals }) => {
+  const auth = locals.auth();
+  if (!auth.userId) {
+    return new Response(JSON.stringify({ error: 'Unauthorized' }), {
+      status: 401,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  try {
+    const items = await listTrash();
+    return new Response(
+      JSON.stringify({ items, retentionDays: TRASH_RETENTION_DAYS }),
+      { status: 200, headers: { 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    console.error('Trash list error:', error);
+    return new Response(
+      JSON.stringify({ error: 'Failed to load trash', details: (error as Error).message }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+};
+
+export const POST: APIRoute = async ({ request, locals }) => {
+  const auth = locals.auth();
+  if (!auth.userId) {
+    return new Response(JSON.stringify({ error: 'Unauthorized' }), {
+      status: 401,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  // Check CSRF
+  if (!validateCsrfToken(request)) {
+    return new Response(
+      JSON.stringify({ error: 'Invalid CSRF token' }),
+      { status: 403, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+
+  // Parse and validate request body
+  let body;
+  try {
+    body = await request.json();
+  } catch {
+    return new Response(
+      JSON.stringify({ error: 'Invalid JSON body' }),
+      { status: 400, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+
+  const validation = trashActionSchema.safeParse(body);
+  if (!validation.success) {
+    return new Response(
+      JSON.stringify({ error: 'Validation failed', details: validation.error.flatten() }),
+      { status: 400, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+
+  const data = validation.data;
+
+  try {
+    if (data.action === 'empty') {
+      const summary = await emptyTrash();
+      await logAction(request, auth.userId, null, AuditActions.DELETE, AuditResources.SETTINGS, null,
+        { action: 'empty_trash', purged: summary.purged, failed: summary.failed }, summary.failed.length === 0);
+      return new Response(
+        JSON.stringify({
+          success: summary.failed.length === 0,
+          ...summary,
+          message: `Permanently deleted ${summary.purged} item(s)${summary.failed.length ? `, ${summary.failed.length} kept` : ''}`,
+        }),
+        { status: 200, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const { action, kind, id } = data;
+    const result = action === 'restore' ? await restoreFromTrash(kind, id) : await purgeFromTrash(kind, id);
+    const auditAction = action === 'restore' ? AuditActions.RESTORE : AuditActions.DELETE;
+
+    if (!result.success) {
+      await logAction(request, auth.userId, null, auditAction, RESOURCES[kind], id, { permanent: action === 'purge' }, false, result.error);
+      return new Response(
+        JSON.stringify({ error: result.error }),
+        { status: result.error === 'Item not found in trash' ? 404 : 409, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    await logAction(request, auth.userId, null, auditAction, RESOURCES[kind], id, { permanent: action === 'purge' }, true);
+    return new Response(
+      JSON.stringify({ success: true, message: action === 'restore' ? 'Restored' : 'Permanently deleted' }),
+      { status: 200, headers: { 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    console.error('Trash action error:', error);
+    return new Response(
+      JSON.stringify({ error: 'Trash action failed', details: (error as Error).message }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+};
@@ -3,15 +3,15 @@
  * GET /api/admin/works?id={id} - Get a single work
  * POST /api/admin/works - Create new work
  * PUT /api/admin/works - Update existing work
- * DELETE /api/admin/works?id={id} - Delete a work
+ * DELETE /api/admin/works?id={id} - Move a work to the trash
  */
 
 export const prerender = false;
 
 import type { APIRoute } from 'astro';
 import { validateCsrfToken } from '@lib/csrf';
-import { createWork, updateWork, getWorkById, addWorkMedia, updateWorkMedia, deleteWorkMedia, deleteWork } from '@lib/db/queries';
-import { incrementRefCount, decrementRefCount } from '@lib/upload-service';
+import { createWork, updateWork, getWorkById, addWorkMedia, updateWorkMedia, deleteWorkMedia, softDeleteWork, syncWorksSoldState } from '@lib/db/queries';
+import { syncRefCounts } from '@lib/media-usage';
 import { db } from '@lib/db';
 import { media } from '@lib/db/schema';
 import { eq } from 'drizzle-orm';
@@ -27,6 +27,7 @@ const workSchema = z.object({
   year: z.number().int().min(1900).max(2100).optional(),
   forSale: z.boolean().default(false),
   price: z.string().optional(),
+  productId: z.string().nullable().optional(), // linked shop product
   externalUrl: z.string().url().max(500).optional(),
   mediaIds: z.array(z.string()).optional(),
 });
@@ -115,11 +116,11 @@ export const DELETE: APIRoute = async ({ request }) => {
       );
     }
 
-    // Delete the work (soft delete)
-    await deleteWork(id);
+    // Soft delete: it can be restored from the trash until it is purged
+    await softDeleteWork(id);
 
     return new Response(
-      JSON.stringify({ success: true, message: 'Work deleted' }),
+      JSON.stringify({ success: true, message: 'Work moved to trash' }),
       { status: 200, headers: { 'Content-Type': 'application/json' } }
     );
   } catch (error) {
@@ -180,9 +181,11 @@ export const POST: APIRoute = async ({ request }) => {
       year: data.year || null,
       forSale: data.forSale,
       price: data.price || null,
+      productId: data.productId || null,
       externalUrl: data.externalUrl || null,
       published: true,
     });
+    if (data.productId) await syncWorksSoldState(data.productId);
 
     // Add media if provided (lookup media by ID from database)
     if (data.mediaIds && data.mediaIds.length > 0) {
@@ -209,13 +212,13 @@ export const POST: APIRoute = async ({ request }) => {
               sortOrder: i,
               mediaId: mediaId,
             });
-            // Increment ref count
-            await incrementRefCount(mediaId);
           }
         }
       }
     }
 
+    if (data.mediaIds?.length) await syncRefCounts(data.mediaIds);
+
     return new Response(
       JSON.stringify({ success: true, id: workId, message: 'Work created' }),
       { status: 200, headers: { 'Content-Type': 'application/json' } }
@@ -293,16 +296,16 @@ export const PUT: APIRoute = async ({ request, locals }) => {
       year: data.year || null,
       forSale: data.forSale,
       price: data.price || null,
+      productId: data.productId || null,
+      // Sold state follows the linked product; an unlinked work isn't sold
+      ...(data.productId ? {} : { sold: false }),
       externalUrl: data.externalUrl || null,
     });
+    if (data.productId) await syncWorksSoldState(data.productId);
 
     // Handle media updates only if mediaIds is explicitly provided (not undefined)
     if (data.mediaIds !== undefined) {
-      // Decrement ref count for existing media before deleting
       for (const workMedia of existing.media) {
-        // Get the original media record to decrement ref count
-        // We need to find the media by URL - this is a best effort
-        // A better approach would be to store mediaId in workMedia table
         await deleteWorkMedia(workMedia.id);
       }
 
@@ -330,11 +333,15 @@ export const PUT: APIRoute = async ({ request, locals }) => {
               sortOrder: i,
               mediaId: mediaId,
             });
-            // Increment ref count
-            await incrementRefCount(mediaId);
           }
         }
       }
+
+      // Recount media the work dropped as well as what it uses now
+      await syncRefCounts([
+        ...existing.media.flatMap((item) => (item.mediaId ? [item.mediaId] : [])),
+        ...data.mediaIds,
+      ]);
     }
     // If mediaIds is undefined, preserve existing media (don't delete)
 
@@ -1,14 +1,15 @@
 /**
  * Admin API — Delete any work by id (physical, audio, digital, collaborations)
  * DELETE /api/admin/works/[id]
- * Query param: ?permanent=true for hard delete
+ * Query param: ?permanent=true to purge a work that is already in the trash (see lib/trash)
  */
 
 export const prerender = false;
 
 import type { APIRoute } from 'astro';
 import { validateCsrfToken } from '@lib/csrf';
-import { softDeleteWork, hardDeleteWork, restoreWork } from '@lib/db/queries';
+import { softDeleteWork, restoreWork } from '@lib/db/queries';
+import { purgeFromTrash } from '@lib/trash';
 import { db } from '@lib/db';
 import { works } from '@lib/db/schema';
 import { eq } from 'drizzle-orm';
@@ -67,7 +68,13 @@ export const DELETE: APIRoute = async ({ request, params, locals }) => {
         );
       }
 
-      await hardDeleteWork(id);
+      const purged = await purgeFromTrash('work', id);
+      if (!purged.success) {
+        return new Response(JSON.stringify({ error: purged.error }), {
+          status: 500,
+          headers: { 'Content-Type': 'application/json' },
+        });
+      }
       return new Response(
         JSON.stringify({ success: true, message: 'Permanently deleted' }),
         { status: 200, headers: { 'Content-Type': 'application/json' } }
@@ -3,15 +3,21 @@ export const prerender = false;
 /**
  * Public Audio Posts API
  *
- * Public endpoints for retrieving published audio posts.
+ * Public endpoints for retrieving published audio posts with their tracks.
+ * `audioFile` (track 1's file) is still included for clients that predate tracklists.
  * No authentication required.
  */
 
 import type { APIRoute } from 'astro';
 import { db } from '@lib/db';
-import { audioPosts } from '@lib/db/schema';
+import { audioPosts, type AudioPost, type AudioPostTrack } from '@lib/db/schema';
+import { getAudioPostTracks } from '@lib/db/queries';
 import { eq, desc, and, isNull } from 'drizzle-orm';
 
+function withTracks(post: AudioPost, tracks: AudioPostTrack[]) {
+  return { ...post, audioFile: tracks[0]?.audioFile ?? post.audioFile ?? null, tracks };
+}
+
 // GET: List all published audio posts or get single post by slug
 export const GET: APIRoute = async ({ url }) => {
   const slug = url.searchParams.get('slug');
@@ -19,13 +25,15 @@ export const GET: APIRoute = async ({ url }) => {
   try {
     // If slug is provided, return single post
     if (slug) {
-      const post = await db.query.audioPosts.findFirst({
-        where: and(
+      const [post] = await db
+        .select()
+        .from(audioPosts)
+        .where(and(
           eq(audioPosts.slug, slug),
           eq(audioPosts.status, 'published'),
           isNull(audioPosts.deletedAt)
-        ),
-      });
+        ))
+        .limit(1);
 
       if (!post) {
         return new Response(JSON.stringify({ error: 'Post not found' }), {
@@ -34,22 +42,25 @@ export const GET: APIRoute = async ({ url }) => {
         });
       }
 
-      return new Response(JSON.stringify(post), {
+      const tracks = await getAudioPostTracks([post.id]);
+      return new Response(JSON.stringify(withTracks(post, tracks.get(post.id) ?? [])), {
         status: 200,
         headers: { 'Content-Type': 'application/json' },
       });
     }
 
     // Otherwise, list all published posts
-    const posts = await db.query.audioPosts.findMany({
-      where: and(
+    const posts = await db
+      .select()
+      .from(audioPosts)
+      .where(and(
         eq(audioPosts.status, 'published'),
         isNull(audioPosts.deletedAt)
-      ),
-      orderBy: [desc(audioPosts.publishedAt)],
-    });
+      ))
+      .orderBy(desc(audioPosts.publishedAt));
 
-    return new Response(JSON.stringify(posts), {
+    const tracks = await getAudioPostTracks(posts.map((post) => post.id));
+    return new Response(JSON.stringify(posts.map((post) => withTracks(post, tracks.get(post.id) ?? []))), {
       status: 200,
       headers: { 'Content-Type': 'application/json' },
     });
@@ -6,21 +6,24 @@ import {
   getCartIdFromRequest, 
   createCart, 
   addCartItem,
+  getCartItemQuantity,
   getCartForApp,
   CART_COOKIE_NAME,
   CART_COOKIE_MAX_AGE 
 } from '@lib/db/queries';
+import { reserveStock } from '@lib/reservations';
+import { cartAddSchema } from '@lib/validation';
 
 export const POST: APIRoute = async ({ request }) => {
   try {
-    const { productId, quantity = 1, size } = await request.json();
-    
-    if (!productId || quantity < 1) {
+    const validation = cartAddSchema.safeParse(await request.json().catch(() => null));
+    if (!validation.success) {
       return new Response(JSON.stringify({ error: 'Invalid product or quantity' }), {
         status: 400,
         headers: { 'Content-Type': 'application/json' },
       });
     }
+    const { productId, quantity, size } = validation.data;
 
     let cartId = getCartIdFromRequest(request);
     let isNewCart = false;
@@ -30,15 +33,27 @@ export const POST: APIRoute = async ({ request }) => {
       isNewCart = true;
     }
 
-    const addedKey = await addCartItem(cartId, productId, quantity, size ?? null);
-    const cart = await getCartForApp(cartId);
-
     const headers: Record<string, string> = { 'Content-Type': 'application/json' };
     if (isNewCart) {
       headers['Set-Cookie'] = `${CART_COOKIE_NAME}=${cartId}; Path=/; Max-Age=${CART_COOKIE_MAX_AGE}; HttpOnly; SameSite=Lax`;
     }
 
-    return new Response(JSON.stringify({ cart, addedKey }), { status: 200, headers });
+    // Hold the line's new total before touching the cart, so we never oversell
+    const lineSize = size ?? null;
+    const inCart = isNewCart ? 0 : await getCartItemQuantity(cartId, productId, lineSize);
+    const reservation = await reserveStock(cartId, productId, lineSize, inCart + quantity);
+    if (!reservation.success) {
+      return new Response(JSON.stringify({
+        error: reservation.error,
+        code: reservation.code,
+        available: reservation.available,
+      }), { status: reservation.status ?? 409, headers });
+    }
+
+    const addedKey = await addCartItem(cartId, productId, quantity, lineSize);
+    const cart = await getCartForApp(cartId);
+
+    return new Response(JSON.stringify({ cart, addedKey, reservedUntil: reservation.expiresAt ?? null }), { status: 200, headers });
   } catch (error) {
     return new Response(JSON.stringify({ error: 'Failed to add item' }), {
       status: 500,
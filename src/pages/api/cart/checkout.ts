@@ -0,0 +1,88 @@
+import type { APIRoute } from 'astro';
+
+export const prerender = false;
+
+import { getCartIdFromRequest } from '@lib/db/queries';
+import {
+  createOrderFromCart,
+  attachCheckoutSession,
+  markOrderAbandoned,
+  getPendingCheckoutOrders,
+  markOrderSuperseded,
+} from '@lib/orders';
+import { createCartCheckoutSession, expireCheckoutSession } from '@lib/stripe';
+import { extendCartReservations, CHECKOUT_SESSION_MINUTES, CHECKOUT_RESERVATION_MINUTES } from '@lib/reservations';
+
+/**
+ * POST /api/cart/checkout
+ * Records a pending order for the current cart and returns a Stripe Checkout URL.
+ * A checkout started earlier for the same cart is closed first, so only one can be paid.
+ */
+export const POST: APIRoute = async ({ request, url }) => {
+  const cartId = getCartIdFromRequest(request);
+  if (!cartId) {
+    return new Response(JSON.stringify({ error: 'Cart is empty' }), {
+      status: 400,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  let orderId: string | undefined;
+  let sessionId: string | undefined;
+
+  try {
+    for (const previous of await getPendingCheckoutOrders(cartId)) {
+      const status = await expireCheckoutSession(previous.stripeSessionId!);
+      if (status === 'complete') {
+        return new Response(JSON.stringify({ error: 'This cart has already been paid for' }), {
+          status: 409,
+          headers: { 'Content-Type': 'application/json' },
+        });
+      }
+      await markOrderSuperseded(previous.id);
+    }
+
+    const result = await createOrderFromCart(cartId);
+    if (!result.success || !result.order || !result.lineItems) {
+      return new Response(JSON.stringify({ error: result.error || 'Checkout failed' }), {
+        status: result.status ?? 500,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+    orderId = result.order.id;
+
+    const session = await createCartCheckoutSession({
+      orderId,
+      lineItems: result.lineItems,
+      successUrl: `${url.origin}/cart?checkout=success&order=${orderId}`,
+      cancelUrl: `${url.origin}/cart?checkout=cancelled`,
+      // Expire with the stock holds so an abandoned checkout frees the stock
+      expiresInMinutes: CHECKOUT_SESSION_MINUTES,
+      discount: result.discount,
+    });
+
+    sessionId = session.id;
+
+    await attachCheckoutSession(orderId, session.id);
+    // Only now that the buyer can pay, hold the stock for the whole session
+    await extendCartReservations(cartId, CHECKOUT_RESERVATION_MINUTES);
+
+    return new Response(JSON.stringify({ url: session.url, orderId }), {
+      status: 200,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    console.error('[cart/checkout] Error:', error);
+    // Don't leave a pending order (or a payable session) behind for a checkout that failed
+    if (sessionId) {
+      await expireCheckoutSession(sessionId).catch(() => {});
+    }
+    if (orderId) {
+      await markOrderAbandoned(orderId).catch(() => {});
+    }
+    return new Response(JSON.stringify({ error: 'Failed to start checkout' }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+};
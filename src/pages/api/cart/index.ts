@@ -6,9 +6,12 @@ import {
   getCartIdFromRequest, 
   createCart, 
   getCartForApp,
+  updateCartItemByKey,
   CART_COOKIE_NAME,
   CART_COOKIE_MAX_AGE 
 } from '@lib/db/queries';
+import { parseCartKey } from '@lib/cart-key';
+import { reserveStock, releaseReservation } from '@lib/reservations';
 
 export const GET: APIRoute = async ({ request }) => {
   const cartId = getCartIdFromRequest(request) ?? await createCart();
@@ -22,3 +25,52 @@ export const GET: APIRoute = async ({ request }) => {
     },
   });
 };
+
+/**
+ * PATCH /api/cart
+ * Set a line's quantity ({ key, quantity }); 0 removes the line.
+ */
+export const PATCH: APIRoute = async ({ request }) => {
+  try {
+    const cartId = getCartIdFromRequest(request);
+    const { key, quantity } = await request.json();
+
+    if (!cartId || typeof key !== 'string' || !key || !Number.isInteger(quantity) || quantity < 0) {
+      return new Response(JSON.stringify({ error: 'Invalid cart item or quantity' }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    const { productId, size } = parseCartKey(key);
+
+    if (quantity === 0) {
+      await releaseReservation(cartId, productId, size);
+    } else {
+      const reservation = await reserveStock(cartId, productId, size, quantity);
+      if (!reservation.success) {
+        return new Response(JSON.stringify({
+          error: reservation.error,
+          code: reservation.code,
+          available: reservation.available,
+        }), {
+          status: reservation.status ?? 409,
+          headers: { 'Content-Type': 'application/json' },
+        });
+      }
+    }
+
+    await updateCartItemByKey(cartId, key, quantity);
+    const cart = await getCartForApp(cartId);
+
+    return new Response(JSON.stringify({ cart }), {
+      status: 200,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    return new Response(JSON.stringify({ error: 'Failed to update cart' }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+};
@@ -0,0 +1,40 @@
+import type { APIRoute } from 'astro';
+
+export const prerender = false;
+
+import { getCartIdFromRequest, getCartForApp, updateCartItemByKey } from '@lib/db/queries';
+import { parseCartKey } from '@lib/cart-key';
+import { releaseReservation } from '@lib/reservations';
+
+/**
+ * DELETE /api/cart/items/[key]
+ * Remove a line from the cart and release its stock hold.
+ */
+export const DELETE: APIRoute = async ({ request, params }) => {
+  try {
+    const cartId = getCartIdFromRequest(request);
+    const key = params.key;
+
+    if (!cartId || !key) {
+      return new Response(JSON.stringify({ error: 'Cart item not found' }), {
+        status: 404,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    const { productId, size } = parseCartKey(key);
+    await updateCartItemByKey(cartId, key, 0);
+    await releaseReservation(cartId, productId, size);
+    const cart = await getCartForApp(cartId);
+
+    return new Response(JSON.stringify({ cart }), {
+      status: 200,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    return new Response(JSON.stringify({ error: 'Failed to remove item' }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+};
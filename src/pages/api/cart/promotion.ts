@@ -0,0 +1,77 @@
+import type { APIRoute } from 'astro';
+
+export const prerender = false;
+
+import { getCartIdFromRequest, getCartForApp } from '@lib/db/queries';
+import { setCartPromotionCode } from '@lib/promotions';
+
+/**
+ * POST /api/cart/promotion
+ * Apply a promotion code ({ code }) to the current cart.
+ * A code that can't be used right now is rejected instead of being saved on the cart.
+ */
+export const POST: APIRoute = async ({ request }) => {
+  try {
+    const cartId = getCartIdFromRequest(request);
+    const { code } = await request.json();
+
+    if (!cartId || typeof code !== 'string' || !code.trim() || code.length > 50) {
+      return new Response(JSON.stringify({ error: 'Enter a promotion code' }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    await setCartPromotionCode(cartId, code);
+    const cart = await getCartForApp(cartId);
+
+    if (cart?.promotionError) {
+      await setCartPromotionCode(cartId, null);
+      return new Response(JSON.stringify({ error: cart.promotionError }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    return new Response(JSON.stringify({ cart }), {
+      status: 200,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    console.error('[cart/promotion] Error:', error);
+    return new Response(JSON.stringify({ error: 'Failed to apply promotion code' }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+};
+
+/**
+ * DELETE /api/cart/promotion
+ * Remove the promotion code from the current cart (running sales still apply).
+ */
+export const DELETE: APIRoute = async ({ request }) => {
+  try {
+    const cartId = getCartIdFromRequest(request);
+    if (!cartId) {
+      return new Response(JSON.stringify({ error: 'Cart is empty' }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    await setCartPromotionCode(cartId, null);
+    const cart = await getCartForApp(cartId);
+
+    return new Response(JSON.stringify({ cart }), {
+      status: 200,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    console.error('[cart/promotion] Error:', error);
+    return new Response(JSON.stringify({ error: 'Failed to remove promotion code' }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+};
@@ -2,14 +2,36 @@
  * Bunny Storage Upload Webhook Handler
  * 
  * Bunny calls this endpoint after file upload completes.
- * We save metadata to DB and trigger post-processing (Sharp/FFmpeg).
+ * We save metadata to DB and queue post-processing (Sharp/FFmpeg) for
+ * images and videos, which the media worker picks up.
  */
 
 import type { APIRoute } from 'astro';
 import { db } from '@lib/db';
 import { media } from '@lib/db/schema';
+import { enqueueMediaJob } from '@lib/media-jobs';
 import { logAction, AuditActions, AuditResources } from '@lib/audit';
 
+const MIME_TYPES: Record<string, string> = {
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  png: 'image/png',
+  gif: 'image/gif',
+  webp: 'image/webp',
+  avif: 'image/avif',
+  svg: 'image/svg+xml',
+  mp3: 'audio/mpeg',
+  wav: 'audio/wav',
+  ogg: 'audio/ogg',
+  flac: 'audio/flac',
+  aac: 'audio/aac',
+  m4a: 'audio/mp4',
+  mp4: 'video/mp4',
+  webm: 'video/webm',
+  mov: 'video/quicktime',
+  avi: 'video/avi',
+};
+
 interface BunnyUploadPayload {
   // Bunny Storage webhook payload
   StorageZoneName: string;
@@ -60,29 +82,32 @@ export const POST: APIRoute = async ({ request }) => {
     }
 
     // Build CDN URL
-    const cdnUrl = `${import.meta.env.BUNNY_CDN_URL}/${payload.Path}${payload.ObjectName}`;
+    const storagePath = `${payload.Path}${payload.ObjectName}`;
+    const cdnUrl = `${import.meta.env.BUNNY_CDN_URL}/${storagePath}`;
+    const ext = fileName.split('.').pop() || '';
+
+    // SVGs are served as they are; other images and videos get web variants
+    const needsProcessing = mediaType === 'video' || (mediaType === 'image' && ext !== 'svg');
     
     // Generate unique ID for our DB
     const mediaId = `med_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
     
     // Save to database
-    const [savedMedia] = await db.insert(media).values({
+    await db.insert(media).values({
       id: mediaId,
+      filename: payload.ObjectName,
       originalName: payload.ObjectName,
-      cdnUrl: cdnUrl,
-      bunnyPath: `${payload.Path}${payload.ObjectName}`,
-      size: payload.Size,
+      mimeType: MIME_TYPES[ext] || 'application/octet-stream',
+      fileSize: payload.Size,
+      url: cdnUrl,
+      path: storagePath,
       mediaType: mediaType,
-      status: 'pending', // Will be 'processed' after Sharp/FFmpeg runs
-      metadata: {
-        bunnyStorageZone: payload.StorageZoneName,
-        bunnyServerId: payload.ServerId,
-        uploadedVia: 'bunny-widget',
-        source: payload.Metadata?.source || 'unknown',
-      },
+      status: needsProcessing ? 'pending' : 'ready', // 'ready' once the media worker has run
+      originalPath: needsProcessing ? storagePath : null,
+      uploadedBy: payload.Metadata?.uploadedBy || 'bunny-widget',
       createdAt: new Date(),
       updatedAt: new Date(),
-    }).returning();
+    });
 
     // Log the upload
     await logAction(
@@ -101,14 +126,15 @@ export const POST: APIRoute = async ({ request }) => {
       'File uploaded via Bunny Widget'
     );
 
-    // Trigger post-processing (Sharp for images, FFmpeg for audio)
-    // This runs async - we don't wait for it
-    await triggerPostProcessing(mediaId, cdnUrl, mediaType);
+    // Queue post-processing (Sharp for images, FFmpeg for video)
+    if (needsProcessing) {
+      await enqueueMediaJob(mediaId);
+    }
 
     return new Response(JSON.stringify({ 
       success: true, 
       mediaId,
-      status: 'pending_processing'
+      status: needsProcessing ? 'pending' : 'ready'
     }), { 
       status: 200,
       headers: { 'Content-Type': 'application/json' }
@@ -125,37 +151,3 @@ export const POST: APIRoute = async ({ request }) => {
     });
   }
 };
-
-async function triggerPostProcessing(
-  mediaId: string, 
-  cdnUrl: string, 
-  mediaType: 'image' | 'audio' | 'video' | 'document'
-) {
-  try {
-    // Call your existing media processor
-    // This could be a queue job, direct function call, or API call
-    
-    if (mediaType === 'image') {
-      // Trigger Sharp processing (generate thumbnails, WebP, AVIF)
-      await fetch(`${import.meta.env.SITE_URL}/api/admin/media/process`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ mediaId, cdnUrl }),
-      });
-    } else if (mediaType === 'audio') {
-      // Trigger FFmpeg processing (waveform, transcoding)
-      await fetch(`${import.meta.env.SITE_URL}/api/admin/audio/process`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ mediaId, cdnUrl }),
-      });
-    }
-    
-    // For video, you might want Bunny Stream instead
-    // For documents, no processing needed
-    
-  } catch (error) {
-    console.error('[Post-processing] Failed to trigger:', error);
-    // Don't fail the upload - processing can be retried manually
-  }
-}
@@ -0,0 +1,73 @@
+/**
+ * Stripe Webhook Handler
+ *
+ * POST /api/webhooks/stripe
+ * Verifies the Stripe-Signature header, then finalizes orders:
+ * - checkout.session.completed → paid (decrements inventory, clears cart)
+ * - charge.refunded            → refunded
+ * - checkout.session.expired   → abandoned (and its discount coupon deleted)
+ */
+
+export const prerender = false;
+
+import type { APIRoute } from 'astro';
+import type Stripe from 'stripe';
+import { stripe, deleteSessionCoupon } from '@lib/stripe';
+import { handleStripeEvent } from '@lib/stripe-webhooks';
+
+export const POST: APIRoute = async ({ request }) => {
+  const secret = process.env.STRIPE_WEBHOOK_SECRET;
+  if (!secret) {
+    console.error('[Stripe Webhook] STRIPE_WEBHOOK_SECRET is not set');
+    return new Response(JSON.stringify({ error: 'Webhook not configured' }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  const signature = request.headers.get('stripe-signature');
+  if (!signature) {
+    return new Response(JSON.stringify({ error: 'Missing signature' }), {
+      status: 400,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  // Signature is computed over the raw body, so read it as text
+  const payload = await request.text();
+
+  let event: Stripe.Event;
+  try {
+    event = stripe.webhooks.constructEvent(payload, signature, secret);
+  } catch (error) {
+    console.warn('[Stripe Webhook] Signature verification failed:', error);
+    return new Response(JSON.stringify({ error: 'Invalid signature' }), {
+      status: 400,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  try {
+    const result = await handleStripeEvent(event);
+    console.log(`[Stripe Webhook] ${event.type} (${event.id}): ${result.message}`);
+
+    // Needs the Stripe API, so it stays out of the replayable handlers
+    if (event.type === 'checkout.session.expired') {
+      await deleteSessionCoupon(event.data.object).catch((error) => {
+        console.error(`[Stripe Webhook] Could not delete the coupon of ${event.data.object.id}:`, error);
+      });
+    }
+
+    return new Response(JSON.stringify({ received: true, ...result }), {
+      status: 200,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    console.error(`[Stripe Webhook] Failed to handle ${event.type} (${event.id}):`, error);
+    // 500 so Stripe retries; handlers are idempotent
+    return new Response(JSON.stringify({ error: 'Failed to process event' }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+};
@@ -0,0 +1,30 @@
+export const prerender = false;
+
+/**
+ * Podcast Feed
+ *
+ * GET /audio/feed.xml - RSS feed of published audio posts for podcast apps.
+ * Channel metadata is edited on the admin audio page.
+ */
+
+import type { APIRoute } from 'astro';
+import { buildPodcastFeed } from '@lib/podcast-feed';
+
+export const GET: APIRoute = async ({ url }) => {
+  try {
+    const feed = await buildPodcastFeed(url.origin);
+    return new Response(feed, {
+      status: 200,
+      headers: {
+        'Content-Type': 'application/rss+xml; charset=utf-8',
+        'Cache-Control': 'public, max-age=600',
+      },
+    });
+  } catch (error) {
+    console.error('Error building podcast feed:', error);
+    return new Response('Failed to build feed', {
+      status: 500,
+      headers: { 'Content-Type': 'text/plain' },
+    });
+  }
+};